@@ -15,9 +15,12 @@ import Login from "./pages/Login";
 import Elections from "./pages/Elections";
 import ElectionPage from "./pages/ElectionPage";
 import ElectionResultsPage from "./pages/ElectionResultsPage";
+import BallotBoardPage from "./pages/BallotBoardPage";
 import CreateElection from "./pages/CreateElection";
+import EditElection from "./pages/EditElection";
 import Admin from "./pages/Admin";
 import ProfilePage from "./pages/ProfilePage";
+import ResetPasswordPage from "./pages/ResetPasswordPage";
 import Home from "./pages/Home";
 
 const queryClient = new QueryClient();
@@ -37,10 +40,13 @@ const App = () => (
                   <Route path="/" element={<Index />} />
                   <Route path="/home" element={<Home />} />
                   <Route path="/login" element={<Login />} />
+                  <Route path="/reset-password" element={<ResetPasswordPage />} />
                   <Route path="/elections" element={<Elections />} />
                   <Route path="/elections/:id" element={<ElectionPage />} />
                   <Route path="/elections/:id/results" element={<ElectionResultsPage />} />
+                  <Route path="/elections/:id/ballots" element={<BallotBoardPage />} />
                   <Route path="/elections/create" element={<CreateElection />} />
+                  <Route path="/elections/:id/edit" element={<EditElection />} />
                   <Route path="/admin" element={<Admin />} />
                   <Route path="/profile" element={<ProfilePage />} />
                   <Route path="*" element={<NotFound />} />
@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LogOut, RefreshCw } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { describeUserAgent, fetchActiveSessions, signOutOtherSessions } from '@/lib/loginHistory';
+import { ActiveSession } from '@/types';
+
+interface ActiveSessionsProps {
+  // Only this member's sessions; otherwise every member's, for admins
+  userId?: string;
+}
+
+const formatDateTime = (date: Date) => format(date, 'MMM d, yyyy HH:mm');
+
+// Where an account is signed in, with a way for the member to end every
+// session but the one in use. Ended sessions are signed out once their
+// access token expires, within the hour. Admins end a member's sessions by
+// deactivating the member.
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ userId }) => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    setSessions(await fetchActiveSessions(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const ownSessions = userId !== undefined && userId === user?.id;
+  const otherCount = sessions.filter(session => !session.isCurrent).length;
+
+  const endOtherSessions = async () => {
+    setIsSaving(true);
+    try {
+      await signOutOtherSessions();
+      toast({
+        title: 'Other sessions ended',
+        description: 'Those devices will be signed out within the hour',
+      });
+      setConfirmOpen(false);
+      loadSessions();
+    } catch (error) {
+      console.error('Error ending session:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The session could not be ended',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end gap-2">
+        {ownSessions && otherCount > 0 && (
+          <Button variant="outline" size="sm" className="text-red-600" onClick={() => setConfirmOpen(true)}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out Other Sessions
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={loadSessions} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+      {loading ? (
+        <Skeleton className="h-8" />
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No active sessions.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              {!userId && <TableHead>Member</TableHead>}
+              <TableHead>Signed In</TableHead>
+              <TableHead>Last Active</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map(session => (
+              <TableRow key={session.id}>
+                <TableCell className="text-sm" title={session.userAgent}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {describeUserAgent(session.userAgent)}
+                    {session.isCurrent && <Badge variant="outline" className="bg-green-50 text-green-800">This device</Badge>}
+                  </div>
+                </TableCell>
+                {!userId && <TableCell className="text-sm">{session.email ?? session.userId}</TableCell>}
+                <TableCell className="text-sm whitespace-nowrap">{formatDateTime(session.createdAt)}</TableCell>
+                <TableCell className="text-sm whitespace-nowrap">{formatDateTime(session.lastActiveAt)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sign out your other sessions?</DialogTitle>
+            <DialogDescription>
+              Every other browser and device signed in to your account ({otherCount}) will be signed out within the hour.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={endOtherSessions} disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+              {isSaving ? 'Ending...' : 'Sign Out Others'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ActiveSessions;
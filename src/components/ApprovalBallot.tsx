@@ -0,0 +1,70 @@
+import React from 'react';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Candidate } from '@/types';
+
+interface ApprovalBallotProps {
+  candidates: Candidate[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  maxSelections?: number; // No limit for approval ballots
+  disabled?: boolean;
+}
+
+// Checkbox ballot for approval and choose-N elections. Once the voter has
+// marked the maximum number of candidates, the remaining boxes are disabled.
+const ApprovalBallot: React.FC<ApprovalBallotProps> = ({ candidates, selected, onChange, maxSelections, disabled }) => {
+  const atLimit = !!maxSelections && selected.length >= maxSelections;
+
+  const toggle = (candidateId: string, checked: boolean) => {
+    if (checked) {
+      if (atLimit) return;
+      onChange([...selected, candidateId]);
+    } else {
+      onChange(selected.filter(id => id !== candidateId));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center text-sm">
+        <span className="text-muted-foreground">
+          {maxSelections ? `Select up to ${maxSelections}` : 'Select every candidate you approve of'}
+        </span>
+        <span className={`font-medium ${atLimit ? 'text-vote-700' : ''}`} aria-live="polite">
+          {selected.length}{maxSelections ? ` of ${maxSelections}` : ''} selected
+        </span>
+      </div>
+
+      {candidates.map((candidate) => {
+        const isSelected = selected.includes(candidate.id);
+        const isDisabled = disabled || (!isSelected && atLimit);
+
+        return (
+          <div
+            key={candidate.id}
+            className={`flex items-start space-x-3 border rounded-lg p-4 transition-colors ${isSelected ? 'bg-vote-100 border-vote-200' : 'hover:bg-slate-50'} ${isDisabled && !isSelected ? 'opacity-60' : ''}`}
+          >
+            <Checkbox
+              id={`candidate-${candidate.id}`}
+              checked={isSelected}
+              onCheckedChange={(checked) => toggle(candidate.id, checked === true)}
+              disabled={isDisabled}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <Label htmlFor={`candidate-${candidate.id}`} className="text-base font-medium cursor-pointer">
+                {candidate.name}
+              </Label>
+              {candidate.description && (
+                <p className="text-sm text-muted-foreground mt-1">{candidate.description}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ApprovalBallot;
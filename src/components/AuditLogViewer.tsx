@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, CircleCheck, CircleX, Download, RefreshCw, ShieldCheck } from "lucide-react";
+import { format, addDays } from 'date-fns';
+import { AuditLog, AuditAction } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useElections } from '@/contexts/ElectionContext';
+import { supabase, fetchAuditLogs } from '@/integrations/supabase/client';
+import {
+  verifyAuditChain,
+  AuditChainVerification,
+  AUDIT_ACTIONS,
+  formatAuditAction,
+  filterAuditLogs,
+  AuditLogFilter,
+  auditLogsToCsv,
+  auditLogsToJsonLines,
+  buildAuditExportManifest,
+  AuditExportManifest,
+} from '@/lib/auditLog';
+
+const PAGE_SIZE = 25;
+const ALL = 'all';
+
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…`;
+
+const downloadFile = (contents: string, fileName: string, type: string) => {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Admin view of the hash-chained audit log, newest first
+const AuditLogViewer = () => {
+  const { user } = useAuth();
+  const { getElectionById } = useElections();
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [actionFilter, setActionFilter] = useState<string>(ALL);
+  const [userFilter, setUserFilter] = useState('');
+  const [electionFilter, setElectionFilter] = useState<string>(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(0);
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    setLogs(await fetchAuditLogs());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadLogs();
+
+    const channel = supabase
+      .channel('public:audit_logs')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'audit_logs' }, () => {
+        loadLogs();
+        // A new entry extends the chain, so any earlier result is out of date
+        setVerification(null);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadLogs]);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      // Verify against a fresh copy rather than whatever is on screen
+      const entries = await fetchAuditLogs();
+      setLogs(entries);
+      setVerification(await verifyAuditChain(entries));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // Date inputs are whole local days; the "to" day is included
+  const filter: AuditLogFilter = {
+    action: actionFilter === ALL ? undefined : actionFilter as AuditAction,
+    userId: userFilter || undefined,
+    electionId: electionFilter === ALL ? undefined : electionFilter,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    to: toDate ? addDays(new Date(`${toDate}T00:00:00`), 1) : undefined,
+  };
+
+  const filtered = filterAuditLogs(logs, filter).sort((a, b) => b.seq - a.seq);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageEntries = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const brokenId = verification?.brokenEntry?.id;
+
+  const electionIds = Array.from(new Set(logs.map(log => log.electionId).filter(Boolean))) as string[];
+  const electionLabel = (electionId: string) => getElectionById(electionId)?.title ?? electionId;
+
+  // Any change to the filters starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setActionFilter(ALL);
+    setUserFilter('');
+    setElectionFilter(ALL);
+    setFromDate('');
+    setToDate('');
+    setPage(0);
+  };
+
+  // Export the filtered entries in chain order, plus a hash manifest
+  const handleExport = async (exportFormat: AuditExportManifest['format']) => {
+    const entries = [...filtered].sort((a, b) => a.seq - b.seq);
+    const baseName = `audit-log-${format(new Date(), 'yyyyMMdd-HHmmss')}`;
+    const fileName = `${baseName}.${exportFormat}`;
+    const contents = exportFormat === 'csv' ? auditLogsToCsv(entries) : auditLogsToJsonLines(entries);
+    const manifest = await buildAuditExportManifest(fileName, exportFormat, contents, entries, logs, filter, user?.id);
+
+    downloadFile(contents, fileName, exportFormat === 'csv' ? 'text/csv;charset=utf-8;' : 'application/x-ndjson');
+    downloadFile(JSON.stringify(manifest, null, 2), `${baseName}.manifest.json`, 'application/json');
+  };
+
+  const hasFilters = actionFilter !== ALL || userFilter || electionFilter !== ALL || fromDate || toDate;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="audit-action">Action</Label>
+          <Select value={actionFilter} onValueChange={updateFilter(setActionFilter)}>
+            <SelectTrigger id="audit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {AUDIT_ACTIONS.map(action => (
+                <SelectItem key={action} value={action}>{formatAuditAction(action)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-user">User ID</Label>
+          <Input
+            id="audit-user"
+            value={userFilter}
+            onChange={(e) => updateFilter(setUserFilter)(e.target.value)}
+            placeholder="Any user"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-election">Election</Label>
+          <Select value={electionFilter} onValueChange={updateFilter(setElectionFilter)}>
+            <SelectTrigger id="audit-election">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All elections</SelectItem>
+              {electionIds.map(electionId => (
+                <SelectItem key={electionId} value={electionId}>{electionLabel(electionId)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" value={fromDate} onChange={(e) => updateFilter(setFromDate)(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" value={toDate} onChange={(e) => updateFilter(setToDate)(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-muted-foreground">
+          {loading ? '...' : hasFilters ? `${filtered.length} of ${logs.length}` : logs.length} {logs.length === 1 ? 'entry' : 'entries'}
+          {hasFilters && (
+            <Button variant="link" size="sm" onClick={clearFilters}>Clear filters</Button>
+          )}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadLogs} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={handleVerify} disabled={verifying || loading}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            {verifying ? 'Verifying...' : 'Verify Chain'}
+          </Button>
+        </div>
+      </div>
+
+      {verification && (
+        verification.valid ? (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center">
+            <CircleCheck className="h-5 w-5 text-green-600 mr-3 flex-shrink-0" />
+            <p className="text-sm text-green-800">
+              All {verification.checked} entries verified. Every hash matches its entry and links to the one before it.
+            </p>
+          </div>
+        ) : (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <CircleX className="h-5 w-5 text-red-600 mr-3 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-red-800">
+              <p className="font-medium">
+                Chain broken at entry #{verification.brokenEntry?.seq}
+                {verification.brokenEntry && ` (${format(verification.brokenEntry.timestamp, "yyyy-MM-dd HH:mm:ss")})`}
+              </p>
+              <p>
+                {verification.reason === 'hash_mismatch'
+                  ? 'The contents of this entry no longer match its stored hash; it has been altered.'
+                  : 'This entry does not link to the hash of the entry before it; an entry has been removed, inserted or altered.'}
+                {' '}The {verification.checked} entries before it verified correctly.
+              </p>
+            </div>
+          </div>
+        )
+      )}
+
+      {loading ? (
+        <div className="space-y-2">
+          {Array(5).fill(0).map((_, i) => (
+            <Skeleton key={i} className="h-8" />
+          ))}
+        </div>
+      ) : logs.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">No audit log entries yet.</p>
+      ) : filtered.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">No entries match these filters.</p>
+      ) : (
+        <div className="border rounded-md max-h-[32rem] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Hash</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageEntries.map((log) => (
+                <TableRow key={log.id} className={log.id === brokenId ? 'bg-red-50' : ''}>
+                  <TableCell className="text-sm text-muted-foreground">{log.seq}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{format(log.timestamp, "yyyy-MM-dd HH:mm:ss")}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="whitespace-nowrap">{formatAuditAction(log.action)}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{log.userId ? log.userId.slice(0, 8) : '—'}</TableCell>
+                  <TableCell className="text-sm">{log.details}</TableCell>
+                  <TableCell className="font-mono text-xs" title={log.hash}>{shortHash(log.hash)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mt-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {currentPage + 1} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={filtered.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('jsonl')} disabled={filtered.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export JSON Lines
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground text-right">
+        Each export comes with a .manifest.json listing the SHA-256 of the file and the chain hash of every exported entry.
+      </p>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CircleCheck, CircleX, Search, Shield } from "lucide-react";
+import { useElections } from '@/contexts/ElectionContext';
+import { supabase, fetchBallotHashes } from '@/integrations/supabase/client';
+
+// Public list of every ballot hash in an election, so voters can check that
+// their receipt was counted. Hashes are sorted, never timestamped, so the
+// order reveals nothing about who voted when.
+const BallotBoard = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { getElectionById } = useElections();
+  const [ballotHashes, setBallotHashes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [receipt, setReceipt] = useState(searchParams.get('receipt') ?? '');
+  const [checkedReceipt, setCheckedReceipt] = useState<string | null>(searchParams.get('receipt'));
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadBallots = async () => {
+      setLoading(true);
+      const hashes = await fetchBallotHashes(id);
+      setBallotHashes(hashes);
+      setLoading(false);
+    };
+
+    loadBallots();
+
+    // New ballots appear on the board as they are cast
+    const channel = supabase
+      .channel(`public:votes:${id}`)
+      .on('postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'votes',
+          filter: `election_id=eq.${id}`
+        },
+        () => {
+          loadBallots();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  if (!id) {
+    return <div>Election ID is missing</div>;
+  }
+
+  const election = getElectionById(id);
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCheckedReceipt(receipt.trim().toLowerCase());
+  };
+
+  const receiptFound = checkedReceipt ? ballotHashes.includes(checkedReceipt) : false;
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8">
+      <div className="mb-4">
+        <Button variant="outline" onClick={() => navigate(`/elections/${id}`)}>
+          Back to Election
+        </Button>
+      </div>
+
+      <Card className="shadow-lg border-slate-200">
+        <CardHeader>
+          <CardTitle className="text-2xl">
+            Ballot Bulletin Board{election ? `: ${election.title}` : ''}
+          </CardTitle>
+          <CardDescription className="text-base mt-2">
+            Every encrypted ballot cast in this election, identified by its SHA-256 hash. Nothing on this page
+            links a ballot to the voter who cast it.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <form onSubmit={handleCheck} className="flex gap-2 mb-4">
+            <Input
+              value={receipt}
+              onChange={(e) => setReceipt(e.target.value)}
+              placeholder="Paste your ballot receipt hash"
+              className="flex-1 font-mono text-xs"
+            />
+            <Button type="submit" disabled={!receipt.trim()}>
+              <Search className="h-4 w-4 mr-2" />
+              Check Receipt
+            </Button>
+          </form>
+
+          {checkedReceipt && !loading && (
+            receiptFound ? (
+              <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center">
+                <CircleCheck className="h-5 w-5 text-green-600 mr-3 flex-shrink-0" />
+                <p className="text-sm text-green-800">Your ballot is on the board and will be included in the count.</p>
+              </div>
+            ) : (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                <CircleX className="h-5 w-5 text-red-600 mr-3 flex-shrink-0" />
+                <p className="text-sm text-red-800">
+                  No ballot with this hash was found. Check the receipt for typos, or contact the election administrator.
+                </p>
+              </div>
+            )
+          )}
+
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-medium">Recorded Ballots</h3>
+            <span className="text-sm text-muted-foreground">{loading ? '...' : ballotHashes.length} total</span>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {Array(5).fill(0).map((_, i) => (
+                <Skeleton key={i} className="h-6" />
+              ))}
+            </div>
+          ) : ballotHashes.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No ballots have been cast yet.</p>
+          ) : (
+            <div className="border rounded-md max-h-96 overflow-y-auto divide-y">
+              {ballotHashes.map((hash) => (
+                <div
+                  key={hash}
+                  className={`px-3 py-2 font-mono text-xs break-all ${hash === checkedReceipt ? 'bg-green-100 text-green-900' : ''}`}
+                >
+                  {hash}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-6 p-4 bg-secure-100 rounded-lg border border-secure-200 flex items-center">
+            <Shield className="h-5 w-5 text-secure-600 mr-3 flex-shrink-0" />
+            <p className="text-sm text-secure-800">
+              Each hash is computed from the encrypted ballot, so it proves your ballot was recorded without revealing your choice.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BallotBoard;
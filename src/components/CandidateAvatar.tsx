@@ -0,0 +1,27 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { Candidate } from '@/types';
+
+interface CandidateAvatarProps {
+  candidate: Pick<Candidate, 'name' | 'photoUrl'>;
+  className?: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+// A candidate's photo, or their initials when they have none
+const CandidateAvatar: React.FC<CandidateAvatarProps> = ({ candidate, className }) => (
+  <Avatar className={cn("h-12 w-12", className)}>
+    {candidate.photoUrl && <AvatarImage src={candidate.photoUrl} alt={candidate.name} className="object-cover" />}
+    <AvatarFallback className="bg-vote-100 text-vote-800 font-medium">{initials(candidate.name)}</AvatarFallback>
+  </Avatar>
+);
+
+export default CandidateAvatar;
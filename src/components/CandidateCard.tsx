@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Candidate } from '@/types';
+import CandidateAvatar from './CandidateAvatar';
+import CandidateProfileDialog from './CandidateProfileDialog';
+
+interface CandidateCardProps {
+  candidate: Candidate;
+  actions?: React.ReactNode; // Shown at the right of the card, e.g. admin edit buttons
+}
+
+// Summary of a candidate with a button to open their full profile
+const CandidateCard: React.FC<CandidateCardProps> = ({ candidate, actions }) => (
+  <div className="border rounded-lg p-4 flex items-start gap-4">
+    <CandidateAvatar candidate={candidate} />
+    <div className="flex-1 min-w-0">
+      <h4 className="text-base font-medium">{candidate.name}</h4>
+      {candidate.description && (
+        <p className="text-sm text-muted-foreground mt-1">{candidate.description}</p>
+      )}
+      <CandidateProfileDialog candidate={candidate}>
+        <Button variant="link" size="sm" className="px-0 h-auto mt-1 text-vote-700">
+          View profile
+        </Button>
+      </CandidateProfileDialog>
+    </div>
+    {actions}
+  </div>
+);
+
+export default CandidateCard;
@@ -0,0 +1,67 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ExternalLink } from "lucide-react";
+import { Candidate } from '@/types';
+import CandidateAvatar from './CandidateAvatar';
+
+interface CandidateProfileDialogProps {
+  candidate: Candidate;
+  children: React.ReactNode; // The element that opens the dialog
+}
+
+// A candidate's full profile: photo, description, manifesto and links.
+// Manifestos are markdown; raw HTML in them is not rendered.
+const CandidateProfileDialog: React.FC<CandidateProfileDialogProps> = ({ candidate, children }) => (
+  <Dialog>
+    <DialogTrigger asChild>{children}</DialogTrigger>
+    <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+      <DialogHeader className="flex-row items-center gap-4 space-y-0 text-left">
+        <CandidateAvatar candidate={candidate} className="h-20 w-20 text-xl" />
+        <div>
+          <DialogTitle className="text-xl">{candidate.name}</DialogTitle>
+          {candidate.description && (
+            <DialogDescription className="mt-1">{candidate.description}</DialogDescription>
+          )}
+        </div>
+      </DialogHeader>
+
+      {candidate.manifesto ? (
+        <div className="prose prose-sm max-w-none">
+          <ReactMarkdown
+            components={{
+              a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+            }}
+          >
+            {candidate.manifesto}
+          </ReactMarkdown>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">This candidate has not published a manifesto.</p>
+      )}
+
+      {candidate.links && candidate.links.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Links</h4>
+          <ul className="space-y-1">
+            {candidate.links.map((link) => (
+              <li key={link.url}>
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-vote-700 hover:underline inline-flex items-center"
+                >
+                  <ExternalLink className="h-3 w-3 mr-1" />
+                  {link.label || link.url}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default CandidateProfileDialog;
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { CircleX, Loader2, Plus, Upload } from 'lucide-react';
+import { Candidate } from '@/types';
+import { ACCEPTED_PHOTO_TYPES, photoStorage, photoValidationError } from '@/lib/candidateProfiles';
+import CandidateAvatar from './CandidateAvatar';
+
+export type CandidateProfileDraft = Omit<Candidate, 'id'>;
+
+interface CandidateProfileFieldsProps {
+  idPrefix: string;
+  electionId?: string; // Omitted while the election is being created
+  value: CandidateProfileDraft;
+  onChange: (value: CandidateProfileDraft) => void;
+}
+
+// Inputs for a candidate's name, description, photo, manifesto and links
+const CandidateProfileFields: React.FC<CandidateProfileFieldsProps> = ({ idPrefix, electionId, value, onChange }) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const update = (changes: Partial<CandidateProfileDraft>) => onChange({ ...value, ...changes });
+  const links = value.links ?? [];
+
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const problem = photoValidationError(file);
+    if (problem) {
+      toast({ title: "Photo not accepted", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const photoUrl = await photoStorage.upload(file, electionId);
+      update({ photoUrl });
+    } catch (error) {
+      console.error("Error uploading candidate photo:", error);
+      toast({
+        title: "Photo upload failed",
+        description: error instanceof Error ? error.message : "The photo could not be uploaded.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const updateLink = (index: number, changes: Partial<{ label: string; url: string }>) => {
+    update({ links: links.map((link, i) => (i === index ? { ...link, ...changes } : link)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-name`}>Candidate Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={value.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Enter candidate name"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description (optional)</Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          value={value.description ?? ''}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Brief candidate description or platform"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Photo (optional)</Label>
+        <div className="flex items-center gap-3">
+          <CandidateAvatar candidate={{ name: value.name || '?', photoUrl: value.photoUrl }} />
+          <input
+            ref={fileInput}
+            type="file"
+            accept={ACCEPTED_PHOTO_TYPES}
+            className="hidden"
+            onChange={handlePhotoSelected}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={isUploading}>
+            {isUploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+            {value.photoUrl ? 'Replace Photo' : 'Upload Photo'}
+          </Button>
+          {value.photoUrl && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => update({ photoUrl: undefined })}>
+              Remove
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">JPEG, PNG, WebP or GIF, up to 2 MB.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-manifesto`}>Manifesto (optional)</Label>
+        <Textarea
+          id={`${idPrefix}-manifesto`}
+          value={value.manifesto ?? ''}
+          onChange={(e) => update({ manifesto: e.target.value })}
+          placeholder="What the candidate stands for"
+          rows={6}
+        />
+        <p className="text-sm text-muted-foreground">
+          Markdown is supported: **bold**, *italic*, lists, headings and links.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Links (optional)</Label>
+        {links.map((link, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={link.label}
+              onChange={(e) => updateLink(index, { label: e.target.value })}
+              placeholder="Label, e.g. Website"
+              aria-label={`Link ${index + 1} label`}
+              className="w-1/3"
+            />
+            <Input
+              value={link.url}
+              onChange={(e) => updateLink(index, { url: e.target.value })}
+              placeholder="https://"
+              aria-label={`Link ${index + 1} URL`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => update({ links: links.filter((_, i) => i !== index) })}
+              className="text-red-500 hover:text-red-700 hover:bg-red-50 flex-shrink-0"
+              aria-label={`Remove link ${index + 1}`}
+            >
+              <CircleX className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => update({ links: [...links, { label: '', url: '' }] })}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Link
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateProfileFields;
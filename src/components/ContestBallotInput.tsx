@@ -0,0 +1,88 @@
+import React from 'react';
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Contest, ContestBallot, PropositionChoice } from '@/types';
+import { PROPOSITION_CHOICE_LABELS, selectedOptions } from '@/lib/contests';
+import { PROPOSITION_CHOICES } from '@/lib/tally';
+import RankedChoiceBallot from './RankedChoiceBallot';
+import ApprovalBallot from './ApprovalBallot';
+
+interface ContestBallotInputProps {
+  contest: Contest;
+  value?: ContestBallot;
+  onChange: (value: ContestBallot | undefined) => void; // undefined clears the contest
+  disabled?: boolean;
+}
+
+// Ballot input for one contest, in the style its voting method needs
+const ContestBallotInput: React.FC<ContestBallotInputProps> = ({ contest, value, onChange, disabled }) => {
+  const selected = selectedOptions(value);
+
+  if (contest.votingMethod === 'proposition') {
+    return (
+      <RadioGroup
+        value={selected[0] || ""}
+        onValueChange={(choice) => onChange({ choice: choice as PropositionChoice })}
+        className="space-y-3"
+        disabled={disabled}
+      >
+        {PROPOSITION_CHOICES.map((choice) => (
+          <div key={choice} className="flex items-center space-x-3 border rounded-lg p-4 hover:bg-slate-50 transition-colors">
+            <RadioGroupItem value={choice} id={`contest-${contest.id}-${choice}`} />
+            <Label htmlFor={`contest-${contest.id}-${choice}`} className="text-base font-medium cursor-pointer flex-1">
+              {PROPOSITION_CHOICE_LABELS[choice]}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    );
+  }
+
+  if (contest.votingMethod === 'ranked_choice') {
+    return (
+      <RankedChoiceBallot
+        candidates={contest.candidates}
+        rankings={selected}
+        onChange={(rankings) => onChange(rankings.length > 0 ? { rankings } : undefined)}
+        disabled={disabled}
+      />
+    );
+  }
+
+  if (contest.votingMethod === 'approval' || contest.votingMethod === 'choose_n') {
+    return (
+      <ApprovalBallot
+        candidates={contest.candidates}
+        selected={selected}
+        onChange={(candidateIds) => onChange(candidateIds.length > 0 ? { candidateIds } : undefined)}
+        maxSelections={contest.votingMethod === 'choose_n' ? contest.maxSelections : undefined}
+        disabled={disabled}
+      />
+    );
+  }
+
+  return (
+    <RadioGroup
+      value={selected[0] || ""}
+      onValueChange={(candidateId) => onChange({ candidateId })}
+      className="space-y-3"
+      disabled={disabled}
+    >
+      {contest.candidates.map((candidate) => (
+        <div key={candidate.id} className="flex items-start space-x-3 border rounded-lg p-4 hover:bg-slate-50 transition-colors">
+          <RadioGroupItem value={candidate.id} id={`candidate-${candidate.id}`} />
+          <div className="flex-1">
+            <Label htmlFor={`candidate-${candidate.id}`} className="text-base font-medium cursor-pointer">
+              {candidate.name}
+            </Label>
+            {candidate.description && (
+              <p className="text-sm text-muted-foreground mt-1">{candidate.description}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+};
+
+export default ContestBallotInput;
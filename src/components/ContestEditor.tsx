@@ -0,0 +1,411 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, CircleX, Edit, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Contest, PassThreshold, VotingMethod } from '@/types';
+import { describePassRule, isMultiWinner } from '@/lib/contests';
+import { PASS_THRESHOLD_LABELS } from '@/lib/tally';
+import { cleanLinks } from '@/lib/candidateProfiles';
+import { useToast } from '@/components/ui/use-toast';
+import CandidateAvatar from './CandidateAvatar';
+import CandidateProfileFields, { CandidateProfileDraft } from './CandidateProfileFields';
+
+interface ContestEditorProps {
+  electionId?: string; // Omitted while the election is being created
+  contest: Contest;
+  index: number;
+  total: number;
+  onChange: (contest: Contest) => void;
+  onMove: (index: number) => void;
+  onRemove?: () => void; // Omitted when this is the only contest
+  disabled?: boolean; // The ballot is locked once voting has started
+}
+
+const emptyCandidate: CandidateProfileDraft = { name: '', links: [] };
+
+// Editable settings and candidate list for one contest on the ballot
+const ContestEditor: React.FC<ContestEditorProps> = ({ electionId, contest, index, total, onChange, onMove, onRemove, disabled }) => {
+  const { toast } = useToast();
+  const [newCandidate, setNewCandidate] = useState<CandidateProfileDraft>(emptyCandidate);
+  const [editingCandidate, setEditingCandidate] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<CandidateProfileDraft>(emptyCandidate);
+
+  const update = (changes: Partial<Contest>) => onChange({ ...contest, ...changes });
+
+  const setVotingMethod = (votingMethod: VotingMethod) => {
+    update({
+      votingMethod,
+      seats: isMultiWinner(votingMethod) ? contest.seats : 1,
+      maxSelections: votingMethod === 'choose_n' ? contest.maxSelections ?? contest.seats : undefined,
+      passThreshold: votingMethod === 'proposition' ? contest.passThreshold ?? 'simple_majority' : undefined,
+      thresholdPercent: votingMethod === 'proposition' ? contest.thresholdPercent : undefined,
+      quorumPercent: votingMethod === 'proposition' ? contest.quorumPercent : undefined,
+    });
+  };
+
+  // Trimmed profile ready to store, or null if it cannot be saved yet
+  const cleanProfile = (draft: CandidateProfileDraft): CandidateProfileDraft | null => {
+    if (draft.name.trim() === '') return null;
+
+    const links = cleanLinks(draft.links);
+    if (!links) {
+      toast({
+        title: "Invalid link",
+        description: "Candidate links must be web addresses starting with http:// or https://.",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    return {
+      name: draft.name.trim(),
+      description: draft.description?.trim() || undefined,
+      photoUrl: draft.photoUrl || undefined,
+      manifesto: draft.manifesto?.trim() || undefined,
+      links,
+    };
+  };
+
+  const addCandidate = () => {
+    const profile = cleanProfile(newCandidate);
+    if (!profile) return;
+
+    update({ candidates: [...contest.candidates, { id: uuidv4(), ...profile }] });
+    setNewCandidate(emptyCandidate);
+  };
+
+  const removeCandidate = (id: string) => {
+    update({ candidates: contest.candidates.filter(candidate => candidate.id !== id) });
+  };
+
+  // Move a candidate to a new position on the ballot
+  const moveCandidate = (from: number, to: number) => {
+    if (to < 0 || to >= contest.candidates.length) return;
+    const reordered = [...contest.candidates];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    update({ candidates: reordered });
+  };
+
+  const startEditingCandidate = (id: string) => {
+    const candidate = contest.candidates.find(c => c.id === id);
+    if (!candidate) return;
+    const { id: _, ...profile } = candidate;
+    setEditingCandidate(id);
+    setEditDraft(profile);
+  };
+
+  const saveCandidate = () => {
+    const profile = cleanProfile(editDraft);
+    if (!profile) return;
+
+    update({
+      candidates: contest.candidates.map(candidate =>
+        candidate.id === editingCandidate ? { id: candidate.id, ...profile } : candidate
+      ),
+    });
+    setEditingCandidate(null);
+  };
+
+  const idPrefix = `contest-${contest.id}`;
+
+  return (
+    <fieldset disabled={disabled} className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Contest {index + 1}</h4>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(index - 1)}
+            disabled={index === 0}
+            aria-label="Move contest up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(index + 1)}
+            disabled={index === total - 1}
+            aria-label="Move contest down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          {onRemove && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              className="text-red-500 hover:text-red-700 hover:bg-red-50"
+              aria-label="Remove contest"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-title`}>Title</Label>
+        <Input
+          id={`${idPrefix}-title`}
+          value={contest.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="e.g. President"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description (optional)</Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          value={contest.description ?? ''}
+          onChange={(e) => update({ description: e.target.value || undefined })}
+          placeholder="What this position or question is about"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Voting Method</Label>
+        <Select value={contest.votingMethod} onValueChange={(value) => setVotingMethod(value as VotingMethod)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="plurality">Single choice (most votes wins)</SelectItem>
+            <SelectItem value="ranked_choice">Ranked choice (instant runoff)</SelectItem>
+            <SelectItem value="approval">Approval (approve any number)</SelectItem>
+            <SelectItem value="choose_n">Choose up to N</SelectItem>
+            <SelectItem value="proposition">Proposition (yes / no / abstain)</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          {contest.votingMethod === 'ranked_choice'
+            ? 'Voters rank the candidates in order of preference. The last-placed candidate is eliminated each round until one has a majority.'
+            : contest.votingMethod === 'approval'
+              ? 'Voters mark every candidate they approve of. The candidates with the most approvals win the seats.'
+              : contest.votingMethod === 'choose_n'
+                ? 'Voters mark up to a set number of candidates. The candidates with the most votes win the seats.'
+                : contest.votingMethod === 'proposition'
+                  ? 'Voters answer Yes, No or Abstain to the question in the title and description.'
+                  : 'Each voter picks one candidate.'}
+        </p>
+      </div>
+
+      {isMultiWinner(contest.votingMethod) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-seats`}>Seats</Label>
+            <Input
+              id={`${idPrefix}-seats`}
+              type="number"
+              min={1}
+              value={contest.seats}
+              onChange={(e) => update({ seats: Number(e.target.value) })}
+            />
+            <p className="text-sm text-muted-foreground">How many candidates will be elected.</p>
+          </div>
+
+          {contest.votingMethod === 'choose_n' && (
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-max-selections`}>Maximum Selections</Label>
+              <Input
+                id={`${idPrefix}-max-selections`}
+                type="number"
+                min={1}
+                value={contest.maxSelections ?? ''}
+                onChange={(e) => update({ maxSelections: Number(e.target.value) })}
+              />
+              <p className="text-sm text-muted-foreground">The most candidates each voter may select.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {contest.votingMethod === 'proposition' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Pass Threshold</Label>
+            <Select
+              value={contest.passThreshold ?? 'simple_majority'}
+              onValueChange={(value) => update({
+                passThreshold: value as PassThreshold,
+                thresholdPercent: value === 'percent_of_eligible' ? contest.thresholdPercent ?? 50 : undefined,
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PASS_THRESHOLD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {contest.passThreshold === 'percent_of_eligible' && (
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-threshold-percent`}>Yes Votes Needed (% of eligible voters)</Label>
+              <Input
+                id={`${idPrefix}-threshold-percent`}
+                type="number"
+                min={1}
+                max={100}
+                value={contest.thresholdPercent ?? ''}
+                onChange={(e) => update({ thresholdPercent: Number(e.target.value) })}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-quorum-percent`}>Quorum (% of eligible voters, optional)</Label>
+            <Input
+              id={`${idPrefix}-quorum-percent`}
+              type="number"
+              min={1}
+              max={100}
+              value={contest.quorumPercent ?? ''}
+              onChange={(e) => update({ quorumPercent: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground md:col-span-2">{describePassRule(contest)}</p>
+        </div>
+      )}
+
+      {contest.votingMethod !== 'proposition' && (
+        <div>
+          <h5 className="text-sm font-medium mb-2">Candidates</h5>
+
+          <div className="space-y-4 mb-4">
+            {contest.candidates.length === 0 ? (
+              <div className="text-center py-4 border border-dashed rounded-md">
+                <p className="text-muted-foreground">No candidates added yet.</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {contest.candidates.map((candidate, candidateIndex) => (
+                  editingCandidate === candidate.id ? (
+                    <div key={candidate.id} className="space-y-4 p-3 border rounded-md bg-slate-50">
+                      <CandidateProfileFields
+                        idPrefix={`candidate-${candidate.id}`}
+                        electionId={electionId}
+                        value={editDraft}
+                        onChange={setEditDraft}
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setEditingCandidate(null)}>
+                          Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={saveCandidate}>
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div
+                      key={candidate.id}
+                      className="flex items-start justify-between p-3 border rounded-md bg-slate-50"
+                    >
+                      <div className="flex items-start gap-3">
+                        <CandidateAvatar candidate={candidate} className="h-10 w-10" />
+                        <div>
+                          <p className="font-medium">{candidate.name}</p>
+                          {candidate.description && (
+                            <p className="text-sm text-muted-foreground">{candidate.description}</p>
+                          )}
+                          {(candidate.manifesto || (candidate.links?.length ?? 0) > 0) && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {[
+                                candidate.manifesto && 'Manifesto',
+                                candidate.links?.length && `${candidate.links.length} ${candidate.links.length === 1 ? 'link' : 'links'}`,
+                              ].filter(Boolean).join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => moveCandidate(candidateIndex, candidateIndex - 1)}
+                          disabled={candidateIndex === 0}
+                          aria-label={`Move ${candidate.name} up`}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => moveCandidate(candidateIndex, candidateIndex + 1)}
+                          disabled={candidateIndex === contest.candidates.length - 1}
+                          aria-label={`Move ${candidate.name} down`}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => startEditingCandidate(candidate.id)}
+                          aria-label={`Edit ${candidate.name}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeCandidate(candidate.id)}
+                          className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                          aria-label={`Remove ${candidate.name}`}
+                        >
+                          <CircleX className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                ))}
+              </div>
+            )}
+          </div>
+
+          {!disabled && (
+            <div className="space-y-4 border p-4 rounded-md bg-slate-50">
+              <CandidateProfileFields
+                idPrefix={`${idPrefix}-candidate`}
+                electionId={electionId}
+                value={newCandidate}
+                onChange={setNewCandidate}
+              />
+
+              <Button type="button" onClick={addCandidate} className="w-full">
+                Add Candidate
+              </Button>
+            </div>
+          )}
+
+          {contest.candidates.length < 2 && (
+            <p className="text-sm text-amber-600 mt-2 flex items-center">
+              <CircleX className="h-4 w-4 mr-1" />
+              At least 2 candidates are required.
+            </p>
+          )}
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default ContestEditor;
@@ -0,0 +1,209 @@
+import React from 'react';
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CircleCheck } from "lucide-react";
+import { Contest, ContestTally } from '@/types';
+import { allocateSeats } from '@/lib/tally';
+import InstantRunoffRounds from './InstantRunoffRounds';
+import PropositionResults from './PropositionResults';
+import CandidateAvatar from './CandidateAvatar';
+import CandidateProfileDialog from './CandidateProfileDialog';
+
+interface ContestResultsProps {
+  contest: Contest;
+  tally: ContestTally;
+  eligibleVoters?: number; // Recorded with the tally, for proposition thresholds
+  isClosed: boolean; // Winners are only announced once the election has closed
+}
+
+// Published results of one contest: the winners, the vote breakdown and,
+// for ranked-choice contests, the instant-runoff rounds. Propositions are
+// shown by PropositionResults.
+const ContestResults: React.FC<ContestResultsProps> = ({ contest, tally, eligibleVoters, isClosed }) => {
+  // Propositions have an outcome rather than winners
+  if (contest.votingMethod === 'proposition') {
+    return <PropositionResults contest={contest} tally={tally} eligibleVoters={eligibleVoters} isClosed={isClosed} />;
+  }
+
+  // Every candidate is listed, including those with no votes
+  const results: Record<string, number> = Object.fromEntries(
+    contest.candidates.map(candidate => [candidate.id, tally.counts[candidate.id] || 0])
+  );
+
+  // Get total votes
+  const totalVotes = Object.values(results).reduce((sum, count) => sum + count, 0);
+
+  // Sort candidates by vote count (descending)
+  const sortedCandidates = [...contest.candidates].sort((a, b) =>
+    (results[b.id] || 0) - (results[a.id] || 0)
+  );
+
+  // Ranked-choice winners come from the final instant-runoff round
+  const rounds = tally.rounds;
+  const finalRound = rounds?.[rounds.length - 1];
+  const finalRoundVotes = finalRound ? Object.values(finalRound.counts).reduce((sum, count) => sum + count, 0) : 0;
+
+  // Get the winner if election is closed
+  const getWinner = () => {
+    if (!isClosed || totalVotes === 0) return null;
+
+    if (contest.votingMethod === 'ranked_choice') {
+      return finalRound?.winnerId ? contest.candidates.find(c => c.id === finalRound.winnerId) : null;
+    }
+
+    let maxVotes = 0;
+    let winnerId = '';
+    let isTie = false;
+
+    for (const [candidateId, votes] of Object.entries(results)) {
+      if (votes > maxVotes) {
+        maxVotes = votes;
+        winnerId = candidateId;
+        isTie = false;
+      } else if (votes === maxVotes && votes > 0) {
+        isTie = true;
+      }
+    }
+
+    if (isTie) return null;
+
+    return contest.candidates.find(c => c.id === winnerId);
+  };
+
+  const winner = getWinner();
+
+  // Approval and choose-N contests fill several seats from the top of the count.
+  // Each ballot can mark several candidates, so percentages are of ballots, not votes.
+  const isMultiWinner = contest.votingMethod === 'approval' || contest.votingMethod === 'choose_n';
+  const seatAllocation = isMultiWinner && isClosed && totalVotes > 0
+    ? allocateSeats(results, contest.seats)
+    : null;
+  const percentageBase = isMultiWinner ? tally.validBallots : totalVotes;
+  const isElected = (candidateId: string) =>
+    seatAllocation ? seatAllocation.winners.includes(candidateId) : winner?.id === candidateId;
+  const candidateName = (candidateId: string) => contest.candidates.find(c => c.id === candidateId)?.name;
+
+  if (totalVotes === 0) {
+    return (
+      <div className="text-center py-8">
+        <h3 className="text-lg font-medium">No votes were cast in this contest</h3>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {seatAllocation && (
+        <div className="mb-8 space-y-4">
+          {seatAllocation.winners.length > 0 && (
+            <div className="bg-vote-100 p-4 rounded-lg border border-vote-200 text-center">
+              <div className="inline-block p-2 rounded-full bg-vote-200 mb-2">
+                <CircleCheck className="h-6 w-6 text-vote-800" />
+              </div>
+              <h3 className="text-lg font-bold text-vote-900">
+                Elected ({seatAllocation.winners.length} of {contest.seats} {contest.seats === 1 ? 'seat' : 'seats'})
+              </h3>
+              <ol className="text-vote-800 mt-1">
+                {seatAllocation.winners.map(candidateId => (
+                  <li key={candidateId}>
+                    {candidateName(candidateId)}: {results[candidateId]} {results[candidateId] === 1 ? 'vote' : 'votes'}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          {seatAllocation.tied.length > 0 && (
+            <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 text-center">
+              <AlertCircle className="h-6 w-6 text-amber-600 mx-auto mb-2" />
+              <h3 className="text-lg font-bold text-amber-900">Tie at the Cutoff</h3>
+              <p className="text-amber-800 mt-1">
+                {seatAllocation.tied.map(candidateName).join(', ')} are tied
+                with {results[seatAllocation.tied[0]]} votes each for the
+                last {seatAllocation.tiedSeats === 1 ? 'seat' : `${seatAllocation.tiedSeats} seats`}.
+                The tie must be broken under the club's rules.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!isMultiWinner && winner && (
+        <div className="mb-8 bg-vote-100 p-4 rounded-lg border border-vote-200 text-center">
+          {winner.photoUrl ? (
+            <CandidateAvatar candidate={winner} className="h-16 w-16 mx-auto mb-2" />
+          ) : (
+            <div className="inline-block p-2 rounded-full bg-vote-200 mb-2">
+              <CircleCheck className="h-6 w-6 text-vote-800" />
+            </div>
+          )}
+          <h3 className="text-lg font-bold text-vote-900">Winner: {winner.name}</h3>
+          {finalRound ? (
+            <p className="text-vote-800 mt-1">
+              With {finalRound.counts[winner.id]} of {finalRoundVotes} votes in round {finalRound.round}
+              ({finalRoundVotes > 0 ? Math.round((finalRound.counts[winner.id] / finalRoundVotes) * 100) : 0}%)
+            </p>
+          ) : (
+            <p className="text-vote-800 mt-1">
+              With {results[winner.id]} {results[winner.id] === 1 ? 'vote' : 'votes'}
+              ({totalVotes > 0 ? Math.round((results[winner.id] / totalVotes) * 100) : 0}%)
+            </p>
+          )}
+        </div>
+      )}
+
+      <h4 className="text-base font-medium mb-4">
+        {contest.votingMethod === 'ranked_choice' ? 'First Preferences' : 'Vote Breakdown'}
+      </h4>
+      <div className="space-y-6">
+        {sortedCandidates.map((candidate) => {
+          const voteCount = results[candidate.id] || 0;
+          const percentage = percentageBase > 0 ? (voteCount / percentageBase) * 100 : 0;
+
+          return (
+            <div key={candidate.id} className="space-y-2">
+              <div className="flex justify-between items-center text-sm">
+                <span className="font-medium flex items-center">
+                  <CandidateProfileDialog candidate={candidate}>
+                    <button type="button" className="flex items-center gap-2 hover:underline" aria-label={`View ${candidate.name}'s profile`}>
+                      <CandidateAvatar candidate={candidate} className="h-8 w-8 text-xs" />
+                      {candidate.name}
+                    </button>
+                  </CandidateProfileDialog>
+                  {isMultiWinner && isElected(candidate.id) && (
+                    <Badge variant="outline" className="ml-2 bg-vote-100 text-vote-800 border-vote-200">Elected</Badge>
+                  )}
+                </span>
+                <span className="text-muted-foreground">
+                  {voteCount} {voteCount === 1 ? 'vote' : 'votes'} ({Math.round(percentage)}%)
+                </span>
+              </div>
+              <Progress
+                value={percentage}
+                className={isElected(candidate.id) ? "h-3 bg-muted" : "h-2 bg-muted"}
+              />
+              {candidate.description && (
+                <p className="text-xs text-muted-foreground">{candidate.description}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {rounds && (
+        <div className="mt-8">
+          <h4 className="text-base font-medium mb-4">Instant-Runoff Rounds</h4>
+          <InstantRunoffRounds candidates={contest.candidates} rounds={rounds} />
+        </div>
+      )}
+
+      {(tally.invalidBallots > 0 || tally.blankBallots > 0) && (
+        <p className="text-sm text-muted-foreground mt-6">
+          {tally.blankBallots > 0 && `${tally.blankBallots} ${tally.blankBallots === 1 ? 'ballot' : 'ballots'} left this contest blank. `}
+          {tally.invalidBallots > 0 && `${tally.invalidBallots} ${tally.invalidBallots === 1 ? 'ballot was' : 'ballots were'} invalid in this contest and not counted.`}
+        </p>
+      )}
+    </>
+  );
+};
+
+export default ContestResults;
@@ -9,122 +9,255 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar, Shield, CircleX, CircleCheck } from 'lucide-react';
+import { Calendar, Shield, CircleCheck, Download, Key, Plus } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
-import { v4 as uuidv4 } from 'uuid';
-import { Candidate } from '@/types';
+import { Contest, Election, ElectionDraft } from '@/types';
+import { newContest, validateContest } from '@/lib/contests';
+import ContestEditor from './ContestEditor';
 import { toast } from '@/components/ui/use-toast';
+import { format } from 'date-fns';
 
-// Define form schema
-const formSchema = z.object({
-  title: z.string().min(5, { message: 'Title must be at least 5 characters.' }),
-  description: z.string().min(10, { message: 'Description must be at least 10 characters.' }),
-  startDate: z.string().refine(date => new Date(date) >= new Date(new Date().setHours(0, 0, 0, 0)), {
-    message: 'Start date must be today or in the future.',
-  }),
-  endDate: z.string().refine(date => new Date(date) >= new Date(new Date().setHours(0, 0, 0, 0)), {
-    message: 'End date must be today or in the future.',
-  }),
-});
+// Define form schema. When editing an election that has started, the start
+// time is in the past and the end time may only move later.
+const buildFormSchema = (election?: Election) => {
+  const started = !!election && election.status !== 'upcoming';
+  
+  return z.object({
+    title: z.string().min(5, { message: 'Title must be at least 5 characters.' }),
+    description: z.string().min(10, { message: 'Description must be at least 10 characters.' }),
+    startDate: started ? z.string() : z.string().refine(date => new Date(date) >= new Date(new Date().setHours(0, 0, 0, 0)), {
+      message: 'Start time must be today or in the future.',
+    }),
+    endDate: z.string().refine(date => new Date(date) > new Date(), {
+      message: 'End time must be in the future.',
+    }),
+    registrationLeadHours: z.coerce.number().min(0, { message: 'The lead time cannot be negative.' }),
+    nominationOpensAt: z.string(), // Both empty when there is no nomination period
+    nominationClosesAt: z.string(),
+  }).refine(values => new Date(values.endDate) > new Date(values.startDate), {
+    message: 'End time must be after the start time.',
+    path: ['endDate'],
+  }).refine(values => !started || new Date(values.endDate) > election.endDate, {
+    message: 'Once voting has started the end time can only be extended.',
+    path: ['endDate'],
+  }).refine(values => (values.nominationOpensAt === '') === (values.nominationClosesAt === ''), {
+    message: 'Set both the opening and closing time, or leave both empty for no nominations.',
+    path: ['nominationClosesAt'],
+  }).refine(values => values.nominationOpensAt === '' || new Date(values.nominationClosesAt) > new Date(values.nominationOpensAt), {
+    message: 'Nominations must close after they open.',
+    path: ['nominationClosesAt'],
+  }).refine(values => values.nominationClosesAt === '' || new Date(values.nominationClosesAt) <= new Date(values.startDate), {
+    message: 'Nominations must close before voting starts.',
+    path: ['nominationClosesAt'],
+  });
+};
+
+type FormValues = z.infer<ReturnType<typeof buildFormSchema>>;
+
+interface CreateElectionFormProps {
+  election?: Election; // Edit this election instead of creating a new one
+}
 
-const CreateElectionForm = () => {
-  const { createElection } = useElections();
+// Value for a datetime-local input, in the browser's time zone
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const CreateElectionForm = ({ election }: CreateElectionFormProps) => {
+  const { createElection, updateElection } = useElections();
   const navigate = useNavigate();
-  const [candidates, setCandidates] = useState<Candidate[]>([]);
-  const [candidateName, setCandidateName] = useState('');
-  const [candidateDescription, setCandidateDescription] = useState('');
+  const started = !!election && election.status !== 'upcoming';
+  const [contests, setContests] = useState<Contest[]>(election ? election.contests : [newContest()]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [createdElection, setCreatedElection] = useState<{ election: Election; privateKey: string } | null>(null);
+  const [keyDownloaded, setKeyDownloaded] = useState(false);
   
   // Initialize form
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
+  const form = useForm<FormValues>({
+    resolver: zodResolver(buildFormSchema(election)),
+    defaultValues: election ? {
+      title: election.title,
+      description: election.description,
+      startDate: toDateTimeLocal(election.startDate),
+      endDate: toDateTimeLocal(election.endDate),
+      registrationLeadHours: election.registrationLeadMinutes / 60,
+      nominationOpensAt: election.nominationOpensAt ? toDateTimeLocal(election.nominationOpensAt) : '',
+      nominationClosesAt: election.nominationClosesAt ? toDateTimeLocal(election.nominationClosesAt) : '',
+    } : {
       title: '',
       description: '',
-      startDate: new Date().toISOString().split('T')[0], // Today's date in YYYY-MM-DD format
-      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 7 days from today
+      startDate: toDateTimeLocal(new Date()),
+      endDate: toDateTimeLocal(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)), // 7 days from now
+      registrationLeadHours: 0,
+      nominationOpensAt: '',
+      nominationClosesAt: '',
     },
   });
   
   // Handle form submission
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    if (candidates.length < 2) {
-      form.setError('root', {
-        message: 'You need at least 2 candidates for an election.',
-      });
-      return;
+  const onSubmit = async (values: FormValues) => {
+    // Report the first contest that cannot go on the ballot yet. The ballot
+    // of an election that has started is locked, so it is not checked again.
+    // With a nomination period, candidates can still be added from nominations.
+    const takesNominations = values.nominationOpensAt !== '';
+    for (const [index, contest] of started ? [] : contests.entries()) {
+      const problem = validateContest(contest, { takesNominations });
+      if (problem) {
+        form.setError('root', {
+          message: contests.length > 1 ? `Contest ${index + 1} (${contest.title || 'untitled'}): ${problem}` : problem,
+        });
+        return;
+      }
     }
     
     try {
       setIsSubmitting(true);
       
-      // Create the election - note this is now async
-      await createElection({
+      const draft: ElectionDraft = {
         title: values.title,
         description: values.description,
         startDate: new Date(values.startDate),
         endDate: new Date(values.endDate),
-        candidates: candidates,
-      });
+        registrationLeadMinutes: Math.round(values.registrationLeadHours * 60),
+        nominationOpensAt: takesNominations ? new Date(values.nominationOpensAt) : undefined,
+        nominationClosesAt: takesNominations ? new Date(values.nominationClosesAt) : undefined,
+        contests: contests.map((contest, position) => ({
+          ...contest,
+          title: contest.title.trim(),
+          position,
+          candidates: contest.votingMethod === 'proposition' ? [] : contest.candidates,
+          maxSelections: contest.votingMethod === 'choose_n' ? contest.maxSelections : undefined,
+        })),
+      };
       
-      // Redirect to elections list
-      toast({
-        title: "Success",
-        description: "Election created successfully",
-      });
+      if (election) {
+        const saved = await updateElection(election.id, draft);
+        setIsSubmitting(false);
+        if (saved) navigate(`/elections/${election.id}`);
+        return;
+      }
+      
+      // Create the election - note this is now async
+      const created = await createElection(draft);
       
-      // Delay navigation slightly to allow toast to be visible
-      setTimeout(() => {
-        navigate('/elections');
-      }, 1000);
+      if (!created) {
+        setIsSubmitting(false);
+        return;
+      }
+      
+      // The admin must save the private key before leaving this page
+      setCreatedElection(created);
     } catch (error) {
-      console.error('Error creating election:', error);
+      console.error(election ? 'Error updating election:' : 'Error creating election:', error);
       toast({
         title: "Error",
-        description: "Failed to create election. Please try again.",
+        description: election ? "Failed to save the election. Please try again." : "Failed to create election. Please try again.",
         variant: "destructive",
       });
       setIsSubmitting(false);
     }
   };
   
-  // Add candidate
-  const addCandidate = () => {
-    if (candidateName.trim() === '') return;
+  const updateContest = (index: number, contest: Contest) => {
+    setContests(contests.map((existing, i) => (i === index ? contest : existing)));
+  };
+  
+  // Move a contest to a new position on the ballot
+  const moveContest = (from: number, to: number) => {
+    if (to < 0 || to >= contests.length) return;
+    const reordered = [...contests];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setContests(reordered);
+  };
+  
+  const removeContest = (index: number) => {
+    setContests(contests.filter((_, i) => i !== index));
+  };
+  
+  // Download the election private key, which is needed to decrypt the ballots
+  const downloadPrivateKey = () => {
+    if (!createdElection) return;
     
-    setCandidates([
-      ...candidates,
-      {
-        id: uuidv4(),
-        name: candidateName.trim(),
-        description: candidateDescription.trim() || undefined,
-      },
-    ]);
+    const keyFile = JSON.stringify({
+      electionId: createdElection.election.id,
+      electionCode: createdElection.election.electionCode,
+      title: createdElection.election.title,
+      privateKey: JSON.parse(createdElection.privateKey),
+    }, null, 2);
     
-    // Clear inputs
-    setCandidateName('');
-    setCandidateDescription('');
+    const blob = new Blob([keyFile], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `election-${createdElection.election.electionCode}-private-key.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    
+    setKeyDownloaded(true);
   };
   
-  // Remove candidate
-  const removeCandidate = (id: string) => {
-    setCandidates(candidates.filter(candidate => candidate.id !== id));
-  };
+  if (createdElection) {
+    return (
+      <div className="container max-w-3xl mx-auto py-8">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <Key className="h-6 w-6 text-vote-600" />
+              <CardTitle className="text-2xl">Save Your Election Key</CardTitle>
+            </div>
+            <CardDescription>
+              {createdElection.election.title} has been created with code {createdElection.election.electionCode}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm space-y-2">
+              <p className="font-medium">Download the private key and store it somewhere safe.</p>
+              <p>
+                Every ballot in this election is encrypted with the election's public key. The private key
+                is the only way to decrypt and count them after the election closes. It is not stored on
+                the server and cannot be recovered if lost.
+              </p>
+            </div>
+            <Button onClick={downloadPrivateKey} className="w-full" variant={keyDownloaded ? 'outline' : 'default'}>
+              <Download className="mr-2 h-4 w-4" />
+              {keyDownloaded ? 'Download Again' : 'Download Private Key'}
+            </Button>
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full bg-vote-600 hover:bg-vote-700"
+              disabled={!keyDownloaded}
+              onClick={() => navigate('/elections')}
+            >
+              <CircleCheck className="mr-2 h-4 w-4" />
+              I Have Saved the Key
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
   
   return (
     <div className="container max-w-3xl mx-auto py-8">
-      <Button variant="outline" onClick={() => navigate('/elections')} className="mb-6">
-        Back to Elections
+      <Button variant="outline" onClick={() => navigate(election ? `/elections/${election.id}` : '/elections')} className="mb-6">
+        {election ? 'Back to Election' : 'Back to Elections'}
       </Button>
       
       <Card className="shadow-lg">
         <CardHeader>
           <div className="flex items-center gap-3">
             <Shield className="h-6 w-6 text-vote-600" />
-            <CardTitle className="text-2xl">Create New Election</CardTitle>
+            <CardTitle className="text-2xl">{election ? 'Edit Election' : 'Create New Election'}</CardTitle>
           </div>
           <CardDescription>
-            Set up a new secure election for club members to vote in.
+            {!election
+              ? 'Set up a new secure election for club members to vote in.'
+              : started
+                ? 'Voting has started, so the ballot and details are locked. The end time can still be extended while voting is open.'
+                : 'Change anything about this election until voting starts.'}
           </CardDescription>
         </CardHeader>
         
@@ -138,7 +271,7 @@ const CreateElectionForm = () => {
                   <FormItem>
                     <FormLabel>Election Title</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g. Board President Election" {...field} />
+                      <Input placeholder="e.g. Board President Election" disabled={started} {...field} />
                     </FormControl>
                     <FormDescription>
                       A clear title describing what members will be voting on.
@@ -158,6 +291,7 @@ const CreateElectionForm = () => {
                       <Textarea 
                         placeholder="Provide details about this election..." 
                         className="min-h-24" 
+                        disabled={started}
                         {...field} 
                       />
                     </FormControl>
@@ -175,11 +309,11 @@ const CreateElectionForm = () => {
                   name="startDate"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Start Date</FormLabel>
+                      <FormLabel>Starts</FormLabel>
                       <FormControl>
                         <div className="flex items-center">
                           <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
-                          <Input type="date" {...field} />
+                          <Input type="datetime-local" disabled={started} {...field} />
                         </div>
                       </FormControl>
                       <FormMessage />
@@ -192,11 +326,11 @@ const CreateElectionForm = () => {
                   name="endDate"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>End Date</FormLabel>
+                      <FormLabel>Ends</FormLabel>
                       <FormControl>
                         <div className="flex items-center">
                           <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
-                          <Input type="date" {...field} />
+                          <Input type="datetime-local" {...field} />
                         </div>
                       </FormControl>
                       <FormMessage />
@@ -205,72 +339,99 @@ const CreateElectionForm = () => {
                 />
               </div>
               
-              <Separator />
+              <FormField
+                control={form.control}
+                name="registrationLeadHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Close Registration (hours before start)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="any" disabled={started} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      The election opens and closes automatically at these times. Registration closes this many hours before voting starts.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
-              <div>
-                <h3 className="text-lg font-medium mb-4">Candidates</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="nominationOpensAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nominations Open (optional)</FormLabel>
+                      <FormControl>
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
+                          <Input type="datetime-local" disabled={started} {...field} />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 
-                <div className="space-y-4 mb-6">
-                  {candidates.length === 0 ? (
-                    <div className="text-center py-4 border border-dashed rounded-md">
-                      <p className="text-muted-foreground">No candidates added yet.</p>
-                    </div>
-                  ) : (
-                    <div className="space-y-2">
-                      {candidates.map((candidate) => (
-                        <div 
-                          key={candidate.id}
-                          className="flex items-start justify-between p-3 border rounded-md bg-slate-50"
-                        >
-                          <div>
-                            <p className="font-medium">{candidate.name}</p>
-                            {candidate.description && (
-                              <p className="text-sm text-muted-foreground">{candidate.description}</p>
-                            )}
-                          </div>
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            onClick={() => removeCandidate(candidate.id)}
-                            className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <CircleX className="h-4 w-4" />
-                          </Button>
+                <FormField
+                  control={form.control}
+                  name="nominationClosesAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nominations Close</FormLabel>
+                      <FormControl>
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
+                          <Input type="datetime-local" disabled={started} {...field} />
                         </div>
-                      ))}
-                    </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
                   )}
-                </div>
+                />
                 
-                <div className="space-y-4 border p-4 rounded-md bg-slate-50">
-                  <div className="space-y-2">
-                    <FormLabel>Candidate Name</FormLabel>
-                    <Input
-                      value={candidateName}
-                      onChange={(e) => setCandidateName(e.target.value)}
-                      placeholder="Enter candidate name"
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <FormLabel>Description (optional)</FormLabel>
-                    <Textarea
-                      value={candidateDescription}
-                      onChange={(e) => setCandidateDescription(e.target.value)}
-                      placeholder="Brief candidate description or platform"
+                <p className="text-sm text-muted-foreground md:col-span-2">
+                  During the nomination period members can nominate themselves, with a seconder, for any
+                  candidate contest. Accepted nominations are added to the ballot. Leave both empty if
+                  you will enter every candidate yourself.
+                </p>
+              </div>
+              
+              <Separator />
+              
+              <div>
+                <h3 className="text-lg font-medium mb-1">Ballot</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Add a contest for each position or question. Voters see the contests in this order.
+                </p>
+                
+                <div className="space-y-4">
+                  {contests.map((contest, index) => (
+                    <ContestEditor
+                      key={contest.id}
+                      electionId={election?.id}
+                      contest={contest}
+                      index={index}
+                      total={contests.length}
+                      onChange={(updated) => updateContest(index, updated)}
+                      onMove={(to) => moveContest(index, to)}
+                      onRemove={contests.length > 1 && !started ? () => removeContest(index) : undefined}
+                      disabled={started}
                     />
-                  </div>
-                  
-                  <Button type="button" onClick={addCandidate} className="w-full">
-                    Add Candidate
-                  </Button>
+                  ))}
                 </div>
                 
-                {candidates.length < 2 && (
-                  <p className="text-sm text-amber-600 mt-2 flex items-center">
-                    <CircleX className="h-4 w-4 mr-1" />
-                    At least 2 candidates are required.
-                  </p>
+                {!started && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setContests([...contests, newContest()])}
+                    className="w-full mt-4"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Contest
+                  </Button>
                 )}
               </div>
               
@@ -280,24 +441,26 @@ const CreateElectionForm = () => {
                 </div>
               )}
               
-              <div className="p-4 bg-secure-100 rounded-lg border border-secure-200 flex items-center">
-                <Shield className="h-5 w-5 text-secure-600 mr-3 flex-shrink-0" />
-                <p className="text-sm text-secure-800">
-                  Your election will be secured with end-to-end encryption and anonymized voting to ensure integrity and voter privacy.
-                </p>
-              </div>
+              {!election && (
+                <div className="p-4 bg-secure-100 rounded-lg border border-secure-200 flex items-center">
+                  <Shield className="h-5 w-5 text-secure-600 mr-3 flex-shrink-0" />
+                  <p className="text-sm text-secure-800">
+                    Ballots are encrypted in each voter's browser with a key pair generated for this election. You will be asked to save the private key, which is needed to count the votes.
+                  </p>
+                </div>
+              )}
               
               <Button 
                 type="submit" 
                 className="w-full bg-vote-600 hover:bg-vote-700"
-                disabled={isSubmitting || candidates.length < 2}
+                disabled={isSubmitting || contests.some(contest => contest.votingMethod !== 'proposition' && contest.candidates.length < 2)}
               >
                 {isSubmitting ? (
-                  'Creating Election...'
+                  election ? 'Saving Changes...' : 'Creating Election...'
                 ) : (
                   <>
                     <CircleCheck className="mr-2 h-4 w-4" />
-                    Create Secure Election
+                    {election ? 'Save Changes' : 'Create Secure Election'}
                   </>
                 )}
               </Button>
@@ -10,28 +10,54 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useElections } from '@/contexts/ElectionContext';
 import { toast } from '@/components/ui/use-toast';
 import { Key } from 'lucide-react';
+import { VoterCodeCheck } from '@/types';
+import { isWellFormedVoterCode, normaliseCode } from '@/lib/codes';
 
 // Form validation schema
 const formSchema = z.object({
-  voterCode: z.string().min(6, "Voter code must be at least 6 characters"),
+  voterCode: z.string()
+    .min(6, "Voter code must be at least 6 characters")
+    // The check character catches most typos before the code is looked up
+    .refine(value => isWellFormedVoterCode(normaliseCode(value)), "This is not a valid voter code. Please check it for typos."),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Why a code was refused
+const REFUSED_CODE_MESSAGES: Record<Exclude<VoterCodeCheck, 'valid'>, { title: string; description: string }> = {
+  invalid: {
+    title: "Invalid Code",
+    description: "The voter code you entered is not valid for this election.",
+  },
+  used: {
+    title: "Code Already Used",
+    description: "The voter code you entered has already been used to vote.",
+  },
+  revoked: {
+    title: "Code Revoked",
+    description: "This voter code has been revoked. Please contact the election administrator for a new one.",
+  },
+  expired: {
+    title: "Code Expired",
+    description: "This voter code has expired. Please contact the election administrator for a new one.",
+  },
+};
+
 interface ElectionAccessFormProps {
   electionId: string;
-  onAccessGranted: () => void;
+  initialCode?: string; // From a voter code link, such as a scanned slip
+  onAccessGranted: (voterCode: string) => void; // Called with the validated code
 }
 
-const ElectionAccessForm = ({ electionId, onAccessGranted }: ElectionAccessFormProps) => {
-  const { validateVoterCode, markVoterCodeAsUsed } = useElections();
+const ElectionAccessForm = ({ electionId, initialCode, onAccessGranted }: ElectionAccessFormProps) => {
+  const { validateVoterCode } = useElections();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Initialize form
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      voterCode: '',
+      voterCode: initialCode ?? '',
     },
   });
 
@@ -40,22 +66,20 @@ const ElectionAccessForm = ({ electionId, onAccessGranted }: ElectionAccessFormP
     
     try {
       // Validate the voter code for this election
-      const isValid = validateVoterCode(data.voterCode, electionId);
+      const voterCode = normaliseCode(data.voterCode);
+      const check = await validateVoterCode(voterCode, electionId);
       
-      if (isValid) {
-        // Mark the code as used
-        markVoterCodeAsUsed(data.voterCode);
-        
+      if (check === 'valid') {
+        // The code is only marked as used once the vote itself is cast
         toast({
           title: "Access Granted",
           description: "Your voter code has been validated. You can now access the election.",
         });
         
-        onAccessGranted();
+        onAccessGranted(voterCode);
       } else {
         toast({
-          title: "Invalid Code",
-          description: "The voter code you entered is invalid or has already been used.",
+          ...REFUSED_CODE_MESSAGES[check],
           variant: "destructive",
         });
       }
@@ -76,8 +100,9 @@ const ElectionAccessForm = ({ electionId, onAccessGranted }: ElectionAccessFormP
       <CardHeader>
         <CardTitle>Enter Your Voter Code</CardTitle>
         <CardDescription>
-          Please enter the voter code sent to your email
-          after your registration was approved.
+          {initialCode
+            ? "Your voter code has been filled in from the link you opened. Check it matches your slip, then continue."
+            : "Please enter the voter code sent to your email after your registration was approved."}
         </CardDescription>
       </CardHeader>
       <CardContent>
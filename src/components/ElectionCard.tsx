@@ -8,19 +8,22 @@ import { Calendar, Vote, ChevronRight } from 'lucide-react';
 import { format } from 'date-fns';
 import { Election } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { can } from '@/lib/permissions';
 
 interface ElectionCardProps {
   election: Election;
+  voterCode?: string; // A validated voter code to vote with on the election page
 }
 
-const ElectionCard: React.FC<ElectionCardProps> = ({ election }) => {
+const ElectionCard: React.FC<ElectionCardProps> = ({ election, voterCode }) => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const isAdmin = user?.role === 'admin';
+  const { permissions } = useAuth();
+  // Staff hand out the election ID to voters
+  const canSeeCode = can(permissions, 'manage_voters', election);
   
   // Format dates for display
-  const startDate = format(new Date(election.startDate), "MMM d, yyyy");
-  const endDate = format(new Date(election.endDate), "MMM d, yyyy");
+  const startDate = format(new Date(election.startDate), "MMM d, yyyy h:mm a");
+  const endDate = format(new Date(election.endDate), "MMM d, yyyy h:mm a");
   
   // Determine status badge style
   let statusVariant: "outline" | "default" | "secondary" | "destructive" = "outline";
@@ -52,9 +55,15 @@ const ElectionCard: React.FC<ElectionCardProps> = ({ election }) => {
           </div>
           <div className="flex items-center text-muted-foreground">
             <Vote className="h-4 w-4 mr-2" />
-            <span>{election.candidates.length} candidates</span>
+            <span>
+              {election.contests.length === 1
+                ? election.contests[0].votingMethod === 'proposition'
+                  ? 'Yes/no proposition'
+                  : `${election.contests[0].candidates.length} candidates`
+                : `${election.contests.length} contests`}
+            </span>
           </div>
-          {isAdmin && (
+          {canSeeCode && (
             <div className="mt-4 p-2 bg-muted rounded-md flex justify-between items-center">
               <span className="text-xs font-medium">Election ID:</span>
               <Badge variant="outline" className="bg-background font-mono">
@@ -66,7 +75,7 @@ const ElectionCard: React.FC<ElectionCardProps> = ({ election }) => {
       </CardContent>
       <CardFooter>
         <Button 
-          onClick={() => navigate(`/elections/${election.id}`)} 
+          onClick={() => navigate(`/elections/${election.id}`, { state: voterCode ? { voterCode } : undefined })} 
           variant="outline" 
           className="w-full"
         >
@@ -1,23 +1,31 @@
 
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Vote, User, Lock, CircleCheck, Shield, AlertCircle, Edit } from "lucide-react";
+import { Calendar, Vote, User, Lock, CircleCheck, Shield, AlertCircle, Edit, Copy, Download, Receipt, ChevronLeft, ChevronRight } from "lucide-react";
 import { format } from "date-fns";
 import { useElections } from '@/contexts/ElectionContext';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/components/ui/use-toast';
 import { Input } from "@/components/ui/input";
+import { Ballot, Contest, ContestBallot, VoteReceipt } from '@/types';
+import { VOTING_METHOD_LABELS } from '@/lib/tally';
+import { describePassRule, optionLabel, selectedOptions } from '@/lib/contests';
+import { can } from '@/lib/permissions';
+import ContestBallotInput from './ContestBallotInput';
+import CandidateCard from './CandidateCard';
+import NominationPanel from './NominationPanel';
 
 const ElectionDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  // The voter code entered on the search page, which may not belong to a registration
+  const location = useLocation();
+  const enteredCode = (location.state as { voterCode?: string } | null)?.voterCode;
   const { 
     getElectionById, 
     castVote, 
@@ -25,14 +33,16 @@ const ElectionDetail = () => {
     isVoterApprovedForElection, 
     updateRegistrationStatus,
     updateCandidateName,
-    getElectionResults 
+    getBallotCount 
   } = useElections();
-  const { user, isAuthenticated } = useAuth();
-  const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null);
+  const { user, permissions, isAuthenticated } = useAuth();
+  const [selections, setSelections] = useState<Record<string, ContestBallot>>({});
+  const [step, setStep] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isApproved, setIsApproved] = useState(false);
   const [editingCandidate, setEditingCandidate] = useState<string | null>(null);
   const [newCandidateName, setNewCandidateName] = useState("");
+  const [receipt, setReceipt] = useState<VoteReceipt | null>(null);
   
   useEffect(() => {
     // Redirect to login if not authenticated
@@ -47,10 +57,10 @@ const ElectionDetail = () => {
     }
 
     // Check if user is approved for this election
-    if (id && user && user.role === 'voter') {
-      setIsApproved(isVoterApprovedForElection(id, user.id));
+    if (id && user && can(permissions, 'vote', id)) {
+      setIsApproved(!!enteredCode || isVoterApprovedForElection(id, user.id));
     }
-  }, [id, user, isAuthenticated, isVoterApprovedForElection, navigate]);
+  }, [id, user, permissions, isAuthenticated, isVoterApprovedForElection, navigate, enteredCode]);
   
   if (!isAuthenticated) {
     return null; // Will redirect in useEffect
@@ -75,32 +85,55 @@ const ElectionDetail = () => {
   // Check if user already voted
   const userHasVoted = hasVoted(id);
   
-  const handleVote = () => {
-    if (!selectedCandidate) return;
+  // Voters step through the contests in order, then review the whole ballot
+  const isReviewing = step >= election.contests.length;
+  const currentContest = election.contests[step];
+  const blankContests = election.contests.filter(contest => !selections[contest.id]).length;
+  const ballotComplete = blankContests < election.contests.length;
+  const contestInstructions = (contest: Contest) => {
+    if (contest.votingMethod === 'proposition') {
+      return describePassRule(contest);
+    }
+    if (contest.votingMethod === 'ranked_choice') {
+      return 'Rank as many candidates as you like, in order of preference. If your first choice is eliminated, your vote moves to your next choice.';
+    }
+    if (contest.seats > 1) {
+      return `${contest.seats} seats are being filled. The ${contest.seats} candidates with the most votes are elected.`;
+    }
+    return null;
+  };
+  
+  const updateSelection = (contestId: string, value: ContestBallot | undefined) => {
+    setSelections(prev => {
+      const { [contestId]: _previous, ...rest } = prev;
+      return value ? { ...rest, [contestId]: value } : rest;
+    });
+  };
+  
+  const handleVote = async () => {
+    if (!ballotComplete) return;
     
     setIsSubmitting(true);
     
     try {
+      const ballot: Ballot = { contests: selections };
+      
       // Cast the vote
-      const voteSuccessful = castVote(id, selectedCandidate);
+      const voteReceipt = await castVote(id, ballot, enteredCode);
       
-      if (voteSuccessful) {
-        // Redirect to results page after successful vote
-        setTimeout(() => {
-          navigate(`/elections/${id}/results`);
-        }, 1500);
-      } else {
-        setIsSubmitting(false);
-      }
+      // Keep the voter on the page so they can save their receipt
+      setReceipt(voteReceipt);
+      setIsSubmitting(false);
     } catch (error) {
       console.error('Error casting vote:', error);
       setIsSubmitting(false);
     }
   };
 
-  const handleSaveCandidateName = (candidateId: string) => {
+  const handleSaveCandidateName = async (candidateId: string) => {
     if (newCandidateName.trim()) {
-      updateCandidateName(id, candidateId, newCandidateName.trim());
+      const saved = await updateCandidateName(id, candidateId, newCandidateName.trim());
+      if (!saved) return;
       setEditingCandidate(null);
       setNewCandidateName("");
       toast({
@@ -110,28 +143,63 @@ const ElectionDetail = () => {
     }
   };
   
+  const copyReceipt = async () => {
+    if (!receipt) return;
+    await navigator.clipboard.writeText(receipt.ballotHash);
+    toast({
+      title: "Receipt copied",
+      description: "Your ballot hash has been copied to the clipboard.",
+    });
+  };
+  
+  const downloadReceipt = () => {
+    if (!receipt) return;
+    
+    const receiptText = [
+      `Election: ${election.title} (${election.electionCode})`,
+      `Ballot hash: ${receipt.ballotHash}`,
+      `Cast at: ${format(receipt.castAt, 'yyyy-MM-dd HH:mm:ss')}`,
+      `Verify at: ${window.location.origin}/elections/${id}/ballots`,
+    ].join('\n');
+    
+    const blob = new Blob([receiptText], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `ballot-receipt-${election.electionCode}.txt`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+  
   const handleEditCandidate = (candidateId: string, currentName: string) => {
     setEditingCandidate(candidateId);
     setNewCandidateName(currentName);
   };
   
   // Format dates for display
-  const startDate = format(new Date(election.startDate), "MMMM d, yyyy");
-  const endDate = format(new Date(election.endDate), "MMMM d, yyyy");
+  const startDate = format(new Date(election.startDate), "MMMM d, yyyy 'at' h:mm a");
+  const endDate = format(new Date(election.endDate), "MMMM d, yyyy 'at' h:mm a");
+  
+  // The election's officers run it rather than vote in it; admins may do both
+  const isVoter = can(permissions, 'vote', election);
+  const isStaff = can(permissions, 'edit_election', election);
+  const canViewTurnout = can(permissions, 'view_turnout', election);
   
   // Check if election is active and user can vote
-  const canVote = election.status === 'active' && !userHasVoted && isApproved && user && user.role === 'voter';
+  const canVote = election.status === 'active' && !userHasVoted && isApproved && user && isVoter;
   
-  // Check if admin can edit candidates (before election starts)
-  const canEditCandidates = user?.role === 'admin' && election.status === 'upcoming';
+  // Check if staff can edit candidates (before election starts)
+  const canEditCandidates = isStaff && election.status === 'upcoming';
   
-  // Get live voting results if admin
-  const liveResults = user?.role === 'admin' ? getElectionResults(id) : {};
-  const totalVotes = user?.role === 'admin' ? Object.values(liveResults).reduce((sum, count) => sum + count, 0) : 0;
+  // Ballots stay encrypted until the election closes, so staff only see turnout
+  const totalVotes = canViewTurnout ? getBallotCount(id) : 0;
   
   // Display message if user is not approved
   const renderAccessMessage = () => {
-    if (!isApproved && user?.role === 'voter') {
+    if (!isApproved && isVoter) {
       return (
         <div className="text-center py-6 bg-amber-50 border border-amber-200 rounded-lg mb-4">
           <AlertCircle className="h-12 w-12 text-amber-500 mx-auto mb-2" />
@@ -192,11 +260,17 @@ const ElectionDetail = () => {
             </div>
             <div className="flex items-center">
               <User className="mr-2 h-4 w-4 text-muted-foreground" />
-              <span>{election.candidates.length} Candidates</span>
+              <span>
+                {election.contests.length === 1
+                  ? election.contests[0].votingMethod === 'proposition'
+                    ? 'Yes/No Proposition'
+                    : `${election.contests[0].candidates.length} Candidates`
+                  : `${election.contests.length} Contests`}
+              </span>
             </div>
           </div>
           
-          {user?.role === 'admin' && (
+          {isStaff && (
             <div className="mt-4 p-3 bg-blue-50 border border-blue-100 rounded-md">
               <p className="text-sm text-blue-700 font-medium">Registration Status: {election.registrationStatus}</p>
               <div className="flex mt-2 gap-2">
@@ -216,6 +290,17 @@ const ElectionDetail = () => {
                 >
                   Close Registration
                 </Button>
+                {election.status !== 'closed' && (
+                  <Button 
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => navigate(`/elections/${election.id}/edit`)}
+                  >
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit Election
+                  </Button>
+                )}
               </div>
             </div>
           )}
@@ -224,60 +309,79 @@ const ElectionDetail = () => {
         <CardContent>
           {renderAccessMessage()}
           
-          {/* Admin Live Results Section */}
-          {user?.role === 'admin' && election.status === 'active' && (
+          {receipt && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center mb-2">
+                <Receipt className="h-5 w-5 text-green-700 mr-2" />
+                <h3 className="font-medium text-green-800">Your Ballot Receipt</h3>
+              </div>
+              <p className="text-sm text-green-700 mb-3">
+                This is the fingerprint of your encrypted ballot. Keep it to check that your ballot appears on the
+                public bulletin board. It does not reveal how you voted.
+              </p>
+              <code className="block p-2 bg-white border rounded text-xs font-mono break-all">{receipt.ballotHash}</code>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <Button variant="outline" size="sm" onClick={copyReceipt}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={downloadReceipt}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => navigate(`/elections/${id}/ballots?receipt=${receipt.ballotHash}`)}>
+                  <Shield className="mr-2 h-4 w-4" />
+                  Check on Bulletin Board
+                </Button>
+              </div>
+            </div>
+          )}
+          
+          {/* Staff Live Turnout Section */}
+          {canViewTurnout && election.status === 'active' && (
             <div className="mb-6">
-              <h3 className="text-lg font-medium mb-4">Live Results</h3>
+              <h3 className="text-lg font-medium mb-4">Live Turnout</h3>
               <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
                 <div className="flex justify-between items-center">
                   <h4 className="text-sm font-medium text-green-800">Total Votes Cast</h4>
                   <span className="text-sm font-bold text-green-900">{totalVotes}</span>
                 </div>
               </div>
-              
-              <div className="space-y-4">
-                {election.candidates.map((candidate) => {
-                  const voteCount = liveResults[candidate.id] || 0;
-                  const percentage = totalVotes > 0 ? (voteCount / totalVotes) * 100 : 0;
-                  
-                  return (
-                    <div key={`result-${candidate.id}`} className="border rounded-md p-3">
-                      <div className="flex justify-between mb-2">
-                        <span className="font-medium">{candidate.name}</span>
-                        <span className="font-medium">{voteCount} votes</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2.5">
-                        <div 
-                          className="bg-blue-600 h-2.5 rounded-full" 
-                          style={{ width: `${percentage}%` }}
-                        ></div>
-                      </div>
-                      <div className="text-right text-xs mt-1 text-gray-500">
-                        {percentage.toFixed(1)}%
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
+              <p className="text-sm text-muted-foreground flex items-center">
+                <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+                Ballots are encrypted. Per-candidate results are available once the election closes and the ballots are decrypted with the election's private key.
+              </p>
             </div>
           )}
           
-          {(isApproved || user?.role === 'admin') && (
+          {(isApproved || isStaff) && (
             <div className="mb-4">
-              <h3 className="text-lg font-medium mb-4">Candidates</h3>
-              
-              {user?.role === 'voter' && userHasVoted ? (
+              {isVoter && userHasVoted ? (
                 <div className="text-center py-4">
                   <CircleCheck className="h-12 w-12 text-green-600 mx-auto mb-2" />
                   <p className="text-green-600 font-medium">You have already cast your vote in this election.</p>
                   <p className="text-sm text-muted-foreground mt-1">Check the results page for current standings.</p>
                 </div>
-              ) : user?.role === 'voter' && election.status !== 'active' ? (
+              ) : isVoter && election.status !== 'active' ? (
                 <div className="text-center py-4">
                   {election.status === 'upcoming' ? (
                     <>
                       <Calendar className="h-12 w-12 text-blue-600 mx-auto mb-2" />
                       <p className="text-blue-600 font-medium">Voting begins on {startDate}</p>
+                      {election.contests.some(contest => contest.candidates.length > 0) && (
+                        <div className="text-left mt-6 space-y-6">
+                          {election.contests.filter(contest => contest.candidates.length > 0).map((contest) => (
+                            <div key={contest.id}>
+                              <h3 className="text-lg font-medium mb-3">{contest.title}</h3>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {contest.candidates.map((candidate) => (
+                                  <CandidateCard key={candidate.id} candidate={candidate} />
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </>
                   ) : (
                     <>
@@ -286,74 +390,133 @@ const ElectionDetail = () => {
                     </>
                   )}
                 </div>
-              ) : user?.role === 'voter' ? (
-                <RadioGroup
-                  value={selectedCandidate || ""}
-                  onValueChange={setSelectedCandidate}
-                  className="space-y-3"
-                  disabled={!canVote}
-                >
-                  {election.candidates.map((candidate) => (
-                    <div key={candidate.id} className="flex items-start space-x-3 border rounded-lg p-4 hover:bg-slate-50 transition-colors">
-                      <RadioGroupItem value={candidate.id} id={`candidate-${candidate.id}`} />
-                      <div className="flex-1">
-                        <Label htmlFor={`candidate-${candidate.id}`} className="text-base font-medium cursor-pointer">
-                          {candidate.name}
-                        </Label>
-                        {candidate.description && (
-                          <p className="text-sm text-muted-foreground mt-1">{candidate.description}</p>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </RadioGroup>
-              ) : (
-                // Admin candidate list with edit capability
-                <div className="space-y-3">
-                  {election.candidates.map((candidate) => (
-                    <div key={candidate.id} className="border rounded-lg p-4">
-                      {editingCandidate === candidate.id ? (
-                        <div className="flex flex-col space-y-2">
-                          <Input
-                            value={newCandidateName}
-                            onChange={(e) => setNewCandidateName(e.target.value)}
-                            className="font-medium"
-                          />
-                          <div className="flex justify-end space-x-2">
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => setEditingCandidate(null)}
-                            >
-                              Cancel
-                            </Button>
-                            <Button 
-                              size="sm"
-                              onClick={() => handleSaveCandidateName(candidate.id)}
-                            >
-                              Save
-                            </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="flex justify-between items-start">
+              ) : isVoter && isReviewing ? (
+                <div>
+                  <h3 className="text-lg font-medium mb-1">Review Your Ballot</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Check your choices before casting your vote. You can go back and change any contest.
+                  </p>
+                  <div className="space-y-3">
+                    {election.contests.map((contest, index) => {
+                      const choices = selectedOptions(selections[contest.id]);
+                      
+                      return (
+                        <div key={contest.id} className="border rounded-lg p-4 flex justify-between items-start gap-4">
                           <div>
-                            <h4 className="text-base font-medium">{candidate.name}</h4>
-                            {candidate.description && (
-                              <p className="text-sm text-muted-foreground mt-1">{candidate.description}</p>
+                            <h4 className="font-medium">{contest.title}</h4>
+                            {choices.length === 0 ? (
+                              <p className="text-sm text-amber-700 flex items-center mt-1">
+                                <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+                                No selection. This contest will be left blank.
+                              </p>
+                            ) : contest.votingMethod === 'ranked_choice' ? (
+                              <ol className="text-sm mt-1 list-decimal list-inside">
+                                {choices.map(option => (
+                                  <li key={option}>{optionLabel(contest, option)}</li>
+                                ))}
+                              </ol>
+                            ) : (
+                              <p className="text-sm mt-1">{choices.map(option => optionLabel(contest, option)).join(', ')}</p>
                             )}
                           </div>
-                          {canEditCandidates && (
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => handleEditCandidate(candidate.id, candidate.name)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                          )}
+                          <Button variant="outline" size="sm" onClick={() => setStep(index)}>
+                            <Edit className="h-4 w-4 mr-1" />
+                            Change
+                          </Button>
                         </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : isVoter ? (
+                <div>
+                  {election.contests.length > 1 && (
+                    <p className="text-sm text-muted-foreground mb-1">
+                      Contest {step + 1} of {election.contests.length}
+                    </p>
+                  )}
+                  <h3 className="text-lg font-medium mb-1">{currentContest.title}</h3>
+                  {currentContest.description && (
+                    <p className="text-sm text-muted-foreground mb-2">{currentContest.description}</p>
+                  )}
+                  {contestInstructions(currentContest) && (
+                    <p className="text-sm text-muted-foreground mb-4">{contestInstructions(currentContest)}</p>
+                  )}
+                  {currentContest.candidates.length > 0 && (
+                    <div className="mb-6">
+                      <h4 className="text-sm font-medium mb-2">Meet the Candidates</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {currentContest.candidates.map((candidate) => (
+                          <CandidateCard key={candidate.id} candidate={candidate} />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <ContestBallotInput
+                    contest={currentContest}
+                    value={selections[currentContest.id]}
+                    onChange={(value) => updateSelection(currentContest.id, value)}
+                    disabled={!canVote}
+                  />
+                </div>
+              ) : (
+                // Staff contest list with candidate edit capability
+                <div className="space-y-6">
+                  {election.contests.map((contest) => (
+                    <div key={contest.id}>
+                      <h3 className="text-lg font-medium">{contest.title}</h3>
+                      <p className="text-sm text-muted-foreground mb-3">
+                        {VOTING_METHOD_LABELS[contest.votingMethod]}
+                        {contest.seats > 1 && `, ${contest.seats} seats`}
+                        {contest.maxSelections && `, up to ${contest.maxSelections} selections`}
+                      </p>
+                      {contest.votingMethod === 'proposition' && (
+                        <p className="text-sm text-muted-foreground -mt-2 mb-3">{describePassRule(contest)}</p>
                       )}
+                      <div className="space-y-3">
+                        {contest.candidates.map((candidate) => (
+                          editingCandidate === candidate.id ? (
+                            <div key={candidate.id} className="border rounded-lg p-4">
+                              <div className="flex flex-col space-y-2">
+                                <Input
+                                  value={newCandidateName}
+                                  onChange={(e) => setNewCandidateName(e.target.value)}
+                                  className="font-medium"
+                                />
+                                <div className="flex justify-end space-x-2">
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm"
+                                    onClick={() => setEditingCandidate(null)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                  <Button 
+                                    size="sm"
+                                    onClick={() => handleSaveCandidateName(candidate.id)}
+                                  >
+                                    Save
+                                  </Button>
+                                </div>
+                              </div>
+                            </div>
+                          ) : (
+                            <CandidateCard
+                              key={candidate.id}
+                              candidate={candidate}
+                              actions={canEditCandidates && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm"
+                                  onClick={() => handleEditCandidate(candidate.id, candidate.name)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
+                            />
+                          )
+                        ))}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -371,53 +534,72 @@ const ElectionDetail = () => {
         </CardContent>
         
         {canVote && (
-          <CardFooter>
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button
-                  className="bg-vote-600 hover:bg-vote-700 w-full"
-                  disabled={!selectedCandidate || isSubmitting}
-                >
-                  <Vote className="mr-2 h-5 w-5" />
-                  {isSubmitting ? 'Processing...' : 'Cast My Vote'}
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Confirm Your Vote</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    You are about to cast your vote for <strong>
-                      {selectedCandidate 
-                        ? election.candidates.find(c => c.id === selectedCandidate)?.name
-                        : ''}
-                    </strong>.
-                    <br /><br />
-                    This action cannot be undone. Are you sure you want to proceed?
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction onClick={handleVote} className="bg-vote-600 hover:bg-vote-700">
-                    <Shield className="h-4 w-4 mr-2" />
-                    Confirm Vote
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+          <CardFooter className="flex gap-2">
+            {step > 0 && (
+              <Button variant="outline" onClick={() => setStep(step - 1)} disabled={isSubmitting}>
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Back
+              </Button>
+            )}
+            {!isReviewing ? (
+              <Button className="bg-vote-600 hover:bg-vote-700 flex-1" onClick={() => setStep(step + 1)}>
+                {step === election.contests.length - 1 ? 'Review Ballot' : 'Next Contest'}
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            ) : (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    className="bg-vote-600 hover:bg-vote-700 flex-1"
+                    disabled={!ballotComplete || isSubmitting}
+                  >
+                    <Vote className="mr-2 h-5 w-5" />
+                    {isSubmitting ? 'Processing...' : 'Cast My Vote'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Confirm Your Vote</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      You are about to cast your ballot with the choices you reviewed
+                      {blankContests > 0 && `, leaving ${blankContests} ${blankContests === 1 ? 'contest' : 'contests'} blank`}.
+                      <br /><br />
+                      This action cannot be undone. Are you sure you want to proceed?
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleVote} className="bg-vote-600 hover:bg-vote-700">
+                      <Shield className="h-4 w-4 mr-2" />
+                      Confirm Vote
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
           </CardFooter>
         )}
         
-        {userHasVoted && user?.role === 'voter' && (
-          <CardFooter>
+        {userHasVoted && isVoter && (
+          <CardFooter className="flex flex-col sm:flex-row gap-2">
             <Button
               className="w-full"
               onClick={() => navigate(`/elections/${id}/results`)}
             >
               View Results
             </Button>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => navigate(`/elections/${id}/ballots`)}
+            >
+              Ballot Bulletin Board
+            </Button>
           </CardFooter>
         )}
       </Card>
+      
+      <NominationPanel election={election} />
     </div>
   );
 };
@@ -3,18 +3,21 @@ import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
 import { Calendar, CircleCheck, Lock, Shield } from "lucide-react";
 import { format } from "date-fns";
 import { useElections } from '@/contexts/ElectionContext';
 import { useAuth } from '@/contexts/AuthContext';
+import ElectionTallyPanel from './ElectionTallyPanel';
+import ContestResults from './ContestResults';
+import { can } from '@/lib/permissions';
 
 const ElectionResults = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { getElectionById, getElectionResults } = useElections();
-  const { user } = useAuth();
+  const { getElectionById, getElectionResults, getBallotCount } = useElections();
+  const { permissions } = useAuth();
   
   if (!id) {
     return <div>Election ID is missing</div>;
@@ -35,52 +38,26 @@ const ElectionResults = () => {
   // Get the results
   const results = getElectionResults(id);
   
-  // Check if results are available
-  const resultsAvailable = election.status === 'closed' || (user && user.role === 'admin');
+  // Results exist only once the encrypted ballots have been decrypted and tallied
+  const isTallier = can(permissions, 'tally_election', election);
+  const resultsAvailable = !!results && (election.status === 'closed' || isTallier);
+  const canTally = isTallier && election.status === 'closed' && !election.results;
   
-  // Get total votes
-  const totalVotes = Object.values(results).reduce((sum, count) => sum + count, 0);
+  const ballotsCast = election.results ? election.results.totalBallots : getBallotCount(id);
   
   // Format dates for display
   const startDate = format(new Date(election.startDate), "MMMM d, yyyy");
   const endDate = format(new Date(election.endDate), "MMMM d, yyyy");
   
-  // Sort candidates by vote count (descending)
-  const sortedCandidates = [...election.candidates].sort((a, b) => 
-    (results[b.id] || 0) - (results[a.id] || 0)
-  );
-  
-  // Get the winner if election is closed
-  const getWinner = () => {
-    if (election.status !== 'closed' || totalVotes === 0) return null;
-    
-    let maxVotes = 0;
-    let winnerId = '';
-    let isTie = false;
-    
-    for (const [candidateId, votes] of Object.entries(results)) {
-      if (votes > maxVotes) {
-        maxVotes = votes;
-        winnerId = candidateId;
-        isTie = false;
-      } else if (votes === maxVotes && votes > 0) {
-        isTie = true;
-      }
-    }
-    
-    if (isTie) return null;
-    
-    return election.candidates.find(c => c.id === winnerId);
-  };
-  
-  const winner = getWinner();
-  
   return (
     <div className="container max-w-4xl mx-auto py-8">
-      <div className="mb-4">
+      <div className="mb-4 flex justify-between">
         <Button variant="outline" onClick={() => navigate('/elections')}>
           Back to Elections
         </Button>
+        <Button variant="outline" onClick={() => navigate(`/elections/${id}/ballots`)}>
+          Ballot Bulletin Board
+        </Button>
       </div>
       
       <Card className="shadow-lg border-slate-200">
@@ -115,21 +92,25 @@ const ElectionResults = () => {
             </div>
             <div className="flex items-center">
               <CircleCheck className="mr-2 h-4 w-4 text-muted-foreground" />
-              <span>{totalVotes} {totalVotes === 1 ? 'Vote' : 'Votes'} Cast</span>
+              <span>{ballotsCast} {ballotsCast === 1 ? 'Vote' : 'Votes'} Cast</span>
             </div>
           </div>
         </CardHeader>
         
         <CardContent>
-          {!resultsAvailable ? (
+          {canTally ? (
+            <ElectionTallyPanel election={election} />
+          ) : !resultsAvailable ? (
             <div className="text-center py-8">
               <Lock className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
               <h3 className="text-lg font-medium">Results are not available yet</h3>
               <p className="text-muted-foreground mt-2">
-                Results will be visible once the election has concluded.
+                {election.status === 'closed'
+                  ? 'The encrypted ballots are waiting to be decrypted and counted by the election administrator.'
+                  : 'Results will be visible once the election has concluded.'}
               </p>
             </div>
-          ) : totalVotes === 0 ? (
+          ) : ballotsCast === 0 ? (
             <div className="text-center py-8">
               <h3 className="text-lg font-medium">No votes have been cast yet</h3>
               <p className="text-muted-foreground mt-2">
@@ -138,44 +119,35 @@ const ElectionResults = () => {
             </div>
           ) : (
             <>
-              {winner && (
-                <div className="mb-8 bg-vote-100 p-4 rounded-lg border border-vote-200 text-center">
-                  <div className="inline-block p-2 rounded-full bg-vote-200 mb-2">
-                    <CircleCheck className="h-6 w-6 text-vote-800" />
-                  </div>
-                  <h3 className="text-lg font-bold text-vote-900">Winner: {winner.name}</h3>
-                  <p className="text-vote-800 mt-1">
-                    With {results[winner.id]} {results[winner.id] === 1 ? 'vote' : 'votes'} 
-                    ({totalVotes > 0 ? Math.round((results[winner.id] / totalVotes) * 100) : 0}%)
-                  </p>
-                </div>
-              )}
-              
-              <h3 className="text-lg font-medium mb-4">Vote Breakdown</h3>
-              <div className="space-y-6">
-                {sortedCandidates.map((candidate) => {
-                  const voteCount = results[candidate.id] || 0;
-                  const percentage = totalVotes > 0 ? (voteCount / totalVotes) * 100 : 0;
-                  
-                  return (
-                    <div key={candidate.id} className="space-y-2">
-                      <div className="flex justify-between text-sm">
-                        <span className="font-medium">{candidate.name}</span>
-                        <span className="text-muted-foreground">
-                          {voteCount} {voteCount === 1 ? 'vote' : 'votes'} ({Math.round(percentage)}%)
-                        </span>
-                      </div>
-                      <Progress 
-                        value={percentage} 
-                        className={winner && candidate.id === winner.id ? "h-3 bg-muted" : "h-2 bg-muted"} 
-                      />
-                      {candidate.description && (
-                        <p className="text-xs text-muted-foreground">{candidate.description}</p>
+              {election.contests.map((contest, index) => (
+                <div key={contest.id}>
+                  {index > 0 && <Separator className="my-8" />}
+                  {election.contests.length > 1 && (
+                    <div className="mb-4">
+                      <h3 className="text-xl font-semibold">{contest.title}</h3>
+                      {contest.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{contest.description}</p>
                       )}
                     </div>
-                  );
-                })}
-              </div>
+                  )}
+                  {results.contests[contest.id] ? (
+                    <ContestResults
+                      contest={contest}
+                      tally={results.contests[contest.id]}
+                      eligibleVoters={results.eligibleVoters}
+                      isClosed={election.status === 'closed'}
+                    />
+                  ) : (
+                    <p className="text-muted-foreground">No results were published for this contest.</p>
+                  )}
+                </div>
+              ))}
+              
+              {results.invalidBallots > 0 && (
+                <p className="text-sm text-muted-foreground mt-6">
+                  {results.invalidBallots} {results.invalidBallots === 1 ? 'ballot' : 'ballots'} could not be read and {results.invalidBallots === 1 ? 'was' : 'were'} not counted.
+                </p>
+              )}
             </>
           )}
           
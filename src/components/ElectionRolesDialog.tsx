@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useElections } from '@/contexts/ElectionContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { X } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { fetchElectionRolesByUser } from '@/integrations/supabase/client';
+import { assignElectionRole, memberDisplayName, removeElectionRole } from '@/lib/members';
+import { ELECTION_ROLE_LABELS } from '@/lib/permissions';
+import { ElectionRole, ElectionRoleAssignment, UserProfile } from '@/types';
+
+interface ElectionRolesDialogProps {
+  member: UserProfile | null;
+  onClose: () => void;
+}
+
+// The elections a member runs as returning officer or watches as observer.
+// Assigning a role in an election the member already has one in replaces it.
+const ElectionRolesDialog: React.FC<ElectionRolesDialogProps> = ({ member, onClose }) => {
+  const { elections, getElectionById } = useElections();
+  const [assignments, setAssignments] = useState<ElectionRoleAssignment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [electionId, setElectionId] = useState('');
+  const [role, setRole] = useState<ElectionRole>('officer');
+
+  const loadAssignments = useCallback(async () => {
+    if (!member) return;
+    setLoading(true);
+    setAssignments(await fetchElectionRolesByUser(member.id));
+    setLoading(false);
+  }, [member]);
+
+  useEffect(() => {
+    setElectionId('');
+    setRole('officer');
+    loadAssignments();
+  }, [loadAssignments]);
+
+  if (!member) return null;
+
+  const name = memberDisplayName(member);
+  const electionTitle = (id: string) => getElectionById(id)?.title ?? id;
+
+  const handleAssign = async () => {
+    setIsSaving(true);
+    try {
+      await assignElectionRole(electionId, member.id, role);
+      toast({
+        title: 'Election role assigned',
+        description: `${name} is now ${ELECTION_ROLE_LABELS[role].toLowerCase()} of ${electionTitle(electionId)}`,
+      });
+      setElectionId('');
+      loadAssignments();
+    } catch (error) {
+      console.error('Error assigning election role:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The election role could not be assigned',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (assignment: ElectionRoleAssignment) => {
+    setIsSaving(true);
+    try {
+      await removeElectionRole(assignment.electionId, member.id);
+      toast({
+        title: 'Election role removed',
+        description: `${name} is no longer ${ELECTION_ROLE_LABELS[assignment.role].toLowerCase()} of ${electionTitle(assignment.electionId)}`,
+      });
+      loadAssignments();
+    } catch (error) {
+      console.error('Error removing election role:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The election role could not be removed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Election Roles for {name}</DialogTitle>
+          <DialogDescription>
+            Returning officers run an election: they edit it, open and close it, manage its voter codes and
+            nominations, and tally it, but cannot vote in it. Observers can follow its turnout.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {loading ? (
+            <Skeleton className="h-8" />
+          ) : assignments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No roles in any election.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Election</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Assigned</TableHead>
+                  <TableHead className="text-right">Remove</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.map(assignment => (
+                  <TableRow key={assignment.id}>
+                    <TableCell>{electionTitle(assignment.electionId)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ELECTION_ROLE_LABELS[assignment.role]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{format(assignment.assignedAt, 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        title="Remove role"
+                        disabled={isSaving}
+                        onClick={() => handleRemove(assignment)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[200px] space-y-2">
+              <Label>Election</Label>
+              <Select value={electionId} onValueChange={setElectionId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an election" />
+                </SelectTrigger>
+                <SelectContent>
+                  {elections.map(election => (
+                    <SelectItem key={election.id} value={election.id}>{election.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-[180px] space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as ElectionRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ELECTION_ROLE_LABELS) as ElectionRole[]).map(option => (
+                    <SelectItem key={option} value={option}>{ELECTION_ROLE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleAssign} disabled={isSaving || !electionId}>
+              {isSaving ? 'Saving...' : 'Assign'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ElectionRolesDialog;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useElections } from '@/contexts/ElectionContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Key, Unlock } from 'lucide-react';
+import { Election } from '@/types';
+import { toast } from '@/components/ui/use-toast';
+
+interface ElectionTallyPanelProps {
+  election: Election;
+}
+
+// Lets an admin decrypt the ballots of a closed election with its private key
+const ElectionTallyPanel: React.FC<ElectionTallyPanelProps> = ({ election }) => {
+  const { tallyElection, getBallotCount } = useElections();
+  const [privateKey, setPrivateKey] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [isTallying, setIsTallying] = useState(false);
+
+  const ballotCount = getBallotCount(election.id);
+
+  // Accept both the key file downloaded at creation and a bare JWK
+  const handleKeyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const contents = JSON.parse(await file.text());
+      if (contents.electionId && contents.electionId !== election.id) {
+        toast({
+          title: "Wrong key file",
+          description: `This key belongs to election ${contents.electionCode || contents.electionId}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setPrivateKey(JSON.stringify(contents.privateKey ?? contents));
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Error reading key file:', error);
+      toast({
+        title: "Invalid key file",
+        description: "The selected file is not a valid election key file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTally = async () => {
+    if (!privateKey) return;
+
+    setIsTallying(true);
+    try {
+      const tallied = await tallyElection(election.id, privateKey);
+      if (tallied) {
+        setPrivateKey(null);
+        setFileName('');
+      }
+    } finally {
+      setIsTallying(false);
+    }
+  };
+
+  return (
+    <div className="py-6 space-y-4">
+      <div className="text-center">
+        <Key className="h-12 w-12 text-vote-600 mx-auto mb-3" />
+        <h3 className="text-lg font-medium">Decrypt and Count the Ballots</h3>
+        <p className="text-muted-foreground mt-2">
+          {ballotCount} encrypted {ballotCount === 1 ? 'ballot is' : 'ballots are'} waiting to be counted.
+          Load the private key file you saved when creating this election. The key is only used in
+          your browser and is never uploaded.
+        </p>
+      </div>
+
+      <div className="max-w-md mx-auto space-y-2">
+        <Label htmlFor="private-key-file">Election private key</Label>
+        <Input id="private-key-file" type="file" accept=".json,application/json" onChange={handleKeyFile} />
+        {fileName && (
+          <p className="text-xs text-muted-foreground">Loaded {fileName}</p>
+        )}
+        <Button
+          className="w-full bg-vote-600 hover:bg-vote-700"
+          disabled={!privateKey || isTallying}
+          onClick={handleTally}
+        >
+          <Unlock className="mr-2 h-4 w-4" />
+          {isTallying ? 'Decrypting ballots...' : 'Decrypt and Publish Results'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ElectionTallyPanel;
@@ -10,11 +10,13 @@ import { CircleCheck, Shield } from 'lucide-react';
 import { supabase, fetchElections } from '@/integrations/supabase/client';
 import { Election } from '@/types';
 import { toast } from '@/components/ui/use-toast';
+import { can } from '@/lib/permissions';
 
 const ElectionsList = () => {
-  const { user } = useAuth();
+  const { permissions } = useAuth();
   const navigate = useNavigate();
-  const isAdmin = user?.role === 'admin';
+  const isStaff = can(permissions, 'view_admin_dashboard');
+  const canCreate = can(permissions, 'create_election');
   const [elections, setElections] = useState<Election[]>([]);
   const [loading, setLoading] = useState(true);
   
@@ -58,9 +60,11 @@ const ElectionsList = () => {
     };
   }, []);
   
-  const activeElections = elections.filter((election) => election.status === 'active');
-  const upcomingElections = elections.filter((election) => election.status === 'upcoming');
-  const closedElections = elections.filter((election) => election.status === 'closed');
+  // Officers only list the elections they run
+  const staffElections = elections.filter((election) => can(permissions, 'view_admin_dashboard', election));
+  const activeElections = staffElections.filter((election) => election.status === 'active');
+  const upcomingElections = staffElections.filter((election) => election.status === 'upcoming');
+  const closedElections = staffElections.filter((election) => election.status === 'closed');
   
   if (loading) {
     return (
@@ -77,8 +81,8 @@ const ElectionsList = () => {
     );
   }
   
-  // If user is not admin and they're on the elections list page, they shouldn't see any elections
-  if (!isAdmin && elections.length > 0) {
+  // If user is not staff and they're on the elections list page, they shouldn't see any elections
+  if (!isStaff && elections.length > 0) {
     return (
       <div className="flex flex-col items-center justify-center h-96">
         <div className="text-center max-w-md">
@@ -91,7 +95,7 @@ const ElectionsList = () => {
     );
   }
   
-  if (elections.length === 0) {
+  if (staffElections.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-96">
         <div className="text-center max-w-md">
@@ -99,7 +103,7 @@ const ElectionsList = () => {
           <p className="text-muted-foreground mb-6">
             There are currently no elections available in the system.
           </p>
-          {isAdmin && (
+          {canCreate && (
             <Button onClick={() => navigate('/elections/create')} className="bg-vote-600 hover:bg-vote-700">
               <CircleCheck className="mr-2 h-4 w-4" />
               Create First Election
@@ -113,7 +117,7 @@ const ElectionsList = () => {
   return (
     <div className="space-y-10">
       {/* Admin button to create new election */}
-      {isAdmin && (
+      {canCreate && (
         <div className="mb-6 flex justify-end">
           <Button onClick={() => navigate('/elections/create')} className="bg-vote-600 hover:bg-vote-700">
             <CircleCheck className="mr-2 h-4 w-4" />
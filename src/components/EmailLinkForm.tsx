@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Mail, MailCheck } from "lucide-react";
+import { toast } from '@/components/ui/use-toast';
+import { requestPasswordReset, sendMagicLink } from '@/lib/accountAccess';
+
+type EmailLinkKind = 'password_reset' | 'magic_link';
+
+interface EmailLinkFormProps {
+  kind: EmailLinkKind;
+  initialEmail?: string;
+  onBack: () => void;
+}
+
+const COPY: Record<EmailLinkKind, { intro: string; submit: string; sent: string }> = {
+  password_reset: {
+    intro: "Enter your account's email and we'll send you a link to choose a new password.",
+    submit: 'Send Reset Link',
+    sent: 'If an account uses that email, a link to reset its password is on its way. It works once and expires after an hour.',
+  },
+  magic_link: {
+    intro: "Enter your account's email and we'll send you a link that logs you in, no password needed.",
+    submit: 'Send Login Link',
+    sent: 'A login link is on its way. It works once and expires after an hour.',
+  },
+};
+
+// Asks for an email and sends a password reset or magic login link to it,
+// then says where the link went and offers to send it again
+const EmailLinkForm: React.FC<EmailLinkFormProps> = ({ kind, initialEmail = '', onBack }) => {
+  const [email, setEmail] = useState(initialEmail);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const copy = COPY[kind];
+
+  const send = async (address: string) => {
+    setIsSending(true);
+    try {
+      await (kind === 'password_reset' ? requestPasswordReset(address) : sendMagicLink(address));
+      setSentTo(address);
+    } catch (error) {
+      console.error('Error sending email link:', error);
+      toast({
+        title: 'Email not sent',
+        description: error instanceof Error ? error.message : 'Please try again in a minute',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(email.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      {sentTo ? (
+        <div className="space-y-4">
+          <div className="flex items-start gap-3 rounded-md border border-secure-200 bg-secure-100 p-4">
+            <MailCheck className="h-5 w-5 text-secure-600 flex-shrink-0" />
+            <div className="space-y-1 text-sm text-secure-800">
+              <p className="font-medium">Check {sentTo}</p>
+              <p>{copy.sent}</p>
+            </div>
+          </div>
+          <Button variant="outline" className="w-full" onClick={() => send(sentTo)} disabled={isSending}>
+            {isSending ? 'Sending...' : 'Send It Again'}
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">{copy.intro}</p>
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-email`} className="font-medium">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                id={`${kind}-email`}
+                type="email"
+                placeholder="Enter your email"
+                className="pl-10"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isSending}
+                required
+                autoFocus
+              />
+            </div>
+          </div>
+          <Button type="submit" className="w-full bg-vote-600 hover:bg-vote-700" disabled={isSending}>
+            {isSending ? 'Sending...' : copy.submit}
+          </Button>
+        </form>
+      )}
+      <Button variant="link" className="px-0" onClick={onBack} disabled={isSending}>
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to login
+      </Button>
+    </div>
+  );
+};
+
+export default EmailLinkForm;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+import { toast } from '@/components/ui/use-toast';
+import { resendVerificationEmail } from '@/lib/accountAccess';
+
+interface EmailVerificationNoticeProps {
+  email: string;
+}
+
+// For members who have not followed the link in their verification email
+// yet, with a way to get another one
+const EmailVerificationNotice: React.FC<EmailVerificationNoticeProps> = ({ email }) => {
+  const [isSending, setIsSending] = useState(false);
+
+  const resend = async () => {
+    setIsSending(true);
+    try {
+      await resendVerificationEmail(email);
+      toast({
+        title: 'Verification email sent',
+        description: `Follow the link we sent to ${email}`,
+      });
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      toast({
+        title: 'Email not sent',
+        description: error instanceof Error ? error.message : 'Please try again in a minute',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-3 rounded-md border border-amber-200 bg-amber-50 p-4">
+      <MailWarning className="h-5 w-5 text-amber-600 flex-shrink-0" />
+      <div className="space-y-2 text-sm text-amber-800">
+        <p>
+          <span className="font-medium">{email}</span> is not verified yet. Follow the link in the verification
+          email we sent to it.
+        </p>
+        <Button variant="outline" size="sm" onClick={resend} disabled={isSending}>
+          {isSending ? 'Sending...' : 'Resend Verification Email'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationNotice;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, CircleX } from "lucide-react";
+import { Candidate, InstantRunoffRound } from '@/types';
+
+interface InstantRunoffRoundsProps {
+  candidates: Candidate[];
+  rounds: InstantRunoffRound[];
+}
+
+// Round-by-round breakdown of an instant-runoff count: each candidate's votes
+// per round, who was eliminated and where their ballots went
+const InstantRunoffRounds: React.FC<InstantRunoffRoundsProps> = ({ candidates, rounds }) => {
+  const candidateName = (id: string) => candidates.find(candidate => candidate.id === id)?.name ?? 'Unknown candidate';
+
+  // Order rows by how long each candidate lasted, then by their final votes
+  const lastRoundOf = (id: string) => rounds.filter(round => id in round.counts).length;
+  const finalVotes = (id: string) => {
+    const last = rounds[lastRoundOf(id) - 1];
+    return last ? last.counts[id] : 0;
+  };
+  const rows = [...candidates].sort((a, b) =>
+    lastRoundOf(b.id) - lastRoundOf(a.id) || finalVotes(b.id) - finalVotes(a.id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-md overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Candidate</TableHead>
+              {rounds.map(round => (
+                <TableHead key={round.round} className="text-right whitespace-nowrap">Round {round.round}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(candidate => (
+              <TableRow key={candidate.id}>
+                <TableCell className="font-medium">{candidate.name}</TableCell>
+                {rounds.map((round, index) => {
+                  if (!(candidate.id in round.counts)) {
+                    return <TableCell key={round.round} className="text-right text-muted-foreground">—</TableCell>;
+                  }
+
+                  const received = index > 0 ? rounds[index - 1].transfers[candidate.id] ?? 0 : 0;
+                  const isEliminated = round.eliminated.includes(candidate.id);
+                  const isWinner = round.winnerId === candidate.id;
+
+                  return (
+                    <TableCell
+                      key={round.round}
+                      className={`text-right whitespace-nowrap ${isEliminated ? 'text-red-700' : ''} ${isWinner ? 'font-bold text-vote-800' : ''}`}
+                    >
+                      {round.counts[candidate.id]}
+                      {received > 0 && <span className="text-xs text-green-700 ml-1">(+{received})</span>}
+                      {isEliminated && <CircleX className="inline h-3 w-3 ml-1" />}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell className="text-muted-foreground">Exhausted ballots</TableCell>
+              {rounds.map(round => (
+                <TableCell key={round.round} className="text-right text-muted-foreground">{round.exhausted}</TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+
+      <ol className="space-y-3">
+        {rounds.map(round => {
+          const active = Object.values(round.counts).reduce((sum, count) => sum + count, 0);
+
+          return (
+            <li key={round.round} className="text-sm">
+              <div className="flex items-center gap-2 mb-1">
+                <Badge variant="outline">Round {round.round}</Badge>
+                <span className="text-muted-foreground">
+                  {active} active {active === 1 ? 'ballot' : 'ballots'}, {Math.floor(active / 2) + 1} needed to win
+                </span>
+              </div>
+              {round.winnerId ? (
+                <p className="font-medium text-vote-800">
+                  {candidateName(round.winnerId)} wins with {round.counts[round.winnerId]} votes.
+                </p>
+              ) : round.eliminated.length > 0 ? (
+                <div>
+                  <p>
+                    {round.eliminated.map(candidateName).join(' and ')}{' '}
+                    {round.eliminated.length === 1 ? 'is' : 'are'} eliminated with the fewest votes
+                    {round.tiebreak === 'earlier_rounds' && ' (tie for last place broken by earlier rounds)'}
+                    {round.tiebreak === 'ballot_order' && ' (tie for last place broken by ballot order)'}.
+                  </p>
+                  {(Object.keys(round.transfers).length > 0 || round.exhaustedTransfers > 0) && (
+                    <ul className="mt-1 ml-4 space-y-0.5 text-muted-foreground">
+                      {Object.entries(round.transfers).map(([candidateId, votes]) => (
+                        <li key={candidateId} className="flex items-center">
+                          <ArrowRight className="h-3 w-3 mr-1" />
+                          {votes} {votes === 1 ? 'vote transfers' : 'votes transfer'} to {candidateName(candidateId)}
+                        </li>
+                      ))}
+                      {round.exhaustedTransfers > 0 && (
+                        <li className="flex items-center">
+                          <ArrowRight className="h-3 w-3 mr-1" />
+                          {round.exhaustedTransfers} {round.exhaustedTransfers === 1 ? 'ballot has' : 'ballots have'} no further preference
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <p className="font-medium">
+                  The remaining candidates are tied and cannot be separated. The count ends without a winner.
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default InstantRunoffRounds;
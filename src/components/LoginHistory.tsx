@@ -0,0 +1,77 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { fetchLoginEvents } from '@/integrations/supabase/client';
+import { LOGIN_EVENT_LABELS, LOGIN_EVENT_STYLES, describeUserAgent } from '@/lib/loginHistory';
+import { LoginEvent } from '@/types';
+
+interface LoginHistoryProps {
+  // Only this member's events; otherwise every event the user can see,
+  // with the member each belongs to
+  userId?: string;
+}
+
+// Recent sign-ins, sign-outs, failed sign-ins and session refreshes
+const LoginHistory: React.FC<LoginHistoryProps> = ({ userId }) => {
+  const [events, setEvents] = useState<LoginEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setEvents(await fetchLoginEvents(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={loadEvents} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+      {loading ? (
+        <Skeleton className="h-8" />
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No logins recorded yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              {!userId && <TableHead>Member</TableHead>}
+              <TableHead>Device</TableHead>
+              <TableHead>Time</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map(event => (
+              <TableRow key={event.id}>
+                <TableCell>
+                  <Badge variant="outline" className={LOGIN_EVENT_STYLES[event.event]}>
+                    {LOGIN_EVENT_LABELS[event.event]}
+                  </Badge>
+                </TableCell>
+                {!userId && <TableCell className="text-sm">{event.email ?? '—'}</TableCell>}
+                <TableCell className="text-sm" title={event.userAgent}>{describeUserAgent(event.userAgent)}</TableCell>
+                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                  {format(event.createdAt, 'yyyy-MM-dd HH:mm:ss')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default LoginHistory;
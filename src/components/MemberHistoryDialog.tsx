@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useElections } from '@/contexts/ElectionContext';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchVoterRecordsByVoter } from '@/integrations/supabase/client';
+import { memberDisplayName } from '@/lib/members';
+import { NOMINATION_STATUS_LABELS, NOMINATION_STATUS_STYLES } from '@/lib/nominations';
+import { UserProfile, VoterRecord } from '@/types';
+
+interface MemberHistoryDialogProps {
+  member: UserProfile | null;
+  onClose: () => void;
+}
+
+const formatDateTime = (date: Date) => format(date, 'MMM d, yyyy HH:mm');
+
+const REGISTRATION_STYLES: Record<'pending' | 'approved' | 'rejected', string> = {
+  pending: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  approved: 'bg-green-50 text-green-800 border-green-200',
+  rejected: 'bg-red-50 text-red-800 border-red-200',
+};
+
+// A member's account events, voter registrations, the elections they voted
+// in and the nominations they made or seconded
+const MemberHistoryDialog: React.FC<MemberHistoryDialogProps> = ({ member, onClose }) => {
+  const { voterRegistrations, nominations, getElectionById } = useElections();
+  const [voterRecords, setVoterRecords] = useState<VoterRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!member) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchVoterRecordsByVoter(member.id).then(records => {
+      if (cancelled) return;
+      setVoterRecords(records.filter(record => record.hasVoted));
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [member]);
+
+  if (!member) return null;
+
+  const electionTitle = (electionId: string) => getElectionById(electionId)?.title ?? electionId;
+  const email = member.email?.toLowerCase();
+  const registrations = email
+    ? voterRegistrations
+        .filter(registration => registration.email.toLowerCase() === email)
+        .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime())
+    : [];
+  const memberNominations = nominations
+    .filter(nomination =>
+      nomination.nomineeId === member.id
+      || nomination.seconderId === member.id
+      || (!!email && nomination.seconderEmail === email))
+    .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{memberDisplayName(member)}</DialogTitle>
+          <DialogDescription>
+            {member.email && member.email !== memberDisplayName(member) ? `${member.email} · ` : ''}
+            {member.createdAt ? `Registered ${formatDateTime(member.createdAt)}` : 'Registration date unknown'}
+            {member.invitedAt && ` · Invited ${formatDateTime(member.invitedAt)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {member.deactivatedAt && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            Deactivated {formatDateTime(member.deactivatedAt)}
+            {member.deactivationReason && `: ${member.deactivationReason}`}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <section className="space-y-2">
+            <h3 className="font-medium">Voter Registrations</h3>
+            {registrations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No voter registrations.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Election</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {registrations.map(registration => (
+                    <TableRow key={registration.id}>
+                      <TableCell>{electionTitle(registration.electionId)}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDateTime(registration.submittedAt)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={REGISTRATION_STYLES[registration.status]}>
+                          {registration.status.charAt(0).toUpperCase() + registration.status.slice(1)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="font-medium">Voting</h3>
+            {loading ? (
+              <Skeleton className="h-8" />
+            ) : voterRecords.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Has not voted in any election.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Election</TableHead>
+                    <TableHead>Voted</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {voterRecords.map(record => (
+                    <TableRow key={record.electionId}>
+                      <TableCell>{electionTitle(record.electionId)}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {record.timestamp ? formatDateTime(record.timestamp) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="font-medium">Nominations</h3>
+            {memberNominations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No nominations made or seconded.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Election</TableHead>
+                    <TableHead>Nominee</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {memberNominations.map(nomination => (
+                    <TableRow key={nomination.id}>
+                      <TableCell>{electionTitle(nomination.electionId)}</TableCell>
+                      <TableCell>{nomination.nomineeName}</TableCell>
+                      <TableCell className="text-sm">{nomination.nomineeId === member.id ? 'Nominee' : 'Seconder'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={NOMINATION_STATUS_STYLES[nomination.status]}>
+                          {NOMINATION_STATUS_LABELS[nomination.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MemberHistoryDialog;
@@ -6,9 +6,10 @@ import { Shield, LogOut, Settings, User } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { can, USER_ROLE_LABELS } from '@/lib/permissions';
 
 const Navbar = () => {
-  const { user, profile, logout, hasRole, isAuthenticated, isLoading } = useAuth();
+  const { user, profile, permissions, logout, isAuthenticated, isLoading } = useAuth();
   const navigate = useNavigate();
   
   return (
@@ -28,7 +29,7 @@ const Navbar = () => {
           <Button variant="link" asChild>
             <Link to="/elections">Elections</Link>
           </Button>
-          {profile && hasRole('admin') && (
+          {can(permissions, 'view_admin_dashboard') && (
             <Button variant="link" asChild>
               <Link to="/admin">Admin</Link>
             </Button>
@@ -54,7 +55,7 @@ const Navbar = () => {
                 <DropdownMenuLabel>
                   <div className="flex flex-col">
                     <span>{profile?.username || user.email}</span>
-                    <span className="text-xs text-muted-foreground">{profile?.role}</span>
+                    <span className="text-xs text-muted-foreground">{profile && USER_ROLE_LABELS[profile.role]}</span>
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
@@ -62,7 +63,7 @@ const Navbar = () => {
                   <User className="mr-2 h-4 w-4" />
                   <span>Profile</span>
                 </DropdownMenuItem>
-                {profile && hasRole('admin') && (
+                {can(permissions, 'view_admin_dashboard') && (
                   <DropdownMenuItem className="cursor-pointer" onClick={() => navigate('/admin')}>
                     <Settings className="mr-2 h-4 w-4" />
                     <span>Admin</span>
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useAuth } from '@/contexts/AuthContext';
+import { useElections } from '@/contexts/ElectionContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Check, Mail, UserPlus, X } from 'lucide-react';
+import { Election } from '@/types';
+import { nominationPeriod } from '@/lib/lifecycle';
+import { NOMINATION_STATUS_LABELS, NOMINATION_STATUS_STYLES } from '@/lib/nominations';
+import { can } from '@/lib/permissions';
+
+const formSchema = z.object({
+  contestId: z.string().min(1, "Choose the contest you are standing in"),
+  nomineeName: z.string().min(2, "Name must be at least 2 characters"),
+  statement: z.string().min(20, "Your statement must be at least 20 characters"),
+  seconderEmail: z.string().email("Please enter your seconder's email address"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface NominationPanelProps {
+  election: Election;
+}
+
+// Self-nomination for an election with a nomination period: the form to
+// nominate yourself, the state of your nominations, and the nominations
+// you have been asked to second
+const NominationPanel = ({ election }: NominationPanelProps) => {
+  const { user, profile, permissions } = useAuth();
+  const { getNominationsByElection, canNominateForElection, submitNomination, secondNomination } = useElections();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const candidateContests = election.contests.filter(contest => contest.votingMethod !== 'proposition');
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      contestId: candidateContests.length === 1 ? candidateContests[0].id : '',
+      nomineeName: profile?.username || '',
+      statement: '',
+      seconderEmail: '',
+    },
+  });
+
+  if (!election.nominationOpensAt || !election.nominationClosesAt || candidateContests.length === 0) {
+    return null;
+  }
+
+  const period = nominationPeriod(election, new Date());
+  const nominations = getNominationsByElection(election.id);
+  const myNominations = nominations.filter(nomination => nomination.nomineeId === user?.id);
+  const toSecond = nominations.filter(
+    nomination => nomination.seconderEmail === user?.email?.toLowerCase() && nomination.status === 'awaiting_seconder'
+  );
+  const contestTitle = (contestId: string) => election.contests.find(c => c.id === contestId)?.title ?? 'Unknown contest';
+
+  const opens = format(election.nominationOpensAt, "MMM d, yyyy 'at' h:mm a");
+  const closes = format(election.nominationClosesAt, "MMM d, yyyy 'at' h:mm a");
+
+  const onSubmit = async (values: FormValues) => {
+    setIsSubmitting(true);
+    const submitted = await submitNomination(values.contestId, values.nomineeName, values.statement, values.seconderEmail);
+    setIsSubmitting(false);
+    if (submitted) form.reset({ ...values, statement: '', seconderEmail: '' });
+  };
+
+  const respond = async (nominationId: string, second: boolean) => {
+    setRespondingTo(nominationId);
+    await secondNomination(nominationId, second);
+    setRespondingTo(null);
+  };
+
+  return (
+    <Card className="shadow-lg border-slate-200 mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <UserPlus className="mr-2 h-5 w-5" />
+          Nominations
+        </CardTitle>
+        <CardDescription>
+          {period === 'not_yet_open'
+            ? `Nominations open on ${opens} and close on ${closes}.`
+            : period === 'open'
+              ? `Nominations are open until ${closes}. Members may nominate themselves with a seconder.`
+              : `Nominations closed on ${closes}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {can(permissions, 'review_nominations', election) && (
+          <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-100 rounded-md">
+            <p className="text-sm text-blue-700">
+              {nominations.filter(n => n.status === 'pending').length} seconded{' '}
+              {nominations.filter(n => n.status === 'pending').length === 1 ? 'nomination is' : 'nominations are'} waiting for review.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => navigate('/admin', { state: { tab: 'nominations' } })}>
+              Review Nominations
+            </Button>
+          </div>
+        )}
+
+        {toSecond.length > 0 && (
+          <div>
+            <h3 className="text-lg font-medium mb-1">Asked to Second</h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              These members named you as their seconder. A nomination only goes forward if you second it.
+            </p>
+            <div className="space-y-3">
+              {toSecond.map((nomination) => (
+                <div key={nomination.id} className="border rounded-lg p-4">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h4 className="font-medium">{nomination.nomineeName}</h4>
+                      <p className="text-sm text-muted-foreground">for {contestTitle(nomination.contestId)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => respond(nomination.id, false)}
+                        disabled={respondingTo === nomination.id}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Decline
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-vote-600 hover:bg-vote-700"
+                        onClick={() => respond(nomination.id, true)}
+                        disabled={respondingTo === nomination.id}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Second
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-sm mt-3 whitespace-pre-wrap">{nomination.statement}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {myNominations.length > 0 && (
+          <div>
+            <h3 className="text-lg font-medium mb-3">Your Nominations</h3>
+            <div className="space-y-3">
+              {myNominations.map((nomination) => (
+                <div key={nomination.id} className="border rounded-lg p-4">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h4 className="font-medium">{contestTitle(nomination.contestId)}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        Submitted {format(nomination.submittedAt, "MMM d, yyyy")}, seconder {nomination.seconderEmail}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className={NOMINATION_STATUS_STYLES[nomination.status]}>
+                      {NOMINATION_STATUS_LABELS[nomination.status]}
+                    </Badge>
+                  </div>
+                  {nomination.reviewNote && (
+                    <p className="text-sm mt-2">
+                      <span className="font-medium">Note from the administrator:</span> {nomination.reviewNote}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {can(permissions, 'vote', election) && canNominateForElection(election.id) && (
+          <div>
+            <h3 className="text-lg font-medium mb-3">Nominate Yourself</h3>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="contestId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contest</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a contest" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {candidateContests.map((contest) => (
+                            <SelectItem key={contest.id} value={contest.id}>{contest.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="nomineeName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name on the Ballot</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Your full name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="statement"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Statement</FormLabel>
+                      <FormControl>
+                        <Textarea rows={6} placeholder="Why you are standing and what you would do" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        If your nomination is accepted this becomes your manifesto. Markdown is supported.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="seconderEmail"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Seconder's Email</FormLabel>
+                      <FormControl>
+                        <div className="flex items-center border rounded-md focus-within:ring-1 focus-within:ring-ring">
+                          <div className="px-3 border-r">
+                            <Mail className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                          <Input className="border-0 focus-visible:ring-0" type="email" placeholder="seconder@example.com" {...field} />
+                        </div>
+                      </FormControl>
+                      <FormDescription>
+                        The address your seconder signs in with. They confirm your nomination from this page.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full bg-vote-600 hover:bg-vote-700" disabled={isSubmitting}>
+                  {isSubmitting ? 'Submitting...' : 'Submit Nomination'}
+                </Button>
+              </form>
+            </Form>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NominationPanel;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useElections } from '@/contexts/ElectionContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Check, X } from 'lucide-react';
+import { Nomination } from '@/types';
+import { NOMINATION_STATUS_LABELS, NOMINATION_STATUS_STYLES } from '@/lib/nominations';
+import { can } from '@/lib/permissions';
+
+// Admin queue of seconded nominations. Accepting one adds the nominee to
+// the contest as a candidate; either decision can carry a note to the nominee.
+// Officers only see the nominations for the elections they run.
+const NominationReviewQueue: React.FC = () => {
+  const { permissions } = useAuth();
+  const { nominations: allNominations, elections, reviewNomination } = useElections();
+  const [note, setNote] = useState('');
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  const electionFor = (nomination: Nomination) => elections.find(e => e.id === nomination.electionId);
+  const contestTitle = (nomination: Nomination) =>
+    electionFor(nomination)?.contests.find(c => c.id === nomination.contestId)?.title ?? 'Unknown contest';
+
+  const nominations = allNominations.filter(nomination => can(permissions, 'review_nominations', nomination.electionId));
+  const pending = nominations.filter(nomination => nomination.status === 'pending');
+  const others = nominations
+    .filter(nomination => nomination.status !== 'pending')
+    .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+
+  const review = async (nominationId: string, accept: boolean) => {
+    setReviewing(nominationId);
+    await reviewNomination(nominationId, accept, note.trim());
+    setReviewing(null);
+    setNote('');
+  };
+
+  const decisionDialog = (nomination: Nomination, accept: boolean) => (
+    <AlertDialog onOpenChange={(open) => open && setNote('')}>
+      <AlertDialogTrigger asChild>
+        <Button
+          size="sm"
+          variant={accept ? 'default' : 'outline'}
+          className={accept ? 'bg-vote-600 hover:bg-vote-700' : ''}
+          disabled={reviewing === nomination.id || electionFor(nomination)?.status !== 'upcoming'}
+        >
+          {accept ? <Check className="h-4 w-4 mr-1" /> : <X className="h-4 w-4 mr-1" />}
+          {accept ? 'Accept' : 'Reject'}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{accept ? 'Accept' : 'Reject'} {nomination.nomineeName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {accept
+              ? `${nomination.nomineeName} will be added to the end of the ${contestTitle(nomination)} ballot, with their statement as their manifesto. You can edit their profile from the election's edit page.`
+              : `${nomination.nomineeName} will not appear on the ${contestTitle(nomination)} ballot.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`nomination-note-${nomination.id}`}>Note to the nominee (optional)</Label>
+          <Textarea
+            id={`nomination-note-${nomination.id}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={accept ? 'e.g. Please send us a photo for the ballot' : 'The reason for the decision'}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => review(nomination.id, accept)}
+            className={accept ? 'bg-vote-600 hover:bg-vote-700' : 'bg-red-600 hover:bg-red-700'}
+          >
+            {accept ? 'Accept Nomination' : 'Reject Nomination'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-lg font-medium mb-3">Awaiting Review</h3>
+        {pending.length === 0 ? (
+          <div className="text-center py-8 border border-dashed rounded-md">
+            <p className="text-muted-foreground">No seconded nominations are waiting for review.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((nomination) => (
+              <div key={nomination.id} className="border rounded-lg p-4">
+                <div className="flex justify-between items-start gap-4 flex-wrap">
+                  <div>
+                    <h4 className="font-medium">{nomination.nomineeName}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {contestTitle(nomination)} in {electionFor(nomination)?.title ?? 'an unknown election'}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Submitted {format(nomination.submittedAt, 'MMM d, yyyy HH:mm')}
+                      {nomination.secondedAt && `, seconded by ${nomination.seconderEmail} on ${format(nomination.secondedAt, 'MMM d, yyyy HH:mm')}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {decisionDialog(nomination, false)}
+                    {decisionDialog(nomination, true)}
+                  </div>
+                </div>
+                <p className="text-sm mt-3 whitespace-pre-wrap">{nomination.statement}</p>
+                {electionFor(nomination)?.status !== 'upcoming' && (
+                  <p className="text-sm text-amber-700 mt-2">Voting has started, so this nomination can no longer be added to the ballot.</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {others.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium mb-3">All Other Nominations</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nominee</TableHead>
+                <TableHead>Contest</TableHead>
+                <TableHead>Seconder</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {others.map((nomination) => (
+                <TableRow key={nomination.id}>
+                  <TableCell className="font-medium">{nomination.nomineeName}</TableCell>
+                  <TableCell>
+                    {contestTitle(nomination)}
+                    <div className="text-xs text-muted-foreground">{electionFor(nomination)?.title}</div>
+                  </TableCell>
+                  <TableCell>{nomination.seconderEmail}</TableCell>
+                  <TableCell>{format(nomination.submittedAt, 'MMM d, yyyy')}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={NOMINATION_STATUS_STYLES[nomination.status]}>
+                      {NOMINATION_STATUS_LABELS[nomination.status]}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NominationReviewQueue;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CircleCheck, CircleX } from "lucide-react";
+import { Contest, ContestTally } from '@/types';
+import { PROPOSITION_CHOICES, propositionOutcome } from '@/lib/tally';
+import { PROPOSITION_CHOICE_LABELS, describePassRule } from '@/lib/contests';
+
+interface PropositionResultsProps {
+  contest: Contest;
+  tally: ContestTally;
+  eligibleVoters?: number;
+  isClosed: boolean; // The outcome is only announced once the election has closed
+}
+
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+// Published result of a proposition: whether it passed, the Yes/No/Abstain
+// breakdown, and the quorum and threshold arithmetic behind the outcome
+const PropositionResults: React.FC<PropositionResultsProps> = ({ contest, tally, eligibleVoters = 0, isClosed }) => {
+  const outcome = propositionOutcome(contest, tally, eligibleVoters);
+  const { yes, answered, quorumRequired, yesRequired, thresholdBase } = outcome;
+
+  const thresholdMaths = contest.passThreshold === 'two_thirds'
+    ? `Two thirds of the ${thresholdBase} Yes and No votes, rounded up, is ${yesRequired}.`
+    : contest.passThreshold === 'percent_of_eligible'
+      ? `${contest.thresholdPercent}% of ${eligibleVoters} eligible voters, rounded up, is ${yesRequired}.`
+      : `More than half of the ${thresholdBase} Yes and No votes is ${yesRequired}.`;
+
+  return (
+    <>
+      {isClosed && (
+        outcome.result === 'passed' ? (
+          <div className="mb-8 bg-vote-100 p-4 rounded-lg border border-vote-200 text-center">
+            <div className="inline-block p-2 rounded-full bg-vote-200 mb-2">
+              <CircleCheck className="h-6 w-6 text-vote-800" />
+            </div>
+            <h3 className="text-lg font-bold text-vote-900">Passed</h3>
+            <p className="text-vote-800 mt-1">{yes} Yes {yes === 1 ? 'vote' : 'votes'}, {yesRequired} needed</p>
+          </div>
+        ) : outcome.result === 'failed' ? (
+          <div className="mb-8 bg-red-50 p-4 rounded-lg border border-red-200 text-center">
+            <CircleX className="h-6 w-6 text-red-700 mx-auto mb-2" />
+            <h3 className="text-lg font-bold text-red-900">Failed</h3>
+            <p className="text-red-800 mt-1">{yes} Yes {yes === 1 ? 'vote' : 'votes'}, {yesRequired} needed</p>
+          </div>
+        ) : outcome.result === 'quorum_not_met' ? (
+          <div className="mb-8 bg-amber-50 p-4 rounded-lg border border-amber-200 text-center">
+            <AlertCircle className="h-6 w-6 text-amber-600 mx-auto mb-2" />
+            <h3 className="text-lg font-bold text-amber-900">Quorum Not Met</h3>
+            <p className="text-amber-800 mt-1">
+              {answered} of {eligibleVoters} eligible voters answered, {quorumRequired} needed
+            </p>
+          </div>
+        ) : (
+          <div className="mb-8 bg-amber-50 p-4 rounded-lg border border-amber-200 text-center">
+            <AlertCircle className="h-6 w-6 text-amber-600 mx-auto mb-2" />
+            <h3 className="text-lg font-bold text-amber-900">Not Decided</h3>
+            <p className="text-amber-800 mt-1">
+              No eligible voters were recorded, so the {contest.passThreshold === 'percent_of_eligible' ? 'threshold' : 'quorum'} cannot be measured
+            </p>
+          </div>
+        )
+      )}
+
+      <h4 className="text-base font-medium mb-4">Vote Breakdown</h4>
+      <div className="space-y-6">
+        {PROPOSITION_CHOICES.map((choice) => {
+          const voteCount = tally.counts[choice] || 0;
+          const percentage = answered > 0 ? (voteCount / answered) * 100 : 0;
+
+          return (
+            <div key={choice} className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{PROPOSITION_CHOICE_LABELS[choice]}</span>
+                <span className="text-muted-foreground">
+                  {voteCount} {voteCount === 1 ? 'vote' : 'votes'} ({Math.round(percentage)}%)
+                </span>
+              </div>
+              <Progress value={percentage} className="h-2 bg-muted" />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-8">
+        <h4 className="text-base font-medium mb-2">How the Result Was Decided</h4>
+        <p className="text-sm text-muted-foreground mb-3">{describePassRule(contest)}</p>
+        <ol className="text-sm space-y-2 list-decimal list-inside">
+          {quorumRequired !== undefined && (
+            <li>
+              Quorum: {contest.quorumPercent}% of {eligibleVoters} eligible voters, rounded up, is {quorumRequired}.{' '}
+              {answered} answered ({percentOf(answered, eligibleVoters)}%), so the quorum
+              was {answered >= quorumRequired ? 'met' : 'not met'}.
+            </li>
+          )}
+          <li>
+            Threshold: {thresholdMaths} The proposition received {yes} Yes {yes === 1 ? 'vote' : 'votes'}
+            {thresholdBase > 0 && ` (${percentOf(yes, thresholdBase)}% of ${thresholdBase})`}, so the threshold
+            was {yes >= yesRequired ? 'reached' : 'not reached'}
+            {outcome.result === 'quorum_not_met' && ', but without a quorum the vote does not decide the proposition'}
+            {outcome.result === 'undetermined' && ', but with no eligible voters recorded the vote does not decide the proposition'}.
+          </li>
+        </ol>
+      </div>
+
+      {(tally.invalidBallots > 0 || tally.blankBallots > 0) && (
+        <p className="text-sm text-muted-foreground mt-6">
+          {tally.blankBallots > 0 && `${tally.blankBallots} ${tally.blankBallots === 1 ? 'ballot' : 'ballots'} left this proposition blank. `}
+          {tally.invalidBallots > 0 && `${tally.invalidBallots} ${tally.invalidBallots === 1 ? 'ballot was' : 'ballots were'} invalid in this proposition and not counted.`}
+        </p>
+      )}
+    </>
+  );
+};
+
+export default PropositionResults;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from "lucide-react";
+import { Candidate } from '@/types';
+
+interface RankedChoiceBallotProps {
+  candidates: Candidate[];
+  rankings: string[]; // Candidate IDs, most preferred first
+  onChange: (rankings: string[]) => void;
+  disabled?: boolean;
+}
+
+// Ballot for ranked-choice elections. Voters drag candidates into order of
+// preference; the arrow buttons do the same for keyboard and touch users.
+// Ranking every candidate is optional.
+const RankedChoiceBallot: React.FC<RankedChoiceBallotProps> = ({ candidates, rankings, onChange, disabled }) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const candidateById = (id: string) => candidates.find(candidate => candidate.id === id);
+  const unranked = candidates.filter(candidate => !rankings.includes(candidate.id));
+
+  const moveTo = (candidateId: string, index: number) => {
+    const without = rankings.filter(id => id !== candidateId);
+    const target = Math.max(0, Math.min(index, without.length));
+    onChange([...without.slice(0, target), candidateId, ...without.slice(target)]);
+  };
+
+  const remove = (candidateId: string) => {
+    onChange(rankings.filter(id => id !== candidateId));
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedId && !disabled) {
+      moveTo(draggedId, index);
+    }
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-medium mb-2">Your ranking</h4>
+        {rankings.length === 0 ? (
+          <div
+            className="text-center py-6 border border-dashed rounded-lg text-sm text-muted-foreground"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, 0)}
+          >
+            Drag candidates here, or use the Rank button, starting with your first choice.
+          </div>
+        ) : (
+          <ol className="space-y-2">
+            {rankings.map((candidateId, index) => {
+              const candidate = candidateById(candidateId);
+              if (!candidate) return null;
+
+              return (
+                <li
+                  key={candidateId}
+                  draggable={!disabled}
+                  onDragStart={() => setDraggedId(candidateId)}
+                  onDragEnd={() => setDraggedId(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => handleDrop(e, index)}
+                  className={`flex items-center gap-3 border rounded-lg p-3 bg-white ${draggedId === candidateId ? 'opacity-50' : ''} ${disabled ? '' : 'cursor-move'}`}
+                >
+                  <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span className="flex items-center justify-center h-7 w-7 rounded-full bg-vote-100 text-vote-800 text-sm font-bold flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <div className="flex-1">
+                    <p className="font-medium">{candidate.name}</p>
+                    {candidate.description && (
+                      <p className="text-sm text-muted-foreground">{candidate.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveTo(candidateId, index - 1)}
+                      disabled={disabled || index === 0}
+                      aria-label={`Move ${candidate.name} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveTo(candidateId, index + 1)}
+                      disabled={disabled || index === rankings.length - 1}
+                      aria-label={`Move ${candidate.name} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(candidateId)}
+                      disabled={disabled}
+                      aria-label={`Remove ${candidate.name} from ranking`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      {unranked.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Not ranked</h4>
+          <div className="space-y-2">
+            {unranked.map((candidate) => (
+              <div
+                key={candidate.id}
+                draggable={!disabled}
+                onDragStart={() => setDraggedId(candidate.id)}
+                onDragEnd={() => setDraggedId(null)}
+                className={`flex items-center gap-3 border border-dashed rounded-lg p-3 ${disabled ? '' : 'cursor-move hover:bg-slate-50'}`}
+              >
+                <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1">
+                  <p className="font-medium">{candidate.name}</p>
+                  {candidate.description && (
+                    <p className="text-sm text-muted-foreground">{candidate.description}</p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => moveTo(candidate.id, rankings.length)}
+                  disabled={disabled}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Rank
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RankedChoiceBallot;
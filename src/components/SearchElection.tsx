@@ -1,5 +1,6 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useElections } from '@/contexts/ElectionContext';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,6 +10,8 @@ import { Search } from 'lucide-react';
 import ElectionCard from './ElectionCard';
 import VoterRegistration from './VoterRegistration';
 import ElectionAccessForm from './ElectionAccessForm';
+import { ELECTION_LINK_PARAM, VOTER_CODE_LINK_PARAM } from '@/lib/voterCodes';
+import { isWellFormedElectionCode, normaliseCode } from '@/lib/codes';
 
 const SearchElection = () => {
   const { elections } = useElections();
@@ -16,6 +19,36 @@ const SearchElection = () => {
   const [searchedElection, setSearchedElection] = useState<typeof elections[0] | null>(null);
   const [registrationComplete, setRegistrationComplete] = useState(false);
   const [accessGranted, setAccessGranted] = useState(false);
+  const [grantedCode, setGrantedCode] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [linkedCode, setLinkedCode] = useState<string | null>(null);
+
+  // A voter code link, such as a scanned slip QR code, opens its election
+  // with the code filled in, without the voter having to search
+  useEffect(() => {
+    const electionCode = searchParams.get(ELECTION_LINK_PARAM);
+    if (!electionCode || elections.length === 0) return;
+
+    const linkedElection = elections.find(
+      (election) => normaliseCode(election.electionCode) === normaliseCode(electionCode)
+    );
+    if (linkedElection) {
+      setSearchQuery(linkedElection.electionCode);
+      setSearchedElection(linkedElection);
+      setRegistrationComplete(false);
+      setAccessGranted(false);
+      const linkedVoterCode = searchParams.get(VOTER_CODE_LINK_PARAM);
+      setLinkedCode(linkedVoterCode ? normaliseCode(linkedVoterCode) : null);
+    } else {
+      toast({
+        title: "Not Found",
+        description: "The election in this link could not be found",
+        variant: "destructive",
+      });
+    }
+    // Keep the code out of the address bar and browser history
+    setSearchParams({}, { replace: true });
+  }, [searchParams, elections, setSearchParams]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,12 +62,23 @@ const SearchElection = () => {
       return;
     }
 
+    const electionCode = normaliseCode(searchQuery);
+    if (!isWellFormedElectionCode(electionCode)) {
+      toast({
+        title: "Check the Election ID",
+        description: "That is not a valid election ID. Please check it for typos.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const foundElection = elections.find(
-      (election) => election.electionCode.toLowerCase() === searchQuery.trim().toLowerCase()
+      (election) => normaliseCode(election.electionCode) === electionCode
     );
 
     if (foundElection) {
       setSearchedElection(foundElection);
+      setLinkedCode(null);
       setRegistrationComplete(false);
       setAccessGranted(false);
       toast({
@@ -55,7 +99,8 @@ const SearchElection = () => {
     setRegistrationComplete(true);
   };
 
-  const handleAccessGranted = () => {
+  const handleAccessGranted = (voterCode: string) => {
+    setGrantedCode(voterCode);
     setAccessGranted(true);
   };
 
@@ -70,7 +115,7 @@ const SearchElection = () => {
         <form onSubmit={handleSearch} className="flex gap-2">
           <Input
             type="text"
-            placeholder="Enter election ID (e.g., CH2025)"
+            placeholder="Enter election ID (e.g., K7P3M3)"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="flex-1"
@@ -84,7 +129,19 @@ const SearchElection = () => {
 
       {searchedElection && (
         <div className="mt-8">
-          {!registrationComplete && !accessGranted ? (
+          {linkedCode && !accessGranted ? (
+            <>
+              <h2 className="text-xl font-semibold mb-4">Election Found</h2>
+              <div className="grid grid-cols-1 gap-6">
+                <ElectionCard election={searchedElection} />
+                <ElectionAccessForm
+                  electionId={searchedElection.id}
+                  initialCode={linkedCode}
+                  onAccessGranted={handleAccessGranted}
+                />
+              </div>
+            </>
+          ) : !registrationComplete && !accessGranted ? (
             <>
               <h2 className="text-xl font-semibold mb-4">Election Found</h2>
               <div className="grid grid-cols-1 gap-6">
@@ -123,7 +180,7 @@ const SearchElection = () => {
             <>
               <h2 className="text-xl font-semibold mb-4">Election Access Granted</h2>
               <div className="grid grid-cols-1">
-                <ElectionCard election={searchedElection} />
+                <ElectionCard election={searchedElection} voterCode={grantedCode ?? undefined} />
               </div>
             </>
           )}
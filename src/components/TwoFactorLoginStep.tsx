@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound, Smartphone } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import TotpCodeInput from './TotpCodeInput';
+import { TOTP_CODE_LENGTH, isWellFormedRecoveryCode } from '@/lib/twoFactor';
+
+interface TwoFactorLoginStepProps {
+  onSuccess?: () => void;
+}
+
+// Second step of a login for members with two-factor authentication: a code
+// from their authenticator app, or one of their recovery codes
+const TwoFactorLoginStep: React.FC<TwoFactorLoginStepProps> = ({ onSuccess }) => {
+  const { verifyTwoFactor, signInWithRecoveryCode, logout } = useAuth();
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const verify = async (value: string) => {
+    setIsVerifying(true);
+    const success = await verifyTwoFactor(value);
+    setIsVerifying(false);
+    if (success) {
+      onSuccess?.();
+    } else {
+      setCode('');
+    }
+  };
+
+  const redeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    const success = await signInWithRecoveryCode(recoveryCode);
+    setIsVerifying(false);
+    if (success) onSuccess?.();
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <Card className="border-2 border-secure-200 shadow-lg">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center mb-2">
+            {useRecovery ? <KeyRound className="h-12 w-12 text-vote-500" /> : <Smartphone className="h-12 w-12 text-vote-500" />}
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">Two-Factor Authentication</CardTitle>
+          <CardDescription className="text-center">
+            {useRecovery
+              ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {useRecovery ? (
+            <form onSubmit={redeem} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recovery-code" className="font-medium">Recovery code</Label>
+                <Input
+                  id="recovery-code"
+                  placeholder="XXXXX-XXXXX"
+                  className="font-mono uppercase"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  disabled={isVerifying}
+                  autoComplete="off"
+                  autoFocus
+                />
+                <p className="text-xs text-muted-foreground">
+                  Using a recovery code removes your authenticator app. You can set it up again from your profile.
+                </p>
+              </div>
+              <Button
+                type="submit"
+                className="w-full bg-vote-600 hover:bg-vote-700"
+                disabled={isVerifying || !isWellFormedRecoveryCode(recoveryCode)}
+              >
+                {isVerifying ? 'Checking...' : 'Use Recovery Code'}
+              </Button>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <TotpCodeInput value={code} onChange={setCode} onComplete={verify} disabled={isVerifying} />
+              </div>
+              <Button
+                className="w-full bg-vote-600 hover:bg-vote-700"
+                onClick={() => verify(code)}
+                disabled={isVerifying || code.length !== TOTP_CODE_LENGTH}
+              >
+                {isVerifying ? 'Verifying...' : 'Verify'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button variant="link" className="px-0" onClick={() => setUseRecovery(!useRecovery)} disabled={isVerifying}>
+            {useRecovery ? 'Use my authenticator app' : 'Use a recovery code'}
+          </Button>
+          <Button variant="ghost" onClick={logout} disabled={isVerifying}>
+            Cancel
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default TwoFactorLoginStep;
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Copy, Download, KeyRound, ShieldCheck } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import TotpCodeInput from './TotpCodeInput';
+import { countUnusedRecoveryCodes } from '@/integrations/supabase/client';
+import { can } from '@/lib/permissions';
+import { TOTP_CODE_LENGTH, TotpEnrollment, disableTwoFactor, enrollTotp, regenerateRecoveryCodes, verifyTotp } from '@/lib/twoFactor';
+
+// Setup steps: scan the QR code and confirm a code, then save the
+// recovery codes, which are only ever shown once
+type SetupStep = { kind: 'scan'; enrollment: TotpEnrollment; qrCode: string } | { kind: 'codes'; codes: string[] };
+
+// The signed-in member's two-factor authentication: set it up with an
+// authenticator app, get new recovery codes, or turn it off
+const TwoFactorSettings = () => {
+  const { user, permissions, twoFactorEnabled, clubSettings } = useAuth();
+  const [step, setStep] = useState<SetupStep | null>(null);
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [unusedCodes, setUnusedCodes] = useState<number | null>(null);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId || !twoFactorEnabled) return;
+    let cancelled = false;
+    countUnusedRecoveryCodes(userId).then(count => {
+      if (!cancelled) setUnusedCodes(count);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, twoFactorEnabled, step]);
+
+  const fail = (message: string, error: unknown) => {
+    console.error(`${message}:`, error);
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : message,
+      variant: 'destructive',
+    });
+  };
+
+  const startSetup = async () => {
+    setIsWorking(true);
+    try {
+      const enrollment = await enrollTotp();
+      const qrCode = await QRCode.toDataURL(enrollment.uri, { margin: 1, width: 200 });
+      setCode('');
+      setStep({ kind: 'scan', enrollment, qrCode });
+    } catch (error) {
+      fail('Two-factor authentication could not be set up', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmSetup = async (value: string) => {
+    if (step?.kind !== 'scan') return;
+    setIsWorking(true);
+    try {
+      await verifyTotp(step.enrollment.factorId, value);
+      setStep({ kind: 'codes', codes: await regenerateRecoveryCodes() });
+      toast({ title: 'Two-factor authentication is on', description: 'You will be asked for a code each time you log in' });
+    } catch (error) {
+      setCode('');
+      fail('The code could not be verified', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const newRecoveryCodes = async () => {
+    setIsWorking(true);
+    try {
+      setStep({ kind: 'codes', codes: await regenerateRecoveryCodes() });
+    } catch (error) {
+      fail('New recovery codes could not be generated', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const turnOff = async () => {
+    setIsWorking(true);
+    try {
+      await disableTwoFactor();
+      setUnusedCodes(null);
+      toast({ title: 'Two-factor authentication is off', description: 'You will only need your password to log in' });
+    } catch (error) {
+      fail('Two-factor authentication could not be turned off', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyCodes = async (codes: string[]) => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast({ title: 'Recovery codes copied', description: 'Keep them somewhere safe' });
+  };
+
+  const downloadCodes = (codes: string[]) => {
+    const text = [
+      `SecureClubVote recovery codes for ${user?.email ?? 'your account'}`,
+      'Each code can be used once to log in without your authenticator app.',
+      '',
+      ...codes,
+    ].join('\n');
+
+    const blob = new Blob([text], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'secureclubvote-recovery-codes.txt');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const requiredForMe = clubSettings.requireAdminTwoFactor && can(permissions, 'view_admin_dashboard');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <p>2FA Status for your account</p>
+          <p className="text-sm text-muted-foreground">
+            {requiredForMe
+              ? 'The club requires two-factor authentication for admins and election officers.'
+              : 'Enhance your account security with 2FA'}
+          </p>
+        </div>
+        {twoFactorEnabled ? (
+          <Badge variant="outline" className="bg-green-50 text-green-800">Enabled</Badge>
+        ) : (
+          <Badge variant="outline" className="bg-red-50 text-red-800">Not Enabled</Badge>
+        )}
+      </div>
+
+      {twoFactorEnabled ? (
+        <div className="space-y-3">
+          {unusedCodes === null ? (
+            <Skeleton className="h-4 w-48" />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {unusedCodes} unused recovery {unusedCodes === 1 ? 'code' : 'codes'} left
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={newRecoveryCodes} disabled={isWorking}>
+              <KeyRound className="mr-2 h-4 w-4" />
+              New Recovery Codes
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-red-600" disabled={isWorking}>
+                  Turn Off 2FA
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Turn off two-factor authentication?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your authenticator app and recovery codes will stop working, and only your password will be needed to log in.
+                    {requiredForMe && ' You will not be able to open the admin dashboard or change election statuses until you turn it on again.'}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={turnOff} className="bg-red-600 hover:bg-red-700">
+                    Turn Off
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={startSetup} disabled={isWorking}>
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          {isWorking ? 'Starting...' : 'Configure 2FA'}
+        </Button>
+      )}
+
+      <Dialog open={step !== null} onOpenChange={(isOpen) => !isOpen && !isWorking && setStep(null)}>
+        <DialogContent>
+          {step?.kind === 'scan' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+                <DialogDescription>
+                  Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter
+                  the 6-digit code it shows.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex flex-col items-center gap-4">
+                <img src={step.qrCode} alt="QR code for your authenticator app" className="h-48 w-48" />
+                <div className="text-center">
+                  <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+                  <code className="text-xs font-mono break-all">{step.enrollment.secret}</code>
+                </div>
+                <TotpCodeInput value={code} onChange={setCode} onComplete={confirmSetup} disabled={isWorking} />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setStep(null)} disabled={isWorking}>
+                  Cancel
+                </Button>
+                <Button onClick={() => confirmSetup(code)} disabled={isWorking || code.length !== TOTP_CODE_LENGTH}>
+                  {isWorking ? 'Verifying...' : 'Verify'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {step?.kind === 'codes' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Save Your Recovery Codes</DialogTitle>
+                <DialogDescription>
+                  If you lose your authenticator app, each of these codes lets you log in once. They will not be shown
+                  again, and any earlier codes no longer work.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-2 rounded-md border bg-slate-50 p-4">
+                {step.codes.map(recoveryCode => (
+                  <code key={recoveryCode} className="font-mono text-sm text-center">{recoveryCode}</code>
+                ))}
+              </div>
+              <DialogFooter className="gap-2">
+                <Button variant="outline" onClick={() => copyCodes(step.codes)}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button variant="outline" onClick={() => downloadCodes(step.codes)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+                <Button onClick={() => setStep(null)}>I've Saved Them</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,400 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, ClipboardCheck, History, MoreHorizontal, Search, Shield, User, UserCheck, UserPlus, UserX } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import MemberHistoryDialog from '@/components/MemberHistoryDialog';
+import ElectionRolesDialog from '@/components/ElectionRolesDialog';
+import { fetchMembers } from '@/integrations/supabase/client';
+import {
+  MEMBERS_PAGE_SIZE,
+  deactivateMember,
+  inviteMember,
+  memberDisplayName,
+  reactivateMember,
+  setMemberRole,
+} from '@/lib/members';
+import { USER_ROLE_LABELS, USER_ROLE_STYLES, can, isAdminRole } from '@/lib/permissions';
+import { UserProfile, UserRole } from '@/types';
+
+// Changes that ask for confirmation first
+type PendingChange =
+  | { kind: 'role'; member: UserProfile; role: UserRole }
+  | { kind: 'deactivate'; member: UserProfile }
+  | { kind: 'reactivate'; member: UserProfile };
+
+// How long to wait after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+const ROLES = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+// What changing to each role means, shown before the change is confirmed
+const ROLE_CHANGE_DESCRIPTIONS: Record<UserRole, string> = {
+  super_admin: 'Super admins can do everything admins can, and can also grant and revoke the admin roles.',
+  admin: 'Admins can manage elections, voter codes and members.',
+  voter: 'They will lose access to the admin dashboard, apart from any elections they are an officer of.',
+};
+
+// Admin view of the club's members: search and page through their
+// profiles, change roles, deactivate or reactivate accounts, invite new
+// members, assign roles in single elections and look at each member's
+// history. Only super-admins can grant, revoke or act on the admin roles.
+const UserManagement = () => {
+  const { user, permissions } = useAuth();
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyMember, setHistoryMember] = useState<UserProfile | null>(null);
+  const [electionRolesMember, setElectionRolesMember] = useState<UserProfile | null>(null);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('voter');
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true);
+    const result = await fetchMembers(search, page, MEMBERS_PAGE_SIZE);
+    setMembers(result.members);
+    setTotal(result.total);
+    setLoading(false);
+  }, [search, page]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  // A new search starts again from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput);
+      setPage(0);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const pageCount = Math.max(1, Math.ceil(total / MEMBERS_PAGE_SIZE));
+  const canManageAdmins = can(permissions, 'manage_admins');
+  const grantableRoles = ROLES.filter(role => canManageAdmins || !isAdminRole(role));
+
+  const openChange = (change: PendingChange) => {
+    setReason('');
+    setPending(change);
+  };
+
+  const applyChange = async () => {
+    if (!pending) return;
+    const name = memberDisplayName(pending.member);
+    setIsSaving(true);
+    try {
+      if (pending.kind === 'role') {
+        await setMemberRole(pending.member.id, pending.role);
+        toast({ title: 'Role changed', description: `${name} is now ${USER_ROLE_LABELS[pending.role].toLowerCase()}` });
+      } else if (pending.kind === 'deactivate') {
+        await deactivateMember(pending.member.id, reason.trim() || undefined);
+        toast({ title: 'Account deactivated', description: `${name} can no longer sign in` });
+      } else {
+        await reactivateMember(pending.member.id);
+        toast({ title: 'Account reactivated', description: `${name} can sign in again` });
+      }
+      setPending(null);
+    } catch (error) {
+      console.error('Error updating member:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The member could not be updated',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+      loadMembers();
+    }
+  };
+
+  const openInvite = () => {
+    setInviteEmail('');
+    setInviteUsername('');
+    setInviteRole('voter');
+    setInviteOpen(true);
+  };
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim();
+    setIsSaving(true);
+    try {
+      await inviteMember(email, inviteRole, inviteUsername.trim() || undefined);
+      toast({ title: 'Invitation sent', description: `An invitation was emailed to ${email}` });
+      setInviteOpen(false);
+      loadMembers();
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'The invitation could not be sent',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const pendingName = pending ? memberDisplayName(pending.member) : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="relative w-full max-w-sm">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by username or email"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Button onClick={openInvite}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite Member
+        </Button>
+      </div>
+
+      {loading && members.length === 0 ? (
+        <div className="space-y-2">
+          {Array(5).fill(0).map((_, i) => (
+            <Skeleton key={i} className="h-10" />
+          ))}
+        </div>
+      ) : members.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">
+          {search ? 'No members match this search.' : 'No members yet.'}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Registered</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => {
+              const isSelf = member.id === user?.id;
+              const canManage = !isSelf && (canManageAdmins || !isAdminRole(member.role));
+              const otherRoles = grantableRoles.filter(role => role !== member.role);
+              return (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <Avatar className={`h-8 w-8 ${isAdminRole(member.role) ? 'bg-vote-100 text-vote-800' : 'bg-secure-100 text-secure-800'}`}>
+                        <AvatarFallback>{memberDisplayName(member).charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <div className="font-medium">
+                          {member.username || '—'}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </div>
+                        {member.email && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={USER_ROLE_STYLES[member.role]}>{USER_ROLE_LABELS[member.role]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {member.deactivatedAt ? (
+                      <Badge className="bg-red-100 text-red-800" title={member.deactivationReason}>Deactivated</Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800">Active</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {member.createdAt ? format(member.createdAt, 'MMM d, yyyy') : '—'}
+                    {member.invitedAt && <div className="text-xs text-muted-foreground">Invited</div>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-7 px-2" title="Manage member">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setHistoryMember(member)}>
+                          <History className="mr-2 h-4 w-4" />
+                          View History
+                        </DropdownMenuItem>
+                        {!isAdminRole(member.role) && can(permissions, 'assign_election_roles') && (
+                          <DropdownMenuItem onClick={() => setElectionRolesMember(member)}>
+                            <ClipboardCheck className="mr-2 h-4 w-4" />
+                            Election Roles
+                          </DropdownMenuItem>
+                        )}
+                        {canManage && (
+                          <>
+                            <DropdownMenuSeparator />
+                            {otherRoles.map(role => (
+                              <DropdownMenuItem key={role} onClick={() => openChange({ kind: 'role', member, role })}>
+                                {isAdminRole(role) ? <Shield className="mr-2 h-4 w-4" /> : <User className="mr-2 h-4 w-4" />}
+                                Make {USER_ROLE_LABELS[role]}
+                              </DropdownMenuItem>
+                            ))}
+                            {member.deactivatedAt ? (
+                              <DropdownMenuItem onClick={() => openChange({ kind: 'reactivate', member })}>
+                                <UserCheck className="mr-2 h-4 w-4" />
+                                Reactivate
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem className="text-red-600" onClick={() => openChange({ kind: 'deactivate', member })}>
+                                <UserX className="mr-2 h-4 w-4" />
+                                Deactivate
+                              </DropdownMenuItem>
+                            )}
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {page + 1} of {pageCount} · {total} {total === 1 ? 'member' : 'members'}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1 || loading}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={pending !== null} onOpenChange={(isOpen) => !isOpen && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pending?.kind === 'role' && `Make ${pendingName} ${USER_ROLE_LABELS[pending.role].toLowerCase()}?`}
+              {pending?.kind === 'deactivate' && `Deactivate ${pendingName}?`}
+              {pending?.kind === 'reactivate' && `Reactivate ${pendingName}?`}
+            </DialogTitle>
+            <DialogDescription>
+              {pending?.kind === 'role' && ROLE_CHANGE_DESCRIPTIONS[pending.role]}
+              {pending?.kind === 'deactivate' && 'They will be signed out and unable to sign in until their account is reactivated.'}
+              {pending?.kind === 'reactivate' && 'They will be able to sign in again.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {pending?.kind === 'deactivate' && (
+            <div className="space-y-2">
+              <Label htmlFor="deactivation-reason">Reason (optional)</Label>
+              <Textarea
+                id="deactivation-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Membership lapsed"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={applyChange}
+              disabled={isSaving}
+              className={pending?.kind === 'deactivate' ? 'bg-red-600 hover:bg-red-700' : ''}
+            >
+              {isSaving ? 'Saving...'
+                : pending?.kind === 'role' ? 'Change Role'
+                : pending?.kind === 'deactivate' ? 'Deactivate'
+                : 'Reactivate'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Member</DialogTitle>
+            <DialogDescription>
+              They will receive an email with a link to set up their account.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="member@example.org"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-username">Username (optional)</Label>
+              <Input
+                id="invite-username"
+                value={inviteUsername}
+                onChange={(e) => setInviteUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as UserRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grantableRoles.map(role => (
+                    <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={isSaving || !/^\S+@\S+\.\S+$/.test(inviteEmail.trim())}>
+              {isSaving ? 'Sending...' : 'Send Invitation'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <MemberHistoryDialog member={historyMember} onClose={() => setHistoryMember(null)} />
+      <ElectionRolesDialog member={electionRolesMember} onClose={() => setElectionRolesMember(null)} />
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useElections } from '@/contexts/ElectionContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Ban, Clock, MoreHorizontal, RefreshCw } from 'lucide-react';
+import { VoterCode } from '@/types';
+
+interface VoterCodeActionsProps {
+  code: VoterCode;
+  reissued: boolean; // A replacement has already been minted for this code
+}
+
+type Action = 'revoke' | 'reissue' | 'expiry';
+
+// Value for a datetime-local input, in the browser's time zone
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// Row actions for a voter code: set or clear its expiry, revoke it, or
+// reissue it as a new code for the same member
+const VoterCodeActions: React.FC<VoterCodeActionsProps> = ({ code, reissued }) => {
+  const { revokeVoterCode, setVoterCodeExpiry, reissueVoterCode } = useElections();
+  const [action, setAction] = useState<Action | null>(null);
+  const [reason, setReason] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canChange = !code.isUsed && !code.revokedAt;
+  const canReissue = !code.isUsed && !reissued;
+  if (!canChange && !canReissue) return null;
+
+  const open = (next: Action) => {
+    setReason('');
+    setExpiresAt(code.expiresAt ? toDateTimeLocal(code.expiresAt) : '');
+    setAction(next);
+  };
+
+  const save = async (clearExpiry = false) => {
+    setIsSaving(true);
+    let done = false;
+    if (action === 'revoke') done = await revokeVoterCode(code.code, reason.trim());
+    if (action === 'reissue') done = (await reissueVoterCode(code.code, reason.trim())) !== null;
+    if (action === 'expiry') done = await setVoterCodeExpiry(code.code, clearExpiry ? null : new Date(expiresAt));
+    setIsSaving(false);
+    if (done) setAction(null);
+  };
+
+  const who = code.email ? ` for ${code.name || code.email}` : '';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 px-2" title="Manage code">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canChange && (
+            <DropdownMenuItem onClick={() => open('expiry')}>
+              <Clock className="mr-2 h-4 w-4" />
+              Set Expiry
+            </DropdownMenuItem>
+          )}
+          {canReissue && (
+            <DropdownMenuItem onClick={() => open('reissue')}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Reissue
+            </DropdownMenuItem>
+          )}
+          {canChange && (
+            <DropdownMenuItem className="text-red-600" onClick={() => open('revoke')}>
+              <Ban className="mr-2 h-4 w-4" />
+              Revoke
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={(isOpen) => !isOpen && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action === 'revoke' && `Revoke ${code.code}?`}
+              {action === 'reissue' && `Reissue ${code.code}?`}
+              {action === 'expiry' && `Expiry for ${code.code}`}
+            </DialogTitle>
+            <DialogDescription>
+              {action === 'revoke' && `The code${who} will no longer admit anyone to vote. This cannot be undone, but you can reissue a new code afterwards.`}
+              {action === 'reissue' && (code.revokedAt
+                ? `A new code${who} will be created to replace this revoked one.`
+                : `This code will be revoked and a new code${who} created to replace it.`)}
+              {action === 'expiry' && 'After this time the code can no longer be used to vote.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {action === 'expiry' ? (
+            <div className="space-y-2">
+              <Label htmlFor={`expiry-${code.code}`}>Expires At</Label>
+              <Input
+                id={`expiry-${code.code}`}
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor={`reason-${code.code}`}>Reason (optional)</Label>
+              <Textarea
+                id={`reason-${code.code}`}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. The code was sent to the wrong address"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            {action === 'expiry' && code.expiresAt && (
+              <Button variant="outline" onClick={() => save(true)} disabled={isSaving}>
+                Remove Expiry
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setAction(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => save()}
+              disabled={isSaving || (action === 'expiry' && expiresAt === '')}
+              className={action === 'revoke' ? 'bg-red-600 hover:bg-red-700' : ''}
+            >
+              {isSaving ? 'Saving...' : action === 'revoke' ? 'Revoke Code' : action === 'reissue' ? 'Reissue Code' : 'Set Expiry'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default VoterCodeActions;
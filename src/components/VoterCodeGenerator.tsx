@@ -5,50 +5,119 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { toast } from '@/components/ui/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Download, Key, UserPlus } from 'lucide-react';
-import { VoterCode } from '@/types';
+import { BellRing, Download, FileCode, FileSpreadsheet, Key, Mail, Printer, RotateCw, UserPlus } from 'lucide-react';
+import { EmailMessage, VoterCode, VoterCodeStatus } from '@/types';
 import { format } from 'date-fns';
+import { downloadCsv } from '@/lib/voterRoll';
+import { EMAIL_STATUS_LABELS, EMAIL_STATUS_STYLES, EMAIL_TEMPLATE_LABELS } from '@/lib/email';
+import { voterCodeStatus, VOTER_CODE_STATUS_LABELS, VOTER_CODE_STATUS_STYLES } from '@/lib/voterCodes';
+import { buildVoterCodeSlipsHtml, downloadHtml, printHtml } from '@/lib/voterCodeSlips';
+import VoterRollImport from './VoterRollImport';
+import VoterCodeActions from './VoterCodeActions';
 
 interface VoterCodeGeneratorProps {
   electionId: string;
 }
 
 const VoterCodeGenerator: React.FC<VoterCodeGeneratorProps> = ({ electionId }) => {
-  const { generateVoterCodes, getVoterCodesByElection } = useElections();
+  const {
+    generateVoterCodes,
+    getVoterCodesByElection,
+    getElectionById,
+    getEmailMessagesByElection,
+    sendVoterCodeEmails,
+    resendEmail,
+  } = useElections();
   const [count, setCount] = useState<number>(10);
   const [generatedCodes, setGeneratedCodes] = useState<string[]>([]);
+  const [sending, setSending] = useState<string | null>(null); // A code, or 'invitations' / 'reminders'
   
+  const election = getElectionById(electionId);
   const voterCodes = getVoterCodesByElection(electionId);
+  const now = new Date();
+  const countWithStatus = (status: VoterCodeStatus) => voterCodes.filter(code => voterCodeStatus(code, now) === status).length;
+  const reissued = new Set(voterCodes.flatMap(code => (code.reissuedFrom ? [code.reissuedFrom] : [])));
   
-  const handleGenerateCodes = () => {
-    const codes = generateVoterCodes(electionId, count);
+  // The most recent email for each code
+  const latestEmail = new Map<string, EmailMessage>();
+  for (const message of getEmailMessagesByElection(electionId)) {
+    const latest = latestEmail.get(message.voterCode);
+    if (message.voterCode && (!latest || message.createdAt > latest.createdAt)) {
+      latestEmail.set(message.voterCode, message);
+    }
+  }
+  
+  const emailable = voterCodes.filter(code => code.email && voterCodeStatus(code, now) === 'available');
+  const notEmailed = emailable.filter(code => !latestEmail.has(code.code));
+  const awaitingVote = emailable;
+  
+  const handleGenerateCodes = async () => {
+    const codes = await generateVoterCodes(electionId, count);
     setGeneratedCodes(codes);
   };
   
+  const sendEmails = async (key: string, codes: VoterCode[], template: 'invitation' | 'reminder') => {
+    setSending(key);
+    await sendVoterCodeEmails(electionId, codes.map(code => code.code), template);
+    setSending(null);
+  };
+  
+  const sendOrResend = async (code: VoterCode) => {
+    const latest = latestEmail.get(code.code);
+    if (!latest) return sendEmails(code.code, [code], 'invitation');
+    
+    setSending(code.code);
+    await resendEmail(latest.id);
+    setSending(null);
+  };
+  
   const exportCodesAsCsv = () => {
     const codes = getVoterCodesByElection(electionId);
-    const csvContent = [
-      ['Code', 'Created At', 'Status', 'Used At'].join(','),
+    downloadCsv(`voter-codes-election-${electionId}.csv`, [
+      ['Code', 'Name', 'Email', 'Email Status', 'Created At', 'Status', 'Expires At', 'Used At', 'Revoke Reason', 'Replaces'],
       ...codes.map(code => [
         code.code,
+        code.name,
+        code.email,
+        latestEmail.has(code.code) ? EMAIL_STATUS_LABELS[latestEmail.get(code.code).status] : '',
         format(new Date(code.createdAt), 'yyyy-MM-dd HH:mm:ss'),
-        code.isUsed ? 'Used' : 'Available',
-        code.usedAt ? format(new Date(code.usedAt), 'yyyy-MM-dd HH:mm:ss') : ''
-      ].join(','))
-    ].join('\n');
+        VOTER_CODE_STATUS_LABELS[voterCodeStatus(code, now)],
+        code.expiresAt ? format(code.expiresAt, 'yyyy-MM-dd HH:mm:ss') : '',
+        code.usedAt ? format(new Date(code.usedAt), 'yyyy-MM-dd HH:mm:ss') : '',
+        code.revokeReason,
+        code.reissuedFrom,
+      ])
+    ]);
+  };
+
+  // Slips for every code that can still be used
+  const exportSlips = async (print: boolean) => {
+    const printable = voterCodes.filter(code => voterCodeStatus(code, now) === 'available');
+    if (!election || printable.length === 0) {
+      toast({
+        title: "No codes to print",
+        description: "There are no available voter codes for this election",
+        variant: "destructive",
+      });
+      return;
+    }
     
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `voter-codes-election-${electionId}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const html = await buildVoterCodeSlipsHtml(election, printable, window.location.origin);
+    if (!print) {
+      downloadHtml(`voter-code-slips-${election.electionCode}.html`, html);
+    } else if (!printHtml(html)) {
+      toast({
+        title: "Could not open the slips",
+        description: "Allow pop-ups for this site to print, or download the slips instead",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -97,6 +166,8 @@ const VoterCodeGenerator: React.FC<VoterCodeGeneratorProps> = ({ electionId }) =
         </CardContent>
       </Card>
       
+      <VoterRollImport electionId={electionId} />
+      
       <Card>
         <CardHeader>
           <CardTitle>Voter Code Management</CardTitle>
@@ -109,14 +180,74 @@ const VoterCodeGenerator: React.FC<VoterCodeGeneratorProps> = ({ electionId }) =
             <div>
               <span className="text-sm font-medium">Total Codes:</span> {voterCodes.length}
               <span className="mx-4 text-sm font-medium">Available:</span> 
-              {voterCodes.filter(code => !code.isUsed).length}
+              {countWithStatus('available')}
               <span className="mx-4 text-sm font-medium">Used:</span> 
-              {voterCodes.filter(code => code.isUsed).length}
+              {countWithStatus('used')}
+              <span className="mx-4 text-sm font-medium">Revoked:</span> 
+              {countWithStatus('revoked')}
+              <span className="mx-4 text-sm font-medium">Expired:</span> 
+              {countWithStatus('expired')}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => sendEmails('invitations', notEmailed, 'invitation')}
+                disabled={sending !== null || notEmailed.length === 0}
+              >
+                <Mail className="mr-2 h-4 w-4" />
+                {sending === 'invitations' ? 'Sending...' : `Email Codes (${notEmailed.length})`}
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={sending !== null || election?.status !== 'active' || awaitingVote.length === 0}
+                  >
+                    <BellRing className="mr-2 h-4 w-4" />
+                    {sending === 'reminders' ? 'Sending...' : 'Send Reminders'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Send voting reminders?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {awaitingVote.length} {awaitingVote.length === 1 ? 'member has' : 'members have'} not used their voter code yet.
+                      Each will be emailed a reminder with their code.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => sendEmails('reminders', awaitingVote, 'reminder')}>
+                      Send Reminders
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={exportCodesAsCsv}>
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    All Codes as CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportSlips(true)}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Print Slips (or Save as PDF)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportSlips(false)}>
+                    <FileCode className="mr-2 h-4 w-4" />
+                    Download Slips as HTML
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
-            <Button variant="outline" size="sm" onClick={exportCodesAsCsv}>
-              <Download className="mr-2 h-4 w-4" />
-              Export
-            </Button>
           </div>
           
           <div className="border rounded-md">
@@ -124,44 +255,101 @@ const VoterCodeGenerator: React.FC<VoterCodeGeneratorProps> = ({ electionId }) =
               <TableHeader>
                 <TableRow>
                   <TableHead>Code</TableHead>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Email</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Used</TableHead>
+                  <TableHead className="w-12"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {voterCodes.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                       No voter codes have been generated yet.
                     </TableCell>
                   </TableRow>
                 ) : (
-                  voterCodes.map((code) => (
-                    <TableRow key={code.code}>
-                      <TableCell className="font-mono">
-                        <div className="flex items-center">
-                          <Key className="mr-2 h-4 w-4 text-muted-foreground" />
-                          {code.code}
-                        </div>
-                      </TableCell>
-                      <TableCell>{format(new Date(code.createdAt), 'yyyy-MM-dd')}</TableCell>
-                      <TableCell>
-                        {code.isUsed ? (
-                          <span className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">
-                            Used
-                          </span>
-                        ) : (
-                          <span className="px-2 py-1 rounded-full text-xs bg-green-100 text-green-800">
-                            Available
+                  voterCodes.map((code) => {
+                    const email = latestEmail.get(code.code);
+                    const status = voterCodeStatus(code, now);
+                    return (
+                      <TableRow key={code.code}>
+                        <TableCell className="font-mono">
+                          <div className="flex items-center">
+                            <Key className="mr-2 h-4 w-4 text-muted-foreground" />
+                            {code.code}
+                          </div>
+                          {code.reissuedFrom && (
+                            <div className="text-xs text-muted-foreground font-sans mt-1">Replaces {code.reissuedFrom}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {code.email ? (
+                            <>
+                              {code.name && <div>{code.name}</div>}
+                              <div className="text-xs text-muted-foreground">{code.email}</div>
+                            </>
+                          ) : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {code.email ? (
+                            <div className="flex items-start gap-2">
+                              {email ? (
+                                <div>
+                                  <Badge variant="outline" className={EMAIL_STATUS_STYLES[email.status]}>
+                                    {EMAIL_STATUS_LABELS[email.status]}
+                                  </Badge>
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    {EMAIL_TEMPLATE_LABELS[email.template]}
+                                    {email.sentAt && `, ${format(email.sentAt, 'yyyy-MM-dd HH:mm')}`}
+                                  </div>
+                                  {email.status === 'failed' && email.lastError && (
+                                    <div className="text-xs text-red-600 mt-1">{email.lastError}</div>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">Not sent</span>
+                              )}
+                              {status === 'available' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 px-2"
+                                  onClick={() => sendOrResend(code)}
+                                  disabled={sending !== null}
+                                  title={email ? 'Resend' : 'Send'}
+                                >
+                                  {email ? <RotateCw className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+                                </Button>
+                              )}
+                            </div>
+                          ) : '-'}
+                        </TableCell>
+                        <TableCell>{format(new Date(code.createdAt), 'yyyy-MM-dd')}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs ${VOTER_CODE_STATUS_STYLES[status]}`}>
+                            {VOTER_CODE_STATUS_LABELS[status]}
                           </span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        {code.usedAt ? format(new Date(code.usedAt), 'yyyy-MM-dd HH:mm') : '-'}
-                      </TableCell>
-                    </TableRow>
-                  ))
+                          {status === 'revoked' && code.revokeReason && (
+                            <div className="text-xs text-muted-foreground mt-2">{code.revokeReason}</div>
+                          )}
+                          {code.expiresAt && (status === 'available' || status === 'expired') && (
+                            <div className="text-xs text-muted-foreground mt-2">
+                              {status === 'expired' ? 'Expired' : 'Expires'} {format(code.expiresAt, 'yyyy-MM-dd HH:mm')}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {code.usedAt ? format(new Date(code.usedAt), 'yyyy-MM-dd HH:mm') : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <VoterCodeActions code={code} reissued={reissued.has(code.code)} />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
                 )}
               </TableBody>
             </Table>
@@ -65,7 +65,7 @@ const VoterRegistration = ({ election, onRegistered }: VoterRegistrationProps) =
     
     try {
       // Register voter for election
-      await registerForElection(election.id, data.name, data.email);
+      await registerForElection(election.id, data.name);
       
       // Show success message
       toast({
@@ -192,11 +192,11 @@ const VoterRegistration = ({ election, onRegistered }: VoterRegistrationProps) =
                       <div className="px-3 border-r">
                         <Mail className="h-4 w-4 text-muted-foreground" />
                       </div>
-                      <Input className="border-0 focus-visible:ring-0" type="email" placeholder="Enter your email address" {...field} />
+                      <Input className="border-0 focus-visible:ring-0" type="email" placeholder="Enter your email address" readOnly {...field} />
                     </div>
                   </FormControl>
                   <FormDescription>
-                    Your approval code will be sent to this email when your registration is approved.
+                    You register with your account's email. Your approval code will be sent to it when your registration is approved.
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { useElections } from '@/contexts/ElectionContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Download, FileUp, Upload } from 'lucide-react';
+import { downloadCsv, parseVoterRoll, VOTER_ROLL_STATUS_LABELS, VoterRollRow } from '@/lib/voterRoll';
+
+interface VoterRollImportProps {
+  electionId: string;
+}
+
+// The outcome of one roster row after the import has run
+interface ImportReportRow extends VoterRollRow {
+  result: 'imported' | 'skipped' | 'failed';
+  code?: string;
+}
+
+// Upload a member roster as CSV, preview the rows with any problems, and
+// generate one voter code per valid, new email address
+const VoterRollImport: React.FC<VoterRollImportProps> = ({ electionId }) => {
+  const { generateVoterCodes, getVoterCodesByElection } = useElections();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<VoterRollRow[] | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReportRow[] | null>(null);
+
+  const readyRows = rows?.filter(row => row.status === 'ready') ?? [];
+  const problemRows = rows?.filter(row => row.status !== 'ready') ?? [];
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    try {
+      // Revoked codes no longer count, so their members can be given new ones
+      const existingEmails = getVoterCodesByElection(electionId).flatMap(code => (code.email && !code.revokedAt ? [code.email] : []));
+      setRows(parseVoterRoll(await file.text(), existingEmails));
+      setParseError(null);
+    } catch (error) {
+      console.error('Error reading voter roll:', error);
+      setRows(null);
+      setParseError(error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!rows || readyRows.length === 0) return;
+
+    setIsImporting(true);
+    const codes = await generateVoterCodes(
+      electionId,
+      readyRows.length,
+      readyRows.map(row => row.email),
+      readyRows.map(row => row.name),
+    );
+    setIsImporting(false);
+
+    const codeByEmail = new Map(readyRows.map((row, i) => [row.email, codes[i]]));
+    setReport(rows.map(row => {
+      if (row.status !== 'ready') return { ...row, result: 'skipped' };
+      const code = codeByEmail.get(row.email);
+      return code ? { ...row, result: 'imported', code } : { ...row, result: 'failed' };
+    }));
+    setRows(null);
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    downloadCsv(`voter-roll-import-${electionId}.csv`, [
+      ['Row', 'Name', 'Email', 'Result', 'Voter Code', 'Notes'],
+      ...report.map(row => [
+        row.line,
+        row.name,
+        row.email,
+        row.result === 'imported' ? 'Imported' : row.result === 'failed' ? 'Failed' : 'Skipped',
+        row.code,
+        row.result === 'skipped' ? VOTER_ROLL_STATUS_LABELS[row.status] : row.result === 'failed' ? 'The code could not be saved' : '',
+      ]),
+    ]);
+  };
+
+  const reset = () => {
+    setRows(null);
+    setReport(null);
+    setFileName('');
+    setParseError(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Voter Roll</CardTitle>
+        <CardDescription>
+          Upload the member roster as a CSV file with a header row containing "name" and "email" columns.
+          Each member with a valid email receives one voter code bound to that address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isImporting}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Choose CSV File
+          </Button>
+          {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+        </div>
+
+        {parseError && (
+          <p className="text-sm text-red-600 flex items-center">
+            <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+            {parseError}
+          </p>
+        )}
+
+        {rows && (
+          <>
+            <div className="text-sm">
+              <span className="font-medium">{rows.length}</span> rows read:{' '}
+              <span className="font-medium text-green-700">{readyRows.length}</span> ready to import,{' '}
+              <span className="font-medium text-amber-700">{problemRows.length}</span> will be skipped.
+            </div>
+
+            <div className="border rounded-md max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>{row.name || '-'}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.email || '-'}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={row.status === 'ready' ? 'bg-green-50 text-green-800 border-green-200' : 'bg-amber-50 text-amber-800 border-amber-200'}
+                        >
+                          {VOTER_ROLL_STATUS_LABELS[row.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={isImporting || readyRows.length === 0}>
+                <Upload className="mr-2 h-4 w-4" />
+                {isImporting ? 'Importing...' : `Import ${readyRows.length} ${readyRows.length === 1 ? 'Member' : 'Members'}`}
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+
+        {report && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-md space-y-3">
+            <h4 className="font-medium text-green-800">Import Report</h4>
+            <p className="text-sm text-green-800">
+              {report.filter(row => row.result === 'imported').length} imported,{' '}
+              {report.filter(row => row.result === 'skipped').length} skipped
+              {report.some(row => row.result === 'failed') && `, ${report.filter(row => row.result === 'failed').length} failed`}.
+            </p>
+            <div className="border rounded-md max-h-96 overflow-y-auto bg-white">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>{row.name || '-'}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.email || '-'}</TableCell>
+                      <TableCell>
+                        {row.result === 'imported' ? (
+                          <code className="text-sm font-mono">{row.code}</code>
+                        ) : row.result === 'failed' ? (
+                          <span className="text-sm text-red-700">Failed: the code could not be saved</span>
+                        ) : (
+                          <span className="text-sm text-amber-700">Skipped: {VOTER_ROLL_STATUS_LABELS[row.status]}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={downloadReport}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Report
+              </Button>
+              <Button variant="ghost" size="sm" onClick={reset}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VoterRollImport;
@@ -1,8 +1,12 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '@/integrations/supabase/client';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { User, Session, AuthenticatorAssuranceLevels } from '@supabase/supabase-js';
+import { supabase, fetchElectionRolesByUser, fetchClubSettings, DEFAULT_CLUB_SETTINGS } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
-import { UserRole } from '@/types';
+import { ClubSettings, ElectionRoleAssignment, LoginResult, SignUpResult, UserRole } from '@/types';
+import { PermissionSubject } from '@/lib/permissions';
+import { getVerifiedTotpFactorId, redeemRecoveryCode, setRequireAdminTwoFactor, verifyTotp } from '@/lib/twoFactor';
+import { recordLoginEvent } from '@/lib/loginHistory';
+import { verificationRedirectUrl } from '@/lib/accountAccess';
 
 interface AuthContextType {
   user: User | null;
@@ -10,10 +14,33 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   session: Session | null;
-  login: (email: string, password: string) => Promise<boolean>;
-  signUp: (email: string, password: string, username?: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  signUp: (email: string, password: string, username?: string) => Promise<SignUpResult>;
   logout: () => void;
-  hasRole: (role: UserRole) => boolean;
+  // The signed-in member as the permission policy sees them; pass it to can()
+  permissions: PermissionSubject | null;
+  // Signed in with a password but not yet with the authenticator app. Until
+  // the second step is done the member counts as signed out.
+  twoFactorPending: boolean;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  signInWithRecoveryCode: (code: string) => Promise<boolean>;
+  twoFactorEnabled: boolean;
+  // Signed in by a password reset link and not yet given a new password.
+  // Only then may the reset page set one without the current password.
+  passwordRecovery: boolean;
+  // Whether this session may do what the club's two-factor rule guards
+  meetsTwoFactorRequirement: boolean;
+  clubSettings: ClubSettings;
+  updateClubSettings: (settings: Pick<ClubSettings, 'requireAdminTwoFactor'>) => Promise<boolean>;
+}
+
+// The member a reset link signed in, kept for the browser tab so reloading
+// the reset page does not lose it
+const PASSWORD_RECOVERY_KEY = 'passwordRecoveryUserId';
+
+interface AssuranceLevel {
+  current: AuthenticatorAssuranceLevels | null;
+  next: AuthenticatorAssuranceLevels | null;
 }
 
 // Create the authentication context
@@ -26,7 +53,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [session, setSession] = useState<Session | null>(null);
-  const [profileLoading, setProfileLoading] = useState<boolean>(false);
+  const [electionRoles, setElectionRoles] = useState<ElectionRoleAssignment[]>([]);
+  const [assurance, setAssurance] = useState<AssuranceLevel | null>(null);
+  const [clubSettings, setClubSettings] = useState<ClubSettings>(DEFAULT_CLUB_SETTINGS);
+  const [recoveryUserId, setRecoveryUserId] = useState<string | null>(() => sessionStorage.getItem(PASSWORD_RECOVERY_KEY));
+
+  // Read the session's assurance level: aal2 once the authenticator app was
+  // used, and a next level of aal2 for members who have one
+  const refreshAssurance = async (): Promise<AssuranceLevel | null> => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (error) {
+      console.error('Error reading the assurance level:', error);
+    }
+    const level = data ? { current: data.currentLevel, next: data.nextLevel } : null;
+    setAssurance(level);
+    return level;
+  };
 
   // Fetch user profile data with better error handling and logging
   const fetchUserProfile = async (userId: string) => {
@@ -35,13 +77,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
 
-    setProfileLoading(true);
     console.log('Fetching profile for user:', userId);
     
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('username, role')
+        .select('username, role, deactivated_at')
         .eq('id', userId)
         .single();
         
@@ -50,8 +91,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (error.code === 'PGRST116') {
           console.warn('Profile not found for user:', userId);
         }
+      } else if (data?.deactivated_at) {
+        // Sign-in is blocked for deactivated accounts, but a session from
+        // before the deactivation may still be around
+        await supabase.auth.signOut();
+        toast({
+          title: "Account deactivated",
+          description: "Your account has been deactivated. Please contact a club administrator.",
+          variant: "destructive",
+        });
       } else if (data) {
         console.log('Profile data loaded successfully:', data);
+        // Roles first, so permissions never see the profile without them
+        setElectionRoles(await fetchElectionRolesByUser(userId));
         setProfile({
           username: data.username,
           role: data.role as UserRole
@@ -61,8 +113,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     } catch (error) {
       console.error('Failed to fetch profile:', error);
-    } finally {
-      setProfileLoading(false);
     }
   };
 
@@ -77,26 +127,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setSession(sessionData);
         setUser(sessionData?.user ?? null);
         setIsAuthenticated(!!sessionData);
+        // Updating the password ends the recovery
+        if (event === 'PASSWORD_RECOVERY' && sessionData) {
+          sessionStorage.setItem(PASSWORD_RECOVERY_KEY, sessionData.user.id);
+          setRecoveryUserId(sessionData.user.id);
+        }
+        if (event === 'USER_UPDATED' || !sessionData) {
+          sessionStorage.removeItem(PASSWORD_RECOVERY_KEY);
+          setRecoveryUserId(null);
+        }
         
         if (sessionData?.user) {
           // Defer Supabase calls with setTimeout
           setTimeout(() => {
+            refreshAssurance();
             fetchUserProfile(sessionData.user.id);
+            // Also reported when a stored session is restored; the database
+            // counts each session's sign-in once
+            if (event === 'SIGNED_IN' || event === 'PASSWORD_RECOVERY') recordLoginEvent('sign_in');
+            if (event === 'TOKEN_REFRESHED') recordLoginEvent('token_refreshed');
           }, 0);
         } else {
           setProfile(null);
+          setElectionRoles([]);
+          setAssurance(null);
         }
       }
     );
 
     // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session: sessionData } }) => {
+    supabase.auth.getSession().then(async ({ data: { session: sessionData } }) => {
       console.log('Initial session check:', sessionData?.user?.id);
       setSession(sessionData);
       setUser(sessionData?.user ?? null);
       setIsAuthenticated(!!sessionData);
       
       if (sessionData?.user) {
+        // Known before loading ends, so a session still waiting for its
+        // second step is never taken for a signed-in member
+        await refreshAssurance();
         fetchUserProfile(sessionData.user.id);
       }
       setIsLoading(false);
@@ -107,19 +176,42 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
-  // Check if user has a specific role with additional safety checks
-  const hasRole = (role: UserRole): boolean => {
-    if (profileLoading) {
-      console.log('Profile is still loading, cannot check role yet');
-      return false;
-    }
+  // Roles in single elections and the club's settings can change at any time
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
     
-    console.log('Checking role:', role, 'Current profile:', profile);
-    return profile?.role === role;
-  };
+    fetchClubSettings().then(setClubSettings);
+    
+    const channel = supabase
+      .channel('public:member-access')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'election_roles', filter: `user_id=eq.${userId}` },
+        async () => setElectionRoles(await fetchElectionRolesByUser(userId)))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'club_settings' },
+        async () => setClubSettings(await fetchClubSettings()))
+      .subscribe();
+    
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // An unknown assurance level counts as pending until it has been read
+  const twoFactorPending = !!session && (assurance === null || (assurance.current !== 'aal2' && assurance.next === 'aal2'));
+  const twoFactorEnabled = assurance?.next === 'aal2';
+  const meetsTwoFactorRequirement = !clubSettings.requireAdminTwoFactor || assurance?.current === 'aal2';
+  
+  // What the rest of the app sees: nobody, until the second step is done
+  const signedInUser = twoFactorPending ? null : user;
+  const signedInProfile = twoFactorPending ? null : profile;
+
+  const permissions = useMemo<PermissionSubject | null>(
+    () => (signedInUser && signedInProfile ? { id: signedInUser.id, role: signedInProfile.role, electionRoles } : null),
+    [signedInUser, signedInProfile, electionRoles]
+  );
 
   // Login function
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const { data, error } = await supabase.auth.signInWithPassword({
         email,
@@ -127,23 +219,37 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
 
       if (error) {
+        recordLoginEvent('sign_in_failed', email);
+        if (error.code === 'email_not_confirmed') {
+          toast({
+            title: "Email not verified",
+            description: "Follow the link in your verification email, then log in",
+            variant: "destructive"
+          });
+          return 'email_not_verified';
+        }
         toast({
           title: "Login failed",
           description: error.message,
           variant: "destructive"
         });
-        return false;
+        return 'failed';
       }
 
       if (data.user) {
+        const level = await refreshAssurance();
+        if (level?.next === 'aal2' && level.current !== 'aal2') {
+          return 'two_factor_required';
+        }
+        
         toast({
           title: "Login successful",
           description: `Welcome back!`,
         });
-        return true;
+        return 'success';
       }
       
-      return false;
+      return 'failed';
     } catch (error) {
       console.error('Login error:', error);
       toast({
@@ -151,12 +257,87 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         description: "An unexpected error occurred during login",
         variant: "destructive",
       });
+      return 'failed';
+    }
+  };
+
+  // Second step of a login: a code from the authenticator app
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    try {
+      const factorId = await getVerifiedTotpFactorId();
+      if (!factorId) {
+        throw new Error('No authenticator app is set up for this account');
+      }
+      await verifyTotp(factorId, code);
+      await refreshAssurance();
+      
+      toast({
+        title: "Login successful",
+        description: `Welcome back!`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "The code could not be checked",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Second step of a login for members without their authenticator app.
+  // The app is removed, so they should set it up again.
+  const signInWithRecoveryCode = async (code: string): Promise<boolean> => {
+    try {
+      await redeemRecoveryCode(code);
+      await refreshAssurance();
+      // The profile could not be read before the second step, and removing
+      // the factors sends no auth event that would read it again
+      if (user) await fetchUserProfile(user.id);
+      
+      toast({
+        title: "Recovery code accepted",
+        description: "Your authenticator app has been removed. Set up two-factor authentication again from your profile.",
+      });
+      return true;
+    } catch (error) {
+      console.error('Recovery code error:', error);
+      toast({
+        title: "Recovery code rejected",
+        description: error instanceof Error ? error.message : "The recovery code could not be checked",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const updateClubSettings = async (settings: Pick<ClubSettings, 'requireAdminTwoFactor'>): Promise<boolean> => {
+    try {
+      await setRequireAdminTwoFactor(settings.requireAdminTwoFactor);
+      setClubSettings(await fetchClubSettings());
+      
+      toast({
+        title: "Settings saved",
+        description: settings.requireAdminTwoFactor
+          ? "Admins and election officers now need two-factor authentication"
+          : "Two-factor authentication is now optional for admins and election officers",
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating club settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "The settings could not be saved",
+        variant: "destructive",
+      });
       return false;
     }
   };
 
   // Sign up function
-  const signUp = async (email: string, password: string, username?: string): Promise<boolean> => {
+  const signUp = async (email: string, password: string, username?: string): Promise<SignUpResult> => {
     try {
       const { data, error } = await supabase.auth.signUp({
         email,
@@ -164,7 +345,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         options: {
           data: {
             username
-          }
+          },
+          emailRedirectTo: verificationRedirectUrl()
         }
       });
 
@@ -174,14 +356,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           description: error.message,
           variant: "destructive"
         });
-        return false;
+        return 'failed';
+      }
+
+      // Without a session the project confirms email addresses first
+      if (!data.session) {
+        toast({
+          title: "Check your email",
+          description: `Follow the link we sent to ${email} to finish creating your account`,
+        });
+        return 'verification_required';
       }
 
       toast({
         title: "Signup successful",
         description: "Your account has been created",
       });
-      return true;
+      return 'signed_in';
     } catch (error) {
       console.error('Signup error:', error);
       toast({
@@ -189,12 +380,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         description: "An unexpected error occurred during signup",
         variant: "destructive",
       });
-      return false;
+      return 'failed';
     }
   };
   
   // Logout function
   const logout = async () => {
+    // Recorded first, while the session can still be named
+    await recordLoginEvent('sign_out');
     const { error } = await supabase.auth.signOut();
     
     if (error) {
@@ -214,15 +407,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Context value
   const value = {
-    user,
-    profile,
-    isAuthenticated,
+    user: signedInUser,
+    profile: signedInProfile,
+    isAuthenticated: isAuthenticated && !twoFactorPending,
     isLoading,
     session,
     login,
     signUp,
     logout,
-    hasRole,
+    permissions,
+    twoFactorPending,
+    verifyTwoFactor,
+    signInWithRecoveryCode,
+    twoFactorEnabled,
+    passwordRecovery: !!user && recoveryUserId === user.id,
+    meetsTwoFactorRequirement,
+    clubSettings,
+    updateClubSettings,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
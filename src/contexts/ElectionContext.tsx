@@ -1,227 +1,375 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Election, Candidate, Vote, VoterRecord, VoterCode, VoterRegistration } from '@/types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { Election, Contest, Candidate, Vote, VoterRecord, VoterCode, VoterRegistration, CastVoteFailureReason, CastVoteResult, Ballot, ElectionTally, VoteReceipt, AuditAction, ElectionDraft, Nomination, EmailMessage, VoterCodeCheck } from '@/types';
+import type { Json } from '@/integrations/supabase/types';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { useAuth } from './AuthContext';
 import { toast } from '@/components/ui/use-toast';
-import { v4 as uuidv4 } from 'uuid';
-import { supabase, mapDatabaseElectionToAppElection } from '@/integrations/supabase/client';
+import { generateElectionKeyPair, encryptBallot, importElectionPrivateKey, decryptBallot, hashBallot } from '@/lib/ballotCrypto';
+import { tallyBallots } from '@/lib/tally';
+import { mailProvider, renderEmail, RenderedEmail } from '@/lib/email';
+import { voterCodeStatus } from '@/lib/voterCodes';
+import { ELECTION_CODE_FORMAT, VOTER_CODE_FORMAT, generateCode, generateCodes } from '@/lib/codes';
+import { can } from '@/lib/permissions';
+import { canMoveToStatus, canStartElection, Clock, createLifecycleScheduler, LifecycleScheduler, nominationPeriod, registrationClosesAt, systemClock } from '@/lib/lifecycle';
+import {
+  supabase,
+  fetchAllRows,
+  mapDatabaseVoteToAppVote,
+  mapDatabaseVoterRecordToAppVoterRecord,
+  mapDatabaseVoterCodeToAppVoterCode,
+  mapDatabaseVoterRegistrationToAppVoterRegistration,
+  mapDatabaseEmailMessageToAppEmailMessage,
+  fetchElections,
+  fetchElectionDetails,
+  fetchVotes,
+  fetchVoterRecords,
+  fetchVoterCodes,
+  fetchVoterRegistrations,
+  fetchNominations,
+  fetchEmailMessages,
+} from '@/integrations/supabase/client';
 
 interface ElectionContextType {
   elections: Election[];
   loading: boolean;
   voterCodes: VoterCode[];
   voterRegistrations: VoterRegistration[];
-  createElection: (election: Omit<Election, 'id' | 'createdBy' | 'createdAt' | 'status' | 'electionCode' | 'registrationStatus'>) => void;
-  updateElectionStatus: (electionId: string, status: Election['status']) => void;
-  updateRegistrationStatus: (electionId: string, registrationStatus: Election['registrationStatus']) => void;
-  castVote: (electionId: string, candidateId: string) => boolean;
+  createElection: (election: ElectionDraft) => Promise<CreatedElection | null>;
+  updateElection: (electionId: string, election: ElectionDraft) => Promise<boolean>;
+  updateElectionStatus: (electionId: string, status: Election['status']) => Promise<boolean>;
+  updateRegistrationStatus: (electionId: string, registrationStatus: Election['registrationStatus']) => Promise<boolean>;
+  castVote: (electionId: string, ballot: Ballot, voterCode?: string) => Promise<VoteReceipt | null>;
   hasVoted: (electionId: string) => boolean;
-  getElectionResults: (electionId: string) => Record<string, number>;
+  getElectionResults: (electionId: string) => ElectionTally | null;
+  getBallotCount: (electionId: string) => number;
+  tallyElection: (electionId: string, privateKey: string) => Promise<boolean>;
   getElectionById: (id: string) => Election | undefined;
-  generateVoterCodes: (electionId: string, count: number, emails?: string[]) => string[];
+  generateVoterCodes: (electionId: string, count: number, emails?: string[], names?: string[]) => Promise<string[]>;
   getVoterCodesByElection: (electionId: string) => VoterCode[];
-  validateVoterCode: (code: string, electionId: string) => boolean;
-  markVoterCodeAsUsed: (code: string) => void;
-  registerForElection: (electionId: string, name: string, email: string) => Promise<void>;
+  validateVoterCode: (code: string, electionId: string) => Promise<VoterCodeCheck>;
+  revokeVoterCode: (code: string, reason?: string) => Promise<boolean>;
+  setVoterCodeExpiry: (code: string, expiresAt: Date | null) => Promise<boolean>;
+  reissueVoterCode: (code: string, reason?: string) => Promise<string | null>;
+  registerForElection: (electionId: string, name: string) => Promise<void>;
   getVoterRegistrationsByElection: (electionId: string) => VoterRegistration[];
   updateVoterRegistrationStatus: (registrationId: string, status: 'approved' | 'rejected', adminId: string) => Promise<void>;
   getPendingRegistrations: () => VoterRegistration[];
   hasRegisteredForElection: (electionId: string, email: string) => boolean;
   canRegisterForElection: (electionId: string) => boolean;
   isVoterApprovedForElection: (electionId: string, voterId: string) => boolean;
-  updateCandidateName: (electionId: string, candidateId: string, newName: string) => void;
+  updateCandidateName: (electionId: string, candidateId: string, newName: string) => Promise<boolean>;
+  nominations: Nomination[];
+  canNominateForElection: (electionId: string) => boolean;
+  submitNomination: (contestId: string, nomineeName: string, statement: string, seconderEmail: string) => Promise<boolean>;
+  secondNomination: (nominationId: string, second: boolean) => Promise<boolean>;
+  reviewNomination: (nominationId: string, accept: boolean, note?: string) => Promise<boolean>;
+  getNominationsByElection: (electionId: string) => Nomination[];
+  getEmailMessagesByElection: (electionId: string) => EmailMessage[];
+  sendVoterCodeEmails: (electionId: string, codes: string[], template: 'invitation' | 'reminder') => Promise<boolean>;
+  resendEmail: (messageId: string) => Promise<boolean>;
 }
 
-// Simple encryption function (for demonstration)
-// In a real app, use proper cryptographic libraries
-const encryptVote = (voteData: string): string => {
-  // Simple base64 encoding for demonstration
-  return btoa(`secure-${voteData}-${Date.now()}`);
+// A message to record and send; the subject and body come from the template
+type EmailDraft = Pick<EmailMessage, 'electionId' | 'template' | 'recipientEmail' | 'recipientName' | 'voterCode'>;
+
+// A newly created election, with the private key its administrator must keep
+// in order to decrypt the ballots once voting closes
+interface CreatedElection {
+  election: Election;
+  privateKey: string;
+}
+
+// User-facing messages for each reason cast_vote can reject a ballot
+const CAST_VOTE_FAILURE_MESSAGES: Record<CastVoteFailureReason, { title: string; description: string }> = {
+  not_authenticated: {
+    title: "Authentication required",
+    description: "Please log in to vote",
+  },
+  staff_cannot_vote: {
+    title: "Election officers cannot vote",
+    description: "This election's officers are not allowed to vote in it",
+  },
+  election_not_found: {
+    title: "Election not found",
+    description: "The election you are trying to vote in does not exist",
+  },
+  election_not_active: {
+    title: "Voting not allowed",
+    description: "This election is not currently accepting votes",
+  },
+  election_not_encrypted: {
+    title: "Voting not available",
+    description: "This election has no encryption key, so ballots cannot be accepted",
+  },
+  invalid_ballot: {
+    title: "Invalid ballot",
+    description: "Your ballot could not be read. Please try again",
+  },
+  not_approved: {
+    title: "Not authorized",
+    description: "You must be a registered and approved voter for this election",
+  },
+  invalid_code: {
+    title: "Invalid voter code",
+    description: "Your voter code is not valid for this election",
+  },
+  code_already_used: {
+    title: "Voter code already used",
+    description: "Your voter code has already been used to cast a vote",
+  },
+  code_revoked: {
+    title: "Voter code revoked",
+    description: "Your voter code has been revoked. Please contact the election administrator for a new one",
+  },
+  code_expired: {
+    title: "Voter code expired",
+    description: "Your voter code has expired. Please contact the election administrator for a new one",
+  },
+  already_voted: {
+    title: "Already voted",
+    description: "You have already cast your vote in this election",
+  },
 };
 
-// Generate a unique election code
-const generateElectionCode = (): string => {
-  // Format: 2 letters + 4 numbers
-  const letters = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // Removed easily confusable characters
-  const letter1 = letters.charAt(Math.floor(Math.random() * letters.length));
-  const letter2 = letters.charAt(Math.floor(Math.random() * letters.length));
-  const numbers = Math.floor(1000 + Math.random() * 9000); // 4-digit number
-  return `${letter1}${letter2}${numbers}`;
+const showCastVoteFailure = (reason: CastVoteFailureReason = 'election_not_found') => {
+  toast({
+    ...CAST_VOTE_FAILURE_MESSAGES[reason],
+    variant: "destructive",
+  });
 };
 
-// Generate a unique voter code
-const generateUniqueVoterCode = (): string => {
-  // Format: 8 characters alphanumeric (uppercase)
-  return uuidv4().substring(0, 8).toUpperCase();
+// Convert the JSON returned by cast_vote into a typed result
+const mapCastVoteResult = (data: Json): CastVoteResult => {
+  const result = (data ?? {}) as { success?: boolean; reason?: CastVoteFailureReason; vote_id?: string; ballot_hash?: string };
+  return {
+    success: !!result.success,
+    reason: result.reason,
+    voteId: result.vote_id,
+    ballotHash: result.ballot_hash,
+  };
 };
 
-// Mock initial data
-const MOCK_ELECTIONS: Election[] = [
-  {
-    id: '1',
-    electionCode: 'AB1234',
-    title: 'Board President Election',
-    description: 'Vote for the next board president of our club',
-    startDate: new Date(Date.now() - 86400000), // Yesterday
-    endDate: new Date(Date.now() + 86400000 * 7), // 7 days from now
-    candidates: [
-      {
-        id: '101',
-        name: 'Jane Smith',
-        description: 'Current Vice President with 5 years of experience',
-      },
-      {
-        id: '102',
-        name: 'Michael Wong',
-        description: 'Committee Chair with innovative ideas for club growth',
-      },
-      {
-        id: '103',
-        name: 'Sarah Johnson',
-        description: 'Long-time member focusing on community engagement',
-      }
-    ],
-    status: 'active',
-    registrationStatus: 'open',
-    createdBy: '1',
-    createdAt: new Date(Date.now() - 86400000 * 2), // 2 days ago
-  },
-  {
-    id: '2',
-    electionCode: 'CD5678',
-    title: 'Budget Allocation Vote',
-    description: 'Vote on how to allocate this year\'s budget surplus',
-    startDate: new Date(Date.now() + 86400000 * 2), // 2 days from now
-    endDate: new Date(Date.now() + 86400000 * 9), // 9 days from now
-    candidates: [
-      {
-        id: '201',
-        name: 'Facility Improvements',
-        description: 'Upgrade equipment and renovate meeting spaces',
-      },
-      {
-        id: '202',
-        name: 'Community Outreach',
-        description: 'Fund more community events and marketing',
-      },
-      {
-        id: '203',
-        name: 'Membership Benefits',
-        description: 'Enhance benefits and resources for members',
-      }
-    ],
-    status: 'upcoming',
-    registrationStatus: 'open',
-    createdBy: '1',
-    createdAt: new Date(Date.now() - 86400000), // 1 day ago
+// Contests in ballot order, each with its candidates in order, as
+// create_election and update_election take them
+const toBallotPayload = (contests: Contest[]): Json => contests.map(contest => ({
+  id: contest.id,
+  title: contest.title,
+  description: contest.description || null,
+  voting_method: contest.votingMethod,
+  seats: contest.seats,
+  max_selections: contest.maxSelections ?? null,
+  pass_threshold: contest.passThreshold ?? null,
+  threshold_percent: contest.thresholdPercent ?? null,
+  quorum_percent: contest.quorumPercent ?? null,
+  candidates: contest.candidates.map(candidate => ({
+    id: candidate.id,
+    name: candidate.name,
+    description: candidate.description || null,
+    photo_url: candidate.photoUrl || null,
+    manifesto: candidate.manifesto || null,
+    links: (candidate.links ?? []) as unknown as Json,
+  })),
+}));
+
+// Election and voter codes are unique in the database. A freshly generated
+// code that is already taken fails its insert with a unique violation on
+// the code column, and is worth retrying with new codes.
+const CODE_ATTEMPTS = 3;
+
+const isCodeCollision = (error: PostgrestError | null): boolean =>
+  error?.code === '23505' && /code\)+=/.test(error.details ?? '');
+
+// Run an insert that uses freshly generated codes, generating new ones and
+// trying again if one is taken
+const withFreshCodes = async <T extends { error: PostgrestError | null }>(attempt: () => PromiseLike<T>): Promise<T> => {
+  let result = await attempt();
+  for (let i = 1; i < CODE_ATTEMPTS && isCodeCollision(result.error); i++) {
+    result = await attempt();
   }
-];
+  return result;
+};
 
 const ElectionContext = createContext<ElectionContextType | undefined>(undefined);
 
-export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user, profile } = useAuth();
+export const ElectionProvider: React.FC<{ children: React.ReactNode; clock?: Clock }> = ({ children, clock = systemClock }) => {
+  const { user, permissions, meetsTwoFactorRequirement } = useAuth();
   const [elections, setElections] = useState<Election[]>([]);
   const [votes, setVotes] = useState<Vote[]>([]);
   const [voterRecords, setVoterRecords] = useState<VoterRecord[]>([]);
   const [voterCodes, setVoterCodes] = useState<VoterCode[]>([]);
   const [voterRegistrations, setVoterRegistrations] = useState<VoterRegistration[]>([]);
+  const [nominations, setNominations] = useState<Nomination[]>([]);
+  const [emailMessages, setEmailMessages] = useState<EmailMessage[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
 
-  // Load mock data on component mount
-  useEffect(() => {
-    // Simulate API fetch delay
-    const timer = setTimeout(() => {
-      setElections(MOCK_ELECTIONS);
-      
-      // Load any stored votes from localStorage
-      try {
-        const storedVotes = localStorage.getItem('secureVotes');
-        if (storedVotes) {
-          setVotes(JSON.parse(storedVotes));
-        }
-        
-        const storedRecords = localStorage.getItem('voterRecords');
-        if (storedRecords) {
-          setVoterRecords(JSON.parse(storedRecords));
-        }
-
-        const storedVoterCodes = localStorage.getItem('voterCodes');
-        if (storedVoterCodes) {
-          setVoterCodes(JSON.parse(storedVoterCodes));
-        }
-        
-        const storedRegistrations = localStorage.getItem('voterRegistrations');
-        if (storedRegistrations) {
-          setVoterRegistrations(JSON.parse(storedRegistrations));
-        }
-      } catch (error) {
-        console.error('Error loading stored data:', error);
-      }
+  // Load elections and voting data from Supabase
+  const loadElectionData = useCallback(async () => {
+    try {
+      const [electionsData, votesData, recordsData, codesData, registrationsData, nominationsData, emailMessagesData] = await Promise.all([
+        fetchElections(),
+        fetchVotes(),
+        fetchVoterRecords(),
+        fetchVoterCodes(),
+        fetchVoterRegistrations(),
+        fetchNominations(),
+        fetchEmailMessages(),
+      ]);
       
+      setElections(electionsData);
+      setVotes(votesData);
+      setVoterRecords(recordsData);
+      setVoterCodes(codesData);
+      setVoterRegistrations(registrationsData);
+      setNominations(nominationsData);
+      setEmailMessages(emailMessagesData);
+    } catch (error) {
+      console.error('Error loading election data:', error);
+    } finally {
       setLoading(false);
-    }, 1000);
-    
-    return () => clearTimeout(timer);
+    }
   }, []);
 
-  // Save data to localStorage whenever they change
+  // Reload whenever the signed-in user changes, since row-level security
+  // decides which rows are visible, and keep in sync with other devices
   useEffect(() => {
-    if (votes.length > 0) {
-      localStorage.setItem('secureVotes', JSON.stringify(votes));
-    }
-  }, [votes]);
+    loadElectionData();
+    
+    const channel = supabase
+      .channel('public:election-data')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'elections' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'contests' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'candidates' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'votes' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'voter_records' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'voter_codes' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'voter_registrations' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'nominations' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'email_messages' }, () => loadElectionData())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'election_roles' }, () => loadElectionData())
+      .subscribe();
+    
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, loadElectionData]);
 
-  useEffect(() => {
-    if (voterRecords.length > 0) {
-      localStorage.setItem('voterRecords', JSON.stringify(voterRecords));
-    }
-  }, [voterRecords]);
+  // Move elections through their lifecycle at the exact start, end and
+  // registration-close timestamps. The database re-checks every transition
+  // against its own clock and writes the audit log entries.
+  const electionsRef = useRef<Election[]>([]);
+  const schedulerRef = useRef<LifecycleScheduler | null>(null);
   
   useEffect(() => {
-    if (voterCodes.length > 0) {
-      localStorage.setItem('voterCodes', JSON.stringify(voterCodes));
-    }
-  }, [voterCodes]);
+    const scheduler = createLifecycleScheduler({
+      clock,
+      getElections: () => electionsRef.current,
+      advance: async () => {
+        const { error } = await supabase.rpc('advance_election_lifecycle');
+        if (error) {
+          console.error('Error advancing election lifecycle:', error);
+          return;
+        }
+        await loadElectionData();
+      },
+    });
+    schedulerRef.current = scheduler;
+    scheduler.start();
+    
+    return () => {
+      scheduler.stop();
+      schedulerRef.current = null;
+    };
+  }, [clock, loadElectionData]);
   
   useEffect(() => {
-    if (voterRegistrations.length > 0) {
-      localStorage.setItem('voterRegistrations', JSON.stringify(voterRegistrations));
+    electionsRef.current = elections;
+    schedulerRef.current?.reschedule();
+  }, [elections]);
+
+  // Show an admin's change to an election at once, then write it through.
+  // If the write fails, rollback undoes just that change, keeping anything
+  // that arrived from other admins in the meantime. Row-level security
+  // filters out rows the user may not update instead of raising an error,
+  // so a write that touches no rows counts as a failure too.
+  const updateOptimistically = async (
+    electionId: string,
+    apply: (election: Election) => Election,
+    rollback: (election: Election, previous: Election) => Election,
+    write: () => PromiseLike<{ data: unknown[] | null; error: PostgrestError | null }>,
+    failureTitle: string,
+  ): Promise<boolean> => {
+    const previous = elections.find(e => e.id === electionId);
+    if (!previous) {
+      toast({
+        title: "Election not found",
+        description: "The election you are trying to update does not exist",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    setElections(prev => prev.map(election => (election.id === electionId ? apply(election) : election)));
+    
+    const { data, error } = await write();
+    if (error || !data || data.length === 0) {
+      console.error(`${failureTitle}:`, error);
+      setElections(prev => prev.map(election => (election.id === electionId ? rollback(election, previous) : election)));
+      toast({
+        title: failureTitle,
+        description: error?.message ?? "You do not have permission to make this change",
+        variant: "destructive",
+      });
+      return false;
     }
-  }, [voterRegistrations]);
+    
+    return true;
+  };
 
-  // Log audit record
-  const logAudit = (action: string, details: string) => {
-    console.log(`AUDIT: ${action} - ${details} - ${new Date().toISOString()}`);
-    // In a real app, this would be sent to a secure audit log service
+  // Append a record to the hash-chained audit log. The database links it to
+  // the previous entry; failures are logged but never block the action itself.
+  // Await the result only where entries must land in a particular order.
+  // Security-sensitive actions are logged by the database functions that
+  // perform them, which is the only place they can be.
+  const logAudit = (action: AuditAction, details: string, electionId?: string): PromiseLike<void> => {
+    return supabase
+      .rpc('log_audit_event', { action, details, election_id: electionId })
+      .then(({ error }) => {
+        if (error) {
+          console.error('Error writing audit log:', error);
+        }
+      });
   };
 
   // Create a new election
-  const createElection = async (electionData: Omit<Election, 'id' | 'createdBy' | 'createdAt' | 'status' | 'electionCode' | 'registrationStatus'>) => {
-    if (!user || !profile || profile.role !== 'admin') {
+  const createElection = async (electionData: ElectionDraft) => {
+    if (!can(permissions, 'create_election')) {
       toast({
         title: "Permission denied",
         description: "Only admins can create elections",
         variant: "destructive",
       });
-      return;
+      return null;
     }
     
     try {
-      // Insert into Supabase
-      const { data: electionResult, error: electionError } = await supabase
-        .from('elections')
-        .insert({
+      // Ballots are encrypted with this key pair; only the public half is stored
+      const keyPair = await generateElectionKeyPair();
+      
+      // The election and its whole ballot are saved in one transaction
+      const { data: electionResult, error: electionError } = await withFreshCodes(() => supabase.rpc('create_election', {
+        election: {
           title: electionData.title,
           description: electionData.description,
           start_date: electionData.startDate.toISOString(),
           end_date: electionData.endDate.toISOString(),
-          created_by: user.id,
-          status: new Date() >= electionData.startDate ? 'active' : 'upcoming',
-          registration_status: 'open',
-          election_code: generateElectionCode(), // This function is defined above in the file
-        })
-        .select()
-        .single();
+          registration_lead_minutes: electionData.registrationLeadMinutes,
+          nomination_opens_at: electionData.nominationOpensAt?.toISOString() ?? null,
+          nomination_closes_at: electionData.nominationClosesAt?.toISOString() ?? null,
+          election_code: generateCode(ELECTION_CODE_FORMAT),
+          public_key: keyPair.publicKey,
+        },
+        ballot: toBallotPayload(electionData.contests),
+      }));
       
       if (electionError) {
         console.error("Error creating election:", electionError);
@@ -230,54 +378,37 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
           description: electionError.message,
           variant: "destructive",
         });
-        return;
+        return null;
       }
       
-      // Now insert the candidates
-      const candidatePromises = electionData.candidates.map(candidate => {
-        return supabase
-          .from('candidates')
-          .insert({
-            election_id: electionResult.id,
-            name: candidate.name,
-            description: candidate.description || null,
-          });
-      });
-      
-      const candidateResults = await Promise.all(candidatePromises);
-      const candidateErrors = candidateResults.filter(result => result.error);
-      
-      if (candidateErrors.length > 0) {
-        console.error("Error creating candidates:", candidateErrors);
-        toast({
-          title: "Warning",
-          description: "Election created but some candidates may not have been saved properly.",
-          variant: "destructive",
-        });
+      // Start it straight away if its start time has already come
+      let savedElection = electionResult;
+      if (clock.now() >= electionData.startDate) {
+        const { error: advanceError } = await supabase.rpc('advance_election_lifecycle');
+        if (advanceError) {
+          console.error("Error starting election:", advanceError);
+        }
+        
+        const { data: startedElection } = await supabase
+          .from('elections')
+          .select()
+          .eq('id', electionResult.id)
+          .single();
+        if (startedElection) savedElection = startedElection;
       }
       
-      // Fetch the created candidates to return a complete election object
-      const { data: candidatesData } = await supabase
-        .from('candidates')
-        .select('*')
-        .eq('election_id', electionResult.id);
-      
-      // Create full election object
-      const newElection = mapDatabaseElectionToAppElection(
-        electionResult, 
-        candidatesData || []
-      );
+      // Fetch the created contests and candidates to return a complete election object
+      const newElection = await fetchElectionDetails(savedElection);
       
       // Update local state
       setElections(prev => [...prev, newElection]);
       
-      logAudit('election_created', `Election "${newElection.title}" created by ${user.id} with code ${newElection.electionCode}`);
-      
       toast({
         title: "Election created",
         description: `${newElection.title} has been successfully created with code: ${newElection.electionCode}`,
       });
       
+      return { election: newElection, privateKey: keyPair.privateKey };
     } catch (error) {
       console.error("Error in createElection:", error);
       toast({
@@ -285,61 +416,180 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         description: "An unexpected error occurred while creating your election.",
         variant: "destructive",
       });
+      return null;
+    }
+  };
+
+  // Save an admin's edits to an election. Before voting starts everything
+  // can change, including the contests and candidates, all in one
+  // transaction. Afterwards only the end date may move, and only later.
+  const updateElection = async (electionId: string, electionData: ElectionDraft): Promise<boolean> => {
+    if (!can(permissions, 'edit_election', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can edit it",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const election = elections.find(e => e.id === electionId);
+    if (!election) {
+      toast({
+        title: "Election not found",
+        description: "The election you are trying to edit does not exist",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    if (election.status !== 'upcoming') {
+      if (election.status !== 'active' || electionData.endDate <= election.endDate) {
+        toast({
+          title: "Update not allowed",
+          description: "Once voting has started, the end date can only be extended while the election is active",
+          variant: "destructive",
+        });
+        return false;
+      }
+      
+      const endDate = electionData.endDate;
+      const saved = await updateOptimistically(
+        electionId,
+        target => ({ ...target, endDate }),
+        (target, previous) => ({ ...target, endDate: previous.endDate }),
+        () => supabase.from('elections').update({ end_date: endDate.toISOString() }).eq('id', electionId).select('id'),
+        "Error updating election",
+      );
+      if (!saved) return false;
+      
+      logAudit('election_updated', `Election ${electionId} end date extended from ${election.endDate.toISOString()} to ${endDate.toISOString()} by ${user.id}`, electionId);
+      
+      toast({
+        title: "Election updated",
+        description: "The end date has been extended",
+      });
+      return true;
+    }
+    
+    // The details and the whole ballot are saved in one transaction, which
+    // also writes the audit log entry
+    const { data: electionResult, error: electionError } = await supabase.rpc('update_election', {
+      election_id: electionId,
+      election: {
+        title: electionData.title,
+        description: electionData.description,
+        start_date: electionData.startDate.toISOString(),
+        end_date: electionData.endDate.toISOString(),
+        registration_lead_minutes: electionData.registrationLeadMinutes,
+        nomination_opens_at: electionData.nominationOpensAt?.toISOString() ?? null,
+        nomination_closes_at: electionData.nominationClosesAt?.toISOString() ?? null,
+      },
+      ballot: toBallotPayload(electionData.contests),
+    });
+    
+    if (electionError) {
+      console.error("Error updating election:", electionError);
+      toast({
+        title: "Error updating election",
+        description: electionError.message,
+        variant: "destructive",
+      });
+      return false;
     }
+    
+    const updated = await fetchElectionDetails(electionResult);
+    setElections(prev => prev.map(e => (e.id === electionId ? updated : e)));
+    
+    toast({
+      title: "Election updated",
+      description: `${updated.title} has been saved`,
+    });
+    return true;
   };
 
   // Update election status
-  const updateElectionStatus = (electionId: string, status: Election['status']) => {
-    if (!user || !profile || profile.role !== 'admin') {
+  const updateElectionStatus = async (electionId: string, status: Election['status']): Promise<boolean> => {
+    if (!can(permissions, 'change_election_status', electionId)) {
       toast({
         title: "Permission denied",
-        description: "Only admins can update election status",
+        description: "Only admins and the election's officers can update its status",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (!meetsTwoFactorRequirement) {
+      toast({
+        title: "Two-factor authentication required",
+        description: "The club requires two-factor authentication to change an election's status. Set it up from your profile.",
         variant: "destructive",
       });
-      return;
+      return false;
     }
     
-    setElections(prev => 
-      prev.map(election => 
-        election.id === electionId 
-          ? { ...election, status } 
-          : election
-      )
-    );
+    const current = elections.find(e => e.id === electionId);
+    if (current && !canMoveToStatus(current.status, status)) {
+      toast({
+        title: "Status change not allowed",
+        description: `An election cannot go back from ${current.status} to ${status}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (current && current.status === 'upcoming' && status === 'active' && !canStartElection(current, clock.now())) {
+      toast({
+        title: "Status change not allowed",
+        description: `The election cannot start before ${current.startDate.toLocaleString()}`,
+        variant: "destructive",
+      });
+      return false;
+    }
     
-    logAudit('election_updated', `Election ${electionId} status updated to ${status} by ${user.id}`);
+    const saved = await updateOptimistically(
+      electionId,
+      election => ({ ...election, status }),
+      (election, previous) => ({ ...election, status: previous.status }),
+      () => supabase
+        .rpc('set_election_status', { election_id: electionId, status })
+        .then(({ data, error }) => ({ data: data ? [data] : null, error })),
+      "Error updating election",
+    );
+    if (!saved) return false;
     
     toast({
       title: "Election updated",
       description: `Election status has been updated to ${status}`,
     });
+    return true;
   };
 
   // Update registration status for an election
-  const updateRegistrationStatus = (electionId: string, registrationStatus: Election['registrationStatus']) => {
-    if (!user || !profile || profile.role !== 'admin') {
+  const updateRegistrationStatus = async (electionId: string, registrationStatus: Election['registrationStatus']): Promise<boolean> => {
+    if (!can(permissions, 'change_election_status', electionId)) {
       toast({
         title: "Permission denied",
-        description: "Only admins can update registration status",
+        description: "Only admins and the election's officers can open or close its registration",
         variant: "destructive",
       });
-      return;
+      return false;
     }
     
-    setElections(prev => 
-      prev.map(election => 
-        election.id === electionId 
-          ? { ...election, registrationStatus } 
-          : election
-      )
+    const saved = await updateOptimistically(
+      electionId,
+      election => ({ ...election, registrationStatus }),
+      (election, previous) => ({ ...election, registrationStatus: previous.registrationStatus }),
+      () => supabase
+        .rpc('set_registration_status', { election_id: electionId, registration_status: registrationStatus })
+        .then(({ data, error }) => ({ data: data ? [data] : null, error })),
+      "Error updating registration",
     );
-    
-    logAudit('election_registration_updated', `Election ${electionId} registration status updated to ${registrationStatus} by ${user.id}`);
+    if (!saved) return false;
     
     toast({
       title: "Registration status updated",
       description: `Election registration is now ${registrationStatus}`,
     });
+    return true;
   };
 
   // Check if a voter is approved for an election
@@ -359,101 +609,104 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     return !!voterCode;
   };
 
-  // Cast a vote
-  const castVote = (electionId: string, candidateId: string): boolean => {
+  // Cast a vote through the cast_vote database function, which checks the
+  // election status, the voter's approval and their code in one transaction.
+  // Returns the voter's receipt, or null if the vote was not recorded.
+  const castVote = async (electionId: string, ballot: Ballot, voterCode?: string): Promise<VoteReceipt | null> => {
     if (!user) {
       toast({
         title: "Authentication required",
         description: "Please log in to vote",
         variant: "destructive",
       });
-      return false;
+      return null;
     }
     
-    // Check if user is an admin (admins can't vote)
-    if (user.role === 'admin') {
-      toast({
-        title: "Admin cannot vote",
-        description: "Administrators are not allowed to vote in elections",
-        variant: "destructive",
-      });
-      return false;
+    if (!can(permissions, 'vote', electionId)) {
+      showCastVoteFailure('staff_cannot_vote');
+      return null;
+    }
+    
+    // The code the voter entered, or else the one assigned when their
+    // registration was approved
+    const registration = voterRegistrations.find(
+      reg => reg.electionId === electionId && reg.email === user.email && reg.status === 'approved'
+    );
+    const code = voterCode ?? registration?.voterCodeId;
+    if (!code) {
+      showCastVoteFailure('not_approved');
+      return null;
     }
     
-    // Check if the election exists and is active
     const election = elections.find(e => e.id === electionId);
-    if (!election) {
-      toast({
-        title: "Election not found",
-        description: "The election you are trying to vote in does not exist",
-        variant: "destructive",
-      });
-      return false;
+    if (!election?.publicKey) {
+      showCastVoteFailure(election ? 'election_not_encrypted' : 'election_not_found');
+      return null;
     }
     
-    if (election.status !== 'active') {
-      toast({
-        title: "Voting not allowed",
-        description: `This election is currently ${election.status}`,
-        variant: "destructive",
-      });
-      return false;
+    // The database checks the dates too, before the lifecycle catches up
+    const now = clock.now();
+    if (election.status !== 'active' || now < election.startDate || now >= election.endDate) {
+      showCastVoteFailure('election_not_active');
+      return null;
     }
     
-    // Check if the user is registered and approved for this election
-    if (!isVoterApprovedForElection(electionId, user.id)) {
+    // Encrypt the ballot in the browser; only the election's private key can read it
+    const encryptedBallot = await encryptBallot(election.publicKey, ballot);
+    
+    const { data, error } = await supabase.rpc('cast_vote', {
+      election_id: electionId,
+      encrypted_ballot: encryptedBallot,
+      voter_code: code,
+    });
+    
+    if (error) {
+      console.error("Error casting vote:", error);
       toast({
-        title: "Not authorized",
-        description: "You must be a registered and approved voter for this election",
+        title: "Error casting vote",
+        description: error.message,
         variant: "destructive",
       });
-      return false;
+      return null;
+    }
+    
+    const result = mapCastVoteResult(data);
+    if (!result.success) {
+      showCastVoteFailure(result.reason);
+      if (['already_voted', 'code_already_used', 'code_revoked', 'code_expired'].includes(result.reason)) {
+        loadElectionData();
+      }
+      return null;
     }
     
-    // Check if user has already voted
-    if (hasVoted(electionId)) {
+    // The receipt is the hash of exactly what we sent; warn if the server disagrees
+    const ballotHash = await hashBallot(encryptedBallot);
+    if (result.ballotHash !== ballotHash) {
+      console.error("Ballot hash mismatch:", result.ballotHash, ballotHash);
       toast({
-        title: "Already voted",
-        description: "You have already cast your vote in this election",
+        title: "Receipt mismatch",
+        description: "The server recorded a different ballot hash than expected. Please report this to the election administrator.",
         variant: "destructive",
       });
-      return false;
     }
     
-    // Create encrypted vote
-    const voteData = {
-      id: uuidv4(),
-      electionId,
-      candidateId,
-      timestamp: new Date(),
-    };
-    
-    // In a real app, the vote would be encrypted here
-    const encryptedVoteData = encryptVote(JSON.stringify(voteData));
-    console.log("Encrypted vote:", encryptedVoteData);
-    
-    // Save the vote
-    setVotes(prev => [...prev, voteData]);
-    
-    // Record that the user has voted, but keep the vote itself separate
-    setVoterRecords(prev => [
-      ...prev, 
-      {
-        voterId: user.id,
-        electionId,
-        hasVoted: true,
-        timestamp: new Date(),
-      }
-    ]);
-    
-    logAudit('vote_cast', `Vote cast in election "${election.title}" by user ${user.id}`);
+    const timestamp = new Date();
+    setVotes(prev => [...prev, { id: result.voteId, electionId, encryptedBallot, ballotHash: result.ballotHash }]);
+    setVoterRecords(prev => [...prev, { voterId: user.id, electionId, hasVoted: true, timestamp }]);
+    setVoterCodes(prev => 
+      prev.map(voterCode => 
+        voterCode.code === code
+          ? { ...voterCode, isUsed: true, usedAt: timestamp }
+          : voterCode
+      )
+    );
     
     toast({
       title: "Vote cast successfully",
       description: "Your vote has been securely recorded",
     });
     
-    return true;
+    return { electionId, ballotHash: result.ballotHash ?? ballotHash, castAt: timestamp };
   };
 
   // Check if voter can register for an election
@@ -466,11 +719,14 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     // Registration is not allowed if:
     // 1. Election has started (active or closed)
     // 2. Registration is closed by admin
-    return election.status === 'upcoming' && election.registrationStatus === 'open';
+    // 3. The registration lead time before the start has been reached
+    return election.status === 'upcoming' &&
+      election.registrationStatus === 'open' &&
+      clock.now() < registrationClosesAt(election);
   };
 
   // Register for an election
-  const registerForElection = async (electionId: string, name: string, email: string): Promise<void> => {
+  const registerForElection = async (electionId: string, name: string): Promise<void> => {
     // Check if user is logged in
     if (!user) {
       toast({
@@ -503,7 +759,7 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
     
     // Check if already registered
-    if (hasRegisteredForElection(electionId, email)) {
+    if (hasRegisteredForElection(electionId, user.email)) {
       toast({
         title: "Already registered",
         description: "You have already registered for this election",
@@ -512,21 +768,23 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       throw new Error("Already registered");
     }
     
-    // Create registration record
-    const newRegistration: VoterRegistration = {
-      id: uuidv4(),
-      electionId,
+    // Registered under the account's email, and logged, by the database
+    const { data: registrationResult, error: registrationError } = await supabase.rpc('register_for_election', {
+      election_id: electionId,
       name,
-      email,
-      status: 'pending',
-      submittedAt: new Date(),
-    };
-    
-    setVoterRegistrations(prev => [...prev, newRegistration]);
+    });
     
-    logAudit('user_registered', `User ${name} (${email}) registered for election "${election.title}"`);
+    if (registrationError) {
+      console.error("Error registering for election:", registrationError);
+      toast({
+        title: "Registration failed",
+        description: registrationError.message,
+        variant: "destructive",
+      });
+      throw new Error(registrationError.message);
+    }
     
-    return Promise.resolve();
+    setVoterRegistrations(prev => [...prev, mapDatabaseVoterRegistrationToAppVoterRegistration(registrationResult)]);
   };
   
   // Check if user has registered for an election
@@ -538,7 +796,7 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   
   // Get registrations for a specific election
   const getVoterRegistrationsByElection = (electionId: string): VoterRegistration[] => {
-    if (!user || user.role !== 'admin') {
+    if (!can(permissions, 'manage_voters', electionId)) {
       return [];
     }
     
@@ -547,11 +805,7 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   
   // Get all pending registrations
   const getPendingRegistrations = (): VoterRegistration[] => {
-    if (!user || user.role !== 'admin') {
-      return [];
-    }
-    
-    return voterRegistrations.filter(reg => reg.status === 'pending');
+    return voterRegistrations.filter(reg => reg.status === 'pending' && can(permissions, 'manage_voters', reg.electionId));
   };
   
   // Update registration status and generate voter code if approved
@@ -560,17 +814,17 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     status: 'approved' | 'rejected',
     adminId: string
   ): Promise<void> => {
-    if (!user || !profile || profile.role !== 'admin') {
+    const registration = voterRegistrations.find(reg => reg.id === registrationId);
+
+    if (!can(permissions, 'manage_voters', registration?.electionId)) {
       toast({
         title: "Permission denied",
-        description: "Only admins can update registration status",
+        description: "Only admins and the election's officers can review its registrations",
         variant: "destructive",
       });
       throw new Error("Permission denied");
     }
     
-    // Find the registration
-    const registration = voterRegistrations.find(reg => reg.id === registrationId);
     if (!registration) {
       toast({
         title: "Registration not found",
@@ -580,140 +834,342 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       throw new Error("Registration not found");
     }
     
-    // Update registration status
+    // Approval issues a voter code, created in the same transaction as the
+    // review so the registration always references it
+    let code: string | null = null;
+    const { data: registrationResult, error: registrationError } = await withFreshCodes(() => {
+      code = status === 'approved' ? generateCode(VOTER_CODE_FORMAT) : null;
+      return supabase.rpc('review_voter_registration', {
+        registration_id: registrationId,
+        status,
+        voter_code: code,
+      });
+    });
+    
+    if (registrationError) {
+      console.error("Error updating registration:", registrationError);
+      toast({
+        title: "Error updating registration",
+        description: registrationError.message,
+        variant: "destructive",
+      });
+      throw new Error(registrationError.message);
+    }
+    
     setVoterRegistrations(prev => 
       prev.map(reg => 
         reg.id === registrationId
-          ? { 
-              ...reg, 
-              status, 
-              reviewedAt: new Date(), 
-              reviewedBy: adminId 
-            }
+          ? mapDatabaseVoterRegistrationToAppVoterRegistration(registrationResult)
           : reg
       )
     );
-    
-    // If approved, generate a voter code
-    if (status === 'approved') {
-      // Generate a unique code
-      const code = generateUniqueVoterCode();
-      
-      const newVoterCode: VoterCode = {
+    if (code) {
+      setVoterCodes(prev => [...prev, {
         code,
         electionId: registration.electionId,
         isUsed: false,
         email: registration.email,
+        name: registration.name,
         createdAt: new Date(),
         createdBy: adminId,
-      };
-      
-      // Add the code to the voter codes
-      setVoterCodes(prev => [...prev, newVoterCode]);
-      
-      // Update the registration with the voter code ID
-      setVoterRegistrations(prev => 
-        prev.map(reg => 
-          reg.id === registrationId
-            ? { ...reg, voterCodeId: code }
-            : reg
-        )
-      );
-      
-      logAudit('voter_registration_approved', 
-        `Admin ${adminId} approved registration for ${registration.name} (${registration.email}) for election ${registration.electionId}`
-      );
-      
-      // In a real app, send an email with the voter code here
-      console.log(`SENDING EMAIL to ${registration.email} with voter code: ${code}`);
-    } else {
-      logAudit('voter_registration_rejected', 
-        `Admin ${adminId} rejected registration for ${registration.name} (${registration.email}) for election ${registration.electionId}`
-      );
+      }]);
     }
     
-    return Promise.resolve();
-  };
-
-  // Generate unique voter codes for an election
-  const generateVoterCodes = (electionId: string, count: number, emails?: string[]): string[] => {
-    if (!user || !profile || profile.role !== 'admin') {
-      toast({
-        title: "Permission denied",
-        description: "Only admins can generate voter codes",
-        variant: "destructive",
-      });
-      return [];
-    }
+    // Let the member know the decision, with their voter code if approved
+    const { failed } = await sendEmails([{
+      electionId: registration.electionId,
+      template: status === 'approved' ? 'approval' : 'rejection',
+      recipientEmail: registration.email,
+      recipientName: registration.name,
+      voterCode: code ?? undefined,
+    }]);
     
-    const election = elections.find(e => e.id === electionId);
-    if (!election) {
+    if (failed > 0) {
       toast({
-        title: "Election not found",
-        description: "Cannot generate codes for a non-existent election",
+        title: "Email not delivered",
+        description: status === 'approved'
+          ? `The approval email to ${registration.email} could not be sent. You can resend it from the election's voter codes.`
+          : `The rejection email to ${registration.email} could not be sent.`,
         variant: "destructive",
       });
-      return [];
+    }
+  };
+  
+  const renderEmailMessage = (message: EmailDraft, election: Election): RenderedEmail => {
+    return renderEmail(message.template, {
+      recipientName: message.recipientName,
+      electionTitle: election.title,
+      electionCode: election.electionCode,
+      accessUrl: `${window.location.origin}/elections`,
+      startDate: election.startDate,
+      endDate: election.endDate,
+      voterCode: message.voterCode,
+    });
+  };
+  
+  // Send one recorded message through the mail provider and record the
+  // outcome on it. Resolves to whether it was sent.
+  const deliverEmail = async (message: EmailMessage): Promise<boolean> => {
+    let deliveryError: string | null = null;
+    try {
+      const election = elections.find(e => e.id === message.electionId);
+      if (!election) throw new Error('Election not found');
+      await mailProvider.send(message, { to: message.recipientEmail, ...renderEmailMessage(message, election) });
+    } catch (error) {
+      console.error(`Error sending email ${message.id}:`, error);
+      deliveryError = error instanceof Error ? error.message : String(error);
     }
     
-    const newCodes: VoterCode[] = [];
-    const generatedCodes: string[] = [];
+    const { data, error } = await supabase
+      .from('email_messages')
+      .update({
+        status: deliveryError ? 'failed' : 'sent',
+        provider: mailProvider.name,
+        attempts: message.attempts + 1,
+        last_error: deliveryError,
+        sent_at: deliveryError ? null : new Date().toISOString(),
+      })
+      .eq('id', message.id)
+      .select()
+      .single();
     
-    // Generate the specified number of unique codes
-    for (let i = 0; i < count; i++) {
-      // Generate a unique code - first 8 chars of a UUID
-      const code = uuidv4().substring(0, 8).toUpperCase();
-      
-      generatedCodes.push(code);
-      newCodes.push({
+    if (error) {
+      console.error("Error recording email delivery:", error);
+    } else {
+      setEmailMessages(prev => prev.map(m => (m.id === data.id ? mapDatabaseEmailMessageToAppEmailMessage(data) : m)));
+    }
+    
+    return deliveryError === null;
+  };
+  
+  // Record new messages, then send them one at a time
+  const sendEmails = async (drafts: EmailDraft[]): Promise<{ sent: number; failed: number }> => {
+    const rows = drafts.flatMap(draft => {
+      const election = elections.find(e => e.id === draft.electionId);
+      if (!election) return [];
+      return [{
+        election_id: draft.electionId,
+        voter_code: draft.voterCode ?? null,
+        template: draft.template,
+        recipient_email: draft.recipientEmail,
+        recipient_name: draft.recipientName ?? null,
+        subject: renderEmailMessage(draft, election).subject,
+        created_by: user.id,
+      }];
+    });
+    
+    const { data, error } = await supabase
+      .from('email_messages')
+      .insert(rows)
+      .select();
+    
+    if (error) {
+      console.error("Error recording email messages:", error);
+      return { sent: 0, failed: drafts.length };
+    }
+    
+    const messages = data.map(mapDatabaseEmailMessageToAppEmailMessage);
+    setEmailMessages(prev => [...prev, ...messages]);
+    
+    let sent = 0;
+    for (const message of messages) {
+      if (await deliverEmail(message)) sent++;
+    }
+    return { sent, failed: drafts.length - sent };
+  };
+
+  // Generate unique voter codes for an election
+  const generateVoterCodes = async (electionId: string, count: number, emails?: string[], names?: string[]): Promise<string[]> => {
+    if (!can(permissions, 'manage_voters', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can generate its voter codes",
+        variant: "destructive",
+      });
+      return [];
+    }
+    
+    const election = elections.find(e => e.id === electionId);
+    if (!election) {
+      toast({
+        title: "Election not found",
+        description: "Cannot generate codes for a non-existent election",
+        variant: "destructive",
+      });
+      return [];
+    }
+    
+    // Generate the specified number of unique codes, bound to an email (and
+    // the member's name) when one is given
+    let newCodes: { code: string; email: string | null; name: string | null }[] = [];
+    
+    const { data: codesResult, error: codesError } = await withFreshCodes(() => {
+      newCodes = generateCodes(VOTER_CODE_FORMAT, count).map((code, i) => ({
         code,
-        electionId,
-        isUsed: false,
-        createdAt: new Date(),
-        createdBy: user.id,
+        email: emails?.[i] ?? null,
+        name: names?.[i] || null,
+      }));
+      return supabase.rpc('issue_voter_codes', { election_id: electionId, codes: newCodes });
+    });
+    
+    if (codesError) {
+      console.error("Error generating voter codes:", codesError);
+      toast({
+        title: "Error generating voter codes",
+        description: codesError.message,
+        variant: "destructive",
       });
+      return [];
     }
     
     // Add the new codes to the state
-    setVoterCodes(prev => [...prev, ...newCodes]);
-    
-    logAudit('voter_codes_generated', `Admin ${user.id} generated ${count} voter codes for election "${election.title}"`);
+    setVoterCodes(prev => [...prev, ...codesResult.map(mapDatabaseVoterCodeToAppVoterCode)]);
     
     toast({
       title: "Voter codes generated",
       description: `${count} unique voter codes have been created`,
     });
     
-    return generatedCodes;
+    // In the order requested, so callers can pair codes with emails
+    return newCodes.map(code => code.code);
   };
   
   // Get voter codes for a specific election
   const getVoterCodesByElection = (electionId: string): VoterCode[] => {
-    if (!user || user.role !== 'admin') {
+    if (!can(permissions, 'manage_voters', electionId)) {
       return [];
     }
     
     return voterCodes.filter(code => code.electionId === electionId);
   };
   
-  // Validate a voter code for an election
-  const validateVoterCode = (code: string, electionId: string): boolean => {
-    const voterCode = voterCodes.find(
-      c => c.code === code && c.electionId === electionId && !c.isUsed
-    );
+  // Validate a voter code for an election. Voters cannot read voter_codes,
+  // so the database only says what state the code is in.
+  const validateVoterCode = async (code: string, electionId: string): Promise<VoterCodeCheck> => {
+    const { data, error } = await supabase.rpc('check_voter_code', { code, election_id: electionId });
     
-    return !!voterCode;
+    if (error) {
+      console.error("Error validating voter code:", error);
+      throw new Error(error.message);
+    }
+    
+    return data as VoterCodeCheck;
   };
   
-  // Mark a voter code as used
-  const markVoterCodeAsUsed = (code: string): void => {
-    setVoterCodes(prev => 
-      prev.map(voterCode => 
-        voterCode.code === code
-          ? { ...voterCode, isUsed: true, usedAt: new Date() }
-          : voterCode
-      )
-    );
+  // Cancel an unused code, for example because it has leaked
+  const revokeVoterCode = async (code: string, reason?: string): Promise<boolean> => {
+    const electionId = voterCodes.find(c => c.code === code)?.electionId;
+
+    if (!can(permissions, 'manage_voters', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can revoke its voter codes",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { error } = await supabase.rpc('revoke_voter_code', {
+      code,
+      reason: reason || undefined,
+    });
+    
+    if (error) {
+      console.error("Error revoking voter code:", error);
+      toast({
+        title: "Error revoking voter code",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    await loadElectionData();
+    toast({
+      title: "Voter code revoked",
+      description: `${code} can no longer be used to vote.`,
+    });
+    return true;
+  };
+  
+  // Set the time after which an unused code can no longer be used, or clear it
+  const setVoterCodeExpiry = async (code: string, expiresAt: Date | null): Promise<boolean> => {
+    const electionId = voterCodes.find(c => c.code === code)?.electionId;
+
+    if (!can(permissions, 'manage_voters', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can change its voter code expiry",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { error } = await supabase.rpc('set_voter_code_expiry', {
+      code,
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
+    });
+    
+    if (error) {
+      console.error("Error setting voter code expiry:", error);
+      toast({
+        title: "Error setting voter code expiry",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    await loadElectionData();
+    toast({
+      title: expiresAt ? "Expiry set" : "Expiry removed",
+      description: expiresAt
+        ? `${code} expires on ${expiresAt.toLocaleString()}.`
+        : `${code} no longer expires.`,
+    });
+    return true;
+  };
+  
+  // Revoke a code and mint a replacement for the same member. Resolves to
+  // the new code.
+  const reissueVoterCode = async (code: string, reason?: string): Promise<string | null> => {
+    const electionId = voterCodes.find(c => c.code === code)?.electionId;
+
+    if (!can(permissions, 'manage_voters', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can reissue its voter codes",
+        variant: "destructive",
+      });
+      return null;
+    }
+    
+    let newCode = '';
+    const { error } = await withFreshCodes(() => {
+      newCode = generateCode(VOTER_CODE_FORMAT);
+      return supabase.rpc('reissue_voter_code', {
+        code,
+        new_code: newCode,
+        reason: reason || undefined,
+      });
+    });
+    
+    if (error) {
+      console.error("Error reissuing voter code:", error);
+      toast({
+        title: "Error reissuing voter code",
+        description: error.message,
+        variant: "destructive",
+      });
+      return null;
+    }
+    
+    await loadElectionData();
+    toast({
+      title: "Voter code reissued",
+      description: `${code} has been revoked and replaced by ${newCode}.`,
+    });
+    return newCode;
   };
 
   // Check if a user has voted in a specific election
@@ -725,33 +1181,180 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     );
   };
 
-  // Get election results - updated to always return results for admins
-  const getElectionResults = (electionId: string): Record<string, number> => {
+  // Get the published election results. Ballots are encrypted, so results
+  // only exist once an admin has decrypted and tallied a closed election
+  const getElectionResults = (electionId: string): ElectionTally | null => {
+    const election = elections.find(e => e.id === electionId);
+    if (!election || !election.results) return null;
+    
+    // Before the election closes, only those who may watch its turnout see results
+    if (election.status !== 'closed' && !can(permissions, 'view_turnout', election)) {
+      return null;
+    }
+    
+    return election.results;
+  };
+  
+  // Get the number of (still encrypted) ballots cast in an election
+  const getBallotCount = (electionId: string): number => {
+    return votes.filter(vote => vote.electionId === electionId).length;
+  };
+  
+  // Decrypt the ballots of a closed election and publish the tally
+  const tallyElection = async (electionId: string, privateKey: string): Promise<boolean> => {
+    if (!can(permissions, 'tally_election', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can tally it",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
     const election = elections.find(e => e.id === electionId);
-    if (!election) return {};
+    if (!election) {
+      toast({
+        title: "Election not found",
+        description: "The election you are trying to tally does not exist",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    if (election.status !== 'closed') {
+      toast({
+        title: "Tally not allowed",
+        description: "Ballots can only be decrypted after the election has closed",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (election.resultsPublishedAt) {
+      toast({
+        title: "Tally not allowed",
+        description: "Results for this election have already been published",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    let key: CryptoKey;
+    try {
+      key = await importElectionPrivateKey(privateKey);
+    } catch (error) {
+      console.error("Error importing private key:", error);
+      toast({
+        title: "Invalid private key",
+        description: "The key provided is not a valid election private key",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { data: ballotsData, error: ballotsError } = await fetchAllRows((from, to) => supabase
+      .from('votes')
+      .select('encrypted_ballot')
+      .eq('election_id', electionId)
+      .order('id', { ascending: true })
+      .range(from, to));
+    
+    if (ballotsError) {
+      console.error("Error fetching ballots:", ballotsError);
+      toast({
+        title: "Error fetching ballots",
+        description: ballotsError.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    // Every ballot the server holds must be counted, or none are
+    const { count: ballotCount, error: countError } = await supabase
+      .from('votes')
+      .select('id', { count: 'exact', head: true })
+      .eq('election_id', electionId);
+    
+    if (countError || ballotCount !== ballotsData.length) {
+      console.error("Error counting ballots:", countError);
+      toast({
+        title: "Ballots incomplete",
+        description: countError
+          ? countError.message
+          : `The server holds ${ballotCount} ballots but ${ballotsData.length} were fetched. Nothing was published; please try again.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const ballots: (Ballot | null)[] = [];
+    for (const { encrypted_ballot } of ballotsData) {
+      try {
+        ballots.push(await decryptBallot<Ballot>(key, encrypted_ballot));
+      } catch (error) {
+        ballots.push(null);
+      }
+    }
+    
+    // Every voter code issued for the election is an eligible voter, except
+    // revoked ones, which include codes replaced by a reissue. Propositions
+    // measure quorum and some pass thresholds against this number.
+    const { count: eligibleVoters, error: codesError } = await supabase
+      .from('voter_codes')
+      .select('code', { count: 'exact', head: true })
+      .eq('election_id', electionId)
+      .is('revoked_at', null);
     
-    // Only allow viewing results if the election is closed or the user is an admin
-    if (election.status !== 'closed' && (!user || user.role !== 'admin')) {
-      return {};
+    if (codesError) {
+      console.error("Error counting voter codes:", codesError);
+      toast({
+        title: "Error counting eligible voters",
+        description: codesError.message,
+        variant: "destructive",
+      });
+      return false;
     }
     
-    const results: Record<string, number> = {};
+    const tally = tallyBallots(election, ballots, eligibleVoters ?? 0);
+    
+    // A wrong key fails every ballot; don't publish an empty tally in that case
+    if (tally.totalBallots > 0 && tally.invalidBallots === tally.totalBallots) {
+      toast({
+        title: "Decryption failed",
+        description: "None of the ballots could be decrypted. Check that this is the key for this election",
+        variant: "destructive",
+      });
+      return false;
+    }
     
-    // Initialize all candidates with zero votes
-    election.candidates.forEach(candidate => {
-      results[candidate.id] = 0;
+    const { data: publishedAt, error: electionError } = await supabase.rpc('publish_election_results', {
+      election_id: electionId,
+      results: tally as unknown as Json,
     });
     
-    // Count votes
-    votes
-      .filter(vote => vote.electionId === electionId)
-      .forEach(vote => {
-        if (results[vote.candidateId] !== undefined) {
-          results[vote.candidateId]++;
-        }
+    if (electionError) {
+      console.error("Error publishing results:", electionError);
+      toast({
+        title: "Error publishing results",
+        description: electionError.message,
+        variant: "destructive",
       });
+      return false;
+    }
     
-    return results;
+    setElections(prev => 
+      prev.map(e => 
+        e.id === electionId
+          ? { ...e, results: tally, resultsPublishedAt: new Date(publishedAt) }
+          : e
+      )
+    );
+    
+    toast({
+      title: "Results published",
+      description: `${tally.totalBallots - tally.invalidBallots} valid ballots were counted`,
+    });
+    
+    return true;
   };
 
   // Get an election by ID
@@ -760,14 +1363,14 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   };
 
   // Update candidate name
-  const updateCandidateName = (electionId: string, candidateId: string, newName: string) => {
-    if (!user || !profile || profile.role !== 'admin') {
+  const updateCandidateName = async (electionId: string, candidateId: string, newName: string): Promise<boolean> => {
+    if (!can(permissions, 'edit_election', electionId)) {
       toast({
         title: "Permission denied",
-        description: "Only admins can update candidate names",
+        description: "Only admins and the election's officers can update its candidate names",
         variant: "destructive",
       });
-      return;
+      return false;
     }
     
     // Find the election
@@ -778,7 +1381,7 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         description: "The election you are trying to update does not exist",
         variant: "destructive",
       });
-      return;
+      return false;
     }
     
     // Check if election has already started
@@ -788,26 +1391,270 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         description: "Candidate names can only be updated before an election starts",
         variant: "destructive",
       });
-      return;
+      return false;
     }
     
-    // Update the candidate name
-    setElections(prev => prev.map(election => {
-      if (election.id === electionId) {
-        return {
-          ...election,
-          candidates: election.candidates.map(candidate => {
-            if (candidate.id === candidateId) {
-              return { ...candidate, name: newName };
-            }
-            return candidate;
-          })
-        };
-      }
-      return election;
-    }));
+    const renameCandidate = (target: Election, name: (candidate: Candidate) => string): Election => ({
+      ...target,
+      contests: target.contests.map(contest => ({
+        ...contest,
+        candidates: contest.candidates.map(candidate =>
+          candidate.id === candidateId ? { ...candidate, name: name(candidate) } : candidate
+        ),
+      })),
+    });
+    
+    const saved = await updateOptimistically(
+      electionId,
+      target => renameCandidate(target, () => newName),
+      (target, previous) => renameCandidate(target, candidate =>
+        previous.contests.flatMap(contest => contest.candidates).find(c => c.id === candidate.id)?.name ?? candidate.name
+      ),
+      () => supabase.from('candidates').update({ name: newName }).eq('id', candidateId).eq('election_id', electionId).select('id'),
+      "Error updating candidate",
+    );
+    if (!saved) return false;
+    
+    logAudit('candidate_name_updated', `Admin ${user.id} updated candidate ${candidateId} name to "${newName}" in election ${electionId}`, electionId);
+    return true;
+  };
+
+  // Whether the signed-in member can nominate themselves in this election now
+  const canNominateForElection = (electionId: string): boolean => {
+    if (!user) return false;
+    
+    const election = elections.find(e => e.id === electionId);
+    return !!election && nominationPeriod(election, clock.now()) === 'open';
+  };
+  
+  // Nominate the signed-in member for a contest. The nomination waits for the
+  // named seconder to confirm it before it reaches the admin review queue.
+  // The database checks the nomination period, and whoever signs in with the
+  // seconder's email address can answer.
+  const submitNomination = async (contestId: string, nomineeName: string, statement: string, seconderEmail: string): Promise<boolean> => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to submit a nomination",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { error } = await supabase.rpc('submit_nomination', {
+      contest_id: contestId,
+      nominee_name: nomineeName,
+      statement,
+      seconder_email: seconderEmail,
+    });
+    
+    if (error) {
+      console.error("Error submitting nomination:", error);
+      toast({
+        title: "Nomination not submitted",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    await loadElectionData();
+    toast({
+      title: "Nomination submitted",
+      description: "Your seconder has been asked to confirm your nomination.",
+    });
+    return true;
+  };
+  
+  // The seconder confirms or declines a nomination they were named on
+  const secondNomination = async (nominationId: string, second: boolean): Promise<boolean> => {
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to respond to a nomination",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { error } = await supabase.rpc('second_nomination', { nomination_id: nominationId, second });
+    
+    if (error) {
+      console.error("Error seconding nomination:", error);
+      toast({
+        title: "Error responding to nomination",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    await loadElectionData();
+    toast({
+      title: second ? "Nomination seconded" : "Nomination declined",
+      description: second
+        ? "The nomination will now be reviewed by an administrator."
+        : "The nominee has been told you declined to second them.",
+    });
+    return true;
+  };
+  
+  // Accept a seconded nomination onto the ballot, or reject it
+  const reviewNomination = async (nominationId: string, accept: boolean, note?: string): Promise<boolean> => {
+    const nomination = nominations.find(n => n.id === nominationId);
+
+    if (!can(permissions, 'review_nominations', nomination?.electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can review its nominations",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { error } = await supabase.rpc('review_nomination', {
+      nomination_id: nominationId,
+      accept,
+      note: note || undefined,
+    });
+    
+    if (error) {
+      console.error("Error reviewing nomination:", error);
+      toast({
+        title: "Error reviewing nomination",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    await loadElectionData();
+    toast({
+      title: accept ? "Nomination accepted" : "Nomination rejected",
+      description: accept
+        ? "The nominee has been added to the ballot as a candidate."
+        : "The nominee will see that their nomination was rejected.",
+    });
+    return true;
+  };
+  
+  const getNominationsByElection = (electionId: string): Nomination[] => {
+    return nominations.filter(nomination => nomination.electionId === electionId);
+  };
+  
+  const getEmailMessagesByElection = (electionId: string): EmailMessage[] => {
+    if (!can(permissions, 'manage_voters', electionId)) {
+      return [];
+    }
+    
+    return emailMessages.filter(message => message.electionId === electionId);
+  };
+  
+  // Email voter codes to the members they are bound to. Codes without an
+  // email address are skipped.
+  const sendVoterCodeEmails = async (
+    electionId: string,
+    codes: string[],
+    template: 'invitation' | 'reminder'
+  ): Promise<boolean> => {
+    if (!can(permissions, 'manage_voters', electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can email its voter codes",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const election = elections.find(e => e.id === electionId);
+    if (!election) {
+      toast({
+        title: "Election not found",
+        description: "Cannot email codes for a non-existent election",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const recipients = voterCodes.filter(code =>
+      code.electionId === electionId &&
+      codes.includes(code.code) &&
+      code.email &&
+      voterCodeStatus(code, clock.now()) === 'available'
+    );
+    if (recipients.length === 0) {
+      toast({
+        title: "Nothing to send",
+        description: "None of these voter codes is usable and bound to an email address",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const { sent, failed } = await sendEmails(recipients.map(code => ({
+      electionId,
+      template,
+      recipientEmail: code.email,
+      recipientName: code.name,
+      voterCode: code.code,
+    })));
+    
+    logAudit('voter_codes_emailed', `Admin ${user.id} emailed ${sent} voter code ${template === 'reminder' ? 'reminders' : 'invitations'} for election "${election.title}"${failed > 0 ? ` (${failed} failed)` : ''}`, election.id);
+    
+    toast({
+      title: failed > 0 ? "Some emails were not delivered" : "Emails sent",
+      description: failed > 0
+        ? `${sent} sent, ${failed} failed. Failed emails can be resent from the voter code list.`
+        : `${sent} ${template === 'reminder' ? 'reminders' : 'invitations'} sent`,
+      variant: failed > 0 ? "destructive" : undefined,
+    });
+    
+    return failed === 0;
+  };
+  
+  // Send a recorded message again, for example after a delivery failure
+  const resendEmail = async (messageId: string): Promise<boolean> => {
+    const message = emailMessages.find(m => m.id === messageId);
+
+    if (!can(permissions, 'manage_voters', message?.electionId)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can resend its emails",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    if (!message) {
+      toast({
+        title: "Email not found",
+        description: "The email you are trying to resend does not exist",
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const code = voterCodes.find(c => c.code === message.voterCode);
+    if (code && voterCodeStatus(code, clock.now()) !== 'available') {
+      toast({
+        title: "Voter code no longer usable",
+        description: `${code.code} has been ${voterCodeStatus(code, clock.now())}, so the email was not resent`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
+    const sent = await deliverEmail(message);
+    
+    logAudit('voter_codes_emailed', `Admin ${user.id} resent the ${message.template} email ${message.id} to ${message.recipientEmail}${sent ? '' : ' (failed)'}`, message.electionId);
+    
+    toast({
+      title: sent ? "Email sent" : "Email not delivered",
+      description: sent ? `Resent to ${message.recipientEmail}` : `The email to ${message.recipientEmail} could not be sent`,
+      variant: sent ? undefined : "destructive",
+    });
     
-    logAudit('candidate_name_updated', `Admin ${user.id} updated candidate ${candidateId} name to "${newName}" in election ${electionId}`);
+    return sent;
   };
 
   // Value for the context provider
@@ -817,16 +1664,21 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     voterCodes,
     voterRegistrations,
     createElection,
+    updateElection,
     updateElectionStatus,
     updateRegistrationStatus,
     castVote,
     hasVoted,
     getElectionResults,
+    getBallotCount,
+    tallyElection,
     getElectionById,
     generateVoterCodes,
     getVoterCodesByElection,
     validateVoterCode,
-    markVoterCodeAsUsed,
+    revokeVoterCode,
+    setVoterCodeExpiry,
+    reissueVoterCode,
     registerForElection,
     getVoterRegistrationsByElection,
     updateVoterRegistrationStatus,
@@ -835,6 +1687,15 @@ export const ElectionProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     canRegisterForElection,
     isVoterApprovedForElection,
     updateCandidateName,
+    nominations,
+    canNominateForElection,
+    submitNomination,
+    secondNomination,
+    reviewNomination,
+    getNominationsByElection,
+    getEmailMessagesByElection,
+    sendVoterCodeEmails,
+    resendEmail,
   };
 
   return <ElectionContext.Provider value={value}>{children}</ElectionContext.Provider>;
@@ -9,29 +9,87 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_logs: {
+        Row: {
+          action: string
+          created_at: string
+          details: string
+          election_id: string | null
+          hash: string
+          id: string
+          ip_address: string | null
+          prev_hash: string
+          seq: number
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          details: string
+          election_id?: string | null
+          hash: string
+          id?: string
+          ip_address?: string | null
+          prev_hash: string
+          seq?: never
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          details?: string
+          election_id?: string | null
+          hash?: string
+          id?: string
+          ip_address?: string | null
+          prev_hash?: string
+          seq?: never
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       candidates: {
         Row: {
+          contest_id: string
           description: string | null
           election_id: string
           id: string
+          links: Json
+          manifesto: string | null
           name: string
           photo_url: string | null
+          position: number
         }
         Insert: {
+          contest_id: string
           description?: string | null
           election_id: string
           id?: string
+          links?: Json
+          manifesto?: string | null
           name: string
           photo_url?: string | null
+          position?: number
         }
         Update: {
+          contest_id?: string
           description?: string | null
           election_id?: string
           id?: string
+          links?: Json
+          manifesto?: string | null
           name?: string
           photo_url?: string | null
+          position?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "candidates_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "candidates_election_id_fkey"
             columns: ["election_id"]
@@ -41,6 +99,112 @@ export type Database = {
           },
         ]
       }
+      club_settings: {
+        Row: {
+          id: boolean
+          require_admin_2fa: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          require_admin_2fa?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          require_admin_2fa?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      contests: {
+        Row: {
+          description: string | null
+          election_id: string
+          id: string
+          max_selections: number | null
+          pass_threshold: string | null
+          position: number
+          quorum_percent: number | null
+          seats: number
+          threshold_percent: number | null
+          title: string
+          voting_method: string
+        }
+        Insert: {
+          description?: string | null
+          election_id: string
+          id?: string
+          max_selections?: number | null
+          pass_threshold?: string | null
+          position: number
+          quorum_percent?: number | null
+          seats?: number
+          threshold_percent?: number | null
+          title: string
+          voting_method?: string
+        }
+        Update: {
+          description?: string | null
+          election_id?: string
+          id?: string
+          max_selections?: number | null
+          pass_threshold?: string | null
+          position?: number
+          quorum_percent?: number | null
+          seats?: number
+          threshold_percent?: number | null
+          title?: string
+          voting_method?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contests_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      election_roles: {
+        Row: {
+          assigned_at: string
+          assigned_by: string | null
+          election_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string
+          assigned_by?: string | null
+          election_id: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string
+          assigned_by?: string | null
+          election_id?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_roles_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       elections: {
         Row: {
           created_at: string
@@ -49,7 +213,13 @@ export type Database = {
           election_code: string
           end_date: string
           id: string
+          nomination_closes_at: string | null
+          nomination_opens_at: string | null
+          public_key: string | null
+          registration_lead_minutes: number
           registration_status: string
+          results: Json | null
+          results_published_at: string | null
           start_date: string
           status: string
           title: string
@@ -61,7 +231,13 @@ export type Database = {
           election_code: string
           end_date: string
           id?: string
+          nomination_closes_at?: string | null
+          nomination_opens_at?: string | null
+          public_key?: string | null
+          registration_lead_minutes?: number
           registration_status: string
+          results?: Json | null
+          results_published_at?: string | null
           start_date: string
           status: string
           title: string
@@ -73,31 +249,254 @@ export type Database = {
           election_code?: string
           end_date?: string
           id?: string
+          nomination_closes_at?: string | null
+          nomination_opens_at?: string | null
+          public_key?: string | null
+          registration_lead_minutes?: number
           registration_status?: string
+          results?: Json | null
+          results_published_at?: string | null
           start_date?: string
           status?: string
           title?: string
         }
         Relationships: []
       }
+      email_messages: {
+        Row: {
+          attempts: number
+          created_at: string
+          created_by: string
+          election_id: string
+          id: string
+          last_error: string | null
+          provider: string | null
+          recipient_email: string
+          recipient_name: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          voter_code: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          created_by: string
+          election_id: string
+          id?: string
+          last_error?: string | null
+          provider?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template: string
+          voter_code?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          created_by?: string
+          election_id?: string
+          id?: string
+          last_error?: string | null
+          provider?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template?: string
+          voter_code?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_messages_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_messages_voter_code_fkey"
+            columns: ["voter_code"]
+            isOneToOne: false
+            referencedRelation: "voter_codes"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      login_events: {
+        Row: {
+          created_at: string
+          email: string | null
+          event: string
+          id: string
+          ip_address: string | null
+          session_id: string | null
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          event: string
+          id?: string
+          ip_address?: string | null
+          session_id?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          event?: string
+          id?: string
+          ip_address?: string | null
+          session_id?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      nominations: {
+        Row: {
+          candidate_id: string | null
+          contest_id: string
+          election_id: string
+          id: string
+          nominee_id: string
+          nominee_name: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          seconded_at: string | null
+          seconder_email: string
+          seconder_id: string | null
+          statement: string
+          status: string
+          submitted_at: string
+        }
+        Insert: {
+          candidate_id?: string | null
+          contest_id: string
+          election_id: string
+          id?: string
+          nominee_id: string
+          nominee_name: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          seconded_at?: string | null
+          seconder_email: string
+          seconder_id?: string | null
+          statement: string
+          status?: string
+          submitted_at?: string
+        }
+        Update: {
+          candidate_id?: string | null
+          contest_id?: string
+          election_id?: string
+          id?: string
+          nominee_id?: string
+          nominee_name?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          seconded_at?: string | null
+          seconder_email?: string
+          seconder_id?: string | null
+          statement?: string
+          status?: string
+          submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "nominations_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "nominations_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "nominations_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
+          deactivated_at: string | null
+          deactivated_by: string | null
+          deactivation_reason: string | null
+          email: string | null
           id: string
+          invited_at: string | null
+          invited_by: string | null
           role: string
           updated_at: string | null
           username: string | null
         }
         Insert: {
           created_at?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+          deactivation_reason?: string | null
+          email?: string | null
           id: string
+          invited_at?: string | null
+          invited_by?: string | null
           role?: string
           updated_at?: string | null
           username?: string | null
         }
         Update: {
           created_at?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+          deactivation_reason?: string | null
+          email?: string | null
           id?: string
+          invited_at?: string | null
+          invited_by?: string | null
           role?: string
           updated_at?: string | null
           username?: string | null
@@ -111,7 +510,13 @@ export type Database = {
           created_by: string
           election_id: string
           email: string | null
+          expires_at: string | null
           is_used: boolean
+          name: string | null
+          reissued_from: string | null
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
           used_at: string | null
         }
         Insert: {
@@ -120,7 +525,13 @@ export type Database = {
           created_by: string
           election_id: string
           email?: string | null
+          expires_at?: string | null
           is_used?: boolean
+          name?: string | null
+          reissued_from?: string | null
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
           used_at?: string | null
         }
         Update: {
@@ -129,7 +540,13 @@ export type Database = {
           created_by?: string
           election_id?: string
           email?: string | null
+          expires_at?: string | null
           is_used?: boolean
+          name?: string | null
+          reissued_from?: string | null
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
           used_at?: string | null
         }
         Relationships: [
@@ -227,22 +644,25 @@ export type Database = {
       }
       votes: {
         Row: {
-          candidate_id: string
+          ballot_hash: string | null
+          candidate_id: string | null
           election_id: string
+          encrypted_ballot: string | null
           id: string
-          timestamp: string
         }
         Insert: {
-          candidate_id: string
+          ballot_hash?: string | null
+          candidate_id?: string | null
           election_id: string
+          encrypted_ballot?: string | null
           id?: string
-          timestamp?: string
         }
         Update: {
-          candidate_id?: string
+          ballot_hash?: string | null
+          candidate_id?: string | null
           election_id?: string
+          encrypted_ballot?: string | null
           id?: string
-          timestamp?: string
         }
         Relationships: [
           {
@@ -263,13 +683,337 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      ballot_board: {
+        Row: {
+          ballot_hash: string | null
+          election_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      advance_election_lifecycle: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      append_audit_log: {
+        Args: {
+          action: string
+          details: string
+          election_id?: string
+        }
+        Returns: {
+          action: string
+          created_at: string
+          details: string
+          election_id: string | null
+          hash: string
+          id: string
+          ip_address: string | null
+          prev_hash: string
+          seq: number
+          user_id: string | null
+        }
+      }
+      assign_election_role: {
+        Args: {
+          election_id: string
+          user_id: string
+          role: string
+        }
+        Returns: undefined
+      }
+      audit_log_payload: {
+        Args: {
+          prev_hash: string
+          id: string
+          action: string
+          user_id: string
+          election_id: string
+          details: string
+          created_at: string
+        }
+        Returns: string
+      }
+      can: {
+        Args: {
+          action: string
+          election_id?: string
+        }
+        Returns: boolean
+      }
+      cast_vote: {
+        Args: {
+          election_id: string
+          encrypted_ballot: string
+          voter_code: string
+        }
+        Returns: Json
+      }
+      check_voter_code: {
+        Args: {
+          code: string
+          election_id: string
+        }
+        Returns: string
+      }
+      clear_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      create_election: {
+        Args: {
+          election: Json
+          ballot: Json
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          description: string
+          election_code: string
+          end_date: string
+          id: string
+          nomination_closes_at: string | null
+          nomination_opens_at: string | null
+          public_key: string | null
+          registration_lead_minutes: number
+          registration_status: string
+          results: Json | null
+          results_published_at: string | null
+          start_date: string
+          status: string
+          title: string
+        }
+      }
       generate_election_code: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      issue_voter_codes: {
+        Args: {
+          election_id: string
+          codes: Json
+        }
+        Returns: {
+          code: string
+          created_at: string
+          created_by: string
+          election_id: string
+          email: string | null
+          expires_at: string | null
+          is_used: boolean
+          name: string | null
+          reissued_from: string | null
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          used_at: string | null
+        }[]
+      }
+      log_audit_event: {
+        Args: {
+          action: string
+          details: string
+          election_id?: string
+        }
+        Returns: undefined
+      }
+      meets_admin_two_factor: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      publish_election_results: {
+        Args: {
+          election_id: string
+          results: Json
+        }
+        Returns: string
+      }
+      record_login_event: {
+        Args: {
+          event: string
+          email?: string
+        }
+        Returns: undefined
+      }
+      record_member_invitation: {
+        Args: {
+          user_id: string
+          new_role?: string
+        }
+        Returns: undefined
+      }
+      redeem_recovery_code: {
+        Args: {
+          code_hash: string
+        }
+        Returns: boolean
+      }
+      register_for_election: {
+        Args: {
+          election_id: string
+          name: string
+        }
+        Returns: {
+          election_id: string
+          email: string
+          id: string
+          name: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string
+          voter_code_id: string | null
+        }
+      }
+      reissue_voter_code: {
+        Args: {
+          code: string
+          new_code: string
+          reason?: string
+        }
+        Returns: undefined
+      }
+      remove_election_role: {
+        Args: {
+          election_id: string
+          user_id: string
+        }
+        Returns: undefined
+      }
+      replace_recovery_codes: {
+        Args: {
+          code_hashes: string[]
+        }
+        Returns: undefined
+      }
+      review_nomination: {
+        Args: {
+          nomination_id: string
+          accept: boolean
+          note?: string
+        }
+        Returns: string
+      }
+      review_voter_registration: {
+        Args: {
+          registration_id: string
+          status: string
+          voter_code?: string
+        }
+        Returns: {
+          election_id: string
+          email: string
+          id: string
+          name: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string
+          voter_code_id: string | null
+        }
+      }
+      revoke_voter_code: {
+        Args: {
+          code: string
+          reason?: string
+        }
+        Returns: undefined
+      }
+      second_nomination: {
+        Args: {
+          nomination_id: string
+          second: boolean
+        }
+        Returns: undefined
+      }
+      set_club_settings: {
+        Args: {
+          require_admin_2fa: boolean
+        }
+        Returns: undefined
+      }
+      set_election_status: {
+        Args: {
+          election_id: string
+          status: string
+        }
+        Returns: string
+      }
+      set_member_active: {
+        Args: {
+          user_id: string
+          active: boolean
+          reason?: string
+        }
+        Returns: undefined
+      }
+      set_member_role: {
+        Args: {
+          user_id: string
+          new_role: string
+        }
+        Returns: undefined
+      }
+      set_registration_status: {
+        Args: {
+          election_id: string
+          registration_status: string
+        }
+        Returns: string
+      }
+      set_voter_code_expiry: {
+        Args: {
+          code: string
+          expires_at: string | null
+        }
+        Returns: undefined
+      }
+      submit_nomination: {
+        Args: {
+          contest_id: string
+          nominee_name: string
+          statement: string
+          seconder_email: string
+        }
+        Returns: string
+      }
+      update_election: {
+        Args: {
+          election_id: string
+          election: Json
+          ballot: Json
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          description: string
+          election_code: string
+          end_date: string
+          id: string
+          nomination_closes_at: string | null
+          nomination_opens_at: string | null
+          public_key: string | null
+          registration_lead_minutes: number
+          registration_status: string
+          results: Json | null
+          results_published_at: string | null
+          start_date: string
+          status: string
+          title: string
+        }
+      }
+      update_election_ballot: {
+        Args: {
+          election_id: string
+          ballot: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,62 @@
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Getting into an account without a password: reset emails, magic links and
+// email verification. Supabase Auth sends every one of these emails itself,
+// with links back to this site, so the pages they lead to must be on the
+// Auth redirect allow list. Each call rejects with the reason it failed.
+
+// Supabase Auth's default minimum
+export const PASSWORD_MIN_LENGTH = 6;
+
+// Where the links in Auth's emails lead. Login finishes a sign-in, which
+// may still need a code from the member's authenticator app.
+const AUTH_REDIRECT_PATHS = {
+  login: '/login',
+  resetPassword: '/reset-password',
+};
+
+const redirectUrl = (path: string) => `${window.location.origin}${path}`;
+
+export const isEmailVerified = (user: User): boolean => !!user.email_confirmed_at;
+
+// Emails a link to /reset-password, which signs the member in so they can
+// choose a new password. Says nothing about whether the email has an account.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: redirectUrl(AUTH_REDIRECT_PATHS.resetPassword),
+  });
+  if (error) throw new Error(error.message);
+};
+
+// Changes the signed-in member's password
+export const updatePassword = async (password: string): Promise<void> => {
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw new Error(error.message);
+};
+
+// Emails a one-time sign-in link. Only existing members get one; new
+// members sign up so they can choose a username.
+export const sendMagicLink = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: redirectUrl(AUTH_REDIRECT_PATHS.login),
+    },
+  });
+  if (error) throw new Error(error.message);
+};
+
+// Sends the sign-up verification email again
+export const resendVerificationEmail = async (email: string): Promise<void> => {
+  const { error } = await supabase.auth.resend({
+    type: 'signup',
+    email,
+    options: { emailRedirectTo: redirectUrl(AUTH_REDIRECT_PATHS.login) },
+  });
+  if (error) throw new Error(error.message);
+};
+
+// For sign-ups, so the verification link finishes signing the member in
+export const verificationRedirectUrl = (): string => redirectUrl(AUTH_REDIRECT_PATHS.login);
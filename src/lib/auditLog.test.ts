@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { AuditLog } from '@/types';
+import { AUDIT_LOG_GENESIS_HASH, auditLogsToCsv, computeAuditLogHash, verifyAuditChain } from './auditLog';
+
+// A chain of entries linked the way append_audit_log links them
+const buildChain = async (details: string[]): Promise<AuditLog[]> => {
+  const entries: AuditLog[] = [];
+  let prevHash = AUDIT_LOG_GENESIS_HASH;
+  for (const [i, text] of details.entries()) {
+    const entry: AuditLog = {
+      id: `00000000-0000-4000-8000-00000000000${i}`,
+      seq: i + 1,
+      action: 'election_updated',
+      userId: 'a3f1c2d4-0000-4000-8000-000000000001',
+      electionId: 'e7b2c9d1-0000-4000-8000-000000000002',
+      details: text,
+      timestamp: new Date(Date.UTC(2026, 9, 18, 12, 0, i)),
+      prevHash,
+      hash: '',
+    };
+    entry.hash = await computeAuditLogHash(entry);
+    prevHash = entry.hash;
+    entries.push(entry);
+  }
+  return entries;
+};
+
+describe('verifyAuditChain', () => {
+  it('accepts an intact chain in any order', async () => {
+    const chain = await buildChain(['first', 'second', 'third']);
+
+    expect(await verifyAuditChain([...chain].reverse())).toEqual({ valid: true, checked: 3 });
+  });
+
+  it('accepts an empty log', async () => {
+    expect(await verifyAuditChain([])).toEqual({ valid: true, checked: 0 });
+  });
+
+  it('reports an entry whose contents were changed', async () => {
+    const chain = await buildChain(['first', 'second', 'third']);
+    chain[1] = { ...chain[1], details: 'edited' };
+
+    expect(await verifyAuditChain(chain)).toMatchObject({ valid: false, checked: 1, reason: 'hash_mismatch', brokenEntry: chain[1] });
+  });
+
+  it('reports the entry after one that was removed', async () => {
+    const chain = await buildChain(['first', 'second', 'third']);
+
+    expect(await verifyAuditChain([chain[0], chain[2]])).toMatchObject({ valid: false, checked: 1, reason: 'prev_hash_mismatch', brokenEntry: chain[2] });
+  });
+});
+
+describe('auditLogsToCsv', () => {
+  it('quotes fields with commas and neutralises spreadsheet formulas', async () => {
+    const [entry] = await buildChain(['=HYPERLINK("http://example.com"), then more']);
+    const [, row] = auditLogsToCsv([entry]).split('\n');
+
+    expect(row).toContain(`"'=HYPERLINK(""http://example.com""), then more"`);
+  });
+});
@@ -0,0 +1,194 @@
+import { AuditLog, AuditAction } from '@/types';
+import { sha256Hex } from './hash';
+
+// prev_hash of the first entry in the chain
+export const AUDIT_LOG_GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenEntry?: AuditLog; // The first entry whose link does not hold
+  reason?: 'hash_mismatch' | 'prev_hash_mismatch';
+}
+
+// Mirror of the audit_log_payload database function: each field as
+// "<utf8 byte length>:<value>", joined with "|"
+const auditLogPayload = (entry: AuditLog): string => {
+  const encoder = new TextEncoder();
+  return [
+    entry.prevHash,
+    entry.id,
+    entry.action,
+    entry.userId ?? '',
+    entry.electionId ?? '',
+    entry.details,
+    entry.timestamp.toISOString(),
+  ]
+    .map(field => `${encoder.encode(field).length}:${field}`)
+    .join('|');
+};
+
+export const computeAuditLogHash = (entry: AuditLog): Promise<string> => {
+  return sha256Hex(auditLogPayload(entry));
+};
+
+// Walk the chain in order, checking each entry's own hash and its link to
+// the entry before it. Stops at the first broken link.
+export const verifyAuditChain = async (entries: AuditLog[]): Promise<AuditChainVerification> => {
+  const ordered = [...entries].sort((a, b) => a.seq - b.seq);
+  let expectedPrevHash = AUDIT_LOG_GENESIS_HASH;
+
+  for (let i = 0; i < ordered.length; i++) {
+    const entry = ordered[i];
+
+    if (entry.prevHash !== expectedPrevHash) {
+      return { valid: false, checked: i, brokenEntry: entry, reason: 'prev_hash_mismatch' };
+    }
+
+    if (await computeAuditLogHash(entry) !== entry.hash) {
+      return { valid: false, checked: i, brokenEntry: entry, reason: 'hash_mismatch' };
+    }
+
+    expectedPrevHash = entry.hash;
+  }
+
+  return { valid: true, checked: ordered.length };
+};
+
+// Every action the audit log records, in the order filters list them
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'login',
+  'logout',
+  'user_registered',
+  'member_invited',
+  'member_role_changed',
+  'member_deactivated',
+  'member_reactivated',
+  'two_factor_enabled',
+  'two_factor_disabled',
+  'recovery_codes_regenerated',
+  'recovery_code_used',
+  'club_settings_changed',
+  'session_revoked',
+  'election_role_assigned',
+  'election_role_removed',
+  'election_created',
+  'election_updated',
+  'election_started',
+  'election_registration_updated',
+  'election_closed',
+  'election_tallied',
+  'candidate_name_updated',
+  'nomination_submitted',
+  'nomination_seconded',
+  'nomination_declined',
+  'nomination_accepted',
+  'nomination_rejected',
+  'voter_registration_approved',
+  'voter_registration_rejected',
+  'voter_codes_generated',
+  'voter_codes_emailed',
+  'voter_code_revoked',
+  'voter_code_expiry_set',
+  'voter_code_reissued',
+  'vote_cast',
+];
+
+export const formatAuditAction = (action: AuditAction): string =>
+  action.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export interface AuditLogFilter {
+  action?: AuditAction;
+  userId?: string; // Matches any part of the user id
+  electionId?: string;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+}
+
+export const filterAuditLogs = (entries: AuditLog[], filter: AuditLogFilter): AuditLog[] => {
+  const userQuery = filter.userId?.trim().toLowerCase();
+
+  return entries.filter(entry =>
+    (!filter.action || entry.action === filter.action) &&
+    (!userQuery || (entry.userId ?? '').toLowerCase().includes(userQuery)) &&
+    (!filter.electionId || entry.electionId === filter.electionId) &&
+    (!filter.from || entry.timestamp >= filter.from) &&
+    (!filter.to || entry.timestamp < filter.to)
+  );
+};
+
+// Exported rows carry every hashed field, so each entry can be re-hashed
+// from the export alone
+const exportRecord = (entry: AuditLog) => ({
+  seq: entry.seq,
+  id: entry.id,
+  timestamp: entry.timestamp.toISOString(),
+  action: entry.action,
+  userId: entry.userId ?? '',
+  electionId: entry.electionId ?? '',
+  details: entry.details,
+  ipAddress: entry.ipAddress ?? '',
+  prevHash: entry.prevHash,
+  hash: entry.hash,
+});
+
+// Spreadsheets run a cell that starts with one of these as a formula, so
+// such values get a leading apostrophe. Drop it before re-hashing an entry.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvField = (value: string | number): string => {
+  const text = FORMULA_PREFIX.test(String(value)) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditLogsToCsv = (entries: AuditLog[]): string => {
+  const header = ['seq', 'id', 'timestamp', 'action', 'userId', 'electionId', 'details', 'ipAddress', 'prevHash', 'hash'];
+  const rows = entries.map(entry => Object.values(exportRecord(entry)).map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+export const auditLogsToJsonLines = (entries: AuditLog[]): string => {
+  return entries.map(entry => JSON.stringify(exportRecord(entry))).join('\n') + '\n';
+};
+
+export interface AuditExportManifest {
+  file: string;
+  format: 'csv' | 'jsonl';
+  sha256: string; // Of the export file's exact contents
+  exportedAt: string;
+  exportedBy?: string;
+  filter: Record<string, string>;
+  entryCount: number;
+  chainHead: string; // Hash of the newest entry in the whole log at export time
+  entries: { seq: number; hash: string }[];
+}
+
+// A manifest to ship alongside an export. Re-hashing the file and comparing
+// each entry hash with the live chain shows whether the export was altered.
+export const buildAuditExportManifest = async (
+  file: string,
+  format: AuditExportManifest['format'],
+  contents: string,
+  entries: AuditLog[],
+  allEntries: AuditLog[],
+  filter: AuditLogFilter,
+  exportedBy?: string,
+): Promise<AuditExportManifest> => {
+  const head = allEntries.reduce<AuditLog | undefined>((latest, entry) => (!latest || entry.seq > latest.seq ? entry : latest), undefined);
+
+  return {
+    file,
+    format,
+    sha256: await sha256Hex(contents),
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    filter: Object.fromEntries(
+      Object.entries(filter)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, value instanceof Date ? value.toISOString() : String(value)])
+    ),
+    entryCount: entries.length,
+    chainHead: head?.hash ?? AUDIT_LOG_GENESIS_HASH,
+    entries: entries.map(entry => ({ seq: entry.seq, hash: entry.hash })),
+  };
+};
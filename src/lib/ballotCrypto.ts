@@ -0,0 +1,116 @@
+import { sha256Hex } from './hash';
+
+// Client-side ballot encryption using WebCrypto.
+//
+// Each election has an RSA-OAEP key pair. Ballots are encrypted with a fresh
+// AES-GCM key, and that key is wrapped with the election's public key, so
+// only the holder of the private key can read ballots once voting closes.
+
+const RSA_ALGORITHM: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+const RSA_IMPORT_ALGORITHM: RsaHashedImportParams = {
+  name: 'RSA-OAEP',
+  hash: 'SHA-256',
+};
+
+export const BALLOT_ENCRYPTION_ALGORITHM = 'RSA-OAEP-256+A256GCM';
+
+export interface ElectionKeyPair {
+  publicKey: string; // JWK, stored on the election
+  privateKey: string; // JWK, kept by the election administrator
+}
+
+// The serialized form of an encrypted ballot, as stored in votes.encrypted_ballot
+interface EncryptedBallotEnvelope {
+  alg: typeof BALLOT_ENCRYPTION_ALGORITHM;
+  key: string;
+  iv: string;
+  ciphertext: string;
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Generate the key pair for a new election
+export const generateElectionKeyPair = async (): Promise<ElectionKeyPair> => {
+  const keyPair = await crypto.subtle.generateKey(RSA_ALGORITHM, true, ['encrypt', 'decrypt']);
+  const [publicJwk, privateJwk] = await Promise.all([
+    crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  ]);
+
+  return {
+    publicKey: JSON.stringify(publicJwk),
+    privateKey: JSON.stringify(privateJwk),
+  };
+};
+
+// Encrypt a ballot with the election's public key
+export const encryptBallot = async (publicKey: string, ballot: unknown): Promise<string> => {
+  const rsaKey = await crypto.subtle.importKey('jwk', JSON.parse(publicKey), RSA_IMPORT_ALGORITHM, false, ['encrypt']);
+  const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const plaintext = new TextEncoder().encode(JSON.stringify(ballot));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, plaintext);
+  const rawAesKey = await crypto.subtle.exportKey('raw', aesKey);
+  const wrappedKey = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, rsaKey, rawAesKey);
+
+  const envelope: EncryptedBallotEnvelope = {
+    alg: BALLOT_ENCRYPTION_ALGORITHM,
+    key: toBase64(wrappedKey),
+    iv: toBase64(iv.buffer),
+    ciphertext: toBase64(ciphertext),
+  };
+
+  return JSON.stringify(envelope);
+};
+
+// Import an election private key once, for decrypting many ballots
+export const importElectionPrivateKey = async (privateKey: string): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('jwk', JSON.parse(privateKey), RSA_IMPORT_ALGORITHM, false, ['decrypt']);
+};
+
+// Decrypt a ballot with the election's private key
+export const decryptBallot = async <T = unknown>(privateKey: CryptoKey, encryptedBallot: string): Promise<T> => {
+  const envelope = JSON.parse(encryptedBallot) as EncryptedBallotEnvelope;
+  if (envelope.alg !== BALLOT_ENCRYPTION_ALGORITHM) {
+    throw new Error(`Unsupported ballot encryption: ${envelope.alg}`);
+  }
+
+  const rawAesKey = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, fromBase64(envelope.key));
+  const aesKey = await crypto.subtle.importKey('raw', rawAesKey, { name: 'AES-GCM' }, false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+    aesKey,
+    fromBase64(envelope.ciphertext),
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+};
+
+// The receipt hash of an encrypted ballot: hex SHA-256 of its serialized form.
+// Matches the hash cast_vote stores, so voters can check it independently.
+export const hashBallot = (encryptedBallot: string): Promise<string> => {
+  return sha256Hex(encryptedBallot);
+};
@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/integrations/supabase/client';
+import { CandidateLink } from '@/types';
+
+// Candidate profiles: a photo, a markdown manifesto and links.
+//
+// Photos are uploaded to the public candidate-photos Supabase Storage
+// bucket. For development, setting VITE_CANDIDATE_PHOTO_STORAGE=local keeps
+// them on the dev server's disk instead (see the localPhotoStorage plugin in
+// vite.config.ts).
+
+export interface PhotoStorage {
+  // Resolves to the photo's public URL. Photos for an existing election are
+  // kept under its id, so only its editors may change them.
+  upload: (file: File, electionId?: string) => Promise<string>;
+  remove: (url: string) => Promise<void>;
+}
+
+export const PHOTO_BUCKET = 'candidate-photos';
+export const LOCAL_PHOTO_PATH = '/dev-storage/candidate-photos';
+export const MAX_PHOTO_BYTES = 2 * 1024 * 1024;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export const ACCEPTED_PHOTO_TYPES = Object.keys(PHOTO_EXTENSIONS).join(',');
+
+// Why a file cannot be used as a candidate photo, or null if it can
+export const photoValidationError = (file: File): string | null => {
+  if (!PHOTO_EXTENSIONS[file.type]) return 'Photos must be JPEG, PNG, WebP or GIF images.';
+  if (file.size > MAX_PHOTO_BYTES) return 'Photos must be 2 MB or smaller.';
+  return null;
+};
+
+export const supabasePhotoStorage: PhotoStorage = {
+  upload: async (file, electionId) => {
+    const name = `${uuidv4()}.${PHOTO_EXTENSIONS[file.type]}`;
+    const path = electionId ? `${electionId}/${name}` : name;
+    const { error } = await supabase.storage.from(PHOTO_BUCKET).upload(path, file, { contentType: file.type });
+    if (error) throw error;
+    return supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+  remove: async (url) => {
+    const marker = `/${PHOTO_BUCKET}/`;
+    const index = url.indexOf(marker);
+    if (index === -1) return; // Not one of ours
+    const { error } = await supabase.storage.from(PHOTO_BUCKET).remove([url.slice(index + marker.length)]);
+    if (error) throw error;
+  },
+};
+
+export const localPhotoStorage: PhotoStorage = {
+  upload: async (file) => {
+    const response = await fetch(LOCAL_PHOTO_PATH, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type },
+      body: file,
+    });
+    if (!response.ok) throw new Error(`Local photo upload failed: ${response.status} ${await response.text()}`);
+    const { url } = await response.json();
+    return url;
+  },
+  remove: async (url) => {
+    if (!url.startsWith(`${LOCAL_PHOTO_PATH}/`)) return;
+    const response = await fetch(url, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) throw new Error(`Local photo removal failed: ${response.status}`);
+  },
+};
+
+export const photoStorage: PhotoStorage =
+  import.meta.env.VITE_CANDIDATE_PHOTO_STORAGE === 'local' ? localPhotoStorage : supabasePhotoStorage;
+
+// Links must be http(s); returns the normalised URL, or null if it is not one
+export const normaliseLinkUrl = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Trim the links an admin entered, dropping empty rows. Returns null if any
+// row has a URL that is not http(s).
+export const cleanLinks = (links: CandidateLink[] = []): CandidateLink[] | null => {
+  const cleaned: CandidateLink[] = [];
+  for (const link of links) {
+    if (link.label.trim() === '' && link.url.trim() === '') continue;
+    const url = normaliseLinkUrl(link.url);
+    if (!url) return null;
+    cleaned.push({ label: link.label.trim(), url });
+  }
+  return cleaned;
+};
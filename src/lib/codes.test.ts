@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CodeFormat, DEFAULT_CODE_ALPHABET, checkCharacter, generateCode, generateCodes, hasValidCheckCharacter, normaliseCode } from './codes';
+
+const FORMAT: CodeFormat = { length: 9, alphabet: DEFAULT_CODE_ALPHABET };
+
+describe('checkCharacter', () => {
+  it('matches the Luhn check digit over the decimal digits', () => {
+    expect(checkCharacter('7992739871', '0123456789')).toBe('3');
+    expect(hasValidCheckCharacter('79927398713', { length: 10, alphabet: '0123456789' })).toBe(true);
+  });
+});
+
+describe('hasValidCheckCharacter', () => {
+  const code = generateCode(FORMAT);
+
+  it('accepts generated codes', () => {
+    expect(code).toHaveLength(FORMAT.length + 1);
+    expect(hasValidCheckCharacter(code, FORMAT)).toBe(true);
+  });
+
+  it('catches every single-character mistake', () => {
+    for (let i = 0; i < code.length; i++) {
+      for (const char of FORMAT.alphabet) {
+        if (char === code[i]) continue;
+        const mistyped = code.slice(0, i) + char + code.slice(i + 1);
+        expect(hasValidCheckCharacter(mistyped, FORMAT), mistyped).toBe(false);
+      }
+    }
+  });
+
+  it('catches a swap of neighbouring characters', () => {
+    const body = '23456789A';
+    const valid = body + checkCharacter(body, FORMAT.alphabet);
+    const swapped = valid[1] + valid[0] + valid.slice(2);
+
+    expect(hasValidCheckCharacter(swapped, FORMAT)).toBe(false);
+  });
+
+  it('rejects codes of the wrong length or with characters outside the alphabet', () => {
+    expect(hasValidCheckCharacter(code.slice(1), FORMAT)).toBe(false);
+    expect(hasValidCheckCharacter(`${code.slice(0, -2)}O${code.slice(-1)}`, FORMAT)).toBe(false);
+  });
+});
+
+describe('generateCodes', () => {
+  it('generates distinct codes from the alphabet', () => {
+    const codes = generateCodes(FORMAT, 50);
+
+    expect(new Set(codes).size).toBe(50);
+    expect(codes.every(code => [...code].every(char => FORMAT.alphabet.includes(char)))).toBe(true);
+  });
+});
+
+describe('normaliseCode', () => {
+  it('upper-cases and drops spaces and dashes', () => {
+    expect(normaliseCode(' ab3-xy 7 ')).toBe('AB3XY7');
+  });
+});
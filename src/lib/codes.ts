@@ -0,0 +1,111 @@
+// Election IDs and voter codes: random codes from an alphabet without
+// easily confused characters, ending in a check character that catches
+// mistyped codes before they are looked up.
+//
+// The check character uses the Luhn mod N algorithm over the alphabet, which
+// catches every single-character mistake and most swaps of neighbouring
+// characters. Lengths can be set with VITE_VOTER_CODE_LENGTH and
+// VITE_ELECTION_CODE_LENGTH, and the alphabet with VITE_CODE_ALPHABET.
+
+export interface CodeFormat {
+  length: number; // Random characters, not counting the check character
+  alphabet: string;
+}
+
+// No 0/O, 1/I/L or 2/Z. Luhn mod N needs an even number of characters.
+export const DEFAULT_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXY';
+
+const configuredAlphabet = (value: string | undefined): string => {
+  const alphabet = (value ?? '').toUpperCase();
+  if (
+    alphabet.length >= 10 &&
+    alphabet.length % 2 === 0 &&
+    new Set(alphabet).size === alphabet.length &&
+    /^[0-9A-Z]+$/.test(alphabet)
+  ) {
+    return alphabet;
+  }
+  if (value) console.warn('VITE_CODE_ALPHABET must be an even number, at least 10, of distinct letters or digits; using the default');
+  return DEFAULT_CODE_ALPHABET;
+};
+
+const configuredLength = (value: string | undefined, fallback: number): number => {
+  const length = Number(value);
+  return Number.isInteger(length) && length >= 4 && length <= 32 ? length : fallback;
+};
+
+const alphabet = configuredAlphabet(import.meta.env.VITE_CODE_ALPHABET);
+
+export const VOTER_CODE_FORMAT: CodeFormat = {
+  length: configuredLength(import.meta.env.VITE_VOTER_CODE_LENGTH, 9),
+  alphabet,
+};
+
+export const ELECTION_CODE_FORMAT: CodeFormat = {
+  length: configuredLength(import.meta.env.VITE_ELECTION_CODE_LENGTH, 5),
+  alphabet,
+};
+
+// Codes issued before check characters were introduced: the first 8 hex
+// digits of a UUID for voter codes, and 2 letters and 4 digits for elections
+const LEGACY_VOTER_CODE = /^[0-9A-F]{8}$/;
+const LEGACY_ELECTION_CODE = /^[A-Z]{2}\d{4}$/;
+
+// Upper-case, without the spaces and dashes people add when copying codes
+export const normaliseCode = (input: string): string => input.toUpperCase().replace(/[\s-]/g, '');
+
+// Luhn mod N sum over the code's characters, doubling every second one from
+// the right, starting with the rightmost when `doubleFirst`
+const luhnSum = (code: string, chars: string, doubleFirst: boolean): number => {
+  const n = chars.length;
+  let sum = 0;
+  let double = doubleFirst;
+  for (let i = code.length - 1; i >= 0; i--) {
+    let addend = chars.indexOf(code[i]) * (double ? 2 : 1);
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+    double = !double;
+  }
+  return sum;
+};
+
+export const checkCharacter = (body: string, chars: string): string => {
+  const n = chars.length;
+  return chars[(n - (luhnSum(body, chars, true) % n)) % n];
+};
+
+export const hasValidCheckCharacter = (code: string, format: CodeFormat): boolean => {
+  if (code.length !== format.length + 1) return false;
+  if ([...code].some(char => !format.alphabet.includes(char))) return false;
+  return luhnSum(code, format.alphabet, false) % format.alphabet.length === 0;
+};
+
+// A uniformly random code, from the browser's cryptographic random source
+export const generateCode = (format: CodeFormat): string => {
+  const n = format.alphabet.length;
+  // Bytes at or above this would favour the first characters of the alphabet
+  const limit = 256 - (256 % n);
+  let body = '';
+  while (body.length < format.length) {
+    const bytes = crypto.getRandomValues(new Uint8Array(format.length * 2));
+    for (const byte of bytes) {
+      if (byte < limit && body.length < format.length) body += format.alphabet[byte % n];
+    }
+  }
+  return body + checkCharacter(body, format.alphabet);
+};
+
+// `count` distinct codes
+export const generateCodes = (format: CodeFormat, count: number): string[] => {
+  const codes = new Set<string>();
+  while (codes.size < count) codes.add(generateCode(format));
+  return [...codes];
+};
+
+// Whether a normalised code could be a real one, so typos are caught
+// without a lookup
+export const isWellFormedVoterCode = (code: string): boolean =>
+  hasValidCheckCharacter(code, VOTER_CODE_FORMAT) || LEGACY_VOTER_CODE.test(code);
+
+export const isWellFormedElectionCode = (code: string): boolean =>
+  hasValidCheckCharacter(code, ELECTION_CODE_FORMAT) || LEGACY_ELECTION_CODE.test(code);
@@ -0,0 +1,98 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Contest, ContestBallot, PropositionChoice, VotingMethod } from '@/types';
+
+// Only approval and choose-N contests can fill more than one seat
+export const isMultiWinner = (votingMethod: VotingMethod) =>
+  votingMethod === 'approval' || votingMethod === 'choose_n';
+
+export const newContest = (title = ''): Contest => ({
+  id: uuidv4(),
+  title,
+  position: 0,
+  candidates: [],
+  votingMethod: 'plurality',
+  seats: 1,
+});
+
+const isPercent = (value?: number) => value !== undefined && value > 0 && value <= 100;
+
+export interface ContestValidationOptions {
+  // Candidates can still join from nominations, so the candidate list may
+  // be short for now
+  takesNominations?: boolean;
+}
+
+// The first problem with a contest's set-up, or null if it can go on the ballot
+export const validateContest = (contest: Contest, { takesNominations = false }: ContestValidationOptions = {}): string | null => {
+  if (contest.title.trim() === '') {
+    return 'Every contest needs a title.';
+  }
+  if (contest.votingMethod === 'proposition') {
+    if (contest.passThreshold === 'percent_of_eligible' && !isPercent(contest.thresholdPercent)) {
+      return 'The pass threshold must be a percentage between 0 and 100.';
+    }
+    if (contest.quorumPercent !== undefined && !isPercent(contest.quorumPercent)) {
+      return 'The quorum must be a percentage between 0 and 100.';
+    }
+    return null;
+  }
+  if (!Number.isInteger(contest.seats) || contest.seats < 1) {
+    return 'At least one seat must be filled.';
+  }
+  if (takesNominations) {
+    if (contest.votingMethod === 'choose_n' && (!contest.maxSelections || !Number.isInteger(contest.maxSelections) || contest.maxSelections < 1)) {
+      return 'Voters must be able to select at least one candidate.';
+    }
+    return null;
+  }
+  if (contest.candidates.length < 2) {
+    return 'You need at least 2 candidates for each contest.';
+  }
+  if (contest.seats >= contest.candidates.length) {
+    return `There must be more candidates than seats. Add candidates or reduce the seats to ${contest.candidates.length - 1} or fewer.`;
+  }
+  if (contest.votingMethod === 'choose_n') {
+    if (!contest.maxSelections || !Number.isInteger(contest.maxSelections) || contest.maxSelections < 1) {
+      return 'Voters must be able to select at least one candidate.';
+    }
+    if (contest.maxSelections > contest.candidates.length) {
+      return `Voters cannot select more than the ${contest.candidates.length} candidates.`;
+    }
+  }
+  return null;
+};
+
+export const PROPOSITION_CHOICE_LABELS: Record<PropositionChoice, string> = {
+  yes: 'Yes',
+  no: 'No',
+  abstain: 'Abstain',
+};
+
+// The marks a voter has made in a contest in ballot order: candidate IDs,
+// or the Yes/No/Abstain answer to a proposition
+export const selectedOptions = (ballot?: ContestBallot): string[] => {
+  if (!ballot) return [];
+  if ('rankings' in ballot) return ballot.rankings;
+  if ('candidateIds' in ballot) return ballot.candidateIds;
+  if ('choice' in ballot) return [ballot.choice];
+  return [ballot.candidateId];
+};
+
+// What a voter sees for one of the options returned by selectedOptions
+export const optionLabel = (contest: Contest, option: string): string | undefined =>
+  contest.votingMethod === 'proposition'
+    ? PROPOSITION_CHOICE_LABELS[option as PropositionChoice]
+    : contest.candidates.find(candidate => candidate.id === option)?.name;
+
+// The pass and quorum rules of a proposition in plain words
+export const describePassRule = (contest: Contest): string => {
+  const threshold = contest.passThreshold === 'two_thirds'
+    ? 'Passes if at least two thirds of the Yes and No votes are Yes. Abstentions are not counted.'
+    : contest.passThreshold === 'percent_of_eligible'
+      ? `Passes if at least ${contest.thresholdPercent}% of eligible voters vote Yes.`
+      : 'Passes if there are more Yes than No votes. Abstentions are not counted.';
+  const quorum = contest.quorumPercent
+    ? ` At least ${contest.quorumPercent}% of eligible voters must answer, abstentions included, for the result to stand.`
+    : '';
+  return threshold + quorum;
+};
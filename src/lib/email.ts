@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+import { EmailMessage, EmailStatus, EmailTemplate } from '@/types';
+import { RenderedEmail } from '../../supabase/functions/_shared/emailTemplates.ts';
+
+// Email to members: the message templates and the providers that deliver
+// them.
+//
+// Messages are sent through the send-email edge function, which renders
+// each recorded message itself and relays it over SMTP (see
+// supabase/functions/send-email). For development and tests, setting
+// VITE_EMAIL_PROVIDER=outbox writes them to the dev server's disk instead
+// (see the localOutbox plugin in vite.config.ts).
+
+// The templates are shared with the edge function
+export { renderEmail, type EmailTemplateData, type RenderedEmail } from '../../supabase/functions/_shared/emailTemplates.ts';
+
+export interface OutgoingEmail extends RenderedEmail {
+  to: string;
+}
+
+export interface MailProvider {
+  name: string;
+  // Rejects if the message was not accepted. email is the app's rendering of
+  // the message; the SMTP provider sends only the message's id and lets the
+  // edge function render it.
+  send: (message: EmailMessage, email: OutgoingEmail) => Promise<void>;
+}
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  invitation: 'Invitation',
+  approval: 'Registration approved',
+  rejection: 'Registration rejected',
+  reminder: 'Reminder',
+};
+
+export const EMAIL_STATUS_LABELS: Record<EmailStatus, string> = {
+  queued: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+export const EMAIL_STATUS_STYLES: Record<EmailStatus, string> = {
+  queued: 'bg-blue-50 text-blue-800 border-blue-200',
+  sent: 'bg-green-50 text-green-800 border-green-200',
+  failed: 'bg-red-50 text-red-800 border-red-200',
+};
+
+export const smtpMailProvider: MailProvider = {
+  name: 'smtp',
+  send: async (message) => {
+    const { error } = await supabase.functions.invoke('send-email', { body: { message_id: message.id } });
+    if (error) {
+      // The function explains a refusal in its response body
+      const detail = await error.context?.json?.().catch(() => null);
+      throw new Error(detail?.error ?? error.message);
+    }
+  },
+};
+
+export const LOCAL_OUTBOX_PATH = '/dev-outbox';
+
+export const outboxMailProvider: MailProvider = {
+  name: 'outbox',
+  send: async (_message, email) => {
+    const response = await fetch(LOCAL_OUTBOX_PATH, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(email),
+    });
+    if (!response.ok) throw new Error(`Local outbox rejected the message: ${response.status} ${await response.text()}`);
+  },
+};
+
+export const mailProvider: MailProvider =
+  import.meta.env.VITE_EMAIL_PROVIDER === 'outbox' ? outboxMailProvider : smtpMailProvider;
@@ -0,0 +1,2 @@
+// Shared with the edge functions, which cannot import from the app
+export { escapeHtml } from '../../supabase/functions/_shared/html.ts';
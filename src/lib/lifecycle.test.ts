@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Election } from '@/types';
+import {
+  Clock,
+  LifecycleTransition,
+  canMoveToStatus,
+  canStartElection,
+  createLifecycleScheduler,
+  dueTransitions,
+  nextTransitionAt,
+} from './lifecycle';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const NOW = new Date(Date.UTC(2026, 9, 18, 12));
+
+const election = (overrides: Partial<Election> = {}): Election => ({
+  id: 'election',
+  electionCode: 'CODE',
+  title: 'AGM',
+  description: '',
+  startDate: new Date(NOW.getTime() + HOUR),
+  endDate: new Date(NOW.getTime() + 2 * HOUR),
+  contests: [],
+  status: 'upcoming',
+  registrationStatus: 'closed',
+  registrationLeadMinutes: 0,
+  createdBy: 'admin',
+  createdAt: NOW,
+  ...overrides,
+});
+
+describe('canMoveToStatus', () => {
+  it('moves elections forward or leaves them where they are', () => {
+    expect(canMoveToStatus('upcoming', 'active')).toBe(true);
+    expect(canMoveToStatus('upcoming', 'closed')).toBe(true);
+    expect(canMoveToStatus('active', 'closed')).toBe(true);
+    expect(canMoveToStatus('active', 'active')).toBe(true);
+  });
+
+  it('never moves an election back', () => {
+    expect(canMoveToStatus('active', 'upcoming')).toBe(false);
+    expect(canMoveToStatus('closed', 'active')).toBe(false);
+    expect(canMoveToStatus('closed', 'upcoming')).toBe(false);
+  });
+});
+
+describe('canStartElection', () => {
+  it('waits for the start date', () => {
+    expect(canStartElection(election(), NOW)).toBe(false);
+    expect(canStartElection(election(), new Date(NOW.getTime() + HOUR))).toBe(true);
+  });
+});
+
+describe('dueTransitions', () => {
+  it('closes registration its lead time before the start', () => {
+    const due = dueTransitions(
+      [election({ registrationStatus: 'open', registrationLeadMinutes: 30 })],
+      new Date(NOW.getTime() + 30 * MINUTE),
+    );
+
+    expect(due.map(transition => transition.kind)).toEqual(['registration_closed']);
+  });
+
+  it('lists every transition that has fallen due, earliest first', () => {
+    const due = dueTransitions([election()], new Date(NOW.getTime() + 3 * HOUR));
+
+    expect(due.map(transition => transition.kind)).toEqual(['started', 'closed']);
+  });
+});
+
+describe('nextTransitionAt', () => {
+  it('is the earliest transition still to come', () => {
+    expect(nextTransitionAt([election(), election({ id: 'later', startDate: new Date(NOW.getTime() + DAY) })], NOW))
+      .toEqual(new Date(NOW.getTime() + HOUR));
+  });
+
+  it('is null once every election is closed', () => {
+    expect(nextTransitionAt([election({ status: 'closed' })], NOW)).toBeNull();
+  });
+});
+
+describe('createLifecycleScheduler', () => {
+  // Reads the fake timers' time, so it moves with advanceTimersByTimeAsync
+  const clock: Clock = { now: () => new Date(Date.now()) };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // A scheduler whose advance applies the transitions it is given, unless
+  // told to fail
+  const schedule = (elections: Election[], { fail = false, retryDelayMs = MINUTE } = {}) => {
+    const calls: LifecycleTransition['kind'][][] = [];
+    const delays: number[] = [];
+    const scheduler = createLifecycleScheduler({
+      getElections: () => elections,
+      advance: async (due) => {
+        calls.push(due.map(transition => transition.kind));
+        if (fail) throw new Error('refused');
+        for (const transition of due) {
+          const target = elections.find(e => e.id === transition.electionId);
+          if (transition.kind === 'started') target.status = 'active';
+          if (transition.kind === 'closed') target.status = 'closed';
+          if (transition.kind === 'registration_closed') target.registrationStatus = 'closed';
+        }
+      },
+      clock,
+      setTimer: (callback, ms) => {
+        delays.push(ms);
+        return setTimeout(callback, ms);
+      },
+      retryDelayMs,
+    });
+    return { scheduler, calls, delays };
+  };
+
+  it('starts and closes an election at its start and end dates', async () => {
+    const elections = [election()];
+    const { scheduler, calls } = schedule(elections);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(HOUR - 1);
+    expect(calls).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toEqual([['started']]);
+    expect(elections[0].status).toBe('active');
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+    expect(calls).toEqual([['started'], ['closed']]);
+
+    scheduler.stop();
+  });
+
+  it('asks again after the retry delay when advancing fails', async () => {
+    const { scheduler, calls } = schedule([election()], { fail: true });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(MINUTE - 1);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toEqual([['started'], ['started']]);
+
+    scheduler.stop();
+  });
+
+  it('splits waits longer than setTimeout allows', async () => {
+    const maxTimerDelay = 2 ** 31 - 1;
+    const startDate = new Date(NOW.getTime() + 40 * DAY);
+    const { scheduler, calls, delays } = schedule([election({ startDate, endDate: new Date(startDate.getTime() + HOUR) })]);
+    scheduler.start();
+
+    expect(delays).toEqual([maxTimerDelay]);
+
+    await vi.advanceTimersByTimeAsync(maxTimerDelay);
+    expect(calls).toEqual([]);
+    expect(delays[1]).toBe(40 * DAY - maxTimerDelay);
+
+    await vi.advanceTimersByTimeAsync(40 * DAY - maxTimerDelay);
+    expect(calls).toEqual([['started']]);
+
+    scheduler.stop();
+  });
+
+  it('sets no timer once stopped', async () => {
+    const { scheduler, calls } = schedule([election()]);
+    scheduler.start();
+    scheduler.stop();
+
+    await vi.advanceTimersByTimeAsync(3 * HOUR);
+    expect(calls).toEqual([]);
+  });
+});
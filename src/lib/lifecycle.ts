@@ -0,0 +1,178 @@
+import { Election } from '@/types';
+
+// Election lifecycle: registration closes a set lead time before the start,
+// then the election moves upcoming -> active at startDate and active ->
+// closed at endDate. The database applies the transitions (see the
+// advance_election_lifecycle function); this module works out when they are
+// due so the app can ask for them at the exact timestamps.
+
+export interface Clock {
+  now: () => Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface LifecycleTransition {
+  electionId: string;
+  kind: 'registration_closed' | 'started' | 'closed';
+  at: Date;
+}
+
+// An election's status only moves forward, whether by the lifecycle or by
+// hand, and a closed election never reopens. Staying put is allowed. The
+// database enforces the same.
+const STATUS_ORDER: Record<Election['status'], number> = { upcoming: 0, active: 1, closed: 2 };
+
+export const canMoveToStatus = (from: Election['status'], to: Election['status']): boolean =>
+  STATUS_ORDER[to] >= STATUS_ORDER[from];
+
+// Staff can start an election by hand only once its start date has come:
+// ballots are refused before it, and the date cannot be changed once the
+// election is active. The database enforces the same.
+export const canStartElection = (election: Election, now: Date): boolean =>
+  now.getTime() >= election.startDate.getTime();
+
+export const registrationClosesAt = (election: Election): Date =>
+  new Date(election.startDate.getTime() - election.registrationLeadMinutes * 60 * 1000);
+
+// Where an election is in its nomination period; 'none' if it has none
+export type NominationPeriod = 'none' | 'not_yet_open' | 'open' | 'closed';
+
+export const nominationPeriod = (election: Election, now: Date): NominationPeriod => {
+  if (!election.nominationOpensAt || !election.nominationClosesAt) return 'none';
+  if (election.status !== 'upcoming' || now >= election.nominationClosesAt) return 'closed';
+  return now < election.nominationOpensAt ? 'not_yet_open' : 'open';
+};
+
+// The transitions an election has still to make, earliest first
+export const pendingTransitions = (election: Election): LifecycleTransition[] => {
+  const transitions: LifecycleTransition[] = [];
+
+  if (election.registrationStatus === 'open') {
+    transitions.push({ electionId: election.id, kind: 'registration_closed', at: registrationClosesAt(election) });
+  }
+  if (election.status === 'upcoming') {
+    transitions.push({ electionId: election.id, kind: 'started', at: election.startDate });
+  }
+  if (election.status !== 'closed') {
+    transitions.push({ electionId: election.id, kind: 'closed', at: election.endDate });
+  }
+
+  return transitions.sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+export const dueTransitions = (elections: Election[], now: Date): LifecycleTransition[] =>
+  elections
+    .flatMap(pendingTransitions)
+    .filter(transition => transition.at.getTime() <= now.getTime());
+
+// When the next transition after now falls due, or null if none is pending
+export const nextTransitionAt = (elections: Election[], now: Date): Date | null => {
+  const upcoming = elections
+    .flatMap(pendingTransitions)
+    .map(transition => transition.at.getTime())
+    .filter(at => at > now.getTime());
+
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
+
+export interface LifecycleSchedulerOptions {
+  getElections: () => Election[];
+  // Apply the due transitions and refresh the elections getElections returns
+  advance: (due: LifecycleTransition[]) => Promise<void>;
+  clock?: Clock;
+  setTimer?: (callback: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+  retryDelayMs?: number; // Wait before asking again for transitions that did not happen
+}
+
+export interface LifecycleScheduler {
+  start: () => void;
+  stop: () => void;
+  reschedule: () => void; // Call whenever the elections change
+}
+
+// setTimeout cannot wait longer than about 24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Sleeps until the next transition is due, then calls advance. Transitions
+// that are still pending after advance (the server refused, or the refresh
+// has not arrived yet) are retried after retryDelayMs rather than at once.
+export const createLifecycleScheduler = ({
+  getElections,
+  advance,
+  clock = systemClock,
+  setTimer = (callback, ms) => setTimeout(callback, ms),
+  clearTimer = (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  retryDelayMs = 60 * 1000,
+}: LifecycleSchedulerOptions): LifecycleScheduler => {
+  let running = false;
+  let advancing = false;
+  let timer: unknown = null;
+  const attemptedAt = new Map<string, number>(); // transition key -> when advance was last asked for it
+  const keyOf = (transition: LifecycleTransition) => `${transition.electionId}:${transition.kind}`;
+
+  const wait = (ms: number) => {
+    timer = setTimer(() => {
+      timer = null;
+      reschedule();
+    }, Math.max(0, Math.min(ms, MAX_TIMER_DELAY)));
+  };
+
+  const run = async (due: LifecycleTransition[]) => {
+    advancing = true;
+    due.forEach(transition => attemptedAt.set(keyOf(transition), clock.now().getTime()));
+    try {
+      await advance(due);
+    } catch (error) {
+      console.error('Error advancing election lifecycle:', error);
+    } finally {
+      advancing = false;
+    }
+    reschedule();
+  };
+
+  const reschedule = () => {
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+    if (!running || advancing) return;
+
+    const now = clock.now();
+    const elections = getElections();
+
+    const due = dueTransitions(elections, now);
+    const retryAt = (transition: LifecycleTransition) => (attemptedAt.get(keyOf(transition)) ?? -Infinity) + retryDelayMs;
+
+    if (due.some(transition => retryAt(transition) <= now.getTime())) {
+      void run(due);
+      return;
+    }
+
+    // Wake for the next transition, or to retry one that is still pending
+    const wakeTimes = due.map(retryAt);
+    const next = nextTransitionAt(elections, now);
+    if (next) wakeTimes.push(next.getTime());
+    if (wakeTimes.length > 0) {
+      wait(Math.min(...wakeTimes) - now.getTime());
+    }
+  };
+
+  return {
+    start: () => {
+      running = true;
+      reschedule();
+    },
+    stop: () => {
+      running = false;
+      if (timer !== null) {
+        clearTimer(timer);
+        timer = null;
+      }
+    },
+    reschedule,
+  };
+};
@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ActiveSession, LoginEventType } from '@/types';
+
+// Login history and the member's sessions. Events are recorded through the
+// record_login_event database function, which takes the member, session,
+// user agent and address from the request (see
+// supabase/migrations/20261019050000_login_history.sql and
+// 20261019160000_login_event_sources.sql).
+// Sessions are Supabase Auth's and go through the manage-sessions edge
+// function; ending them revokes their refresh tokens, so the browsers using
+// them are signed out once their access tokens expire.
+
+export const LOGIN_EVENT_LABELS: Record<LoginEventType, string> = {
+  sign_in: 'Signed in',
+  sign_out: 'Signed out',
+  sign_in_failed: 'Failed sign-in',
+  token_refreshed: 'Session refreshed',
+};
+
+export const LOGIN_EVENT_STYLES: Record<LoginEventType, string> = {
+  sign_in: 'bg-green-50 text-green-800 border-green-200',
+  sign_out: 'bg-gray-100 text-gray-700 border-gray-200',
+  sign_in_failed: 'bg-red-50 text-red-800 border-red-200',
+  token_refreshed: 'bg-blue-50 text-blue-800 border-blue-200',
+};
+
+// Checked in order, so Edge and Opera come before the Chrome they contain
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A short description of the browser a user agent string belongs to, such
+// as "Firefox on Windows"
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+};
+
+// Records a login event for this browser. Failures are logged but never
+// block signing in or out; failed sign-ins are recorded for the email tried.
+export const recordLoginEvent = async (event: LoginEventType, email?: string): Promise<void> => {
+  const { error } = await supabase.rpc('record_login_event', { event, email });
+  if (error) {
+    console.error('Error recording login event:', error);
+  }
+};
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  email: string | null;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  is_current: boolean;
+}
+
+const invokeManageSessions = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('manage-sessions', { body });
+  if (error) {
+    // The function explains a refusal in its response body
+    const detail = await error.context?.json?.().catch(() => null);
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data as T;
+};
+
+// A member's active sessions, or every member's for admins, most recently
+// active first. Worked out from the login events, so only sessions the app
+// saw sign in are listed.
+export const fetchActiveSessions = async (userId?: string): Promise<ActiveSession[]> => {
+  try {
+    const { sessions } = await invokeManageSessions<{ sessions: SessionRow[] }>({ action: 'list', memberId: userId });
+    return sessions.map(session => ({
+      id: session.id,
+      userId: session.user_id,
+      email: session.email ?? undefined,
+      createdAt: new Date(session.created_at),
+      lastActiveAt: new Date(session.last_active_at),
+      userAgent: session.user_agent ?? undefined,
+      isCurrent: session.is_current,
+    }));
+  } catch (error) {
+    console.error('Failed to fetch sessions:', error);
+    return [];
+  }
+};
+
+// Ends every one of the member's sessions except the current one
+export const signOutOtherSessions = async (): Promise<void> => {
+  await invokeManageSessions({ action: 'sign_out_others' });
+};
@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ElectionRole, UserProfile, UserRole } from '@/types';
+
+// Admin changes to member accounts. Role changes, including roles in a
+// single election, go straight to the database; deactivation and
+// invitations go through the manage-members edge function (see
+// supabase/functions/manage-members), which also blocks or restores the
+// member's sign-in and sends the invitation email. Each call rejects with
+// the reason the change was refused.
+
+export const MEMBERS_PAGE_SIZE = 20;
+
+export const memberDisplayName = (member: UserProfile): string =>
+  member.username || member.email || member.id;
+
+type ManageMembersRequest =
+  | { action: 'invite'; email: string; username?: string; role: UserRole; redirectTo: string }
+  | { action: 'deactivate'; userId: string; reason?: string }
+  | { action: 'reactivate'; userId: string };
+
+const manageMembers = async (request: ManageMembersRequest): Promise<void> => {
+  const { error } = await supabase.functions.invoke('manage-members', { body: request });
+  if (error) {
+    // The function explains a refusal in its response body
+    const detail = await error.context?.json?.().catch(() => null);
+    throw new Error(detail?.error ?? error.message);
+  }
+};
+
+export const setMemberRole = async (userId: string, role: UserRole): Promise<void> => {
+  const { error } = await supabase.rpc('set_member_role', { user_id: userId, new_role: role });
+  if (error) throw new Error(error.message);
+};
+
+export const deactivateMember = (userId: string, reason?: string): Promise<void> =>
+  manageMembers({ action: 'deactivate', userId, reason });
+
+export const reactivateMember = (userId: string): Promise<void> =>
+  manageMembers({ action: 'reactivate', userId });
+
+// Invited members follow the link in the email to set up their account
+export const inviteMember = (email: string, role: UserRole, username?: string): Promise<void> =>
+  manageMembers({ action: 'invite', email, username, role, redirectTo: `${window.location.origin}/profile` });
+
+export const assignElectionRole = async (electionId: string, userId: string, role: ElectionRole): Promise<void> => {
+  const { error } = await supabase.rpc('assign_election_role', { election_id: electionId, user_id: userId, role });
+  if (error) throw new Error(error.message);
+};
+
+export const removeElectionRole = async (electionId: string, userId: string): Promise<void> => {
+  const { error } = await supabase.rpc('remove_election_role', { election_id: electionId, user_id: userId });
+  if (error) throw new Error(error.message);
+};
@@ -0,0 +1,17 @@
+import { NominationStatus } from '@/types';
+
+export const NOMINATION_STATUS_LABELS: Record<NominationStatus, string> = {
+  awaiting_seconder: 'Awaiting seconder',
+  declined: 'Seconder declined',
+  pending: 'Awaiting review',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+export const NOMINATION_STATUS_STYLES: Record<NominationStatus, string> = {
+  awaiting_seconder: 'bg-amber-50 text-amber-800 border-amber-200',
+  declined: 'bg-gray-100 text-gray-700 border-gray-200',
+  pending: 'bg-blue-50 text-blue-800 border-blue-200',
+  accepted: 'bg-vote-100 text-vote-800 border-vote-200',
+  rejected: 'bg-red-50 text-red-800 border-red-200',
+};
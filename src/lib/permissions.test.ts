@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ElectionRole, UserRole } from '@/types';
+import { PermissionSubject, can } from './permissions';
+
+const member = (role: UserRole, electionRoles: Record<string, ElectionRole> = {}): PermissionSubject => ({
+  id: 'member',
+  role,
+  electionRoles: Object.entries(electionRoles).map(([electionId, electionRole]) => ({
+    id: `${electionId}-role`,
+    electionId,
+    userId: 'member',
+    role: electionRole,
+    assignedAt: new Date(Date.UTC(2026, 9, 18)),
+  })),
+});
+
+describe('can', () => {
+  it('lets members of every club role vote', () => {
+    for (const role of ['voter', 'admin', 'super_admin'] as UserRole[]) {
+      expect(can(member(role), 'vote', 'election'), role).toBe(true);
+    }
+  });
+
+  it('stops officers voting in their own election only', () => {
+    const officer = member('admin', { election: 'officer' });
+
+    expect(can(officer, 'vote', 'election')).toBe(false);
+    expect(can(officer, 'vote', 'other')).toBe(true);
+    expect(can(member('voter', { election: 'observer' }), 'vote', 'election')).toBe(true);
+  });
+
+  it('gives officers their election\'s staff actions and observers its turnout', () => {
+    const officer = member('voter', { election: 'officer' });
+    const observer = member('voter', { election: 'observer' });
+
+    expect(can(officer, 'manage_voters', 'election')).toBe(true);
+    expect(can(officer, 'manage_voters', 'other')).toBe(false);
+    expect(can(observer, 'view_turnout', 'election')).toBe(true);
+    expect(can(observer, 'edit_election', 'election')).toBe(false);
+  });
+
+  it('keeps the admin roles to super-admins', () => {
+    expect(can(member('super_admin'), 'manage_admins')).toBe(true);
+    expect(can(member('admin'), 'manage_admins')).toBe(false);
+    expect(can(member('admin'), 'manage_members')).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { Election, ElectionRole, ElectionRoleAssignment, PermissionAction, UserRole } from '@/types';
+
+// Who may do what. Every permission check in the app goes through can(),
+// and the database enforces the same rules with its own can() function
+// (see supabase/migrations/20261019030000_election_roles.sql); keep the two
+// in step.
+//
+// - Super-admins can do everything, including granting and revoking the
+//   admin roles.
+// - Admins can do everything else, across all elections.
+// - An election's officers run it: they edit it, open and close it, manage
+//   its voter codes and registrations, review its nominations and tally it.
+// - An election's observers may watch its turnout but not act.
+// - Voting does not depend on the club role: every member may vote, apart
+//   from an election's own officers in that election.
+//
+// When the club requires two-factor authentication for staff, the database
+// also refuses every action but voting to sessions without a second factor.
+// The app checks that separately (meetsTwoFactorRequirement in AuthContext)
+// so it can tell staff why they were turned away.
+
+export interface PermissionSubject {
+  id: string;
+  role: UserRole;
+  electionRoles: ElectionRoleAssignment[];
+}
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  voter: 'Voter',
+};
+
+export const USER_ROLE_STYLES: Record<UserRole, string> = {
+  super_admin: 'bg-purple-50 text-purple-800',
+  admin: 'bg-vote-50 text-vote-800',
+  voter: 'bg-blue-50 text-blue-800',
+};
+
+export const ELECTION_ROLE_LABELS: Record<ElectionRole, string> = {
+  officer: 'Returning Officer',
+  observer: 'Observer',
+};
+
+export const isAdminRole = (role: UserRole): boolean => role === 'admin' || role === 'super_admin';
+
+// What each election role allows for its election
+const ELECTION_ROLE_ACTIONS: Record<ElectionRole, PermissionAction[]> = {
+  officer: [
+    'view_admin_dashboard',
+    'edit_election',
+    'change_election_status',
+    'manage_voters',
+    'review_nominations',
+    'tally_election',
+    'view_turnout',
+  ],
+  observer: ['view_turnout'],
+};
+
+// Whether `user` may take `action`, on `election` when the action concerns
+// one. Without an election, election actions are allowed if they are
+// allowed on at least one election, which is what menus and tabs need.
+export const can = (
+  user: PermissionSubject | null | undefined,
+  action: PermissionAction,
+  election?: Pick<Election, 'id'> | string | null
+): boolean => {
+  if (!user) return false;
+
+  const electionId = typeof election === 'string' ? election : election?.id;
+  const roles = user.electionRoles
+    .filter(assignment => !electionId || assignment.electionId === electionId)
+    .map(assignment => assignment.role);
+
+  if (action === 'vote') return !electionId || !roles.includes('officer');
+  if (action === 'manage_admins') return user.role === 'super_admin';
+  if (isAdminRole(user.role)) return true;
+
+  return roles.some(role => ELECTION_ROLE_ACTIONS[role].includes(action));
+};
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import { Contest, ContestBallot, Election } from '@/types';
+import { allocateSeats, propositionOutcome, runInstantRunoff, tallyBallots, tallyContest } from './tally';
+
+const contest = (overrides: Partial<Contest> = {}): Contest => ({
+  id: 'contest',
+  title: 'Chair',
+  position: 0,
+  candidates: ['a', 'b', 'c'].map(id => ({ id, name: id.toUpperCase() })),
+  votingMethod: 'plurality',
+  seats: 1,
+  ...overrides,
+});
+
+const proposition = (overrides: Partial<Contest> = {}): Contest =>
+  contest({ candidates: [], votingMethod: 'proposition', ...overrides });
+
+// `times` copies of a ranking
+const ranked = (times: number, ranking: string[]): string[][] => Array.from({ length: times }, () => ranking);
+
+describe('runInstantRunoff', () => {
+  it('elects a first-round majority without eliminating anyone', () => {
+    const rounds = runInstantRunoff(['a', 'b'], [...ranked(3, ['a']), ...ranked(2, ['b'])]);
+
+    expect(rounds).toHaveLength(1);
+    expect(rounds[0].winnerId).toBe('a');
+    expect(rounds[0].eliminated).toEqual([]);
+  });
+
+  it('transfers the last-placed candidate\'s ballots to their next preference', () => {
+    const rounds = runInstantRunoff(['a', 'b', 'c'], [
+      ...ranked(4, ['a']),
+      ...ranked(3, ['b']),
+      ...ranked(2, ['c', 'b']),
+    ]);
+
+    expect(rounds).toHaveLength(2);
+    expect(rounds[0].eliminated).toEqual(['c']);
+    expect(rounds[0].transfers).toEqual({ b: 2 });
+    expect(rounds[1].counts).toEqual({ a: 4, b: 5 });
+    expect(rounds[1].winnerId).toBe('b');
+  });
+
+  it('counts ballots with no continuing preference as exhausted', () => {
+    const rounds = runInstantRunoff(['a', 'b', 'c'], [
+      ...ranked(4, ['a']),
+      ...ranked(3, ['b']),
+      ...ranked(2, ['c']),
+    ]);
+
+    expect(rounds[0].exhaustedTransfers).toBe(2);
+    expect(rounds[1].exhausted).toBe(2);
+    // A majority of the ballots still in play, not of all ballots
+    expect(rounds[1].winnerId).toBe('a');
+  });
+
+  it('breaks a tie for last place using the earlier rounds', () => {
+    // b and c tie in round 2; c had fewer votes in round 1
+    const rounds = runInstantRunoff(['a', 'b', 'c', 'd'], [
+      ...ranked(5, ['a']),
+      ...ranked(3, ['b']),
+      ...ranked(2, ['c']),
+      ...ranked(1, ['d', 'c']),
+    ]);
+
+    expect(rounds[0].eliminated).toEqual(['d']);
+    expect(rounds[1].counts).toEqual({ a: 5, b: 3, c: 3 });
+    expect(rounds[1].tiebreak).toBe('earlier_rounds');
+    expect(rounds[1].eliminated).toEqual(['c']);
+  });
+
+  it('eliminates the tied candidate listed last on the ballot when earlier rounds do not decide', () => {
+    const rounds = runInstantRunoff(['a', 'b', 'c'], [
+      ...ranked(2, ['a']),
+      ...ranked(1, ['b']),
+      ...ranked(1, ['c']),
+    ]);
+
+    expect(rounds[0].tiebreak).toBe('ballot_order');
+    expect(rounds[0].eliminated).toEqual(['c']);
+  });
+
+  it('ends without a winner when every continuing candidate is tied', () => {
+    const rounds = runInstantRunoff(['a', 'b'], [...ranked(2, ['a']), ...ranked(2, ['b'])]);
+
+    expect(rounds).toHaveLength(1);
+    expect(rounds[0].winnerId).toBeUndefined();
+    expect(rounds[0].eliminated).toEqual([]);
+  });
+});
+
+describe('allocateSeats', () => {
+  it('gives the seats to the candidates with the most votes', () => {
+    expect(allocateSeats({ a: 5, b: 3, c: 4, d: 1 }, 2)).toEqual({ winners: ['a', 'c'], tied: [], tiedSeats: 0 });
+  });
+
+  it('reports candidates tied at the cutoff instead of choosing between them', () => {
+    expect(allocateSeats({ a: 5, b: 3, c: 3, d: 1 }, 2)).toEqual({ winners: ['a'], tied: ['b', 'c'], tiedSeats: 1 });
+  });
+
+  it('seats everyone tied at the cutoff when they all fit', () => {
+    expect(allocateSeats({ a: 5, b: 3, c: 3, d: 1 }, 3)).toEqual({ winners: ['a', 'b', 'c'], tied: [], tiedSeats: 0 });
+  });
+
+  it('leaves seats empty rather than filling them with candidates who got no votes', () => {
+    expect(allocateSeats({ a: 2, b: 0, c: 0 }, 2)).toEqual({ winners: ['a'], tied: [], tiedSeats: 0 });
+  });
+});
+
+describe('tallyContest', () => {
+  it('counts approval ballots for every candidate they mark', () => {
+    const tally = tallyContest(contest({ votingMethod: 'approval', seats: 2 }), [
+      { candidateIds: ['a', 'b'] },
+      { candidateIds: ['b'] },
+      { candidateIds: ['b', 'c'] },
+    ]);
+
+    expect(tally.counts).toEqual({ a: 1, b: 3, c: 1 });
+    expect(tally.validBallots).toBe(3);
+  });
+
+  it('rejects approval ballots naming a candidate twice or one not on the ballot', () => {
+    const tally = tallyContest(contest({ votingMethod: 'approval' }), [
+      { candidateIds: ['a', 'a'] },
+      { candidateIds: ['z'] },
+      { candidateIds: ['a'] },
+    ]);
+
+    expect(tally.invalidBallots).toBe(2);
+    expect(tally.validBallots).toBe(1);
+    expect(tally.counts.a).toBe(1);
+  });
+
+  it('counts approval ballots that mark nobody as blank', () => {
+    const tally = tallyContest(contest({ votingMethod: 'approval' }), [{ candidateIds: [] }, { candidateIds: ['a'] }, null]);
+
+    expect(tally).toMatchObject({ validBallots: 1, blankBallots: 2, invalidBallots: 0 });
+  });
+
+  it('rejects choose-N ballots that mark more candidates than allowed', () => {
+    const tally = tallyContest(contest({ votingMethod: 'choose_n', maxSelections: 2 }), [
+      { candidateIds: ['a', 'b', 'c'] },
+      { candidateIds: ['a', 'c'] },
+    ]);
+
+    expect(tally.invalidBallots).toBe(1);
+    expect(tally.counts).toEqual({ a: 1, b: 0, c: 1 });
+  });
+
+  it('counts skipped contests as blank and marks of another voting method as invalid', () => {
+    const tally = tallyContest(contest(), [{ candidateId: 'a' }, null, { rankings: ['a'] } as ContestBallot]);
+
+    expect(tally).toMatchObject({ validBallots: 1, blankBallots: 1, invalidBallots: 1, counts: { a: 1, b: 0, c: 0 } });
+  });
+
+  it('counts first preferences and runs the instant runoff for ranked contests', () => {
+    const tally = tallyContest(contest({ votingMethod: 'ranked_choice' }), [
+      { rankings: ['a', 'b'] },
+      { rankings: ['b'] },
+      { rankings: ['b', 'a'] },
+      { rankings: ['c', 'b'] },
+    ]);
+
+    expect(tally.counts).toEqual({ a: 1, b: 2, c: 1 });
+    expect(tally.rounds?.at(-1)?.winnerId).toBe('b');
+  });
+});
+
+describe('tallyBallots', () => {
+  const election = { id: 'election', contests: [contest()] } as Election;
+
+  it('counts ballots that could not be decrypted as invalid', () => {
+    const tally = tallyBallots(election, [{ contests: { contest: { candidateId: 'a' } } }, null], 10);
+
+    expect(tally).toMatchObject({ totalBallots: 2, invalidBallots: 1, eligibleVoters: 10 });
+    expect(tally.contests.contest.counts.a).toBe(1);
+  });
+});
+
+describe('propositionOutcome', () => {
+  const counts = (yes: number, no: number, abstain = 0) =>
+    tallyContest(proposition(), [
+      ...Array.from({ length: yes }, () => ({ choice: 'yes' as const })),
+      ...Array.from({ length: no }, () => ({ choice: 'no' as const })),
+      ...Array.from({ length: abstain }, () => ({ choice: 'abstain' as const })),
+    ]);
+
+  it('passes a simple majority with more Yes than No, ignoring abstentions', () => {
+    expect(propositionOutcome(proposition(), counts(3, 2, 10)).result).toBe('passed');
+    expect(propositionOutcome(proposition(), counts(2, 2, 1)).result).toBe('failed');
+  });
+
+  it('needs two thirds of the Yes and No votes for a two-thirds majority', () => {
+    const twoThirds = proposition({ passThreshold: 'two_thirds' });
+
+    expect(propositionOutcome(twoThirds, counts(6, 3))).toMatchObject({ result: 'passed', yesRequired: 6 });
+    expect(propositionOutcome(twoThirds, counts(5, 3))).toMatchObject({ result: 'failed', yesRequired: 6 });
+  });
+
+  it('measures a percentage of eligible voters in whole votes, rounding up', () => {
+    const percent = proposition({ passThreshold: 'percent_of_eligible', thresholdPercent: 40 });
+
+    expect(propositionOutcome(percent, counts(4, 0), 9)).toMatchObject({ result: 'passed', yesRequired: 4, thresholdBase: 9 });
+    expect(propositionOutcome(percent, counts(3, 0), 9).result).toBe('failed');
+  });
+
+  it('is undetermined when a threshold of eligible voters meets no recorded eligible voters', () => {
+    const percent = proposition({ passThreshold: 'percent_of_eligible', thresholdPercent: 50 });
+
+    expect(propositionOutcome(percent, counts(1, 0), 0).result).toBe('undetermined');
+    expect(propositionOutcome(percent, counts(1, 0)).result).toBe('undetermined');
+  });
+
+  it('is undetermined when a quorum meets no recorded eligible voters', () => {
+    expect(propositionOutcome(proposition({ quorumPercent: 20 }), counts(3, 1), 0).result).toBe('undetermined');
+  });
+
+  it('neither passes nor fails when too few eligible voters answered', () => {
+    const quorum = proposition({ quorumPercent: 50 });
+
+    expect(propositionOutcome(quorum, counts(4, 0), 10)).toMatchObject({ result: 'quorum_not_met', quorumRequired: 5 });
+    expect(propositionOutcome(quorum, counts(4, 0, 1), 10).result).toBe('passed');
+  });
+});
@@ -0,0 +1,318 @@
+import { Ballot, Contest, ContestBallot, ContestTally, Election, ElectionTally, InstantRunoffRound, PassThreshold, PropositionChoice, VotingMethod } from '@/types';
+
+// Counting of decrypted ballots. A null ballot is one that could not be
+// decrypted and counts as invalid in every contest. Within a contest,
+// skipped contests are blank, as are approval ballots that mark nobody, and
+// marks that do not fit the contest's voting method are invalid.
+
+const isPluralityBallot = (ballot: ContestBallot, candidateIds: Set<string>): ballot is { candidateId: string } =>
+  'candidateId' in ballot && candidateIds.has(ballot.candidateId);
+
+// A ranking must name at least one candidate, each at most once
+const isRankedBallot = (ballot: ContestBallot, candidateIds: Set<string>): ballot is { rankings: string[] } =>
+  'rankings' in ballot &&
+  Array.isArray(ballot.rankings) &&
+  ballot.rankings.length > 0 &&
+  ballot.rankings.every(id => candidateIds.has(id)) &&
+  new Set(ballot.rankings).size === ballot.rankings.length;
+
+// Approval and choose-N ballots: at least one candidate, each at most once,
+// and no more than the contest allows
+const isApprovalBallot = (ballot: ContestBallot, candidateIds: Set<string>, maxSelections?: number): ballot is { candidateIds: string[] } =>
+  'candidateIds' in ballot &&
+  Array.isArray(ballot.candidateIds) &&
+  ballot.candidateIds.length > 0 &&
+  (!maxSelections || ballot.candidateIds.length <= maxSelections) &&
+  ballot.candidateIds.every(id => candidateIds.has(id)) &&
+  new Set(ballot.candidateIds).size === ballot.candidateIds.length;
+
+const isEmptySelection = (ballot: ContestBallot): boolean =>
+  'candidateIds' in ballot && Array.isArray(ballot.candidateIds) && ballot.candidateIds.length === 0;
+
+export const PROPOSITION_CHOICES: PropositionChoice[] = ['yes', 'no', 'abstain'];
+
+const isPropositionBallot = (ballot: ContestBallot): ballot is { choice: PropositionChoice } =>
+  'choice' in ballot && PROPOSITION_CHOICES.includes(ballot.choice);
+
+const zeroCounts = (candidateIds: Iterable<string>): Record<string, number> =>
+  Object.fromEntries(Array.from(candidateIds, id => [id, 0]));
+
+// Instant-runoff count. Each round, every ballot counts for its highest
+// ranked continuing candidate. A candidate with a majority of the ballots
+// still in play wins; otherwise the last-placed candidate is eliminated and
+// their ballots transfer to the next preference.
+//
+// Ties for last place are broken by the earlier rounds, most recent first,
+// and then by ballot order: the tied candidate listed last is eliminated.
+// If every continuing candidate is tied, the count ends without a winner.
+export const runInstantRunoff = (candidateIds: string[], rankings: string[][]): InstantRunoffRound[] => {
+  const rounds: InstantRunoffRound[] = [];
+  const continuing = new Set(candidateIds);
+  let exhausted = 0;
+
+  const currentChoice = (ranking: string[]) => ranking.find(id => continuing.has(id));
+
+  while (continuing.size > 0) {
+    const counts = zeroCounts(continuing);
+    for (const ranking of rankings) {
+      const choice = currentChoice(ranking);
+      if (choice) counts[choice]++;
+    }
+
+    const round: InstantRunoffRound = {
+      round: rounds.length + 1,
+      counts,
+      exhausted,
+      eliminated: [],
+      transfers: {},
+      exhaustedTransfers: 0,
+    };
+    rounds.push(round);
+
+    const active = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const [leader, leaderVotes] = Object.entries(counts).sort(([, a], [, b]) => b - a)[0];
+
+    if (leaderVotes * 2 > active || continuing.size === 1) {
+      if (leaderVotes > 0) round.winnerId = leader;
+      break;
+    }
+
+    const lowestVotes = Math.min(...Object.values(counts));
+    let lowest = Object.keys(counts).filter(id => counts[id] === lowestVotes);
+
+    if (lowest.length === continuing.size) {
+      break; // Every continuing candidate is tied
+    }
+
+    // Break ties for last place using earlier rounds, most recent first
+    for (let i = rounds.length - 2; i >= 0 && lowest.length > 1; i--) {
+      const earlier = rounds[i].counts;
+      const fewest = Math.min(...lowest.map(id => earlier[id]));
+      if (lowest.some(id => earlier[id] !== fewest)) {
+        round.tiebreak = 'earlier_rounds';
+      }
+      lowest = lowest.filter(id => earlier[id] === fewest);
+    }
+
+    if (lowest.length > 1) {
+      lowest = [lowest.reduce((last, id) => (candidateIds.indexOf(id) > candidateIds.indexOf(last) ? id : last))];
+      round.tiebreak = 'ballot_order';
+    }
+
+    const eliminated = lowest[0];
+    round.eliminated = [eliminated];
+    continuing.delete(eliminated);
+
+    // Follow the eliminated candidates' ballots to their next preference
+    for (const ranking of rankings) {
+      const previous = ranking.find(id => continuing.has(id) || id === eliminated);
+      if (previous !== eliminated) continue;
+
+      const next = currentChoice(ranking);
+      if (next) {
+        round.transfers[next] = (round.transfers[next] ?? 0) + 1;
+      } else {
+        round.exhaustedTransfers++;
+        exhausted++;
+      }
+    }
+  }
+
+  return rounds;
+};
+
+// Count one contest's marks according to its voting method. A null entry
+// is a ballot that skipped the contest.
+export const tallyContest = (contest: Contest, ballots: (ContestBallot | null)[]): ContestTally => {
+  const candidateIds = contest.votingMethod === 'proposition'
+    ? PROPOSITION_CHOICES
+    : contest.candidates.map(candidate => candidate.id);
+  const validIds = new Set(candidateIds);
+  const selectsCandidates = contest.votingMethod === 'approval' || contest.votingMethod === 'choose_n';
+  const isBlank = (ballot: ContestBallot | null) => !ballot || (selectsCandidates && isEmptySelection(ballot));
+  const tally: ContestTally = {
+    counts: zeroCounts(candidateIds),
+    validBallots: 0,
+    blankBallots: ballots.filter(isBlank).length,
+    invalidBallots: 0,
+  };
+  const marked = ballots.filter((ballot): ballot is ContestBallot => !isBlank(ballot));
+  const finish = () => {
+    tally.validBallots = marked.length - tally.invalidBallots;
+    return tally;
+  };
+
+  if (contest.votingMethod === 'proposition') {
+    for (const ballot of marked) {
+      if (isPropositionBallot(ballot)) {
+        tally.counts[ballot.choice]++;
+      } else {
+        tally.invalidBallots++;
+      }
+    }
+    return finish();
+  }
+
+  if (contest.votingMethod === 'ranked_choice') {
+    const rankings: string[][] = [];
+    for (const ballot of marked) {
+      if (isRankedBallot(ballot, validIds)) {
+        rankings.push(ballot.rankings);
+        tally.counts[ballot.rankings[0]]++;
+      } else {
+        tally.invalidBallots++;
+      }
+    }
+    tally.rounds = runInstantRunoff(candidateIds, rankings);
+    return finish();
+  }
+
+  if (contest.votingMethod === 'approval' || contest.votingMethod === 'choose_n') {
+    const maxSelections = contest.votingMethod === 'choose_n' ? contest.maxSelections : undefined;
+    for (const ballot of marked) {
+      if (isApprovalBallot(ballot, validIds, maxSelections)) {
+        ballot.candidateIds.forEach(id => tally.counts[id]++);
+      } else {
+        tally.invalidBallots++;
+      }
+    }
+    return finish();
+  }
+
+  for (const ballot of marked) {
+    if (isPluralityBallot(ballot, validIds)) {
+      tally.counts[ballot.candidateId]++;
+    } else {
+      tally.invalidBallots++;
+    }
+  }
+  return finish();
+};
+
+// Ballots cast before elections had contests hold a single contest's marks
+const contestsOf = (election: Election, ballot: Ballot | ContestBallot): Record<string, ContestBallot> | null => {
+  if ('contests' in ballot && ballot.contests && typeof ballot.contests === 'object') {
+    return ballot.contests;
+  }
+  if (election.contests.length === 1) {
+    return { [election.contests[0].id]: ballot as ContestBallot };
+  }
+  return null;
+};
+
+// Count the decrypted ballots of an election, contest by contest.
+// eligibleVoters is recorded with the tally for proposition thresholds.
+export const tallyBallots = (election: Election, ballots: (Ballot | null)[], eligibleVoters?: number): ElectionTally => {
+  const readable = ballots
+    .map(ballot => (ballot ? contestsOf(election, ballot) : null))
+    .filter((contests): contests is Record<string, ContestBallot> => !!contests);
+
+  return {
+    totalBallots: ballots.length,
+    invalidBallots: ballots.length - readable.length,
+    eligibleVoters,
+    contests: Object.fromEntries(
+      election.contests.map(contest => [
+        contest.id,
+        tallyContest(contest, readable.map(contests => contests[contest.id] ?? null)),
+      ])
+    ),
+  };
+};
+
+export interface SeatAllocation {
+  winners: string[]; // Candidates who clearly won a seat, most votes first
+  tied: string[]; // Candidates tied for the remaining seats at the cutoff
+  tiedSeats: number; // Seats left for the tied candidates to share
+}
+
+// Fill the given number of seats with the candidates with the most votes.
+// Candidates tied at the cutoff are reported rather than picked between,
+// since the club's rules decide how such ties are broken.
+export const allocateSeats = (counts: Record<string, number>, seats: number): SeatAllocation => {
+  const ranked = Object.entries(counts)
+    .filter(([, votes]) => votes > 0)
+    .sort(([, a], [, b]) => b - a);
+
+  if (ranked.length <= seats) {
+    return { winners: ranked.map(([id]) => id), tied: [], tiedSeats: 0 };
+  }
+
+  const cutoffVotes = ranked[seats - 1][1];
+  const winners = ranked.filter(([, votes]) => votes > cutoffVotes).map(([id]) => id);
+  const atCutoff = ranked.filter(([, votes]) => votes === cutoffVotes).map(([id]) => id);
+
+  // Everyone at the cutoff fits, so there is no tie to break
+  if (winners.length + atCutoff.length <= seats) {
+    return { winners: [...winners, ...atCutoff], tied: [], tiedSeats: 0 };
+  }
+
+  return { winners, tied: atCutoff, tiedSeats: seats - winners.length };
+};
+
+export interface PropositionOutcome {
+  result: 'passed' | 'failed' | 'quorum_not_met' | 'undetermined';
+  yes: number;
+  no: number;
+  abstain: number;
+  answered: number; // Yes, No and Abstain together
+  quorumRequired?: number; // Answers needed for the result to stand
+  yesRequired: number; // Yes votes needed to pass
+  thresholdBase: number; // What the threshold is measured against
+}
+
+// Whether a proposition carried. Quorum is checked first: if too few of the
+// eligible voters answered, the proposition neither passes nor fails.
+// Percentages of eligible voters round up to whole votes. A quorum or
+// threshold measured against eligible voters cannot be applied when none
+// were recorded, so such a proposition is undetermined.
+export const propositionOutcome = (contest: Contest, tally: ContestTally, eligibleVoters = 0): PropositionOutcome => {
+  const yes = tally.counts.yes || 0;
+  const no = tally.counts.no || 0;
+  const abstain = tally.counts.abstain || 0;
+  const answered = yes + no + abstain;
+
+  let yesRequired: number;
+  let thresholdBase: number;
+  switch (contest.passThreshold) {
+    case 'two_thirds':
+      thresholdBase = yes + no;
+      yesRequired = Math.max(1, Math.ceil((thresholdBase * 2) / 3));
+      break;
+    case 'percent_of_eligible':
+      thresholdBase = eligibleVoters;
+      yesRequired = Math.max(1, Math.ceil((eligibleVoters * (contest.thresholdPercent ?? 50)) / 100));
+      break;
+    default:
+      thresholdBase = yes + no;
+      yesRequired = Math.floor(thresholdBase / 2) + 1;
+  }
+
+  const quorumRequired = contest.quorumPercent
+    ? Math.ceil((eligibleVoters * contest.quorumPercent) / 100)
+    : undefined;
+
+  const needsEligibleVoters = contest.passThreshold === 'percent_of_eligible' || quorumRequired !== undefined;
+
+  const result = needsEligibleVoters && eligibleVoters <= 0
+    ? 'undetermined'
+    : quorumRequired !== undefined && answered < quorumRequired
+      ? 'quorum_not_met'
+      : yes >= yesRequired ? 'passed' : 'failed';
+
+  return { result, yes, no, abstain, answered, quorumRequired, yesRequired, thresholdBase };
+};
+
+export const PASS_THRESHOLD_LABELS: Record<PassThreshold, string> = {
+  simple_majority: 'Simple majority',
+  two_thirds: 'Two-thirds majority',
+  percent_of_eligible: 'Percent of eligible voters',
+};
+
+export const VOTING_METHOD_LABELS: Record<VotingMethod, string> = {
+  plurality: 'Single choice',
+  ranked_choice: 'Ranked choice (instant runoff)',
+  approval: 'Approval',
+  choose_n: 'Choose up to N',
+  proposition: 'Proposition (yes/no)',
+};
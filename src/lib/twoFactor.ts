@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CodeFormat, DEFAULT_CODE_ALPHABET, generateCodes, hasValidCheckCharacter, normaliseCode } from './codes';
+import { sha256Hex } from './hash';
+
+// Two-factor authentication with an authenticator app. Factors are Supabase
+// Auth TOTP factors; a session verified with one is at assurance level
+// aal2. Recovery codes are generated here, shown to the member once and
+// stored only as hashes (see
+// supabase/migrations/20261019040000_two_factor_auth.sql). Redeeming one
+// goes through the redeem-recovery-code edge function, which removes the
+// member's factors so they can sign in and enrol again.
+// Each call rejects with the reason it failed.
+
+export const TOTP_CODE_LENGTH = 6;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Ten characters including the check character, shown as two groups of five
+const RECOVERY_CODE_FORMAT: CodeFormat = { length: 9, alphabet: DEFAULT_CODE_ALPHABET };
+
+export const formatRecoveryCode = (code: string): string => `${code.slice(0, 5)}-${code.slice(5)}`;
+
+export const isWellFormedRecoveryCode = (input: string): boolean => {
+  const code = normaliseCode(input);
+  return code.length === RECOVERY_CODE_FORMAT.length + 1 && hasValidCheckCharacter(code, RECOVERY_CODE_FORMAT);
+};
+
+export interface TotpEnrollment {
+  factorId: string;
+  uri: string; // otpauth:// URI, for the QR code
+  secret: string; // For typing into apps that cannot scan
+}
+
+// The member's verified authenticator, if they have one
+export const getVerifiedTotpFactorId = async (): Promise<string | null> => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw new Error(error.message);
+  return data.totp[0]?.id ?? null;
+};
+
+// Starts enrolling an authenticator. Any earlier enrolment that was never
+// verified is dropped first, since factor names must be unique.
+export const enrollTotp = async (): Promise<TotpEnrollment> => {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw new Error(listError.message);
+  for (const factor of factors.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id });
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    issuer: 'SecureClubVote',
+    friendlyName: 'Authenticator app',
+  });
+  if (error) throw new Error(error.message);
+  return { factorId: data.id, uri: data.totp.uri, secret: data.totp.secret };
+};
+
+// Checks a code from the authenticator, which raises the session to aal2
+// (and, the first time, completes the enrolment)
+export const verifyTotp = async (factorId: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) throw new Error(error.message);
+};
+
+// Generates a fresh set of recovery codes, replacing any earlier ones. The
+// session must be at aal2. Returns the codes to show the member.
+export const regenerateRecoveryCodes = async (): Promise<string[]> => {
+  const codes = generateCodes(RECOVERY_CODE_FORMAT, RECOVERY_CODE_COUNT);
+  const hashes = await Promise.all(codes.map(code => sha256Hex(code)));
+  const { error } = await supabase.rpc('replace_recovery_codes', { code_hashes: hashes });
+  if (error) throw new Error(error.message);
+  return codes.map(formatRecoveryCode);
+};
+
+// Spends a recovery code. On success the member's authenticator is removed
+// and the session refreshed, so it no longer asks for a second step.
+export const redeemRecoveryCode = async (input: string): Promise<void> => {
+  if (!isWellFormedRecoveryCode(input)) throw new Error('That is not a valid recovery code');
+  const { error } = await supabase.functions.invoke('redeem-recovery-code', {
+    body: { code_hash: await sha256Hex(normaliseCode(input)) },
+  });
+  if (error) {
+    // The function explains a refusal in its response body
+    const detail = await error.context?.json?.().catch(() => null);
+    throw new Error(detail?.error ?? error.message);
+  }
+
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  if (refreshError) throw new Error(refreshError.message);
+};
+
+// Removes the member's authenticator; their recovery codes go with it. The
+// session must be at aal2.
+export const disableTwoFactor = async (): Promise<void> => {
+  const factorId = await getVerifiedTotpFactorId();
+  if (!factorId) return;
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw new Error(error.message);
+  const { error: clearError } = await supabase.rpc('clear_recovery_codes');
+  if (clearError) throw new Error(clearError.message);
+  await supabase.auth.refreshSession();
+};
+
+export const setRequireAdminTwoFactor = async (required: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('set_club_settings', { require_admin_2fa: required });
+  if (error) throw new Error(error.message);
+};
@@ -0,0 +1,97 @@
+import QRCode from 'qrcode';
+import { Election, VoterCode } from '@/types';
+import { escapeHtml } from './html';
+import { voterCodeLink } from './voterCodes';
+
+// Printable voter code slips for in-person meetings: a self-contained HTML
+// page of A4 sheets, eight slips to a sheet with dashed lines to cut along.
+// Each slip carries the election, the voter code and a QR code linking
+// straight to the election with the code filled in. Printing the page from
+// the browser also gives a PDF.
+
+const SLIP_STYLES = `
+  @page { size: A4; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111; }
+  .sheet { display: grid; grid-template-columns: 1fr 1fr; grid-auto-rows: 68mm; break-after: page; }
+  .sheet:last-child { break-after: auto; }
+  .slip { border: 1px dashed #999; padding: 5mm; display: flex; gap: 4mm; align-items: center; overflow: hidden; }
+  .qr { width: 34mm; height: 34mm; flex-shrink: 0; }
+  .qr svg { width: 100%; height: 100%; }
+  .details { min-width: 0; }
+  .title { font-weight: 600; font-size: 11pt; margin: 0 0 2mm; }
+  .label { font-size: 7pt; text-transform: uppercase; letter-spacing: 0.05em; color: #555; margin: 2mm 0 0; }
+  .election-code { font-family: ui-monospace, Menlo, monospace; font-size: 10pt; margin: 0; }
+  .voter-code { font-family: ui-monospace, Menlo, monospace; font-size: 15pt; font-weight: 700; letter-spacing: 0.1em; margin: 0; }
+  .name { font-size: 9pt; margin: 2mm 0 0; }
+  .help { font-size: 7pt; color: #555; margin: 2mm 0 0; }
+  @media screen { body { background: #eee; } .sheet { background: #fff; width: 190mm; margin: 10mm auto; } }
+`;
+
+const SLIPS_PER_SHEET = 8;
+
+const renderSlip = async (election: Election, code: VoterCode, origin: string): Promise<string> => {
+  const link = voterCodeLink(origin, election.electionCode, code.code);
+  const qr = await QRCode.toString(link, { type: 'svg', margin: 0, errorCorrectionLevel: 'M' });
+
+  return `
+    <div class="slip">
+      <div class="qr">${qr}</div>
+      <div class="details">
+        <p class="title">${escapeHtml(election.title)}</p>
+        <p class="label">Election ID</p>
+        <p class="election-code">${escapeHtml(election.electionCode)}</p>
+        <p class="label">Voter code</p>
+        <p class="voter-code">${escapeHtml(code.code)}</p>
+        ${code.name ? `<p class="name">${escapeHtml(code.name)}</p>` : ''}
+        <p class="help">Scan the QR code to vote, or go to ${escapeHtml(origin)}/elections and enter the election ID and voter code. The code can be used once.</p>
+      </div>
+    </div>`;
+};
+
+export const buildVoterCodeSlipsHtml = async (election: Election, codes: VoterCode[], origin: string): Promise<string> => {
+  const slips = await Promise.all(codes.map(code => renderSlip(election, code, origin)));
+
+  const sheets: string[] = [];
+  for (let i = 0; i < slips.length; i += SLIPS_PER_SHEET) {
+    sheets.push(`<div class="sheet">${slips.slice(i, i + SLIPS_PER_SHEET).join('')}</div>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Voter codes: ${escapeHtml(election.title)}</title>
+<style>${SLIP_STYLES}</style>
+</head>
+<body>
+${sheets.join('\n')}
+</body>
+</html>
+`;
+};
+
+// Open the slips in a new window and bring up the print dialog. Returns
+// false if the browser blocked the window.
+export const printHtml = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
+
+export const downloadHtml = (filename: string, html: string) => {
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
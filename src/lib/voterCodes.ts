@@ -0,0 +1,35 @@
+import { VoterCode, VoterCodeStatus } from '@/types';
+
+// Voter code states. Used and revoked are recorded on the code; expiry
+// depends on the time, so it is worked out when it is needed.
+
+export const voterCodeStatus = (code: VoterCode, now: Date): VoterCodeStatus => {
+  if (code.isUsed) return 'used';
+  if (code.revokedAt) return 'revoked';
+  if (code.expiresAt && code.expiresAt <= now) return 'expired';
+  return 'available';
+};
+
+export const VOTER_CODE_STATUS_LABELS: Record<VoterCodeStatus, string> = {
+  available: 'Available',
+  used: 'Used',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+export const VOTER_CODE_STATUS_STYLES: Record<VoterCodeStatus, string> = {
+  available: 'bg-green-100 text-green-800',
+  used: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-red-100 text-red-800',
+  expired: 'bg-amber-100 text-amber-800',
+};
+
+// Query parameters of a voter code deep link, such as the one in a slip's QR
+// code: /elections?election=<election ID>&code=<voter code>
+export const ELECTION_LINK_PARAM = 'election';
+export const VOTER_CODE_LINK_PARAM = 'code';
+
+export const voterCodeLink = (origin: string, electionCode: string, code: string): string => {
+  const params = new URLSearchParams({ [ELECTION_LINK_PARAM]: electionCode, [VOTER_CODE_LINK_PARAM]: code });
+  return `${origin}/elections?${params.toString()}`;
+};
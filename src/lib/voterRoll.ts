@@ -0,0 +1,127 @@
+import { z } from 'zod';
+
+// Voter roll import: reading a member roster from CSV, checking each row,
+// and writing the results back out as CSV.
+
+// Split CSV text into rows of fields. Handles quoted fields with embedded
+// commas, quotes ("") and line breaks, and both LF and CRLF line endings.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Spreadsheets often save a byte order mark and trailing blank lines
+  if (rows.length > 0 && rows[0].length > 0) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+// Member names and emails are not trusted: a cell starting with one of
+// these would run as a spreadsheet formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (value: string) => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(value => escapeCsvField(value === undefined ? '' : String(value))).join(',')).join('\n');
+
+export const downloadCsv = (filename: string, rows: (string | number | undefined)[][]) => {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export type VoterRollRowStatus = 'ready' | 'missing_email' | 'invalid_email' | 'duplicate' | 'already_has_code';
+
+export interface VoterRollRow {
+  line: number; // Row number in the file, counting the header, for the report
+  name: string;
+  email: string; // Trimmed and lower-cased
+  status: VoterRollRowStatus;
+}
+
+export const VOTER_ROLL_STATUS_LABELS: Record<VoterRollRowStatus, string> = {
+  ready: 'Ready to import',
+  missing_email: 'No email address',
+  invalid_email: 'Invalid email address',
+  duplicate: 'Duplicate of an earlier row',
+  already_has_code: 'Already has a code for this election',
+};
+
+const emailSchema = z.string().email();
+
+// Read a roster with a header row naming the name and email columns (in any
+// order, alongside any other columns) and check every row. Emails that
+// already hold a code for the election are reported rather than imported.
+// Throws if the file has no header with an email column.
+export const parseVoterRoll = (text: string, existingEmails: string[] = []): VoterRollRow[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('The file is empty.');
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const emailColumn = columns.findIndex(column => column === 'email' || column === 'email address' || column === 'e-mail');
+  const nameColumn = columns.findIndex(column => column === 'name' || column === 'full name' || column === 'member');
+  if (emailColumn === -1) {
+    throw new Error('The first row must be a header with an "email" column, and optionally a "name" column.');
+  }
+
+  const existing = new Set(existingEmails.map(email => email.trim().toLowerCase()));
+  const seen = new Set<string>();
+
+  return records.map((fields, index) => {
+    const name = nameColumn === -1 ? '' : (fields[nameColumn] ?? '').trim();
+    const email = (fields[emailColumn] ?? '').trim().toLowerCase();
+
+    let status: VoterRollRowStatus = 'ready';
+    if (email === '') status = 'missing_email';
+    else if (!emailSchema.safeParse(email).success) status = 'invalid_email';
+    else if (seen.has(email)) status = 'duplicate';
+    else if (existing.has(email)) status = 'already_has_code';
+
+    if (status === 'ready') seen.add(email);
+    return { line: index + 2, name, email, status };
+  });
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useElections } from '@/contexts/ElectionContext';
 import { Button } from '@/components/ui/button';
@@ -7,20 +7,34 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CircleCheck, Settings, Shield, Vote, User, Users, Calendar, FileText, LogOut, Bell, List, Download, UserPlus, Key } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { CircleCheck, Settings, Shield, Vote, User, Users, Calendar, FileText, LogOut, Bell, List, UserPlus, Key } from 'lucide-react';
 import { format } from 'date-fns';
 import { Election } from '@/types';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import VoterCodeGenerator from '@/components/VoterCodeGenerator';
+import AuditLogViewer from '@/components/AuditLogViewer';
+import NominationReviewQueue from '@/components/NominationReviewQueue';
+import UserManagement from '@/components/UserManagement';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import LoginHistory from '@/components/LoginHistory';
+import ActiveSessions from '@/components/ActiveSessions';
 import { supabase, countActiveVoters, countVotes, fetchElections } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
+import { can } from '@/lib/permissions';
+import { canMoveToStatus, canStartElection } from '@/lib/lifecycle';
+
+// Tailwind only ships classes it can see spelled out
+const TAB_GRID_COLS = ['grid-cols-1', 'grid-cols-2', 'grid-cols-3', 'grid-cols-4', 'grid-cols-5', 'grid-cols-6'];
 
 const AdminPage = () => {
-  const { user, profile, hasRole, logout, isLoading: authLoading } = useAuth();
-  const { updateElectionStatus, getElectionResults } = useElections();
+  const { user, profile, permissions, logout, isLoading: authLoading, meetsTwoFactorRequirement, clubSettings, updateClubSettings } = useAuth();
+  const { updateElectionStatus, getBallotCount, nominations } = useElections();
   const navigate = useNavigate();
-  const [selectedTab, setSelectedTab] = useState('dashboard');
+  const location = useLocation();
+  const [selectedTab, setSelectedTab] = useState<string>(location.state?.tab ?? 'dashboard');
   const [selectedElectionId, setSelectedElectionId] = useState<string>('');
   const [activeVotersCount, setActiveVotersCount] = useState<number>(0);
   const [totalVotesCount, setTotalVotesCount] = useState<number>(0);
@@ -30,7 +44,7 @@ const AdminPage = () => {
   const [adminChecked, setAdminChecked] = useState<boolean>(false);
   const [redirectionTimer, setRedirectionTimer] = useState<NodeJS.Timeout | null>(null);
   
-  // Check if user is admin, but wait until auth is loaded
+  // Check if user may see the dashboard, but wait until auth is loaded
   useEffect(() => {
     if (!authLoading) {
       console.log('Auth loaded. User:', user?.id, 'Profile:', profile);
@@ -53,14 +67,22 @@ const AdminPage = () => {
           console.log('Profile loaded, role:', profile.role);
           setAdminChecked(true);
           
-          if (profile.role !== 'admin') {
-            console.log('User is not admin, redirecting to home');
+          if (!can(permissions, 'view_admin_dashboard')) {
+            console.log('User may not see the admin dashboard, redirecting to home');
             toast({
               title: 'Access Denied',
-              description: 'You need admin privileges to access this page.',
+              description: 'You need to be an admin or an election officer to access this page.',
               variant: 'destructive',
             });
             navigate('/');
+          } else if (!meetsTwoFactorRequirement) {
+            console.log('Club requires two-factor authentication, redirecting to profile');
+            toast({
+              title: 'Two-factor authentication required',
+              description: 'The club requires admins and election officers to use two-factor authentication. Set it up from your profile.',
+              variant: 'destructive',
+            });
+            navigate('/profile');
           }
         } else {
           // If profile is not available yet, wait and check again
@@ -74,12 +96,16 @@ const AdminPage = () => {
         if (timer) clearTimeout(timer);
       };
     }
-  }, [user, profile, authLoading, navigate]);
+  }, [user, profile, permissions, meetsTwoFactorRequirement, authLoading, navigate]);
   
-  // Fetch data only after we've confirmed user is admin
+  // Fetch data only after we've confirmed user may see the dashboard
   useEffect(() => {
+    // Officers only see the elections they run
+    const staffElections = (elections: Election[]) =>
+      elections.filter(election => can(permissions, 'view_admin_dashboard', election));
+    
     const fetchStats = async () => {
-      if (!adminChecked || !user || !profile || profile.role !== 'admin') {
+      if (!adminChecked || !user || !can(permissions, 'view_admin_dashboard')) {
         return;
       }
       
@@ -96,7 +122,7 @@ const AdminPage = () => {
         setTotalVotesCount(votesCount);
         
         // Get elections directly from the database
-        const electionsData = await fetchElections();
+        const electionsData = staffElections(await fetchElections());
         setDbElections(electionsData);
         
         // Filter upcoming elections
@@ -117,8 +143,8 @@ const AdminPage = () => {
     
     fetchStats();
     
-    // Set up realtime subscription only if user is confirmed admin
-    if (adminChecked && user && profile?.role === 'admin') {
+    // Set up realtime subscription only if user is confirmed staff
+    if (adminChecked && user && can(permissions, 'view_admin_dashboard')) {
       const channel = supabase
         .channel('public:elections')
         .on('postgres_changes', 
@@ -129,7 +155,7 @@ const AdminPage = () => {
           }, 
           async () => {
             // Refresh elections data when there's a change
-            const refreshedElections = await fetchElections();
+            const refreshedElections = staffElections(await fetchElections());
             setDbElections(refreshedElections);
             setUpcomingElections(refreshedElections.filter(e => e.status === 'upcoming'));
           }
@@ -140,7 +166,7 @@ const AdminPage = () => {
         supabase.removeChannel(channel);
       };
     }
-  }, [adminChecked, user, profile, navigate]);
+  }, [adminChecked, user, permissions, navigate]);
   
   // Show enhanced loading state while checking authentication
   if (authLoading || !adminChecked || (user && profile === null)) {
@@ -158,12 +184,28 @@ const AdminPage = () => {
     );
   }
   
-  // Stop rendering if not authenticated or not admin
+  // Stop rendering if not authenticated or not staff
   // This is a safety check in addition to the useEffect redirect
-  if (!user || !profile || profile.role !== 'admin') {
+  if (!user || !profile || !can(permissions, 'view_admin_dashboard')) {
     return null;
   }
   
+  // Tabs for what the user may do; officers get those for their elections
+  const pendingNominations = nominations.filter(
+    nomination => nomination.status === 'pending' && can(permissions, 'review_nominations', nomination.electionId)
+  );
+  const voterCodeElections = dbElections.filter(election => can(permissions, 'manage_voters', election));
+  const visibleTabs = {
+    nominations: can(permissions, 'review_nominations'),
+    users: can(permissions, 'manage_members'),
+    voterCodes: can(permissions, 'manage_voters'),
+    logs: can(permissions, 'view_audit_log'),
+    security: can(permissions, 'view_audit_log'),
+  };
+  const tabCount = 1 + Object.values(visibleTabs).filter(Boolean).length;
+  // Admins who manage members see every member's logins and sessions
+  const clubWideSecurity = can(permissions, 'manage_members');
+  
   // Change election status
   const handleStatusChange = (election: Election, newStatus: Election['status']) => {
     updateElectionStatus(election.id, newStatus);
@@ -171,8 +213,7 @@ const AdminPage = () => {
   
   // Get total votes for an election
   const getVoteCount = (electionId: string) => {
-    const results = getElectionResults(electionId);
-    return Object.values(results).reduce((sum, count) => sum + count, 0);
+    return getBallotCount(electionId);
   };
   
   // Calculate statistics from real data
@@ -276,12 +317,14 @@ const AdminPage = () => {
       </div>
       
       {/* Create Election Button */}
-      <div className="mb-6">
-        <Button onClick={() => navigate('/elections/create')} className="bg-vote-600 hover:bg-vote-700">
-          <CircleCheck className="mr-2 h-4 w-4" />
-          Create New Election
-        </Button>
-      </div>
+      {can(permissions, 'create_election') && (
+        <div className="mb-6">
+          <Button onClick={() => navigate('/elections/create')} className="bg-vote-600 hover:bg-vote-700">
+            <CircleCheck className="mr-2 h-4 w-4" />
+            Create New Election
+          </Button>
+        </div>
+      )}
       
       {/* Upcoming Elections Section - New */}
       {upcomingElections.length > 0 && (
@@ -335,12 +378,22 @@ const AdminPage = () => {
       
       {/* Main Content Tabs */}
       <Tabs value={selectedTab} onValueChange={setSelectedTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5 max-w-3xl">
+        <TabsList className={`grid w-full ${TAB_GRID_COLS[tabCount - 1]} max-w-4xl`}>
           <TabsTrigger value="dashboard">Elections</TabsTrigger>
-          <TabsTrigger value="users">Users</TabsTrigger>
-          <TabsTrigger value="voter-codes">Voter Codes</TabsTrigger>
-          <TabsTrigger value="logs">Audit Logs</TabsTrigger>
-          <TabsTrigger value="security">Security</TabsTrigger>
+          {visibleTabs.nominations && (
+            <TabsTrigger value="nominations">
+              Nominations
+              {pendingNominations.length > 0 && (
+                <Badge className="ml-2 bg-vote-600 px-1.5 py-0 text-xs">
+                  {pendingNominations.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+          )}
+          {visibleTabs.users && <TabsTrigger value="users">Users</TabsTrigger>}
+          {visibleTabs.voterCodes && <TabsTrigger value="voter-codes">Voter Codes</TabsTrigger>}
+          {visibleTabs.logs && <TabsTrigger value="logs">Audit Logs</TabsTrigger>}
+          {visibleTabs.security && <TabsTrigger value="security">Security</TabsTrigger>}
         </TabsList>
         
         {/* Elections Tab */}
@@ -374,9 +427,11 @@ const AdminPage = () => {
                     <TableRow>
                       <TableCell colSpan={5} className="text-center py-8">
                         <p className="text-muted-foreground mb-4">No elections have been created yet.</p>
-                        <Button onClick={() => navigate('/elections/create')}>
-                          Create Your First Election
-                        </Button>
+                        {can(permissions, 'create_election') && (
+                          <Button onClick={() => navigate('/elections/create')}>
+                            Create Your First Election
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ) : (
@@ -412,6 +467,7 @@ const AdminPage = () => {
                             <div className="flex gap-2">
                               <Select 
                                 defaultValue={election.status}
+                                disabled={!can(permissions, 'change_election_status', election)}
                                 onValueChange={(value) => {
                                   if (value !== election.status) {
                                     handleStatusChange(election, value as Election['status']);
@@ -422,9 +478,14 @@ const AdminPage = () => {
                                   <SelectValue placeholder="Status" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  <SelectItem value="upcoming">Upcoming</SelectItem>
-                                  <SelectItem value="active">Active</SelectItem>
-                                  <SelectItem value="closed">Closed</SelectItem>
+                                  <SelectItem value="upcoming" disabled={!canMoveToStatus(election.status, 'upcoming')}>Upcoming</SelectItem>
+                                  <SelectItem
+                                    value="active"
+                                    disabled={!canMoveToStatus(election.status, 'active') || (election.status === 'upcoming' && !canStartElection(election, new Date()))}
+                                  >
+                                    Active
+                                  </SelectItem>
+                                  <SelectItem value="closed" disabled={!canMoveToStatus(election.status, 'closed')}>Closed</SelectItem>
                                 </SelectContent>
                               </Select>
                               
@@ -447,271 +508,201 @@ const AdminPage = () => {
           </Card>
         </TabsContent>
         
+        {/* Nominations Tab */}
+        {visibleTabs.nominations && (
+          <TabsContent value="nominations" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <UserPlus className="mr-2 h-5 w-5" />
+                  Nomination Review
+                </CardTitle>
+                <CardDescription>
+                  Accept seconded self-nominations onto the ballot, or reject them, before voting opens.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <NominationReviewQueue />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+        
         {/* Users Tab */}
-        <TabsContent value="users" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>User Management</CardTitle>
-              <CardDescription>
-                View and manage user accounts. Add, remove, or modify users as needed.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {/* Mock user list for demo */}
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Username</TableHead>
-                      <TableHead>Role</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    <TableRow>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          <Avatar className="h-8 w-8 bg-vote-100 text-vote-800">
-                            <AvatarFallback>A</AvatarFallback>
-                          </Avatar>
-                          <span>admin</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="bg-vote-50 text-vote-800">Admin</Badge>
-                      </TableCell>
-                      <TableCell><Badge className="bg-green-100 text-green-800">Active</Badge></TableCell>
-                      <TableCell><Button variant="outline" size="sm" disabled>Edit</Button></TableCell>
-                    </TableRow>
-                    
-                    <TableRow>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          <Avatar className="h-8 w-8 bg-secure-100 text-secure-800">
-                            <AvatarFallback>V1</AvatarFallback>
-                          </Avatar>
-                          <span>voter1</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="bg-blue-50 text-blue-800">Voter</Badge>
-                      </TableCell>
-                      <TableCell><Badge className="bg-green-100 text-green-800">Active</Badge></TableCell>
-                      <TableCell><Button variant="outline" size="sm" disabled>Edit</Button></TableCell>
-                    </TableRow>
-                    
-                    <TableRow>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          <Avatar className="h-8 w-8 bg-secure-100 text-secure-800">
-                            <AvatarFallback>V2</AvatarFallback>
-                          </Avatar>
-                          <span>voter2</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="bg-blue-50 text-blue-800">Voter</Badge>
-                      </TableCell>
-                      <TableCell><Badge className="bg-green-100 text-green-800">Active</Badge></TableCell>
-                      <TableCell><Button variant="outline" size="sm" disabled>Edit</Button></TableCell>
-                    </TableRow>
-                  </TableBody>
-                </Table>
-                
-                <div className="mt-4">
-                  <Button disabled>Add New User</Button>
-                  <p className="text-sm text-muted-foreground mt-2">
-                    In a real implementation, you would be able to add new users and manage existing ones.
-                  </p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+        {visibleTabs.users && (
+          <TabsContent value="users" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>User Management</CardTitle>
+                <CardDescription>
+                  Search members, change their roles, deactivate or reactivate accounts and invite new members.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UserManagement />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
         
         {/* Voter Codes Tab */}
-        <TabsContent value="voter-codes" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center">
-                <Key className="mr-2 h-5 w-5" />
-                Voter Code Management
-              </CardTitle>
-              <CardDescription>
-                Generate and manage unique voter codes that grant access to specific elections
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {dbElections.length > 0 ? (
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <h4 className="font-medium">Select an election to manage voter codes</h4>
-                    <Select
-                      value={selectedElectionId}
-                      onValueChange={setSelectedElectionId}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder="Select an election" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {dbElections.map((election) => (
-                          <SelectItem key={election.id} value={election.id}>
-                            {election.title}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  
-                  {selectedElectionId ? (
-                    <VoterCodeGenerator electionId={selectedElectionId} />
-                  ) : (
-                    <div className="text-center py-8 text-muted-foreground">
-                      Please select an election to manage voter codes
+        {visibleTabs.voterCodes && (
+          <TabsContent value="voter-codes" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Key className="mr-2 h-5 w-5" />
+                  Voter Code Management
+                </CardTitle>
+                <CardDescription>
+                  Generate and manage unique voter codes that grant access to specific elections
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {voterCodeElections.length > 0 ? (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <h4 className="font-medium">Select an election to manage voter codes</h4>
+                      <Select
+                        value={selectedElectionId}
+                        onValueChange={setSelectedElectionId}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select an election" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {voterCodeElections.map((election) => (
+                            <SelectItem key={election.id} value={election.id}>
+                              {election.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                  )}
-                </div>
-              ) : (
-                <div className="text-center py-8 text-muted-foreground">
-                  <p className="mb-4">No elections have been created yet</p>
-                  <Button onClick={() => navigate('/elections/create')}>
-                    Create Your First Election
-                  </Button>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
+                    
+                    {selectedElectionId ? (
+                      <VoterCodeGenerator electionId={selectedElectionId} />
+                    ) : (
+                      <div className="text-center py-8 text-muted-foreground">
+                        Please select an election to manage voter codes
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p className="mb-4">No elections have been created yet</p>
+                    {can(permissions, 'create_election') && (
+                      <Button onClick={() => navigate('/elections/create')}>
+                        Create Your First Election
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
         
         {/* Audit Logs Tab */}
-        <TabsContent value="logs" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>System Logs & Reports</CardTitle>
-              <CardDescription>
-                Review all system activities for security and compliance purposes.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Timestamp</TableHead>
-                      <TableHead>Action</TableHead>
-                      <TableHead>User</TableHead>
-                      <TableHead>Details</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    <TableRow>
-                      <TableCell className="text-sm">{format(new Date(), "yyyy-MM-dd HH:mm:ss")}</TableCell>
-                      <TableCell>Login</TableCell>
-                      <TableCell>admin</TableCell>
-                      <TableCell>Successful login attempt</TableCell>
-                    </TableRow>
-                    <TableRow>
-                      <TableCell className="text-sm">{format(new Date(Date.now() - 3600000), "yyyy-MM-dd HH:mm:ss")}</TableCell>
-                      <TableCell>Vote Cast</TableCell>
-                      <TableCell>voter1</TableCell>
-                      <TableCell>Vote cast in election "Board President Election"</TableCell>
-                    </TableRow>
-                    <TableRow>
-                      <TableCell className="text-sm">{format(new Date(Date.now() - 7200000), "yyyy-MM-dd HH:mm:ss")}</TableCell>
-                      <TableCell>Election Created</TableCell>
-                      <TableCell>admin</TableCell>
-                      <TableCell>Created election "Budget Allocation Vote"</TableCell>
-                    </TableRow>
-                  </TableBody>
-                </Table>
-                
-                <div className="flex justify-end mt-4">
-                  <Button variant="outline" disabled>
-                    <Download className="mr-2 h-4 w-4" />
-                    Export Logs (CSV)
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+        {visibleTabs.logs && (
+          <TabsContent value="logs" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>System Logs & Reports</CardTitle>
+                <CardDescription>
+                  Review all system activities for security and compliance purposes.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditLogViewer />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
         
         {/* Security Tab */}
-        <TabsContent value="security" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Security Center</CardTitle>
-              <CardDescription>
-                Monitor and manage system security settings.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-6">
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-lg">System Health</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-2">
-                      <div className="flex justify-between items-center">
-                        <span>Vote Encryption</span>
-                        <Badge className="bg-green-100 text-green-800">Active</Badge>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>Vote Integrity Checks</span>
-                        <Badge className="bg-green-100 text-green-800">Passing</Badge>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <span>System Backup</span>
-                        <Badge className="bg-green-100 text-green-800">Up to Date</Badge>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-                
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-lg">Login History</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-2">
-                      <div className="flex justify-between items-center text-sm">
-                        <span>Current Session</span>
-                        <span className="text-muted-foreground">{format(new Date(), "yyyy-MM-dd HH:mm:ss")}</span>
-                      </div>
-                      <div className="flex justify-between items-center text-sm">
-                        <span>Last Login</span>
-                        <span className="text-muted-foreground">{format(new Date(Date.now() - 86400000), "yyyy-MM-dd HH:mm:ss")}</span>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-                
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-lg">Two-Factor Authentication</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="flex justify-between items-center">
-                      <div>
-                        <p>2FA Status for your account</p>
-                        <p className="text-sm text-muted-foreground">Enhance your account security with 2FA</p>
+        {visibleTabs.security && (
+          <TabsContent value="security" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Security Center</CardTitle>
+                <CardDescription>
+                  Monitor and manage system security settings.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-6">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">System Health</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span>Vote Encryption</span>
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span>Vote Integrity Checks</span>
+                          <Badge className="bg-green-100 text-green-800">Passing</Badge>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span>System Backup</span>
+                          <Badge className="bg-green-100 text-green-800">Up to Date</Badge>
+                        </div>
                       </div>
-                      <Badge variant="outline" className="bg-red-50 text-red-800">Not Enabled</Badge>
-                    </div>
-                    <div className="mt-4">
-                      <Button disabled>Configure 2FA</Button>
-                      <p className="text-xs text-muted-foreground mt-2">
-                        In a real implementation, this would allow you to enable and configure 2FA.
-                      </p>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+                    </CardContent>
+                  </Card>
+                  
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">Login History</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <LoginHistory userId={clubWideSecurity ? undefined : user?.id} />
+                    </CardContent>
+                  </Card>
+                  
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">Active Sessions</CardTitle>
+                      <CardDescription>
+                        Ending a session signs that device out within the hour.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ActiveSessions userId={clubWideSecurity ? undefined : user?.id} />
+                    </CardContent>
+                  </Card>
+                  
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg">Two-Factor Authentication</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      <TwoFactorSettings />
+                      {can(permissions, 'manage_settings') && (
+                        <div className="flex justify-between items-center gap-4 border-t pt-4">
+                          <div>
+                            <Label htmlFor="require-admin-2fa">Require two-factor authentication for admins and election officers</Label>
+                            <p className="text-sm text-muted-foreground">
+                              Staff without it cannot open this dashboard or change an election's status.
+                            </p>
+                          </div>
+                          <Switch
+                            id="require-admin-2fa"
+                            checked={clubSettings.requireAdminTwoFactor}
+                            onCheckedChange={(checked) => updateClubSettings({ requireAdminTwoFactor: checked })}
+                          />
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,9 @@
+
+import React from 'react';
+import BallotBoard from '@/components/BallotBoard';
+
+const BallotBoardPage = () => {
+  return <BallotBoard />;
+};
+
+export default BallotBoardPage;
@@ -4,9 +4,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import CreateElectionForm from '@/components/CreateElectionForm';
 import { toast } from '@/components/ui/use-toast';
+import { can } from '@/lib/permissions';
 
 const CreateElection = () => {
-  const { user, hasRole, profile } = useAuth();
+  const { user, profile, permissions, isLoading } = useAuth();
   const navigate = useNavigate();
   
   useEffect(() => {
@@ -16,10 +17,12 @@ const CreateElection = () => {
       userId: user?.id,
       userEmail: user?.email,
       profile: profile,
-      isAdmin: profile?.role === 'admin',
-      hasAdminRole: hasRole('admin')
+      canCreateElection: can(permissions, 'create_election')
     });
     
+    // Wait for the profile and its roles before deciding
+    if (isLoading || (user && !profile)) return;
+    
     // Only redirect if not admin
     if (!user) {
       console.log('Redirecting: User not logged in');
@@ -32,8 +35,8 @@ const CreateElection = () => {
       return;
     }
     
-    if (!hasRole('admin')) {
-      console.log('Redirecting: User does not have admin role');
+    if (!can(permissions, 'create_election')) {
+      console.log('Redirecting: User may not create elections');
       toast({
         title: "Permission denied",
         description: "Only administrators can create elections",
@@ -42,7 +45,7 @@ const CreateElection = () => {
       navigate('/');
       return;
     }
-  }, [user, hasRole, navigate]);
+  }, [user, profile, permissions, isLoading, navigate]);
   
   return <CreateElectionForm />;
 };
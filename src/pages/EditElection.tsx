@@ -0,0 +1,61 @@
+import React, { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useElections } from '@/contexts/ElectionContext';
+import { useNavigate, useParams } from 'react-router-dom';
+import CreateElectionForm from '@/components/CreateElectionForm';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { can } from '@/lib/permissions';
+
+const EditElection = () => {
+  const { user, profile, permissions, isLoading } = useAuth();
+  const { getElectionById, loading } = useElections();
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const election = getElectionById(id || '');
+  
+  useEffect(() => {
+    // Wait for the profile and its roles before deciding
+    if (isLoading || (user && !profile)) return;
+    if (!user) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to edit an election",
+        variant: "destructive"
+      });
+      navigate('/');
+      return;
+    }
+    
+    if (!can(permissions, 'edit_election', id)) {
+      toast({
+        title: "Permission denied",
+        description: "Only admins and the election's officers can edit it",
+        variant: "destructive"
+      });
+      navigate('/');
+    }
+  }, [user, profile, permissions, isLoading, id, navigate]);
+  
+  if (loading) {
+    return (
+      <div className="container max-w-3xl mx-auto py-8 text-center text-muted-foreground">
+        Loading election...
+      </div>
+    );
+  }
+  
+  if (!election) {
+    return (
+      <div className="container max-w-3xl mx-auto py-8 text-center">
+        <h2 className="text-2xl font-bold mb-4">Election Not Found</h2>
+        <Button onClick={() => navigate('/elections')}>Back to Elections</Button>
+      </div>
+    );
+  }
+  
+  // Keyed so the form starts again from the saved election if another is opened
+  return <CreateElectionForm key={election.id} election={election} />;
+};
+
+export default EditElection;
@@ -7,17 +7,21 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from "@/components/ui/button";
 import { useElections } from '@/contexts/ElectionContext';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { supabase, mapDatabaseElectionToAppElection } from '@/integrations/supabase/client';
+import { supabase, fetchElectionDetails } from '@/integrations/supabase/client';
 import { Election } from '@/types';
 import { Plus } from 'lucide-react';
 import ElectionCard from '@/components/ElectionCard';
 import { toast } from '@/components/ui/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
+import { can } from '@/lib/permissions';
 
 const Elections = () => {
-  const { user } = useAuth();
+  const { user, permissions } = useAuth();
   const navigate = useNavigate();
-  const isAdmin = user?.role === 'admin';
+  // Officers see the elections they run; only those who can create
+  // elections have elections of their own
+  const isStaff = can(permissions, 'view_admin_dashboard');
+  const isAdmin = can(permissions, 'create_election');
   const [adminElections, setAdminElections] = React.useState<Election[]>([]);
   const [loading, setLoading] = React.useState(true);
 
@@ -49,22 +53,8 @@ const Elections = () => {
           return;
         }
 
-        // For each election, fetch its candidates
-        const elections: Election[] = await Promise.all(
-          electionsData.map(async (election) => {
-            const { data: candidatesData, error: candidatesError } = await supabase
-              .from('candidates')
-              .select('*')
-              .eq('election_id', election.id);
-            
-            if (candidatesError) {
-              console.error(`Error fetching candidates for election ${election.id}:`, candidatesError);
-              return mapDatabaseElectionToAppElection(election, []);
-            }
-            
-            return mapDatabaseElectionToAppElection(election, candidatesData);
-          })
-        );
+        // For each election, fetch its contests and candidates
+        const elections: Election[] = await Promise.all(electionsData.map(fetchElectionDetails));
 
         setAdminElections(elections);
       } catch (error) {
@@ -148,7 +138,7 @@ const Elections = () => {
         </>
       )}
       
-      {isAdmin ? (
+      {isStaff ? (
         <ElectionsList />
       ) : (
         <SearchElection />
@@ -3,12 +3,20 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
+import { useElections } from '@/contexts/ElectionContext';
 import { useNavigate } from 'react-router-dom';
 import { User, LogOut, Shield } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ActiveSessions from '@/components/ActiveSessions';
+import LoginHistory from '@/components/LoginHistory';
+import EmailVerificationNotice from '@/components/EmailVerificationNotice';
+import { isEmailVerified } from '@/lib/accountAccess';
+import { ELECTION_ROLE_LABELS, USER_ROLE_LABELS, isAdminRole } from '@/lib/permissions';
 
 const ProfilePage = () => {
-  const { user, profile, logout, isLoading } = useAuth();
+  const { user, profile, permissions, logout, isLoading } = useAuth();
+  const { getElectionById } = useElections();
   const navigate = useNavigate();
   
   if (isLoading) {
@@ -41,9 +49,9 @@ const ProfilePage = () => {
                 <CardTitle className="text-2xl">{profile?.username || user.email}</CardTitle>
                 <CardDescription className="flex items-center gap-2 mt-1">
                   <Badge variant="outline" className={`
-                    ${profile?.role === 'admin' ? 'bg-vote-100 text-vote-800' : 'bg-blue-100 text-blue-800'}
+                    ${profile && isAdminRole(profile.role) ? 'bg-vote-100 text-vote-800' : 'bg-blue-100 text-blue-800'}
                   `}>
-                    {profile?.role === 'admin' ? 'Administrator' : 'Club Member'}
+                    {profile && isAdminRole(profile.role) ? 'Administrator' : 'Club Member'}
                   </Badge>
                 </CardDescription>
               </div>
@@ -61,13 +69,51 @@ const ProfilePage = () => {
                 
                 <div className="p-4 bg-slate-50 border rounded-md space-y-1">
                   <p className="text-sm text-muted-foreground">Email</p>
-                  <p className="font-medium">{user.email}</p>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{user.email}</p>
+                    {isEmailVerified(user) ? (
+                      <Badge variant="outline" className="bg-green-50 text-green-800">Verified</Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-800">Not verified</Badge>
+                    )}
+                  </div>
+                  {!isEmailVerified(user) && user.email && (
+                    <div className="pt-2">
+                      <EmailVerificationNotice email={user.email} />
+                    </div>
+                  )}
                 </div>
                 
                 <div className="p-4 bg-slate-50 border rounded-md space-y-1">
                   <p className="text-sm text-muted-foreground">Role</p>
-                  <p className="font-medium capitalize">{profile?.role || 'voter'}</p>
+                  <p className="font-medium">{USER_ROLE_LABELS[profile?.role ?? 'voter']}</p>
                 </div>
+                
+                {permissions && permissions.electionRoles.length > 0 && (
+                  <div className="p-4 bg-slate-50 border rounded-md space-y-1">
+                    <p className="text-sm text-muted-foreground">Election Roles</p>
+                    {permissions.electionRoles.map(assignment => (
+                      <p key={assignment.id} className="font-medium">
+                        {ELECTION_ROLE_LABELS[assignment.role]}, {getElectionById(assignment.electionId)?.title ?? 'Unknown election'}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+              
+              <div className="p-4 border rounded-md space-y-3">
+                <p className="font-medium">Two-Factor Authentication</p>
+                <TwoFactorSettings />
+              </div>
+              
+              <div className="p-4 border rounded-md space-y-3">
+                <p className="font-medium">Active Sessions</p>
+                <ActiveSessions userId={user.id} />
+              </div>
+              
+              <div className="p-4 border rounded-md space-y-3">
+                <p className="font-medium">Login History</p>
+                <LoginHistory userId={user.id} />
               </div>
               
               <div className="p-4 bg-secure-100 rounded-lg border border-secure-200 flex items-center">
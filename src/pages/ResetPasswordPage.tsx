@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRound, Lock } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import TwoFactorLoginStep from '@/components/TwoFactorLoginStep';
+import { PASSWORD_MIN_LENGTH, updatePassword } from '@/lib/accountAccess';
+
+// Where password reset emails lead. The link signs the member in; members
+// with two-factor authentication enter a code first, then choose a new
+// password. The form is only for sessions opened by the link; Auth's secure
+// password change (supabase/config.toml) makes other sessions that did not
+// sign in recently confirm a nonce sent by email before the password
+// changes.
+const ResetPasswordPage = () => {
+  const { session, isLoading, twoFactorPending, passwordRecovery } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        description: 'Enter the same new password twice',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updatePassword(password);
+      toast({
+        title: 'Password updated',
+        description: 'Use your new password next time you log in',
+      });
+      navigate('/');
+    } catch (error) {
+      console.error('Error updating password:', error);
+      toast({
+        title: 'Password not updated',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Don't render anything while the link's session is being read
+  if (isLoading) {
+    return null;
+  }
+
+  // Auth reports a used or expired link in the URL fragment
+  const linkError = new URLSearchParams(location.hash.slice(1)).get('error_description');
+  const canReset = !!session && passwordRecovery;
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
+      {session && twoFactorPending ? (
+        <TwoFactorLoginStep />
+      ) : (
+        <div className="w-full max-w-md">
+          <Card className="border-2 border-secure-200 shadow-lg">
+            <CardHeader className="space-y-1">
+              <div className="flex items-center justify-center mb-2">
+                <KeyRound className="h-12 w-12 text-vote-500" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-center">Choose a New Password</CardTitle>
+              <CardDescription className="text-center">
+                {canReset
+                  ? `For ${session.user.email}`
+                  : session
+                    ? 'Open the link in your password reset email to choose a new password.'
+                    : linkError ?? 'This reset link is invalid or has expired.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {canReset ? (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="new-password" className="font-medium">New password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="new-password"
+                        type="password"
+                        placeholder="Choose a new password"
+                        className="pl-10"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        disabled={isSaving}
+                        required
+                        minLength={PASSWORD_MIN_LENGTH}
+                        autoComplete="new-password"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="confirm-password" className="font-medium">Confirm new password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="confirm-password"
+                        type="password"
+                        placeholder="Enter it again"
+                        className="pl-10"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        disabled={isSaving}
+                        required
+                        minLength={PASSWORD_MIN_LENGTH}
+                        autoComplete="new-password"
+                      />
+                    </div>
+                  </div>
+                  <Button type="submit" className="w-full bg-vote-600 hover:bg-vote-700" disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Update Password'}
+                  </Button>
+                </form>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">
+                  Reset links work once and expire after an hour. Ask for a new one with "Forgot password?" on the
+                  login page{session ? ' after logging out' : ''}.
+                </p>
+              )}
+            </CardContent>
+            {!canReset && (
+              <CardFooter>
+                <Button asChild className="w-full bg-vote-600 hover:bg-vote-700">
+                  {session ? <Link to="/">Back to Home</Link> : <Link to="/login">Back to Login</Link>}
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -1,16 +1,97 @@
 
-export type UserRole = 'admin' | 'voter';
+// Club-wide roles. Super-admins can also grant and revoke the admin roles.
+export type UserRole = 'super_admin' | 'admin' | 'voter';
+
+// Roles a member can hold for a single election: officers run it, observers
+// may watch its turnout but not act
+export type ElectionRole = 'officer' | 'observer';
+
+export interface ElectionRoleAssignment {
+  id: string;
+  electionId: string;
+  userId: string;
+  role: ElectionRole;
+  assignedAt: Date;
+  assignedBy?: string; // admin ID
+}
+
+// Everything the permission policy (lib/permissions.ts) rules on
+export type PermissionAction =
+  | 'view_admin_dashboard'
+  | 'manage_members'
+  | 'manage_admins'
+  | 'assign_election_roles'
+  | 'create_election'
+  | 'edit_election'
+  | 'change_election_status'
+  | 'manage_voters'
+  | 'review_nominations'
+  | 'tally_election'
+  | 'view_turnout'
+  | 'view_audit_log'
+  | 'manage_settings'
+  | 'vote';
+
+// Club-wide settings, kept in a single row
+export interface ClubSettings {
+  requireAdminTwoFactor: boolean; // Staff need a second factor to open /admin or change an election's status
+  updatedAt?: Date;
+  updatedBy?: string; // admin ID
+}
 
 export interface User {
   id: string;
   email?: string;
 }
 
+// What a password sign-in led to: members with two-factor authentication
+// still have to enter a code from their authenticator app, and members who
+// have not followed the link in their verification email cannot sign in yet
+export type LoginResult = 'success' | 'two_factor_required' | 'email_not_verified' | 'failed';
+
+// What a sign-up led to: when the project confirms email addresses, the new
+// member is signed in only once they follow the link in their email
+export type SignUpResult = 'signed_in' | 'verification_required' | 'failed';
+
+export type LoginEventType = 'sign_in' | 'sign_out' | 'sign_in_failed' | 'token_refreshed';
+
+export interface LoginEvent {
+  id: string;
+  userId?: string; // Unset for failed sign-ins with an email that has no account
+  email?: string;
+  event: LoginEventType;
+  sessionId?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+// A Supabase Auth session, on one browser or device
+export interface ActiveSession {
+  id: string;
+  userId: string;
+  email?: string;
+  createdAt: Date; // When it signed in
+  lastActiveAt: Date; // When its token was last refreshed
+  userAgent?: string;
+  isCurrent: boolean; // The session making the request
+}
+
 export interface UserProfile {
   id: string;
   username?: string;
   role: UserRole;
   email?: string;
+  createdAt?: Date; // When the member registered
+  invitedAt?: Date; // Set for members an admin invited by email
+  invitedBy?: string; // admin ID
+  deactivatedAt?: Date; // Deactivated members cannot sign in
+  deactivatedBy?: string; // admin ID
+  deactivationReason?: string;
+}
+
+export interface CandidateLink {
+  label: string;
+  url: string;
 }
 
 export interface Candidate {
@@ -18,6 +99,29 @@ export interface Candidate {
   name: string;
   description?: string;
   photoUrl?: string;
+  manifesto?: string; // Markdown
+  links?: CandidateLink[];
+}
+
+// How voters mark their ballot and how the winners are found
+export type VotingMethod = 'plurality' | 'ranked_choice' | 'approval' | 'choose_n' | 'proposition';
+
+// How many Yes votes a proposition needs to pass
+export type PassThreshold = 'simple_majority' | 'two_thirds' | 'percent_of_eligible';
+
+// One question on an election's ballot, such as a single race
+export interface Contest {
+  id: string;
+  title: string;
+  description?: string;
+  position: number; // Order on the ballot, starting at 0
+  candidates: Candidate[];
+  votingMethod: VotingMethod;
+  seats: number; // Number of winners; more than one only for approval and choose-N
+  maxSelections?: number; // Most candidates a choose-N ballot may mark
+  passThreshold?: PassThreshold; // Propositions only; they have no candidates
+  thresholdPercent?: number; // Share of eligible voters for percent_of_eligible
+  quorumPercent?: number; // Share of eligible voters who must answer a proposition
 }
 
 export interface Election {
@@ -27,19 +131,111 @@ export interface Election {
   description: string;
   startDate: Date;
   endDate: Date;
-  candidates: Candidate[];
+  contests: Contest[]; // In ballot order
   status: 'upcoming' | 'active' | 'closed';
   registrationStatus: 'open' | 'closed';
+  registrationLeadMinutes: number; // Registration closes this long before startDate
+  nominationOpensAt?: Date; // Members can nominate themselves between these times
+  nominationClosesAt?: Date;
   createdBy: string; // admin ID
   createdAt: Date;
+  publicKey?: string; // JWK used by voters to encrypt their ballots
+  results?: ElectionTally; // Published once the ballots have been decrypted
+  resultsPublishedAt?: Date;
+}
+
+// What an admin fills in to create or edit an election
+export type ElectionDraft = Omit<Election, 'id' | 'createdBy' | 'createdAt' | 'status' | 'electionCode' | 'registrationStatus'>;
+
+// A voter's marks in one contest
+export interface PluralityBallot {
+  candidateId: string;
+}
+
+export interface RankedBallot {
+  rankings: string[]; // Candidate IDs, most preferred first
+}
+
+// Approval and choose-N ballots: every candidate the voter marked
+export interface ApprovalBallot {
+  candidateIds: string[];
+}
+
+export type PropositionChoice = 'yes' | 'no' | 'abstain';
+
+export interface PropositionBallot {
+  choice: PropositionChoice;
+}
+
+export type ContestBallot = PluralityBallot | RankedBallot | ApprovalBallot | PropositionBallot;
+
+// The decrypted contents of a ballot. A contest the voter skipped is absent.
+export interface Ballot {
+  contests: Record<string, ContestBallot>; // contest ID -> marks
+}
+
+// One round of an instant-runoff count
+export interface InstantRunoffRound {
+  round: number;
+  counts: Record<string, number>; // continuing candidate ID -> votes this round
+  exhausted: number; // Ballots with no continuing candidate left, so far
+  eliminated: string[]; // Candidates eliminated at the end of this round
+  tiebreak?: 'earlier_rounds' | 'ballot_order'; // How a tie for last place was settled
+  transfers: Record<string, number>; // Votes the eliminated candidates' ballots pass to each candidate
+  exhaustedTransfers: number; // Ballots from eliminated candidates with no further preference
+  winnerId?: string; // Set on the final round when a candidate wins
+}
+
+export interface ContestTally {
+  counts: Record<string, number>; // candidate ID -> votes (first preferences for ranked-choice; yes/no/abstain for propositions)
+  validBallots: number; // Ballots with valid marks in this contest
+  blankBallots: number; // Ballots that skipped this contest
+  invalidBallots: number; // Marks that do not fit the contest's voting method
+  rounds?: InstantRunoffRound[]; // Ranked-choice contests only
+}
+
+export interface ElectionTally {
+  totalBallots: number;
+  invalidBallots: number; // Ballots that could not be decrypted at all
+  eligibleVoters?: number; // Voter codes issued when the ballots were tallied
+  contests: Record<string, ContestTally>; // contest ID -> tally
 }
 
 export interface Vote {
   id: string;
   electionId: string;
-  candidateId: string;
-  timestamp: Date;
-  // No voter ID stored here to ensure anonymity
+  encryptedBallot: string;
+  ballotHash?: string; // SHA-256 of the encrypted ballot, given to the voter as a receipt
+  // No voter ID or cast time stored here to ensure anonymity
+}
+
+// Reasons the cast_vote database function can reject a ballot
+export type CastVoteFailureReason =
+  | 'not_authenticated'
+  | 'staff_cannot_vote'
+  | 'election_not_found'
+  | 'election_not_active'
+  | 'election_not_encrypted'
+  | 'invalid_ballot'
+  | 'not_approved'
+  | 'invalid_code'
+  | 'code_already_used'
+  | 'code_revoked'
+  | 'code_expired'
+  | 'already_voted';
+
+export interface CastVoteResult {
+  success: boolean;
+  reason?: CastVoteFailureReason;
+  voteId?: string;
+  ballotHash?: string;
+}
+
+// Proof for a voter that their ballot was recorded, checkable on the bulletin board
+export interface VoteReceipt {
+  electionId: string;
+  ballotHash: string;
+  castAt: Date;
 }
 
 export interface VoterRecord {
@@ -50,23 +246,76 @@ export interface VoterRecord {
   // This separates the vote itself from the voter identity
 }
 
+export type AuditAction =
+  | 'login'
+  | 'logout'
+  | 'vote_cast'
+  | 'election_created'
+  | 'election_updated'
+  | 'election_started'
+  | 'election_closed'
+  | 'election_registration_updated'
+  | 'election_tallied'
+  | 'candidate_name_updated'
+  | 'nomination_submitted'
+  | 'nomination_seconded'
+  | 'nomination_declined'
+  | 'nomination_accepted'
+  | 'nomination_rejected'
+  | 'user_registered'
+  | 'member_invited'
+  | 'member_role_changed'
+  | 'member_deactivated'
+  | 'member_reactivated'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'recovery_codes_regenerated'
+  | 'recovery_code_used'
+  | 'club_settings_changed'
+  | 'session_revoked'
+  | 'election_role_assigned'
+  | 'election_role_removed'
+  | 'voter_registration_approved'
+  | 'voter_registration_rejected'
+  | 'voter_codes_generated'
+  | 'voter_codes_emailed'
+  | 'voter_code_revoked'
+  | 'voter_code_expiry_set'
+  | 'voter_code_reissued';
+
 export interface AuditLog {
   id: string;
-  action: 'login' | 'logout' | 'vote_cast' | 'election_created' | 'election_closed' | 'user_registered';
+  seq: number; // Position in the hash chain
+  action: AuditAction;
   userId?: string; // Optional for anonymous actions
+  electionId?: string;
   details: string;
   timestamp: Date;
   ipAddress?: string;
+  prevHash: string; // Hash of the previous entry, or all zeros for the first
+  hash: string;
 }
 
+// Where a voter code stands: expired codes are those past their expiresAt
+export type VoterCodeStatus = 'available' | 'used' | 'revoked' | 'expired';
+
+// The outcome of checking a code a voter entered for an election
+export type VoterCodeCheck = 'valid' | 'invalid' | 'used' | 'revoked' | 'expired';
+
 export interface VoterCode {
   code: string;
   electionId: string;
   isUsed: boolean;
   email?: string;
+  name?: string; // Member name, for codes imported from the voter roll
   createdAt: Date;
   usedAt?: Date;
   createdBy: string; // admin who created this code
+  expiresAt?: Date; // The code cannot be used after this time
+  revokedAt?: Date;
+  revokedBy?: string; // admin ID
+  revokeReason?: string;
+  reissuedFrom?: string; // The code this one replaced
 }
 
 export interface VoterRegistration {
@@ -80,3 +329,48 @@ export interface VoterRegistration {
   reviewedBy?: string; // admin ID
   voterCodeId?: string; // ID of the assigned voter code
 }
+
+export type EmailTemplate = 'invitation' | 'approval' | 'rejection' | 'reminder';
+
+export type EmailStatus = 'queued' | 'sent' | 'failed';
+
+// An email sent to a member about an election, usually carrying their voter
+// code. The body is rendered from the template each time it is sent.
+export interface EmailMessage {
+  id: string;
+  electionId: string;
+  voterCode?: string;
+  template: EmailTemplate;
+  recipientEmail: string;
+  recipientName?: string;
+  subject: string;
+  status: EmailStatus;
+  provider?: string; // Mail provider of the latest attempt
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  createdBy: string;
+  sentAt?: Date;
+}
+
+// A member's nomination of themselves as a candidate. The named seconder
+// confirms it, then an admin accepts it onto the ballot or rejects it.
+export type NominationStatus = 'awaiting_seconder' | 'declined' | 'pending' | 'accepted' | 'rejected';
+
+export interface Nomination {
+  id: string;
+  electionId: string;
+  contestId: string;
+  nomineeId: string;
+  nomineeName: string;
+  statement: string;
+  seconderEmail: string;
+  seconderId?: string; // Set once the member signed in with seconderEmail answers
+  status: NominationStatus;
+  submittedAt: Date;
+  secondedAt?: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string; // admin ID
+  reviewNote?: string;
+  candidateId?: string; // The candidate created when the nomination was accepted
+}
@@ -0,0 +1,98 @@
+import { escapeHtml } from './html.ts';
+
+// The email templates, shared by the app and the send-email edge function.
+// The function renders what it sends from the stored message, so callers
+// cannot choose a message's content; the app renders the same templates for
+// the subject it records and for the local outbox. This module must not
+// import anything from the app.
+
+// As EmailTemplate in src/types, which the app uses
+export type EmailTemplate = 'invitation' | 'approval' | 'rejection' | 'reminder';
+
+export interface EmailTemplateData {
+  recipientName?: string;
+  electionTitle: string;
+  electionCode: string; // The election ID members search for
+  accessUrl: string; // Where members enter their code
+  startDate: Date;
+  endDate: Date;
+  voterCode?: string;
+  timeZone?: string; // IANA zone for the dates; the runtime's own when unset
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Intl rather than a date library, so the module runs unchanged in Deno
+const formatDate = (date: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeStyle: 'short', timeZone }).format(date);
+
+const formatDay = (date: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', timeZone }).format(date);
+
+// Each template is a subject and paragraphs, with the voter code and how to
+// use it placed after the first paragraph when the template carries one
+const TEMPLATES: Record<EmailTemplate, (data: EmailTemplateData) => { subject: string; paragraphs: string[]; withCode: boolean }> = {
+  invitation: (data) => ({
+    subject: `Your voter code for ${data.electionTitle}`,
+    paragraphs: [
+      `You are invited to vote in ${data.electionTitle}. Voting opens on ${formatDate(data.startDate, data.timeZone)} and closes on ${formatDate(data.endDate, data.timeZone)}.`,
+    ],
+    withCode: true,
+  }),
+  approval: (data) => ({
+    subject: `Your registration for ${data.electionTitle} has been approved`,
+    paragraphs: [
+      `Your registration to vote in ${data.electionTitle} has been approved. Voting opens on ${formatDate(data.startDate, data.timeZone)} and closes on ${formatDate(data.endDate, data.timeZone)}.`,
+    ],
+    withCode: true,
+  }),
+  rejection: (data) => ({
+    subject: `Your registration for ${data.electionTitle}`,
+    paragraphs: [
+      `Your registration to vote in ${data.electionTitle} was not approved.`,
+      'If you believe this is a mistake, please contact the election administrator.',
+    ],
+    withCode: false,
+  }),
+  reminder: (data) => ({
+    subject: `Reminder: voting in ${data.electionTitle} closes ${formatDay(data.endDate, data.timeZone)}`,
+    paragraphs: [
+      `You have not yet voted in ${data.electionTitle}. Voting closes on ${formatDate(data.endDate, data.timeZone)}.`,
+    ],
+    withCode: true,
+  }),
+};
+
+export const renderEmail = (template: EmailTemplate, data: EmailTemplateData): RenderedEmail => {
+  const { subject, paragraphs, withCode } = TEMPLATES[template](data);
+  const greeting = data.recipientName ? `Hello ${data.recipientName},` : 'Hello,';
+  const [opening, ...rest] = paragraphs;
+
+  const codeSteps = withCode && data.voterCode
+    ? [
+        `Your voter code is: ${data.voterCode}`,
+        `To vote, go to ${data.accessUrl}, search for the election ID ${data.electionCode} and enter your voter code. The code can only be used once, so please keep it to yourself.`,
+      ]
+    : [];
+
+  const text = [greeting, opening, ...codeSteps, ...rest].join('\n\n') + '\n';
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(opening)}</p>`,
+    ...(codeSteps.length > 0
+      ? [
+          `<p>Your voter code is:</p>`,
+          `<p style="font-family: monospace; font-size: 20px; font-weight: bold; letter-spacing: 2px;">${escapeHtml(data.voterCode)}</p>`,
+          `<p>To vote, go to <a href="${escapeHtml(data.accessUrl)}">${escapeHtml(data.accessUrl)}</a>, search for the election ID <strong>${escapeHtml(data.electionCode)}</strong> and enter your voter code. The code can only be used once, so please keep it to yourself.</p>`,
+        ]
+      : []),
+    ...rest.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+  ].join('\n');
+
+  return { subject, text, html };
+};
@@ -0,0 +1,3 @@
+// Escape text for use in HTML content and attribute values
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -0,0 +1,104 @@
+// Member account changes that need the service role.
+//
+// Called by the admin Users tab (src/lib/members.ts) with one of:
+//
+//   { action: "invite", email, username?, role, redirectTo }
+//   { action: "deactivate", userId, reason? }
+//   { action: "reactivate", userId }
+//
+// Each change is first recorded through a database function called with
+// the admin's own session, which checks they may make it and writes the
+// audit log entry. The function then sends the invitation, or bans or
+// unbans the member's auth account so a deactivated member cannot sign in.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Supabase bans for a duration; this is long enough to mean "until reactivated"
+const DEACTIVATED_BAN_DURATION = "876000h";
+
+const ROLES = ["super_admin", "admin", "voter"];
+const ADMIN_ROLES = ["super_admin", "admin"];
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { autoRefreshToken: false, persistSession: false },
+});
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return json(401, { error: "Sign in to manage members" });
+
+  const { data: canManage } = await supabase.rpc("can", { action: "manage_members" });
+  if (!canManage) return json(403, { error: "Only admins can manage members" });
+
+  let request: { action?: unknown; userId?: unknown; reason?: unknown; email?: unknown; username?: unknown; role?: unknown; redirectTo?: unknown };
+  try {
+    request = await req.json();
+  } catch {
+    return json(400, { error: "The request body must be JSON" });
+  }
+
+  if (request.action === "deactivate" || request.action === "reactivate") {
+    if (typeof request.userId !== "string") return json(400, { error: "A userId is needed" });
+    const active = request.action === "reactivate";
+
+    const { error } = await supabase.rpc("set_member_active", {
+      user_id: request.userId,
+      active,
+      reason: typeof request.reason === "string" ? request.reason : null,
+    });
+    if (error) return json(400, { error: error.message });
+
+    const { error: banError } = await admin.auth.admin.updateUserById(request.userId, {
+      ban_duration: active ? "none" : DEACTIVATED_BAN_DURATION,
+    });
+    if (banError) {
+      console.error("Updating the member's sign-in failed:", banError);
+      return json(502, { error: `The account was marked ${active ? "active" : "deactivated"}, but sign-in could not be ${active ? "restored" : "blocked"}: ${banError.message}` });
+    }
+    return json(200, { userId: request.userId });
+  }
+
+  if (request.action === "invite") {
+    if (typeof request.email !== "string" || !request.email.includes("@")) {
+      return json(400, { error: "A valid email is needed" });
+    }
+    const role = typeof request.role === "string" && ROLES.includes(request.role) ? request.role : "voter";
+    // Checked here as well as when recording, so no email goes out first
+    if (ADMIN_ROLES.includes(role)) {
+      const { data: canManageAdmins } = await supabase.rpc("can", { action: "manage_admins" });
+      if (!canManageAdmins) return json(403, { error: "Only super-admins can invite admins" });
+    }
+
+    const { data, error } = await admin.auth.admin.inviteUserByEmail(request.email.trim(), {
+      data: typeof request.username === "string" && request.username.trim() ? { username: request.username.trim() } : undefined,
+      redirectTo: typeof request.redirectTo === "string" ? request.redirectTo : undefined,
+    });
+    if (error) return json(400, { error: error.message });
+
+    const { error: recordError } = await supabase.rpc("record_member_invitation", { user_id: data.user.id, new_role: role });
+    if (recordError) {
+      console.error("Recording the invitation failed:", recordError);
+      return json(502, { error: `The invitation was sent, but could not be recorded: ${recordError.message}` });
+    }
+    return json(200, { userId: data.user.id });
+  }
+
+  return json(400, { error: "Unknown action" });
+});
@@ -0,0 +1,167 @@
+// Where members are signed in, and signing out the member's other sessions.
+//
+// Called by the app (src/lib/loginHistory.ts) with one of:
+//
+//   { action: "list", memberId? }   the member's own sessions, or memberId's
+//                                   or every member's for admins
+//   { action: "sign_out_others" }   ends all of the caller's sessions but
+//                                   the one making the request
+//
+// Auth's tables are not ours to read or write, and the Auth admin API
+// neither lists sessions nor ends one session by id. Sessions are worked
+// out from the login_events the app records, read with the caller's own
+// session so the table's policies decide whose they see. Other sessions
+// are ended through the Auth admin API's sign-out, which revokes their
+// refresh tokens, and recorded as signed out. Admins cut a member off
+// everywhere by deactivating them (see manage-members). It needs no
+// secrets beyond the ones Supabase provides.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { autoRefreshToken: false, persistSession: false },
+});
+
+interface LoginEventRow {
+  user_id: string | null;
+  email: string | null;
+  event: string;
+  session_id: string;
+  user_agent: string | null;
+  created_at: string;
+}
+
+interface Session {
+  id: string;
+  user_id: string | null;
+  email: string | null;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  is_current: boolean;
+}
+
+// The session id Auth put in the caller's access token. getUser() has
+// already checked the token with Auth.
+const sessionIdOf = (jwt: string): string | null => {
+  try {
+    const payload = jwt.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)).session_id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Sessions that signed in and have not signed out, most recently active
+// first. events must be newest first.
+const openSessions = (events: LoginEventRow[], currentSessionId: string | null): Session[] => {
+  const sessions = new Map<string, Session & { ended: boolean }>();
+  for (const event of events) {
+    let session = sessions.get(event.session_id);
+    if (!session) {
+      session = {
+        id: event.session_id,
+        user_id: event.user_id,
+        email: event.email,
+        created_at: event.created_at,
+        last_active_at: event.created_at,
+        user_agent: event.user_agent,
+        is_current: event.session_id === currentSessionId,
+        ended: false,
+      };
+      sessions.set(event.session_id, session);
+    }
+    session.created_at = event.created_at;
+    if (event.event === "sign_out") session.ended = true;
+  }
+  return [...sessions.values()]
+    .filter(session => !session.ended)
+    .map(({ ended: _ended, ...session }) => session);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  const jwt = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: `Bearer ${jwt}` } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return json(401, { error: "Sign in to see your sessions" });
+  const currentSessionId = sessionIdOf(jwt);
+
+  let request: { action?: unknown; memberId?: unknown };
+  try {
+    request = await req.json();
+  } catch {
+    return json(400, { error: "The request body must be JSON" });
+  }
+
+  const loadSessions = async (memberId: string | null) => {
+    let query = supabase
+      .from("login_events")
+      .select("user_id, email, event, session_id, user_agent, created_at")
+      .not("session_id", "is", null)
+      .in("event", ["sign_in", "token_refreshed", "sign_out"])
+      .order("created_at", { ascending: false });
+    if (memberId) query = query.eq("user_id", memberId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return openSessions(data as LoginEventRow[], currentSessionId);
+  };
+
+  if (request.action === "list") {
+    const memberId = typeof request.memberId === "string" ? request.memberId : null;
+    if (memberId !== user.id) {
+      const { data: canManage } = await supabase.rpc("can", { action: "manage_members" });
+      if (!canManage) return json(403, { error: "Only admins can see other members' sessions" });
+    }
+    try {
+      return json(200, { sessions: await loadSessions(memberId) });
+    } catch (error) {
+      console.error("Reading login events failed:", error);
+      return json(500, { error: "Sessions could not be loaded" });
+    }
+  }
+
+  if (request.action === "sign_out_others") {
+    let others: Session[];
+    try {
+      others = (await loadSessions(user.id)).filter(session => !session.is_current);
+    } catch (error) {
+      console.error("Reading login events failed:", error);
+      return json(500, { error: "Sessions could not be loaded" });
+    }
+
+    const { error } = await admin.auth.admin.signOut(jwt, "others");
+    if (error) return json(400, { error: error.message });
+
+    if (others.length > 0) {
+      const { error: recordError } = await admin.from("login_events").insert(
+        others.map(session => ({
+          user_id: user.id,
+          email: user.email,
+          event: "sign_out",
+          session_id: session.id,
+          user_agent: session.user_agent,
+        })),
+      );
+      if (recordError) console.error("Recording the ended sessions failed:", recordError);
+    }
+    return json(200, { ended: others.length });
+  }
+
+  return json(400, { error: "Unknown action" });
+});
@@ -0,0 +1,69 @@
+// Signs a member in with a recovery code instead of their authenticator.
+//
+// Called by the app (src/lib/twoFactor.ts) with the SHA-256 hash of the
+// code: { code_hash }. The code is spent through a database function called
+// with the member's own session, which checks it and writes the audit log
+// entry. The function then removes the member's authenticator factors
+// through the Auth admin API, since Auth's tables are not ours to write,
+// and clears their remaining recovery codes. It needs no secrets beyond the
+// ones Supabase provides.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { autoRefreshToken: false, persistSession: false },
+});
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return json(401, { error: "Sign in to use a recovery code" });
+
+  let request: { code_hash?: unknown };
+  try {
+    request = await req.json();
+  } catch {
+    return json(400, { error: "The request body must be JSON" });
+  }
+  if (typeof request.code_hash !== "string") return json(400, { error: "A code_hash is needed" });
+
+  const { data: redeemed, error } = await supabase.rpc("redeem_recovery_code", { code_hash: request.code_hash });
+  if (error) return json(400, { error: error.message });
+  if (!redeemed) return json(400, { error: "That recovery code is unknown or has already been used" });
+
+  // The code is spent now; if removing the factors fails the member can
+  // try again with another of their codes
+  const { data: factors, error: listError } = await admin.auth.admin.mfa.listFactors({ userId: user.id });
+  if (listError) {
+    console.error("Listing the member's factors failed:", listError);
+    return json(502, { error: `The recovery code was accepted, but your authenticator could not be removed: ${listError.message}` });
+  }
+  for (const factor of factors.factors) {
+    const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+    if (deleteError) {
+      console.error("Removing a factor failed:", deleteError);
+      return json(502, { error: `The recovery code was accepted, but your authenticator could not be removed: ${deleteError.message}` });
+    }
+  }
+
+  const { error: clearError } = await supabase.rpc("clear_recovery_codes");
+  if (clearError) console.error("Clearing the remaining recovery codes failed:", clearError);
+
+  return json(200, { userId: user.id });
+});
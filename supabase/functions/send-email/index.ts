@@ -0,0 +1,129 @@
+// Sends one recorded email message over the club's SMTP server.
+//
+// Called by the app's SMTP mail provider (src/lib/email.ts) with the id of
+// an email_messages row: { message_id }. The caller must be allowed to
+// manage the voters of the message's election. The function renders the
+// message itself from its template, the election and the voter code, and
+// sends it to the message's recipient, so callers cannot choose what is
+// sent or to whom beyond what the message records. It is configured with
+// these function secrets:
+//
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASSWORD,
+//   SMTP_FROM (e.g. "Club Elections <elections@example.org>"),
+//   APP_URL (the app's address, e.g. "https://elections.example.org"),
+//   EMAIL_TIME_ZONE (optional, e.g. "Europe/London"; dates are in UTC otherwise)
+//
+// Port 465 uses implicit TLS; other ports upgrade with STARTTLS.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import nodemailer from "npm:nodemailer@6";
+import { renderEmail } from "../_shared/emailTemplates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const port = Number(Deno.env.get("SMTP_PORT") ?? "587");
+
+const transport = nodemailer.createTransport({
+  host: Deno.env.get("SMTP_HOST"),
+  port,
+  secure: port === 465,
+  auth: Deno.env.get("SMTP_USER")
+    ? { user: Deno.env.get("SMTP_USER"), pass: Deno.env.get("SMTP_PASSWORD") }
+    : undefined,
+});
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  // Read the message as the caller, so the database's permission checks
+  // see who they are
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return json(401, { error: "Sign in to send email" });
+
+  let request: { message_id?: unknown };
+  try {
+    request = await req.json();
+  } catch {
+    return json(400, { error: "The request body must be JSON" });
+  }
+  if (typeof request.message_id !== "string") return json(400, { error: "A message_id is needed" });
+
+  const { data: message } = await supabase
+    .from("email_messages")
+    .select("*")
+    .eq("id", request.message_id)
+    .maybeSingle();
+  if (!message) return json(404, { error: "Message not found" });
+
+  const { data: canSend } = await supabase.rpc("can", { action: "manage_voters", election_id: message.election_id });
+  if (!canSend) return json(403, { error: "Only admins and the election's officers can send its email" });
+
+  const { data: election } = await supabase
+    .from("elections")
+    .select("title, election_code, start_date, end_date")
+    .eq("id", message.election_id)
+    .single();
+  if (!election) return json(404, { error: "Election not found" });
+
+  // A voter code only goes to the election's voter it was issued to
+  if (message.voter_code) {
+    const { data: code } = await supabase
+      .from("voter_codes")
+      .select("election_id, email")
+      .eq("code", message.voter_code)
+      .maybeSingle();
+    if (
+      !code ||
+      code.election_id !== message.election_id ||
+      (code.email && code.email.toLowerCase() !== message.recipient_email.toLowerCase())
+    ) {
+      return json(403, { error: "This voter code was not issued to the message's recipient" });
+    }
+  } else {
+    // Messages without a code answer a registration, so go to a registrant
+    const { count } = await supabase
+      .from("voter_registrations")
+      .select("id", { count: "exact", head: true })
+      .eq("election_id", message.election_id)
+      .ilike("email", message.recipient_email.replace(/[\\%_]/g, "\\$&"));
+    if (!count) return json(403, { error: "The message's recipient has not registered for this election" });
+  }
+
+  const email = renderEmail(message.template, {
+    recipientName: message.recipient_name ?? undefined,
+    electionTitle: election.title,
+    electionCode: election.election_code,
+    accessUrl: `${Deno.env.get("APP_URL")}/elections`,
+    startDate: new Date(election.start_date),
+    endDate: new Date(election.end_date),
+    voterCode: message.voter_code ?? undefined,
+    timeZone: Deno.env.get("EMAIL_TIME_ZONE") ?? "UTC",
+  });
+
+  try {
+    const info = await transport.sendMail({
+      from: Deno.env.get("SMTP_FROM"),
+      to: message.recipient_email,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+    return json(200, { messageId: info.messageId });
+  } catch (error) {
+    console.error("SMTP delivery failed:", error);
+    return json(502, { error: error instanceof Error ? error.message : "SMTP delivery failed" });
+  }
+});
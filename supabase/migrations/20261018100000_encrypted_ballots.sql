@@ -0,0 +1,118 @@
+-- Client-side ballot encryption.
+--
+-- Each election stores the public half of its key pair. Ballots arrive
+-- already encrypted, so votes no longer carry a plaintext candidate. Once an
+-- election closes, its administrator decrypts the ballots with the private
+-- key and publishes the tally on the election row.
+
+alter table public.elections
+  add column if not exists public_key text,
+  add column if not exists results jsonb,
+  add column if not exists results_published_at timestamptz;
+
+alter table public.votes
+  add column if not exists encrypted_ballot text;
+
+alter table public.votes
+  alter column candidate_id drop not null;
+
+drop function if exists public.cast_vote(uuid, uuid, text);
+
+create or replace function public.cast_vote(
+  election_id uuid,
+  encrypted_ballot text,
+  voter_code text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_code public.voter_codes%rowtype;
+  v_vote_id uuid;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'reason', 'not_authenticated');
+  end if;
+
+  if exists (select 1 from public.profiles p where p.id = v_user_id and p.role = 'admin') then
+    return jsonb_build_object('success', false, 'reason', 'admin_cannot_vote');
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = cast_vote.election_id
+  for share;
+
+  if not found then
+    return jsonb_build_object('success', false, 'reason', 'election_not_found');
+  end if;
+
+  if v_election.status <> 'active' then
+    return jsonb_build_object('success', false, 'reason', 'election_not_active');
+  end if;
+
+  if v_election.public_key is null then
+    return jsonb_build_object('success', false, 'reason', 'election_not_encrypted');
+  end if;
+
+  if coalesce(length(cast_vote.encrypted_ballot), 0) = 0 then
+    return jsonb_build_object('success', false, 'reason', 'invalid_ballot');
+  end if;
+
+  if not exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = cast_vote.election_id
+      and r.status = 'approved'
+      and lower(r.email) = lower(v_email)
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'not_approved');
+  end if;
+
+  -- Lock the code row so concurrent casts with the same code serialize here
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = cast_vote.voter_code and vc.election_id = cast_vote.election_id
+  for update;
+
+  if not found or (v_code.email is not null and lower(v_code.email) <> lower(v_email)) then
+    return jsonb_build_object('success', false, 'reason', 'invalid_code');
+  end if;
+
+  if v_code.is_used then
+    return jsonb_build_object('success', false, 'reason', 'code_already_used');
+  end if;
+
+  if exists (
+    select 1 from public.voter_records vr
+    where vr.voter_id = v_user_id and vr.election_id = cast_vote.election_id
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end if;
+
+  begin
+    insert into public.votes (election_id, encrypted_ballot)
+    values (cast_vote.election_id, cast_vote.encrypted_ballot)
+    returning id into v_vote_id;
+
+    insert into public.voter_records (voter_id, election_id, has_voted, timestamp)
+    values (v_user_id, cast_vote.election_id, true, now());
+
+    update public.voter_codes vc
+    set is_used = true, used_at = now()
+    where vc.code = cast_vote.voter_code;
+  exception
+    when unique_violation then
+      return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end;
+
+  return jsonb_build_object('success', true, 'vote_id', v_vote_id);
+end;
+$$;
+
+revoke all on function public.cast_vote(uuid, text, text) from public, anon;
+grant execute on function public.cast_vote(uuid, text, text) to authenticated;
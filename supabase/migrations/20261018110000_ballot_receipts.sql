@@ -0,0 +1,122 @@
+-- Verifiable ballot receipts.
+--
+-- Every ballot is identified by the SHA-256 hash of its encrypted contents.
+-- cast_vote() returns the hash to the voter as a receipt, and the public
+-- ballot_board view lists every hash per election, without timestamps or
+-- anything else that could link a ballot to a voter.
+
+alter table public.votes
+  add column if not exists ballot_hash text;
+
+update public.votes
+set ballot_hash = encode(sha256(convert_to(encrypted_ballot, 'UTF8')), 'hex')
+where encrypted_ballot is not null and ballot_hash is null;
+
+create index if not exists votes_election_ballot_hash_idx
+  on public.votes (election_id, ballot_hash);
+
+create or replace view public.ballot_board as
+  select v.election_id, v.ballot_hash
+  from public.votes v
+  where v.ballot_hash is not null;
+
+grant select on public.ballot_board to anon, authenticated;
+
+create or replace function public.cast_vote(
+  election_id uuid,
+  encrypted_ballot text,
+  voter_code text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_code public.voter_codes%rowtype;
+  v_vote_id uuid;
+  v_ballot_hash text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'reason', 'not_authenticated');
+  end if;
+
+  if exists (select 1 from public.profiles p where p.id = v_user_id and p.role = 'admin') then
+    return jsonb_build_object('success', false, 'reason', 'admin_cannot_vote');
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = cast_vote.election_id
+  for share;
+
+  if not found then
+    return jsonb_build_object('success', false, 'reason', 'election_not_found');
+  end if;
+
+  if v_election.status <> 'active' then
+    return jsonb_build_object('success', false, 'reason', 'election_not_active');
+  end if;
+
+  if v_election.public_key is null then
+    return jsonb_build_object('success', false, 'reason', 'election_not_encrypted');
+  end if;
+
+  if coalesce(length(cast_vote.encrypted_ballot), 0) = 0 then
+    return jsonb_build_object('success', false, 'reason', 'invalid_ballot');
+  end if;
+
+  if not exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = cast_vote.election_id
+      and r.status = 'approved'
+      and lower(r.email) = lower(v_email)
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'not_approved');
+  end if;
+
+  -- Lock the code row so concurrent casts with the same code serialize here
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = cast_vote.voter_code and vc.election_id = cast_vote.election_id
+  for update;
+
+  if not found or (v_code.email is not null and lower(v_code.email) <> lower(v_email)) then
+    return jsonb_build_object('success', false, 'reason', 'invalid_code');
+  end if;
+
+  if v_code.is_used then
+    return jsonb_build_object('success', false, 'reason', 'code_already_used');
+  end if;
+
+  if exists (
+    select 1 from public.voter_records vr
+    where vr.voter_id = v_user_id and vr.election_id = cast_vote.election_id
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end if;
+
+  v_ballot_hash := encode(sha256(convert_to(cast_vote.encrypted_ballot, 'UTF8')), 'hex');
+
+  begin
+    insert into public.votes (election_id, encrypted_ballot, ballot_hash)
+    values (cast_vote.election_id, cast_vote.encrypted_ballot, v_ballot_hash)
+    returning id into v_vote_id;
+
+    insert into public.voter_records (voter_id, election_id, has_voted, timestamp)
+    values (v_user_id, cast_vote.election_id, true, now());
+
+    update public.voter_codes vc
+    set is_used = true, used_at = now()
+    where vc.code = cast_vote.voter_code;
+  exception
+    when unique_violation then
+      return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end;
+
+  return jsonb_build_object('success', true, 'vote_id', v_vote_id, 'ballot_hash', v_ballot_hash);
+end;
+$$;
@@ -0,0 +1,123 @@
+-- Tamper-evident audit log.
+--
+-- Entries are appended only through append_audit_log(), which links each
+-- entry to the previous one by hash. The hash covers a length-prefixed
+-- payload of the entry's fields (see audit_log_payload), which the admin
+-- dashboard recomputes in the browser to verify the chain.
+
+create table if not exists public.audit_logs (
+  id uuid primary key default gen_random_uuid(),
+  seq bigint generated always as identity unique,
+  action text not null,
+  user_id uuid,
+  -- Deliberately not a foreign key: deleting an election must not rewrite
+  -- (and so break) the entries that mention it
+  election_id uuid,
+  details text not null,
+  ip_address text,
+  created_at timestamptz not null default date_trunc('milliseconds', now()),
+  prev_hash text not null unique,
+  hash text not null unique
+);
+
+create index if not exists audit_logs_created_at_idx on public.audit_logs (created_at);
+create index if not exists audit_logs_election_id_idx on public.audit_logs (election_id);
+
+alter table public.audit_logs enable row level security;
+
+create policy "Admins can read audit logs"
+  on public.audit_logs
+  for select
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'));
+
+revoke insert, update, delete on public.audit_logs from anon, authenticated;
+
+-- The exact bytes that are hashed for an entry: each field as
+-- "<utf8 byte length>:<value>", joined with "|", timestamps in UTC ISO 8601
+create or replace function public.audit_log_payload(
+  prev_hash text,
+  id uuid,
+  action text,
+  user_id uuid,
+  election_id uuid,
+  details text,
+  created_at timestamptz
+)
+returns text
+language sql
+immutable
+as $$
+  select string_agg(octet_length(f)::text || ':' || f, '|' order by ord)
+  from unnest(array[
+    prev_hash,
+    id::text,
+    action,
+    coalesce(user_id::text, ''),
+    coalesce(election_id::text, ''),
+    details,
+    to_char(created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  ]) with ordinality as t(f, ord);
+$$;
+
+create or replace function public.append_audit_log(
+  action text,
+  details text,
+  election_id uuid default null
+)
+returns public.audit_logs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.audit_logs%rowtype;
+begin
+  -- Serialize appends so every entry links to the one before it
+  perform pg_advisory_xact_lock(hashtext('public.audit_logs'));
+
+  select a.hash into v_entry.prev_hash
+  from public.audit_logs a
+  order by a.seq desc
+  limit 1;
+
+  v_entry.prev_hash := coalesce(v_entry.prev_hash, repeat('0', 64));
+  v_entry.id := gen_random_uuid();
+  v_entry.action := append_audit_log.action;
+  v_entry.user_id := auth.uid();
+  v_entry.election_id := append_audit_log.election_id;
+  v_entry.details := append_audit_log.details;
+  v_entry.ip_address := split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  );
+  v_entry.created_at := date_trunc('milliseconds', now());
+  v_entry.hash := encode(sha256(convert_to(public.audit_log_payload(
+    v_entry.prev_hash,
+    v_entry.id,
+    v_entry.action,
+    v_entry.user_id,
+    v_entry.election_id,
+    v_entry.details,
+    v_entry.created_at
+  ), 'UTF8')), 'hex');
+
+  insert into public.audit_logs (id, action, user_id, election_id, details, ip_address, created_at, prev_hash, hash)
+  values (
+    v_entry.id,
+    v_entry.action,
+    v_entry.user_id,
+    v_entry.election_id,
+    v_entry.details,
+    nullif(v_entry.ip_address, ''),
+    v_entry.created_at,
+    v_entry.prev_hash,
+    v_entry.hash
+  )
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+revoke all on function public.append_audit_log(text, text, uuid) from public;
+grant execute on function public.append_audit_log(text, text, uuid) to anon, authenticated;
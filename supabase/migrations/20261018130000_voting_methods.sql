@@ -0,0 +1,16 @@
+-- Voting methods.
+--
+-- Each election records how its ballots are marked and counted. Ballots are
+-- encrypted, so the method only matters to the browser that builds the
+-- ballot and to the tally run after the election closes.
+--
+--   plurality      one candidate per ballot, most votes wins
+--   ranked_choice  candidates ranked in order of preference, counted by
+--                  instant runoff
+
+alter table public.elections
+  add column if not exists voting_method text not null default 'plurality';
+
+alter table public.elections
+  add constraint elections_voting_method_check
+  check (voting_method in ('plurality', 'ranked_choice'));
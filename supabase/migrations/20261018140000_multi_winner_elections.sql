@@ -0,0 +1,29 @@
+-- Approval and choose-N elections.
+--
+--   approval  voters mark every candidate they approve of
+--   choose_n  voters mark up to max_selections candidates
+--
+-- Both elect the seats candidates with the most marks. Plurality and
+-- ranked-choice elections always fill a single seat.
+
+alter table public.elections
+  add column if not exists seats integer not null default 1,
+  add column if not exists max_selections integer;
+
+alter table public.elections
+  drop constraint if exists elections_voting_method_check;
+
+alter table public.elections
+  add constraint elections_voting_method_check
+  check (voting_method in ('plurality', 'ranked_choice', 'approval', 'choose_n'));
+
+alter table public.elections
+  add constraint elections_seats_check
+  check (seats >= 1 and (seats = 1 or voting_method in ('approval', 'choose_n')));
+
+alter table public.elections
+  add constraint elections_max_selections_check
+  check (
+    (voting_method = 'choose_n' and max_selections >= 1)
+    or (voting_method <> 'choose_n' and max_selections is null)
+  );
@@ -0,0 +1,93 @@
+-- Multi-contest elections.
+--
+-- An election's ballot is an ordered list of contests (a president race, a
+-- committee, ...), each with its own candidates and voting method. The
+-- voting method, seats and max_selections move from elections to contests.
+--
+-- Every existing election becomes a single contest with the election's
+-- title, and its published results are rewritten to the per-contest shape.
+
+create table if not exists public.contests (
+  id uuid primary key default gen_random_uuid(),
+  election_id uuid not null references public.elections (id) on delete cascade,
+  position integer not null,
+  title text not null,
+  description text,
+  voting_method text not null default 'plurality',
+  seats integer not null default 1,
+  max_selections integer,
+  constraint contests_election_position_key unique (election_id, position) deferrable initially deferred,
+  constraint contests_voting_method_check
+    check (voting_method in ('plurality', 'ranked_choice', 'approval', 'choose_n')),
+  constraint contests_seats_check
+    check (seats >= 1 and (seats = 1 or voting_method in ('approval', 'choose_n'))),
+  constraint contests_max_selections_check
+    check (
+      (voting_method = 'choose_n' and max_selections >= 1)
+      or (voting_method <> 'choose_n' and max_selections is null)
+    )
+);
+
+alter table public.contests enable row level security;
+
+create policy "Anyone can read contests"
+  on public.contests
+  for select
+  using (true);
+
+create policy "Admins can manage contests"
+  on public.contests
+  for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'));
+
+alter table public.candidates
+  add column if not exists contest_id uuid references public.contests (id) on delete cascade;
+
+-- One contest per existing election
+insert into public.contests (election_id, position, title, voting_method, seats, max_selections)
+select e.id, 0, e.title, e.voting_method, e.seats, e.max_selections
+from public.elections e
+where not exists (select 1 from public.contests c where c.election_id = e.id);
+
+update public.candidates ca
+set contest_id = c.id
+from public.contests c
+where c.election_id = ca.election_id and ca.contest_id is null;
+
+alter table public.candidates
+  alter column contest_id set not null;
+
+create index if not exists candidates_contest_id_idx on public.candidates (contest_id);
+
+-- Published results move under their contest
+update public.elections e
+set results = jsonb_build_object(
+  'totalBallots', e.results -> 'totalBallots',
+  'invalidBallots', 0,
+  'contests', jsonb_build_object(
+    c.id::text,
+    jsonb_strip_nulls(jsonb_build_object(
+      'counts', e.results -> 'counts',
+      'validBallots', (e.results ->> 'totalBallots')::integer - (e.results ->> 'invalidBallots')::integer,
+      'blankBallots', 0,
+      'invalidBallots', e.results -> 'invalidBallots',
+      'rounds', e.results -> 'rounds'
+    ))
+  )
+)
+from public.contests c
+where c.election_id = e.id
+  and e.results is not null
+  and not (e.results ? 'contests');
+
+alter table public.elections
+  drop constraint if exists elections_voting_method_check,
+  drop constraint if exists elections_seats_check,
+  drop constraint if exists elections_max_selections_check;
+
+alter table public.elections
+  drop column if exists voting_method,
+  drop column if exists seats,
+  drop column if exists max_selections;
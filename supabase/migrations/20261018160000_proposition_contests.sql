@@ -0,0 +1,41 @@
+-- Proposition contests.
+--
+-- A proposition is a yes/no question (a budget, a rule change) rather than
+-- a race between candidates. Voters answer Yes, No or Abstain, so these
+-- contests have no candidates.
+--
+-- pass_threshold decides how many Yes votes carry the proposition:
+--   simple_majority      more Yes than No votes; abstentions are not counted
+--   two_thirds           at least two thirds of the Yes and No votes
+--   percent_of_eligible  Yes from at least threshold_percent of eligible voters
+--
+-- quorum_percent, when set, is the share of eligible voters who must answer
+-- (abstaining counts) for the result to stand. Eligible voters are the voter
+-- codes issued for the election, counted when the ballots are tallied.
+
+alter table public.contests
+  add column if not exists pass_threshold text,
+  add column if not exists threshold_percent numeric,
+  add column if not exists quorum_percent numeric;
+
+alter table public.contests
+  drop constraint if exists contests_voting_method_check;
+
+alter table public.contests
+  add constraint contests_voting_method_check
+    check (voting_method in ('plurality', 'ranked_choice', 'approval', 'choose_n', 'proposition')),
+  add constraint contests_pass_threshold_check
+    check (
+      (voting_method = 'proposition' and pass_threshold in ('simple_majority', 'two_thirds', 'percent_of_eligible'))
+      or (voting_method <> 'proposition' and pass_threshold is null)
+    ),
+  add constraint contests_threshold_percent_check
+    check (
+      (pass_threshold = 'percent_of_eligible' and threshold_percent > 0 and threshold_percent <= 100)
+      or (pass_threshold is distinct from 'percent_of_eligible' and threshold_percent is null)
+    ),
+  add constraint contests_quorum_percent_check
+    check (
+      quorum_percent is null
+      or (voting_method = 'proposition' and quorum_percent > 0 and quorum_percent <= 100)
+    );
@@ -0,0 +1,97 @@
+-- Automatic election lifecycle.
+--
+-- Elections move upcoming -> active at start_date and active -> closed at
+-- end_date. Registration closes registration_lead_minutes before the start.
+--
+-- advance_election_lifecycle() applies every transition that is due by the
+-- database clock and records each one in the audit log. Because it only
+-- ever does what the timestamps say, any client may call it: the app calls
+-- it at each transition's timestamp, and pg_cron runs it every minute where
+-- the extension is installed, so elections close even with nobody online.
+
+alter table public.elections
+  add column if not exists registration_lead_minutes integer not null default 0;
+
+alter table public.elections
+  add constraint elections_registration_lead_minutes_check
+    check (registration_lead_minutes >= 0);
+
+create or replace function public.advance_election_lifecycle()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := now();
+  v_election public.elections%rowtype;
+  v_transitions integer := 0;
+begin
+  -- Registration closes first, so it is never left open on a started election
+  for v_election in
+    select * from public.elections e
+    where e.registration_status = 'open'
+      and e.start_date - make_interval(mins => e.registration_lead_minutes) <= v_now
+    order by e.start_date
+    for update
+  loop
+    update public.elections set registration_status = 'closed' where id = v_election.id;
+    perform public.append_audit_log(
+      'election_registration_updated',
+      format('Election %s registration closed automatically %s minutes before its start at %s',
+        v_election.id, v_election.registration_lead_minutes, v_election.start_date),
+      v_election.id
+    );
+    v_transitions := v_transitions + 1;
+  end loop;
+
+  for v_election in
+    select * from public.elections e
+    where e.status = 'upcoming' and e.start_date <= v_now
+    order by e.start_date
+    for update
+  loop
+    update public.elections set status = 'active' where id = v_election.id;
+    perform public.append_audit_log(
+      'election_started',
+      format('Election %s started automatically at its start time %s', v_election.id, v_election.start_date),
+      v_election.id
+    );
+    v_transitions := v_transitions + 1;
+  end loop;
+
+  -- Sees the elections started above, so one that was missed entirely
+  -- still records both transitions
+  for v_election in
+    select * from public.elections e
+    where e.status = 'active' and e.end_date <= v_now
+    order by e.end_date
+    for update
+  loop
+    update public.elections set status = 'closed' where id = v_election.id;
+    perform public.append_audit_log(
+      'election_closed',
+      format('Election %s closed automatically at its end time %s', v_election.id, v_election.end_date),
+      v_election.id
+    );
+    v_transitions := v_transitions + 1;
+  end loop;
+
+  return v_transitions;
+end;
+$$;
+
+revoke all on function public.advance_election_lifecycle() from public;
+grant execute on function public.advance_election_lifecycle() to anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'advance-election-lifecycle',
+      '* * * * *',
+      'select public.advance_election_lifecycle()'
+    );
+  end if;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Admin edits to elections and candidates are written straight to the
+-- tables, so row-level security is what enforces who may make them.
+-- Updates by anyone else match no rows and the app rolls its change back.
+--
+-- The tables are added to the realtime publication so other admins see
+-- status, registration and candidate changes as they happen.
+
+drop policy if exists "Admins can update elections" on public.elections;
+create policy "Admins can update elections"
+  on public.elections
+  for update
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'));
+
+-- Candidates can only change before voting starts
+drop policy if exists "Admins can update candidates" on public.candidates;
+create policy "Admins can update candidates"
+  on public.candidates
+  for update
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+    and exists (select 1 from public.elections e where e.id = candidates.election_id and e.status = 'upcoming')
+  )
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'));
+
+do $$
+declare
+  v_table text;
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    foreach v_table in array array['elections', 'contests', 'candidates'] loop
+      if not exists (
+        select 1 from pg_publication_tables
+        where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+      ) then
+        execute format('alter publication supabase_realtime add table public.%I', v_table);
+      end if;
+    end loop;
+  end if;
+end;
+$$;
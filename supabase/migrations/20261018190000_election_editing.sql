@@ -0,0 +1,204 @@
+-- Editing elections.
+--
+-- Before voting starts an admin may change anything about an election.
+-- Once it has started, the ballot is locked and the only change allowed is
+-- extending the end date of an active election. Triggers enforce this for
+-- every writer, including direct table updates.
+--
+-- update_election_ballot() replaces an upcoming election's contests and
+-- candidates in one transaction, so reordering never trips the unique
+-- position constraint and a failed save leaves the old ballot intact.
+
+alter table public.candidates
+  add column if not exists position integer not null default 0;
+
+-- Keep the order candidates were created in
+update public.candidates c
+set position = ordered.position
+from (
+  select id, row_number() over (partition by contest_id order by ctid) - 1 as position
+  from public.candidates
+) ordered
+where ordered.id = c.id;
+
+create or replace function public.enforce_election_edit_rules()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status = 'upcoming' then
+    return new;
+  end if;
+
+  if new.title is distinct from old.title
+    or new.description is distinct from old.description
+    or new.start_date is distinct from old.start_date
+    or new.registration_lead_minutes is distinct from old.registration_lead_minutes
+    or new.election_code is distinct from old.election_code
+    or new.public_key is distinct from old.public_key then
+    raise exception 'Only the end date can change once voting has started'
+      using errcode = 'check_violation';
+  end if;
+
+  if new.end_date is distinct from old.end_date
+    and (old.status <> 'active' or new.end_date <= old.end_date) then
+    raise exception 'The end date can only be extended, and only while voting is open'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists elections_enforce_edit_rules on public.elections;
+create trigger elections_enforce_edit_rules
+  before update on public.elections
+  for each row execute function public.enforce_election_edit_rules();
+
+-- Contests and candidates of an election that has started cannot change.
+-- When the election itself is being deleted it is already gone, so the
+-- cascade goes ahead.
+create or replace function public.lock_started_ballot()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_status text;
+begin
+  select e.status into v_status
+  from public.elections e
+  where e.id = coalesce(new.election_id, old.election_id);
+
+  if found and v_status <> 'upcoming' then
+    raise exception 'The ballot cannot change once voting has started'
+      using errcode = 'check_violation';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists contests_lock_started_ballot on public.contests;
+create trigger contests_lock_started_ballot
+  before insert or update or delete on public.contests
+  for each row execute function public.lock_started_ballot();
+
+drop trigger if exists candidates_lock_started_ballot on public.candidates;
+create trigger candidates_lock_started_ballot
+  before insert or update or delete on public.candidates
+  for each row execute function public.lock_started_ballot();
+
+-- ballot is the full list of contests in order, each with its candidates in
+-- order. Contests and candidates are matched by id: known ids are updated,
+-- new ids inserted, and anything missing from the list is deleted.
+create or replace function public.update_election_ballot(
+  election_id uuid,
+  ballot jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_contest jsonb;
+  v_contest_id uuid;
+  v_contest_position integer := 0;
+  v_candidate jsonb;
+  v_candidate_position integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Only admins can edit elections' using errcode = 'insufficient_privilege';
+  end if;
+
+  select e.status into v_status
+  from public.elections e
+  where e.id = update_election_ballot.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+
+  if v_status <> 'upcoming' then
+    raise exception 'The ballot cannot change once voting has started' using errcode = 'check_violation';
+  end if;
+
+  delete from public.candidates c
+  where c.election_id = update_election_ballot.election_id
+    and c.id not in (
+      select (candidate ->> 'id')::uuid
+      from jsonb_array_elements(update_election_ballot.ballot) contest,
+        jsonb_array_elements(contest -> 'candidates') candidate
+    );
+
+  delete from public.contests c
+  where c.election_id = update_election_ballot.election_id
+    and c.id not in (
+      select (contest ->> 'id')::uuid
+      from jsonb_array_elements(update_election_ballot.ballot) contest
+    );
+
+  -- The (election_id, position) constraint is deferred, so positions may
+  -- pass through duplicates until the transaction commits
+  for v_contest in select * from jsonb_array_elements(update_election_ballot.ballot) loop
+    v_contest_id := (v_contest ->> 'id')::uuid;
+
+    insert into public.contests as c (
+      id, election_id, position, title, description, voting_method, seats,
+      max_selections, pass_threshold, threshold_percent, quorum_percent
+    )
+    values (
+      v_contest_id,
+      update_election_ballot.election_id,
+      v_contest_position,
+      v_contest ->> 'title',
+      v_contest ->> 'description',
+      v_contest ->> 'voting_method',
+      coalesce((v_contest ->> 'seats')::integer, 1),
+      (v_contest ->> 'max_selections')::integer,
+      v_contest ->> 'pass_threshold',
+      (v_contest ->> 'threshold_percent')::numeric,
+      (v_contest ->> 'quorum_percent')::numeric
+    )
+    on conflict (id) do update set
+      position = excluded.position,
+      title = excluded.title,
+      description = excluded.description,
+      voting_method = excluded.voting_method,
+      seats = excluded.seats,
+      max_selections = excluded.max_selections,
+      pass_threshold = excluded.pass_threshold,
+      threshold_percent = excluded.threshold_percent,
+      quorum_percent = excluded.quorum_percent
+    where c.election_id = excluded.election_id;
+
+    v_candidate_position := 0;
+    for v_candidate in select * from jsonb_array_elements(coalesce(v_contest -> 'candidates', '[]'::jsonb)) loop
+      insert into public.candidates as ca (id, election_id, contest_id, position, name, description)
+      values (
+        (v_candidate ->> 'id')::uuid,
+        update_election_ballot.election_id,
+        v_contest_id,
+        v_candidate_position,
+        v_candidate ->> 'name',
+        v_candidate ->> 'description'
+      )
+      on conflict (id) do update set
+        contest_id = excluded.contest_id,
+        position = excluded.position,
+        name = excluded.name,
+        description = excluded.description
+      where ca.election_id = excluded.election_id;
+
+      v_candidate_position := v_candidate_position + 1;
+    end loop;
+
+    v_contest_position := v_contest_position + 1;
+  end loop;
+end;
+$$;
+
+revoke all on function public.update_election_ballot(uuid, jsonb) from public;
+grant execute on function public.update_election_ballot(uuid, jsonb) to authenticated;
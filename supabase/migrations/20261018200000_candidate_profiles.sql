@@ -0,0 +1,173 @@
+-- Candidate profiles.
+--
+-- Candidates gain a markdown manifesto and a list of links alongside the
+-- existing photo_url. Photos are uploaded to the public candidate-photos
+-- storage bucket; anyone can view them, only admins can upload or remove.
+--
+-- update_election_ballot() is replaced so that editing an upcoming election
+-- saves the new profile fields too.
+
+alter table public.candidates
+  add column if not exists manifesto text,
+  add column if not exists links jsonb not null default '[]'::jsonb;
+
+alter table public.candidates
+  drop constraint if exists candidates_links_is_array;
+alter table public.candidates
+  add constraint candidates_links_is_array check (jsonb_typeof(links) = 'array');
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('candidate-photos', 'candidate-photos', true, 2097152, array['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+on conflict (id) do update set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
+
+drop policy if exists "Anyone can view candidate photos" on storage.objects;
+create policy "Anyone can view candidate photos"
+  on storage.objects
+  for select
+  using (bucket_id = 'candidate-photos');
+
+drop policy if exists "Admins can upload candidate photos" on storage.objects;
+create policy "Admins can upload candidate photos"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'candidate-photos'
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+drop policy if exists "Admins can delete candidate photos" on storage.objects;
+create policy "Admins can delete candidate photos"
+  on storage.objects
+  for delete
+  to authenticated
+  using (
+    bucket_id = 'candidate-photos'
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- ballot is the full list of contests in order, each with its candidates in
+-- order. Contests and candidates are matched by id: known ids are updated,
+-- new ids inserted, and anything missing from the list is deleted.
+create or replace function public.update_election_ballot(
+  election_id uuid,
+  ballot jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_contest jsonb;
+  v_contest_id uuid;
+  v_contest_position integer := 0;
+  v_candidate jsonb;
+  v_candidate_position integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Only admins can edit elections' using errcode = 'insufficient_privilege';
+  end if;
+
+  select e.status into v_status
+  from public.elections e
+  where e.id = update_election_ballot.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+
+  if v_status <> 'upcoming' then
+    raise exception 'The ballot cannot change once voting has started' using errcode = 'check_violation';
+  end if;
+
+  delete from public.candidates c
+  where c.election_id = update_election_ballot.election_id
+    and c.id not in (
+      select (candidate ->> 'id')::uuid
+      from jsonb_array_elements(update_election_ballot.ballot) contest,
+        jsonb_array_elements(contest -> 'candidates') candidate
+    );
+
+  delete from public.contests c
+  where c.election_id = update_election_ballot.election_id
+    and c.id not in (
+      select (contest ->> 'id')::uuid
+      from jsonb_array_elements(update_election_ballot.ballot) contest
+    );
+
+  -- The (election_id, position) constraint is deferred, so positions may
+  -- pass through duplicates until the transaction commits
+  for v_contest in select * from jsonb_array_elements(update_election_ballot.ballot) loop
+    v_contest_id := (v_contest ->> 'id')::uuid;
+
+    insert into public.contests as c (
+      id, election_id, position, title, description, voting_method, seats,
+      max_selections, pass_threshold, threshold_percent, quorum_percent
+    )
+    values (
+      v_contest_id,
+      update_election_ballot.election_id,
+      v_contest_position,
+      v_contest ->> 'title',
+      v_contest ->> 'description',
+      v_contest ->> 'voting_method',
+      coalesce((v_contest ->> 'seats')::integer, 1),
+      (v_contest ->> 'max_selections')::integer,
+      v_contest ->> 'pass_threshold',
+      (v_contest ->> 'threshold_percent')::numeric,
+      (v_contest ->> 'quorum_percent')::numeric
+    )
+    on conflict (id) do update set
+      position = excluded.position,
+      title = excluded.title,
+      description = excluded.description,
+      voting_method = excluded.voting_method,
+      seats = excluded.seats,
+      max_selections = excluded.max_selections,
+      pass_threshold = excluded.pass_threshold,
+      threshold_percent = excluded.threshold_percent,
+      quorum_percent = excluded.quorum_percent
+    where c.election_id = excluded.election_id;
+
+    v_candidate_position := 0;
+    for v_candidate in select * from jsonb_array_elements(coalesce(v_contest -> 'candidates', '[]'::jsonb)) loop
+      insert into public.candidates as ca (
+        id, election_id, contest_id, position, name, description, photo_url, manifesto, links
+      )
+      values (
+        (v_candidate ->> 'id')::uuid,
+        update_election_ballot.election_id,
+        v_contest_id,
+        v_candidate_position,
+        v_candidate ->> 'name',
+        v_candidate ->> 'description',
+        v_candidate ->> 'photo_url',
+        v_candidate ->> 'manifesto',
+        coalesce(v_candidate -> 'links', '[]'::jsonb)
+      )
+      on conflict (id) do update set
+        contest_id = excluded.contest_id,
+        position = excluded.position,
+        name = excluded.name,
+        description = excluded.description,
+        photo_url = excluded.photo_url,
+        manifesto = excluded.manifesto,
+        links = excluded.links
+      where ca.election_id = excluded.election_id;
+
+      v_candidate_position := v_candidate_position + 1;
+    end loop;
+
+    v_contest_position := v_contest_position + 1;
+  end loop;
+end;
+$$;
+
+revoke all on function public.update_election_ballot(uuid, jsonb) from public;
+grant execute on function public.update_election_ballot(uuid, jsonb) to authenticated;
@@ -0,0 +1,265 @@
+-- Candidate self-nomination.
+--
+-- An election may have a nomination period, which must end before voting
+-- starts. While it is open, a signed-in member can nominate themselves for
+-- a candidate contest with a statement, naming a seconder by email. The
+-- seconder must be a member too; they confirm or decline the second. Admins
+-- then review seconded nominations, and accepting one adds the nominee to
+-- the contest as a candidate, with their statement as the manifesto.
+--
+-- All changes go through the functions below, which check the rules and
+-- record each step in the audit log. Members can read their own
+-- nominations and those they were asked to second; admins can read all.
+
+alter table public.elections
+  add column if not exists nomination_opens_at timestamptz,
+  add column if not exists nomination_closes_at timestamptz;
+
+alter table public.elections
+  drop constraint if exists elections_nomination_period_check;
+alter table public.elections
+  add constraint elections_nomination_period_check
+    check (
+      (nomination_opens_at is null and nomination_closes_at is null)
+      or (nomination_opens_at < nomination_closes_at and nomination_closes_at <= start_date)
+    );
+
+create table if not exists public.nominations (
+  id uuid primary key default gen_random_uuid(),
+  election_id uuid not null references public.elections (id) on delete cascade,
+  contest_id uuid not null references public.contests (id) on delete cascade,
+  nominee_id uuid not null references auth.users (id) on delete cascade,
+  nominee_name text not null,
+  statement text not null,
+  seconder_email text not null,
+  seconder_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'awaiting_seconder',
+  submitted_at timestamptz not null default now(),
+  seconded_at timestamptz,
+  reviewed_at timestamptz,
+  reviewed_by uuid references auth.users (id),
+  review_note text,
+  candidate_id uuid references public.candidates (id) on delete set null,
+  constraint nominations_status_check
+    check (status in ('awaiting_seconder', 'declined', 'pending', 'accepted', 'rejected')),
+  constraint nominations_seconder_check check (seconder_id <> nominee_id)
+);
+
+-- One live nomination per member per contest; they may try again after a
+-- decline or rejection
+create unique index if not exists nominations_one_live_per_contest
+  on public.nominations (contest_id, nominee_id)
+  where status in ('awaiting_seconder', 'pending', 'accepted');
+
+alter table public.nominations enable row level security;
+
+drop policy if exists "Members can read their nominations" on public.nominations;
+create policy "Members can read their nominations"
+  on public.nominations
+  for select
+  to authenticated
+  using (
+    nominee_id = auth.uid()
+    or seconder_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+create or replace function public.submit_nomination(
+  contest_id uuid,
+  nominee_name text,
+  statement text,
+  seconder_email text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_contest public.contests%rowtype;
+  v_election public.elections%rowtype;
+  v_seconder_id uuid;
+  v_nomination_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to submit a nomination' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_contest from public.contests c where c.id = submit_nomination.contest_id;
+  if not found then
+    raise exception 'Contest not found' using errcode = 'no_data_found';
+  end if;
+  if v_contest.voting_method = 'proposition' then
+    raise exception 'Propositions do not take nominations' using errcode = 'check_violation';
+  end if;
+
+  select * into v_election from public.elections e where e.id = v_contest.election_id;
+  if v_election.status <> 'upcoming'
+    or v_election.nomination_opens_at is null
+    or now() < v_election.nomination_opens_at
+    or now() >= v_election.nomination_closes_at then
+    raise exception 'Nominations for this election are not open' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(trim(submit_nomination.nominee_name), '') = '' or coalesce(trim(submit_nomination.statement), '') = '' then
+    raise exception 'A nomination needs your name and a statement' using errcode = 'check_violation';
+  end if;
+
+  select u.id into v_seconder_id
+  from auth.users u
+  where lower(u.email) = lower(trim(submit_nomination.seconder_email));
+
+  if v_seconder_id is null then
+    raise exception 'No member is registered with the seconder''s email address' using errcode = 'no_data_found';
+  end if;
+  if v_seconder_id = v_user_id then
+    raise exception 'You cannot second your own nomination' using errcode = 'check_violation';
+  end if;
+
+  insert into public.nominations (
+    election_id, contest_id, nominee_id, nominee_name, statement, seconder_email, seconder_id
+  )
+  values (
+    v_election.id,
+    v_contest.id,
+    v_user_id,
+    trim(submit_nomination.nominee_name),
+    trim(submit_nomination.statement),
+    lower(trim(submit_nomination.seconder_email)),
+    v_seconder_id
+  )
+  returning id into v_nomination_id;
+
+  perform public.append_audit_log(
+    'nomination_submitted',
+    format('Nomination %s submitted by %s for contest %s', v_nomination_id, v_user_id, v_contest.id),
+    v_election.id
+  );
+
+  return v_nomination_id;
+end;
+$$;
+
+-- The seconder confirms (second = true) or declines the nomination
+create or replace function public.second_nomination(
+  nomination_id uuid,
+  second boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_nomination public.nominations%rowtype;
+begin
+  select * into v_nomination
+  from public.nominations n
+  where n.id = second_nomination.nomination_id
+  for update;
+
+  if not found or v_nomination.seconder_id <> auth.uid() then
+    raise exception 'Nomination not found' using errcode = 'no_data_found';
+  end if;
+  if v_nomination.status <> 'awaiting_seconder' then
+    raise exception 'This nomination is no longer waiting for a seconder' using errcode = 'check_violation';
+  end if;
+
+  update public.nominations
+  set status = case when second_nomination.second then 'pending' else 'declined' end,
+      seconded_at = case when second_nomination.second then now() end
+  where id = v_nomination.id;
+
+  perform public.append_audit_log(
+    case when second_nomination.second then 'nomination_seconded' else 'nomination_declined' end,
+    format('Nomination %s %s by %s', v_nomination.id,
+      case when second_nomination.second then 'seconded' else 'declined' end, auth.uid()),
+    v_nomination.election_id
+  );
+end;
+$$;
+
+-- An admin accepts or rejects a seconded nomination. Accepting adds the
+-- nominee to the end of the contest's candidate list.
+create or replace function public.review_nomination(
+  nomination_id uuid,
+  accept boolean,
+  note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_nomination public.nominations%rowtype;
+  v_candidate_id uuid;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Only admins can review nominations' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_nomination
+  from public.nominations n
+  where n.id = review_nomination.nomination_id
+  for update;
+
+  if not found then
+    raise exception 'Nomination not found' using errcode = 'no_data_found';
+  end if;
+  if v_nomination.status <> 'pending' then
+    raise exception 'Only seconded nominations awaiting review can be accepted or rejected' using errcode = 'check_violation';
+  end if;
+
+  if review_nomination.accept then
+    -- The ballot lock trigger refuses this once voting has started
+    insert into public.candidates (election_id, contest_id, position, name, manifesto)
+    values (
+      v_nomination.election_id,
+      v_nomination.contest_id,
+      coalesce((select max(c.position) + 1 from public.candidates c where c.contest_id = v_nomination.contest_id), 0),
+      v_nomination.nominee_name,
+      v_nomination.statement
+    )
+    returning id into v_candidate_id;
+  end if;
+
+  update public.nominations
+  set status = case when review_nomination.accept then 'accepted' else 'rejected' end,
+      reviewed_at = now(),
+      reviewed_by = auth.uid(),
+      review_note = nullif(trim(review_nomination.note), ''),
+      candidate_id = v_candidate_id
+  where id = v_nomination.id;
+
+  perform public.append_audit_log(
+    case when review_nomination.accept then 'nomination_accepted' else 'nomination_rejected' end,
+    format('Nomination %s %s by %s%s', v_nomination.id,
+      case when review_nomination.accept then 'accepted' else 'rejected' end, auth.uid(),
+      case when v_candidate_id is not null then format(' as candidate %s', v_candidate_id) else '' end),
+    v_nomination.election_id
+  );
+
+  return v_candidate_id;
+end;
+$$;
+
+revoke all on function public.submit_nomination(uuid, text, text, text) from public;
+revoke all on function public.second_nomination(uuid, boolean) from public;
+revoke all on function public.review_nomination(uuid, boolean, text) from public;
+grant execute on function public.submit_nomination(uuid, text, text, text) to authenticated;
+grant execute on function public.second_nomination(uuid, boolean) to authenticated;
+grant execute on function public.review_nomination(uuid, boolean, text) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'nominations'
+    ) then
+    alter publication supabase_realtime add table public.nominations;
+  end if;
+end;
+$$;
@@ -0,0 +1,14 @@
+-- Voter roll import.
+--
+-- Admins can import the member roster from a CSV file, generating one voter
+-- code per member. Codes record the member's name alongside their email,
+-- and an email can hold only one code per election, so importing the same
+-- roster twice does not hand anyone a second code.
+
+alter table public.voter_codes
+  add column if not exists name text;
+
+-- Emails are compared case-insensitively, as the importer does
+create unique index if not exists voter_codes_election_email_key
+  on public.voter_codes (election_id, lower(email))
+  where email is not null;
@@ -0,0 +1,57 @@
+-- Email delivery for voter codes and registration decisions.
+--
+-- Every message the app sends is recorded here with the template it was
+-- rendered from and its delivery status, so admins can see which members
+-- have received their code and resend any that failed. Message bodies are
+-- not stored: they are rendered from the template when sent, so a resend
+-- carries the code's current details.
+--
+-- Messages are sent by the app through its configured mail provider: the
+-- send-email edge function, which relays them over SMTP, or a local outbox
+-- in development. Only admins can read or write messages.
+
+create table if not exists public.email_messages (
+  id uuid primary key default gen_random_uuid(),
+  election_id uuid not null references public.elections (id) on delete cascade,
+  voter_code text references public.voter_codes (code) on delete set null,
+  template text not null,
+  recipient_email text not null,
+  recipient_name text,
+  subject text not null,
+  status text not null default 'queued',
+  provider text,
+  attempts integer not null default 0,
+  last_error text,
+  created_at timestamptz not null default now(),
+  created_by uuid not null references auth.users (id),
+  sent_at timestamptz,
+  constraint email_messages_template_check
+    check (template in ('invitation', 'approval', 'rejection', 'reminder')),
+  constraint email_messages_status_check
+    check (status in ('queued', 'sent', 'failed'))
+);
+
+create index if not exists email_messages_election_id_idx on public.email_messages (election_id);
+create index if not exists email_messages_voter_code_idx on public.email_messages (voter_code);
+
+alter table public.email_messages enable row level security;
+
+drop policy if exists "Admins can manage email messages" on public.email_messages;
+create policy "Admins can manage email messages"
+  on public.email_messages
+  for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin'));
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'email_messages'
+    ) then
+    alter publication supabase_realtime add table public.email_messages;
+  end if;
+end;
+$$;
@@ -0,0 +1,300 @@
+-- Voter code revocation, expiry and reissue.
+--
+-- An unused code can be revoked, for example when it has leaked, and can be
+-- given an expiry time after which it no longer admits anyone to vote. A
+-- reissue revokes a code and mints a replacement for the same member in one
+-- step, linking the new code to the one it replaces.
+--
+-- Revoked and expired codes are refused both when a voter enters their code
+-- and by cast_vote. All three changes go through the functions below, which
+-- are admin-only and record each change in the audit log.
+
+alter table public.voter_codes
+  add column if not exists expires_at timestamptz,
+  add column if not exists revoked_at timestamptz,
+  add column if not exists revoked_by uuid references auth.users (id),
+  add column if not exists revoke_reason text,
+  add column if not exists reissued_from text references public.voter_codes (code) on delete set null;
+
+-- A member keeps one live code per election; a revoked code no longer counts,
+-- so it can be reissued
+drop index if exists public.voter_codes_election_email_key;
+create unique index voter_codes_election_email_key
+  on public.voter_codes (election_id, lower(email))
+  where email is not null and revoked_at is null;
+
+-- A code is replaced at most once
+create unique index if not exists voter_codes_reissued_from_key
+  on public.voter_codes (reissued_from)
+  where reissued_from is not null;
+
+create or replace function public.revoke_voter_code(
+  code text,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Only admins can revoke voter codes' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = revoke_voter_code.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if v_code.is_used then
+    raise exception 'This code has already been used to vote' using errcode = 'check_violation';
+  end if;
+  if v_code.revoked_at is not null then
+    raise exception 'This code has already been revoked' using errcode = 'check_violation';
+  end if;
+
+  update public.voter_codes vc
+  set revoked_at = now(),
+      revoked_by = auth.uid(),
+      revoke_reason = nullif(trim(revoke_voter_code.reason), '')
+  where vc.code = v_code.code;
+
+  perform public.append_audit_log(
+    'voter_code_revoked',
+    format('Admin %s revoked voter code %s%s%s', auth.uid(), v_code.code,
+      case when v_code.email is not null then format(' for %s', v_code.email) else '' end,
+      case when nullif(trim(revoke_voter_code.reason), '') is not null then format(': %s', trim(revoke_voter_code.reason)) else '' end),
+    v_code.election_id
+  );
+end;
+$$;
+
+-- Set or clear (expires_at = null) the time after which a code can no
+-- longer be used
+create or replace function public.set_voter_code_expiry(
+  code text,
+  expires_at timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Only admins can change voter code expiry' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = set_voter_code_expiry.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if v_code.is_used or v_code.revoked_at is not null then
+    raise exception 'Only unused, unrevoked codes can have their expiry changed' using errcode = 'check_violation';
+  end if;
+
+  update public.voter_codes vc
+  set expires_at = set_voter_code_expiry.expires_at
+  where vc.code = v_code.code;
+
+  perform public.append_audit_log(
+    'voter_code_expiry_set',
+    format('Admin %s %s', auth.uid(),
+      case when set_voter_code_expiry.expires_at is null
+        then format('removed the expiry of voter code %s', v_code.code)
+        else format('set voter code %s to expire at %s', v_code.code, set_voter_code_expiry.expires_at)
+      end),
+    v_code.election_id
+  );
+end;
+$$;
+
+-- Revoke a code, if it is not already, and mint new_code for the same
+-- member. The replacement keeps the old code's expiry if that is still
+-- in the future.
+create or replace function public.reissue_voter_code(
+  code text,
+  new_code text,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Only admins can reissue voter codes' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = reissue_voter_code.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if v_code.is_used then
+    raise exception 'This code has already been used to vote' using errcode = 'check_violation';
+  end if;
+  if exists (select 1 from public.voter_codes vc where vc.reissued_from = v_code.code) then
+    raise exception 'This code has already been reissued' using errcode = 'check_violation';
+  end if;
+
+  if v_code.revoked_at is null then
+    update public.voter_codes vc
+    set revoked_at = now(),
+        revoked_by = auth.uid(),
+        revoke_reason = coalesce(nullif(trim(reissue_voter_code.reason), ''), 'Reissued')
+    where vc.code = v_code.code;
+  end if;
+
+  insert into public.voter_codes (code, election_id, email, name, expires_at, reissued_from, created_by)
+  values (
+    reissue_voter_code.new_code,
+    v_code.election_id,
+    v_code.email,
+    v_code.name,
+    case when v_code.expires_at > now() then v_code.expires_at end,
+    v_code.code,
+    auth.uid()
+  );
+
+  perform public.append_audit_log(
+    'voter_code_reissued',
+    format('Admin %s reissued voter code %s as %s%s', auth.uid(), v_code.code, reissue_voter_code.new_code,
+      case when v_code.email is not null then format(' for %s', v_code.email) else '' end),
+    v_code.election_id
+  );
+end;
+$$;
+
+revoke all on function public.revoke_voter_code(text, text) from public;
+revoke all on function public.set_voter_code_expiry(text, timestamptz) from public;
+revoke all on function public.reissue_voter_code(text, text, text) from public;
+grant execute on function public.revoke_voter_code(text, text) to authenticated;
+grant execute on function public.set_voter_code_expiry(text, timestamptz) to authenticated;
+grant execute on function public.reissue_voter_code(text, text, text) to authenticated;
+
+-- cast_vote as before, refusing revoked and expired codes
+create or replace function public.cast_vote(
+  election_id uuid,
+  encrypted_ballot text,
+  voter_code text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_code public.voter_codes%rowtype;
+  v_vote_id uuid;
+  v_ballot_hash text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'reason', 'not_authenticated');
+  end if;
+
+  if exists (select 1 from public.profiles p where p.id = v_user_id and p.role = 'admin') then
+    return jsonb_build_object('success', false, 'reason', 'admin_cannot_vote');
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = cast_vote.election_id
+  for share;
+
+  if not found then
+    return jsonb_build_object('success', false, 'reason', 'election_not_found');
+  end if;
+
+  if v_election.status <> 'active' then
+    return jsonb_build_object('success', false, 'reason', 'election_not_active');
+  end if;
+
+  if v_election.public_key is null then
+    return jsonb_build_object('success', false, 'reason', 'election_not_encrypted');
+  end if;
+
+  if coalesce(length(cast_vote.encrypted_ballot), 0) = 0 then
+    return jsonb_build_object('success', false, 'reason', 'invalid_ballot');
+  end if;
+
+  if not exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = cast_vote.election_id
+      and r.status = 'approved'
+      and lower(r.email) = lower(v_email)
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'not_approved');
+  end if;
+
+  -- Lock the code row so concurrent casts with the same code serialize here
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = cast_vote.voter_code and vc.election_id = cast_vote.election_id
+  for update;
+
+  if not found or (v_code.email is not null and lower(v_code.email) <> lower(v_email)) then
+    return jsonb_build_object('success', false, 'reason', 'invalid_code');
+  end if;
+
+  if v_code.is_used then
+    return jsonb_build_object('success', false, 'reason', 'code_already_used');
+  end if;
+
+  if v_code.revoked_at is not null then
+    return jsonb_build_object('success', false, 'reason', 'code_revoked');
+  end if;
+
+  if v_code.expires_at is not null and v_code.expires_at <= now() then
+    return jsonb_build_object('success', false, 'reason', 'code_expired');
+  end if;
+
+  if exists (
+    select 1 from public.voter_records vr
+    where vr.voter_id = v_user_id and vr.election_id = cast_vote.election_id
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end if;
+
+  v_ballot_hash := encode(sha256(convert_to(cast_vote.encrypted_ballot, 'UTF8')), 'hex');
+
+  begin
+    insert into public.votes (election_id, encrypted_ballot, ballot_hash)
+    values (cast_vote.election_id, cast_vote.encrypted_ballot, v_ballot_hash)
+    returning id into v_vote_id;
+
+    insert into public.voter_records (voter_id, election_id, has_voted, timestamp)
+    values (v_user_id, cast_vote.election_id, true, now());
+
+    update public.voter_codes vc
+    set is_used = true, used_at = now()
+    where vc.code = cast_vote.voter_code;
+  exception
+    when unique_violation then
+      return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end;
+
+  return jsonb_build_object('success', true, 'vote_id', v_vote_id, 'ballot_hash', v_ballot_hash);
+end;
+$$;
@@ -0,0 +1,13 @@
+-- Election IDs and voter codes are unique.
+--
+-- Both are now random codes with a check character, generated in the app.
+-- These indexes make a collision fail the insert, and the app then retries
+-- with a fresh code. Election IDs are typed by members in any case, so they
+-- are compared upper-cased. Voter codes are unique across all elections, as
+-- other tables refer to a code on its own.
+
+create unique index if not exists elections_election_code_key
+  on public.elections (upper(election_code));
+
+create unique index if not exists voter_codes_code_key
+  on public.voter_codes (code);
@@ -0,0 +1,238 @@
+-- User management.
+--
+-- Admins can list and search every member's profile, change a member's
+-- role, deactivate and reactivate accounts, and invite new members by
+-- email. Profiles carry the member's email, kept in step with their auth
+-- account, so the member list can be searched by it.
+--
+-- Role and account status change only through the functions below, which
+-- are admin-only and record each change in the audit log. Blocking a
+-- deactivated member from signing in, and sending invitations, need the
+-- service role and are done by the manage-members edge function, which
+-- calls these functions with the admin's own session.
+
+alter table public.profiles
+  add column if not exists email text,
+  add column if not exists invited_at timestamptz,
+  add column if not exists invited_by uuid references auth.users (id),
+  add column if not exists deactivated_at timestamptz,
+  add column if not exists deactivated_by uuid references auth.users (id),
+  add column if not exists deactivation_reason text;
+
+update public.profiles p
+set email = u.email
+from auth.users u
+where u.id = p.id and p.email is distinct from u.email;
+
+create index if not exists profiles_email_idx on public.profiles (lower(email));
+
+-- New profiles take the email of their auth account, and keep it when the
+-- member changes it
+create or replace function public.set_profile_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select u.email into new.email from auth.users u where u.id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_profile_email on public.profiles;
+create trigger set_profile_email
+  before insert on public.profiles
+  for each row execute function public.set_profile_email();
+
+create or replace function public.sync_profile_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles p set email = new.email where p.id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_profile_email on auth.users;
+create trigger sync_profile_email
+  after update of email on auth.users
+  for each row execute function public.sync_profile_email();
+
+-- Whether the current user is an admin. Policies on profiles use this
+-- rather than querying profiles themselves, which would recurse.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin');
+$$;
+
+revoke all on function public.is_admin() from public;
+grant execute on function public.is_admin() to authenticated;
+
+drop policy if exists "Admins can read all profiles" on public.profiles;
+create policy "Admins can read all profiles"
+  on public.profiles
+  for select
+  to authenticated
+  using (public.is_admin());
+
+-- For each member's participation history
+drop policy if exists "Admins can read voter records" on public.voter_records;
+create policy "Admins can read voter records"
+  on public.voter_records
+  for select
+  to authenticated
+  using (public.is_admin());
+
+create or replace function public.set_member_role(
+  user_id uuid,
+  new_role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can change member roles' using errcode = 'insufficient_privilege';
+  end if;
+  if set_member_role.new_role not in ('admin', 'voter') then
+    raise exception 'Unknown role %', set_member_role.new_role using errcode = 'check_violation';
+  end if;
+  if set_member_role.user_id = auth.uid() then
+    raise exception 'You cannot change your own role' using errcode = 'check_violation';
+  end if;
+
+  select * into v_profile
+  from public.profiles p
+  where p.id = set_member_role.user_id
+  for update;
+
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+  if v_profile.role = set_member_role.new_role then
+    return;
+  end if;
+
+  update public.profiles p
+  set role = set_member_role.new_role, updated_at = now()
+  where p.id = v_profile.id;
+
+  perform public.append_audit_log(
+    'member_role_changed',
+    format('Admin %s changed the role of %s from %s to %s', auth.uid(),
+      coalesce(v_profile.email, v_profile.username, v_profile.id::text), v_profile.role, set_member_role.new_role)
+  );
+end;
+$$;
+
+-- Deactivate (active = false) or reactivate a member's account
+create or replace function public.set_member_active(
+  user_id uuid,
+  active boolean,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can deactivate or reactivate members' using errcode = 'insufficient_privilege';
+  end if;
+  if set_member_active.user_id = auth.uid() then
+    raise exception 'You cannot deactivate your own account' using errcode = 'check_violation';
+  end if;
+
+  select * into v_profile
+  from public.profiles p
+  where p.id = set_member_active.user_id
+  for update;
+
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+  if (v_profile.deactivated_at is null) = set_member_active.active then
+    raise exception 'This account is already %', case when set_member_active.active then 'active' else 'deactivated' end
+      using errcode = 'check_violation';
+  end if;
+
+  update public.profiles p
+  set deactivated_at = case when set_member_active.active then null else now() end,
+      deactivated_by = case when set_member_active.active then null else auth.uid() end,
+      deactivation_reason = case when set_member_active.active then null else nullif(trim(set_member_active.reason), '') end,
+      updated_at = now()
+  where p.id = v_profile.id;
+
+  perform public.append_audit_log(
+    case when set_member_active.active then 'member_reactivated' else 'member_deactivated' end,
+    format('Admin %s %s the account of %s%s', auth.uid(),
+      case when set_member_active.active then 'reactivated' else 'deactivated' end,
+      coalesce(v_profile.email, v_profile.username, v_profile.id::text),
+      case when nullif(trim(set_member_active.reason), '') is not null then format(': %s', trim(set_member_active.reason)) else '' end)
+  );
+end;
+$$;
+
+-- Record an invitation sent by the manage-members edge function, once it
+-- has created the invited member's auth account
+create or replace function public.record_member_invitation(
+  user_id uuid,
+  new_role text default 'voter'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can invite members' using errcode = 'insufficient_privilege';
+  end if;
+  if record_member_invitation.new_role not in ('admin', 'voter') then
+    raise exception 'Unknown role %', record_member_invitation.new_role using errcode = 'check_violation';
+  end if;
+
+  select u.email into v_email from auth.users u where u.id = record_member_invitation.user_id;
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+
+  insert into public.profiles (id, role, invited_at, invited_by)
+  values (record_member_invitation.user_id, record_member_invitation.new_role, now(), auth.uid())
+  on conflict (id) do update
+  set role = excluded.role,
+      invited_at = excluded.invited_at,
+      invited_by = excluded.invited_by,
+      updated_at = now();
+
+  perform public.append_audit_log(
+    'member_invited',
+    format('Admin %s invited %s as %s', auth.uid(), v_email, record_member_invitation.new_role)
+  );
+end;
+$$;
+
+revoke all on function public.set_member_role(uuid, text) from public;
+revoke all on function public.set_member_active(uuid, boolean, text) from public;
+revoke all on function public.record_member_invitation(uuid, text) from public;
+grant execute on function public.set_member_role(uuid, text) to authenticated;
+grant execute on function public.set_member_active(uuid, boolean, text) to authenticated;
+grant execute on function public.record_member_invitation(uuid, text) to authenticated;
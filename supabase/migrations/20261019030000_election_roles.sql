@@ -0,0 +1,896 @@
+-- Granular roles: super-admins, and election officers and observers.
+--
+-- Besides the club-wide roles (super_admin, admin and voter), a member can
+-- hold a role for a single election: officers run that election, observers
+-- may watch its turnout but not act. Who may do what is decided in one
+-- place, public.can(action, election_id), which mirrors can() in
+-- src/lib/permissions.ts. Policies and functions that used to check for
+-- role = 'admin' now ask can() instead, so officers can act on their own
+-- elections. Admins and an election's officers cannot vote in it; everyone
+-- else can.
+--
+-- Existing admins become super-admins, so nobody loses the ability to
+-- grant and revoke the admin roles.
+
+alter table public.profiles
+  drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+    check (role in ('super_admin', 'admin', 'voter'));
+
+update public.profiles
+set role = 'super_admin', updated_at = now()
+where role = 'admin';
+
+create table if not exists public.election_roles (
+  id uuid primary key default gen_random_uuid(),
+  election_id uuid not null references public.elections (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null,
+  assigned_at timestamptz not null default now(),
+  assigned_by uuid references auth.users (id),
+  constraint election_roles_role_check
+    check (role in ('officer', 'observer')),
+  -- One role per member per election
+  constraint election_roles_election_user_key
+    unique (election_id, user_id)
+);
+
+create index if not exists election_roles_user_id_idx on public.election_roles (user_id);
+
+-- Whether the current user may take `action`, on the election when the
+-- action concerns one. Without an election, election actions are allowed if
+-- they are allowed on at least one election. Deactivated accounts may do
+-- nothing.
+create or replace function public.can(
+  action text,
+  election_id uuid default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with me as (
+    select p.role
+    from public.profiles p
+    where p.id = auth.uid() and p.deactivated_at is null
+  ),
+  assigned as (
+    select r.role
+    from public.election_roles r
+    where r.user_id = auth.uid()
+      and (can.election_id is null or r.election_id = can.election_id)
+  )
+  select case
+    when not exists (select 1 from me) then false
+    when can.action = 'manage_admins' then exists (select 1 from me where me.role = 'super_admin')
+    when exists (select 1 from me where me.role in ('admin', 'super_admin')) then can.action <> 'vote'
+    when can.action = 'vote' then can.election_id is null or not exists (select 1 from assigned where assigned.role = 'officer')
+    when can.action in (
+      'view_admin_dashboard', 'edit_election', 'change_election_status', 'manage_voters',
+      'review_nominations', 'tally_election', 'view_turnout'
+    ) then exists (select 1 from assigned where assigned.role = 'officer')
+      or (can.action = 'view_turnout' and exists (select 1 from assigned where assigned.role = 'observer'))
+    else false
+  end;
+$$;
+
+revoke all on function public.can(text, uuid) from public;
+grant execute on function public.can(text, uuid) to authenticated;
+
+-- Super-admins are admins too
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles p where p.id = auth.uid() and p.role in ('admin', 'super_admin'));
+$$;
+
+alter table public.election_roles enable row level security;
+
+drop policy if exists "Members can read their election roles" on public.election_roles;
+create policy "Members can read their election roles"
+  on public.election_roles
+  for select
+  to authenticated
+  using (user_id = auth.uid() or public.can('assign_election_roles', election_id));
+
+-- Policies that checked for role = 'admin', now asking can()
+
+drop policy if exists "Admins can update elections" on public.elections;
+create policy "Admins can update elections"
+  on public.elections
+  for update
+  to authenticated
+  using (public.can('edit_election', id) or public.can('change_election_status', id) or public.can('tally_election', id))
+  with check (public.can('edit_election', id) or public.can('change_election_status', id) or public.can('tally_election', id));
+
+drop policy if exists "Admins can create elections" on public.elections;
+create policy "Admins can create elections"
+  on public.elections
+  for insert
+  to authenticated
+  with check (public.can('create_election'));
+
+drop policy if exists "Admins can update candidates" on public.candidates;
+create policy "Admins can update candidates"
+  on public.candidates
+  for update
+  to authenticated
+  using (
+    public.can('edit_election', election_id)
+    and exists (select 1 from public.elections e where e.id = candidates.election_id and e.status = 'upcoming')
+  )
+  with check (public.can('edit_election', election_id));
+
+drop policy if exists "Admins can manage contests" on public.contests;
+create policy "Admins can manage contests"
+  on public.contests
+  for all
+  to authenticated
+  using (public.can('edit_election', election_id))
+  with check (public.can('edit_election', election_id));
+
+drop policy if exists "Members can read their nominations" on public.nominations;
+create policy "Members can read their nominations"
+  on public.nominations
+  for select
+  to authenticated
+  using (
+    nominee_id = auth.uid()
+    or seconder_id = auth.uid()
+    or public.can('review_nominations', election_id)
+  );
+
+drop policy if exists "Admins can manage email messages" on public.email_messages;
+create policy "Admins can manage email messages"
+  on public.email_messages
+  for all
+  to authenticated
+  using (public.can('manage_voters', election_id))
+  with check (public.can('manage_voters', election_id));
+
+drop policy if exists "Admins can read audit logs" on public.audit_logs;
+create policy "Admins can read audit logs"
+  on public.audit_logs
+  for select
+  to authenticated
+  using (public.can('view_audit_log'));
+
+drop policy if exists "Admins can upload candidate photos" on storage.objects;
+create policy "Admins can upload candidate photos"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (bucket_id = 'candidate-photos' and public.can('edit_election'));
+
+drop policy if exists "Admins can delete candidate photos" on storage.objects;
+create policy "Admins can delete candidate photos"
+  on storage.objects
+  for delete
+  to authenticated
+  using (bucket_id = 'candidate-photos' and public.can('edit_election'));
+
+drop policy if exists "Admins can read voter records" on public.voter_records;
+drop policy if exists "Election staff can read voter records" on public.voter_records;
+create policy "Election staff can read voter records"
+  on public.voter_records
+  for select
+  to authenticated
+  using (public.can('view_turnout', election_id));
+
+-- Election staff alongside the admin policies these tables already have
+
+drop policy if exists "Election staff can manage voter codes" on public.voter_codes;
+create policy "Election staff can manage voter codes"
+  on public.voter_codes
+  for all
+  to authenticated
+  using (public.can('manage_voters', election_id))
+  with check (public.can('manage_voters', election_id));
+
+drop policy if exists "Election staff can manage voter registrations" on public.voter_registrations;
+create policy "Election staff can manage voter registrations"
+  on public.voter_registrations
+  for all
+  to authenticated
+  using (public.can('manage_voters', election_id))
+  with check (public.can('manage_voters', election_id));
+
+drop policy if exists "Election staff can read votes" on public.votes;
+create policy "Election staff can read votes"
+  on public.votes
+  for select
+  to authenticated
+  using (public.can('view_turnout', election_id));
+
+create or replace function public.assign_election_role(
+  election_id uuid,
+  user_id uuid,
+  role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not public.can('assign_election_roles', assign_election_role.election_id) then
+    raise exception 'Only admins can assign election roles' using errcode = 'insufficient_privilege';
+  end if;
+  if assign_election_role.role not in ('officer', 'observer') then
+    raise exception 'Unknown election role %', assign_election_role.role using errcode = 'check_violation';
+  end if;
+  if not exists (select 1 from public.elections e where e.id = assign_election_role.election_id) then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+
+  select * into v_profile from public.profiles p where p.id = assign_election_role.user_id;
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+  if v_profile.role in ('admin', 'super_admin') then
+    raise exception 'Admins already have every permission on every election' using errcode = 'check_violation';
+  end if;
+
+  insert into public.election_roles as r (election_id, user_id, role, assigned_by)
+  values (assign_election_role.election_id, assign_election_role.user_id, assign_election_role.role, auth.uid())
+  on conflict on constraint election_roles_election_user_key do update
+  set role = excluded.role,
+      assigned_at = now(),
+      assigned_by = excluded.assigned_by;
+
+  perform public.append_audit_log(
+    'election_role_assigned',
+    format('Admin %s made %s %s of the election', auth.uid(),
+      coalesce(v_profile.email, v_profile.username, v_profile.id::text),
+      case when assign_election_role.role = 'officer' then 'a returning officer' else 'an observer' end),
+    assign_election_role.election_id
+  );
+end;
+$$;
+
+create or replace function public.remove_election_role(
+  election_id uuid,
+  user_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_member text;
+begin
+  if not public.can('assign_election_roles', remove_election_role.election_id) then
+    raise exception 'Only admins can remove election roles' using errcode = 'insufficient_privilege';
+  end if;
+
+  delete from public.election_roles r
+  where r.election_id = remove_election_role.election_id and r.user_id = remove_election_role.user_id
+  returning r.role into v_role;
+
+  if not found then
+    raise exception 'This member has no role in the election' using errcode = 'no_data_found';
+  end if;
+
+  select coalesce(p.email, p.username, p.id::text) into v_member
+  from public.profiles p
+  where p.id = remove_election_role.user_id;
+
+  perform public.append_audit_log(
+    'election_role_removed',
+    format('Admin %s removed %s as %s of the election', auth.uid(), v_member,
+      case when v_role = 'officer' then 'returning officer' else 'observer' end),
+    remove_election_role.election_id
+  );
+end;
+$$;
+
+revoke all on function public.assign_election_role(uuid, uuid, text) from public;
+revoke all on function public.remove_election_role(uuid, uuid) from public;
+grant execute on function public.assign_election_role(uuid, uuid, text) to authenticated;
+grant execute on function public.remove_election_role(uuid, uuid) to authenticated;
+
+-- The functions below are as before, with their permission checks asking
+-- can()
+
+create or replace function public.update_election_ballot(
+  election_id uuid,
+  ballot jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_contest jsonb;
+  v_contest_id uuid;
+  v_contest_position integer := 0;
+  v_candidate jsonb;
+  v_candidate_position integer;
+begin
+  if not public.can('edit_election', update_election_ballot.election_id) then
+    raise exception 'Only admins and the election''s officers can edit it' using errcode = 'insufficient_privilege';
+  end if;
+
+  select e.status into v_status
+  from public.elections e
+  where e.id = update_election_ballot.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+
+  if v_status <> 'upcoming' then
+    raise exception 'The ballot cannot change once voting has started' using errcode = 'check_violation';
+  end if;
+
+  delete from public.candidates c
+  where c.election_id = update_election_ballot.election_id
+    and c.id not in (
+      select (candidate ->> 'id')::uuid
+      from jsonb_array_elements(update_election_ballot.ballot) contest,
+        jsonb_array_elements(contest -> 'candidates') candidate
+    );
+
+  delete from public.contests c
+  where c.election_id = update_election_ballot.election_id
+    and c.id not in (
+      select (contest ->> 'id')::uuid
+      from jsonb_array_elements(update_election_ballot.ballot) contest
+    );
+
+  -- The (election_id, position) constraint is deferred, so positions may
+  -- pass through duplicates until the transaction commits
+  for v_contest in select * from jsonb_array_elements(update_election_ballot.ballot) loop
+    v_contest_id := (v_contest ->> 'id')::uuid;
+
+    insert into public.contests as c (
+      id, election_id, position, title, description, voting_method, seats,
+      max_selections, pass_threshold, threshold_percent, quorum_percent
+    )
+    values (
+      v_contest_id,
+      update_election_ballot.election_id,
+      v_contest_position,
+      v_contest ->> 'title',
+      v_contest ->> 'description',
+      v_contest ->> 'voting_method',
+      coalesce((v_contest ->> 'seats')::integer, 1),
+      (v_contest ->> 'max_selections')::integer,
+      v_contest ->> 'pass_threshold',
+      (v_contest ->> 'threshold_percent')::numeric,
+      (v_contest ->> 'quorum_percent')::numeric
+    )
+    on conflict (id) do update set
+      position = excluded.position,
+      title = excluded.title,
+      description = excluded.description,
+      voting_method = excluded.voting_method,
+      seats = excluded.seats,
+      max_selections = excluded.max_selections,
+      pass_threshold = excluded.pass_threshold,
+      threshold_percent = excluded.threshold_percent,
+      quorum_percent = excluded.quorum_percent
+    where c.election_id = excluded.election_id;
+
+    v_candidate_position := 0;
+    for v_candidate in select * from jsonb_array_elements(coalesce(v_contest -> 'candidates', '[]'::jsonb)) loop
+      insert into public.candidates as ca (
+        id, election_id, contest_id, position, name, description, photo_url, manifesto, links
+      )
+      values (
+        (v_candidate ->> 'id')::uuid,
+        update_election_ballot.election_id,
+        v_contest_id,
+        v_candidate_position,
+        v_candidate ->> 'name',
+        v_candidate ->> 'description',
+        v_candidate ->> 'photo_url',
+        v_candidate ->> 'manifesto',
+        coalesce(v_candidate -> 'links', '[]'::jsonb)
+      )
+      on conflict (id) do update set
+        contest_id = excluded.contest_id,
+        position = excluded.position,
+        name = excluded.name,
+        description = excluded.description,
+        photo_url = excluded.photo_url,
+        manifesto = excluded.manifesto,
+        links = excluded.links
+      where ca.election_id = excluded.election_id;
+
+      v_candidate_position := v_candidate_position + 1;
+    end loop;
+
+    v_contest_position := v_contest_position + 1;
+  end loop;
+end;
+$$;
+
+create or replace function public.review_nomination(
+  nomination_id uuid,
+  accept boolean,
+  note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_nomination public.nominations%rowtype;
+  v_candidate_id uuid;
+begin
+  select * into v_nomination
+  from public.nominations n
+  where n.id = review_nomination.nomination_id
+  for update;
+
+  if not found then
+    raise exception 'Nomination not found' using errcode = 'no_data_found';
+  end if;
+  if not public.can('review_nominations', v_nomination.election_id) then
+    raise exception 'Only admins and the election''s officers can review nominations' using errcode = 'insufficient_privilege';
+  end if;
+  if v_nomination.status <> 'pending' then
+    raise exception 'Only seconded nominations awaiting review can be accepted or rejected' using errcode = 'check_violation';
+  end if;
+
+  if review_nomination.accept then
+    -- The ballot lock trigger refuses this once voting has started
+    insert into public.candidates (election_id, contest_id, position, name, manifesto)
+    values (
+      v_nomination.election_id,
+      v_nomination.contest_id,
+      coalesce((select max(c.position) + 1 from public.candidates c where c.contest_id = v_nomination.contest_id), 0),
+      v_nomination.nominee_name,
+      v_nomination.statement
+    )
+    returning id into v_candidate_id;
+  end if;
+
+  update public.nominations
+  set status = case when review_nomination.accept then 'accepted' else 'rejected' end,
+      reviewed_at = now(),
+      reviewed_by = auth.uid(),
+      review_note = nullif(trim(review_nomination.note), ''),
+      candidate_id = v_candidate_id
+  where id = v_nomination.id;
+
+  perform public.append_audit_log(
+    case when review_nomination.accept then 'nomination_accepted' else 'nomination_rejected' end,
+    format('Nomination %s %s by %s%s', v_nomination.id,
+      case when review_nomination.accept then 'accepted' else 'rejected' end, auth.uid(),
+      case when v_candidate_id is not null then format(' as candidate %s', v_candidate_id) else '' end),
+    v_nomination.election_id
+  );
+
+  return v_candidate_id;
+end;
+$$;
+
+create or replace function public.revoke_voter_code(
+  code text,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = revoke_voter_code.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if not public.can('manage_voters', v_code.election_id) then
+    raise exception 'Only admins and the election''s officers can revoke voter codes' using errcode = 'insufficient_privilege';
+  end if;
+  if v_code.is_used then
+    raise exception 'This code has already been used to vote' using errcode = 'check_violation';
+  end if;
+  if v_code.revoked_at is not null then
+    raise exception 'This code has already been revoked' using errcode = 'check_violation';
+  end if;
+
+  update public.voter_codes vc
+  set revoked_at = now(),
+      revoked_by = auth.uid(),
+      revoke_reason = nullif(trim(revoke_voter_code.reason), '')
+  where vc.code = v_code.code;
+
+  perform public.append_audit_log(
+    'voter_code_revoked',
+    format('Admin %s revoked voter code %s%s%s', auth.uid(), v_code.code,
+      case when v_code.email is not null then format(' for %s', v_code.email) else '' end,
+      case when nullif(trim(revoke_voter_code.reason), '') is not null then format(': %s', trim(revoke_voter_code.reason)) else '' end),
+    v_code.election_id
+  );
+end;
+$$;
+
+create or replace function public.set_voter_code_expiry(
+  code text,
+  expires_at timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = set_voter_code_expiry.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if not public.can('manage_voters', v_code.election_id) then
+    raise exception 'Only admins and the election''s officers can change voter code expiry' using errcode = 'insufficient_privilege';
+  end if;
+  if v_code.is_used or v_code.revoked_at is not null then
+    raise exception 'Only unused, unrevoked codes can have their expiry changed' using errcode = 'check_violation';
+  end if;
+
+  update public.voter_codes vc
+  set expires_at = set_voter_code_expiry.expires_at
+  where vc.code = v_code.code;
+
+  perform public.append_audit_log(
+    'voter_code_expiry_set',
+    format('Admin %s %s', auth.uid(),
+      case when set_voter_code_expiry.expires_at is null
+        then format('removed the expiry of voter code %s', v_code.code)
+        else format('set voter code %s to expire at %s', v_code.code, set_voter_code_expiry.expires_at)
+      end),
+    v_code.election_id
+  );
+end;
+$$;
+
+create or replace function public.reissue_voter_code(
+  code text,
+  new_code text,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = reissue_voter_code.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if not public.can('manage_voters', v_code.election_id) then
+    raise exception 'Only admins and the election''s officers can reissue voter codes' using errcode = 'insufficient_privilege';
+  end if;
+  if v_code.is_used then
+    raise exception 'This code has already been used to vote' using errcode = 'check_violation';
+  end if;
+  if exists (select 1 from public.voter_codes vc where vc.reissued_from = v_code.code) then
+    raise exception 'This code has already been reissued' using errcode = 'check_violation';
+  end if;
+
+  if v_code.revoked_at is null then
+    update public.voter_codes vc
+    set revoked_at = now(),
+        revoked_by = auth.uid(),
+        revoke_reason = coalesce(nullif(trim(reissue_voter_code.reason), ''), 'Reissued')
+    where vc.code = v_code.code;
+  end if;
+
+  insert into public.voter_codes (code, election_id, email, name, expires_at, reissued_from, created_by)
+  values (
+    reissue_voter_code.new_code,
+    v_code.election_id,
+    v_code.email,
+    v_code.name,
+    case when v_code.expires_at > now() then v_code.expires_at end,
+    v_code.code,
+    auth.uid()
+  );
+
+  perform public.append_audit_log(
+    'voter_code_reissued',
+    format('Admin %s reissued voter code %s as %s%s', auth.uid(), v_code.code, reissue_voter_code.new_code,
+      case when v_code.email is not null then format(' for %s', v_code.email) else '' end),
+    v_code.election_id
+  );
+end;
+$$;
+
+create or replace function public.cast_vote(
+  election_id uuid,
+  encrypted_ballot text,
+  voter_code text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_code public.voter_codes%rowtype;
+  v_vote_id uuid;
+  v_ballot_hash text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'reason', 'not_authenticated');
+  end if;
+
+  -- Admins and the election's officers cannot vote in it
+  if not public.can('vote', cast_vote.election_id) then
+    return jsonb_build_object('success', false, 'reason', 'staff_cannot_vote');
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = cast_vote.election_id
+  for share;
+
+  if not found then
+    return jsonb_build_object('success', false, 'reason', 'election_not_found');
+  end if;
+
+  if v_election.status <> 'active' then
+    return jsonb_build_object('success', false, 'reason', 'election_not_active');
+  end if;
+
+  if v_election.public_key is null then
+    return jsonb_build_object('success', false, 'reason', 'election_not_encrypted');
+  end if;
+
+  if coalesce(length(cast_vote.encrypted_ballot), 0) = 0 then
+    return jsonb_build_object('success', false, 'reason', 'invalid_ballot');
+  end if;
+
+  if not exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = cast_vote.election_id
+      and r.status = 'approved'
+      and lower(r.email) = lower(v_email)
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'not_approved');
+  end if;
+
+  -- Lock the code row so concurrent casts with the same code serialize here
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = cast_vote.voter_code and vc.election_id = cast_vote.election_id
+  for update;
+
+  if not found or (v_code.email is not null and lower(v_code.email) <> lower(v_email)) then
+    return jsonb_build_object('success', false, 'reason', 'invalid_code');
+  end if;
+
+  if v_code.is_used then
+    return jsonb_build_object('success', false, 'reason', 'code_already_used');
+  end if;
+
+  if v_code.revoked_at is not null then
+    return jsonb_build_object('success', false, 'reason', 'code_revoked');
+  end if;
+
+  if v_code.expires_at is not null and v_code.expires_at <= now() then
+    return jsonb_build_object('success', false, 'reason', 'code_expired');
+  end if;
+
+  if exists (
+    select 1 from public.voter_records vr
+    where vr.voter_id = v_user_id and vr.election_id = cast_vote.election_id
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end if;
+
+  v_ballot_hash := encode(sha256(convert_to(cast_vote.encrypted_ballot, 'UTF8')), 'hex');
+
+  begin
+    insert into public.votes (election_id, encrypted_ballot, ballot_hash)
+    values (cast_vote.election_id, cast_vote.encrypted_ballot, v_ballot_hash)
+    returning id into v_vote_id;
+
+    insert into public.voter_records (voter_id, election_id, has_voted, timestamp)
+    values (v_user_id, cast_vote.election_id, true, now());
+
+    update public.voter_codes vc
+    set is_used = true, used_at = now()
+    where vc.code = cast_vote.voter_code;
+  exception
+    when unique_violation then
+      return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end;
+
+  return jsonb_build_object('success', true, 'vote_id', v_vote_id, 'ballot_hash', v_ballot_hash);
+end;
+$$;
+
+create or replace function public.set_member_role(
+  user_id uuid,
+  new_role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not public.can('manage_members') then
+    raise exception 'Only admins can change member roles' using errcode = 'insufficient_privilege';
+  end if;
+  if set_member_role.new_role not in ('super_admin', 'admin', 'voter') then
+    raise exception 'Unknown role %', set_member_role.new_role using errcode = 'check_violation';
+  end if;
+  if set_member_role.user_id = auth.uid() then
+    raise exception 'You cannot change your own role' using errcode = 'check_violation';
+  end if;
+
+  select * into v_profile
+  from public.profiles p
+  where p.id = set_member_role.user_id
+  for update;
+
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+  if v_profile.role = set_member_role.new_role then
+    return;
+  end if;
+  if (v_profile.role in ('admin', 'super_admin') or set_member_role.new_role in ('admin', 'super_admin'))
+    and not public.can('manage_admins') then
+    raise exception 'Only super-admins can grant or revoke the admin roles' using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.profiles p
+  set role = set_member_role.new_role, updated_at = now()
+  where p.id = v_profile.id;
+
+  perform public.append_audit_log(
+    'member_role_changed',
+    format('Admin %s changed the role of %s from %s to %s', auth.uid(),
+      coalesce(v_profile.email, v_profile.username, v_profile.id::text), v_profile.role, set_member_role.new_role)
+  );
+end;
+$$;
+
+create or replace function public.set_member_active(
+  user_id uuid,
+  active boolean,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not public.can('manage_members') then
+    raise exception 'Only admins can deactivate or reactivate members' using errcode = 'insufficient_privilege';
+  end if;
+  if set_member_active.user_id = auth.uid() then
+    raise exception 'You cannot deactivate your own account' using errcode = 'check_violation';
+  end if;
+
+  select * into v_profile
+  from public.profiles p
+  where p.id = set_member_active.user_id
+  for update;
+
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+  if v_profile.role in ('admin', 'super_admin') and not public.can('manage_admins') then
+    raise exception 'Only super-admins can deactivate or reactivate admins' using errcode = 'insufficient_privilege';
+  end if;
+  if (v_profile.deactivated_at is null) = set_member_active.active then
+    raise exception 'This account is already %', case when set_member_active.active then 'active' else 'deactivated' end
+      using errcode = 'check_violation';
+  end if;
+
+  update public.profiles p
+  set deactivated_at = case when set_member_active.active then null else now() end,
+      deactivated_by = case when set_member_active.active then null else auth.uid() end,
+      deactivation_reason = case when set_member_active.active then null else nullif(trim(set_member_active.reason), '') end,
+      updated_at = now()
+  where p.id = v_profile.id;
+
+  perform public.append_audit_log(
+    case when set_member_active.active then 'member_reactivated' else 'member_deactivated' end,
+    format('Admin %s %s the account of %s%s', auth.uid(),
+      case when set_member_active.active then 'reactivated' else 'deactivated' end,
+      coalesce(v_profile.email, v_profile.username, v_profile.id::text),
+      case when nullif(trim(set_member_active.reason), '') is not null then format(': %s', trim(set_member_active.reason)) else '' end)
+  );
+end;
+$$;
+
+create or replace function public.record_member_invitation(
+  user_id uuid,
+  new_role text default 'voter'
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text;
+begin
+  if not public.can('manage_members') then
+    raise exception 'Only admins can invite members' using errcode = 'insufficient_privilege';
+  end if;
+  if record_member_invitation.new_role not in ('super_admin', 'admin', 'voter') then
+    raise exception 'Unknown role %', record_member_invitation.new_role using errcode = 'check_violation';
+  end if;
+  if record_member_invitation.new_role in ('admin', 'super_admin') and not public.can('manage_admins') then
+    raise exception 'Only super-admins can invite admins' using errcode = 'insufficient_privilege';
+  end if;
+
+  select u.email into v_email from auth.users u where u.id = record_member_invitation.user_id;
+  if not found then
+    raise exception 'Member not found' using errcode = 'no_data_found';
+  end if;
+
+  insert into public.profiles (id, role, invited_at, invited_by)
+  values (record_member_invitation.user_id, record_member_invitation.new_role, now(), auth.uid())
+  on conflict (id) do update
+  set role = excluded.role,
+      invited_at = excluded.invited_at,
+      invited_by = excluded.invited_by,
+      updated_at = now();
+
+  perform public.append_audit_log(
+    'member_invited',
+    format('Admin %s invited %s as %s', auth.uid(), v_email, record_member_invitation.new_role)
+  );
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'election_roles'
+    ) then
+    alter publication supabase_realtime add table public.election_roles;
+  end if;
+end;
+$$;
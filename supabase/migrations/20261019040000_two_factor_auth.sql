@@ -0,0 +1,224 @@
+-- Two-factor authentication: recovery codes and the club setting that
+-- makes it mandatory for election staff.
+--
+-- Members enrol an authenticator app through Supabase Auth's TOTP factors,
+-- which also tell us whether a session was verified with one (the aal2
+-- assurance level in the JWT). Alongside the factor each member keeps a set
+-- of single-use recovery codes, stored as SHA-256 hashes. Redeeming one
+-- removes the member's factors, so they can sign in with their password and
+-- enrol again.
+--
+-- When club_settings.require_admin_2fa is on, the app keeps admins and
+-- officers out of the admin dashboard until their session is verified with
+-- a second factor, and the database refuses election status changes from
+-- sessions that are not.
+
+create table if not exists public.club_settings (
+  -- A single row
+  id boolean primary key default true,
+  require_admin_2fa boolean not null default false,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users (id),
+  constraint club_settings_single_row check (id)
+);
+
+insert into public.club_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.club_settings enable row level security;
+
+drop policy if exists "Members can read club settings" on public.club_settings;
+create policy "Members can read club settings"
+  on public.club_settings
+  for select
+  to authenticated
+  using (true);
+
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint mfa_recovery_codes_user_hash_key unique (user_id, code_hash)
+);
+
+alter table public.mfa_recovery_codes enable row level security;
+
+-- Members can see how many codes they have left; the hashes are of random
+-- codes, so reading them back gives nothing away
+drop policy if exists "Members can read their recovery codes" on public.mfa_recovery_codes;
+create policy "Members can read their recovery codes"
+  on public.mfa_recovery_codes
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Whether the current session satisfies the club's two-factor rule for
+-- staff: always when the rule is off, otherwise only at aal2
+create or replace function public.meets_admin_two_factor()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not coalesce((select s.require_admin_2fa from public.club_settings s where s.id), false)
+    or coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2';
+$$;
+
+revoke all on function public.meets_admin_two_factor() from public;
+grant execute on function public.meets_admin_two_factor() to authenticated;
+
+create or replace function public.set_club_settings(
+  require_admin_2fa boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can('manage_settings') then
+    raise exception 'Only admins can change club settings' using errcode = 'insufficient_privilege';
+  end if;
+  -- Whoever turns the rule on or off must meet it, so nobody locks
+  -- themselves out
+  if coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' then
+    raise exception 'Turn on two-factor authentication for your own account first' using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.club_settings s
+  set require_admin_2fa = set_club_settings.require_admin_2fa,
+      updated_at = now(),
+      updated_by = auth.uid()
+  where s.id and s.require_admin_2fa is distinct from set_club_settings.require_admin_2fa;
+
+  if found then
+    perform public.append_audit_log(
+      'club_settings_changed',
+      format('Admin %s %s two-factor authentication for election staff', auth.uid(),
+        case when set_club_settings.require_admin_2fa then 'required' else 'stopped requiring' end)
+    );
+  end if;
+end;
+$$;
+
+-- Replaces the current user's recovery codes. Called right after a factor
+-- is verified, and whenever the member asks for new codes.
+create or replace function public.replace_recovery_codes(
+  code_hashes text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_first boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to manage recovery codes' using errcode = 'insufficient_privilege';
+  end if;
+  if coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' then
+    raise exception 'Verify a code from your authenticator app first' using errcode = 'insufficient_privilege';
+  end if;
+  if coalesce(array_length(replace_recovery_codes.code_hashes, 1), 0) = 0 then
+    raise exception 'No recovery codes given' using errcode = 'check_violation';
+  end if;
+
+  v_first := not exists (select 1 from public.mfa_recovery_codes c where c.user_id = auth.uid());
+
+  delete from public.mfa_recovery_codes c where c.user_id = auth.uid();
+  insert into public.mfa_recovery_codes (user_id, code_hash)
+  select distinct auth.uid(), h
+  from unnest(replace_recovery_codes.code_hashes) as h;
+
+  perform public.append_audit_log(
+    case when v_first then 'two_factor_enabled' else 'recovery_codes_regenerated' end,
+    format('User %s %s', auth.uid(),
+      case when v_first then 'turned on two-factor authentication' else 'generated new recovery codes' end)
+  );
+end;
+$$;
+
+-- Spends one of the current user's recovery codes and removes their
+-- factors, so the session no longer needs a second step. Returns false when
+-- the code is unknown or already used.
+create or replace function public.redeem_recovery_code(
+  code_hash text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_code_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to use a recovery code' using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.mfa_recovery_codes c
+  set used_at = now()
+  where c.user_id = auth.uid()
+    and c.code_hash = redeem_recovery_code.code_hash
+    and c.used_at is null
+  returning c.id into v_code_id;
+
+  if v_code_id is null then
+    return false;
+  end if;
+
+  delete from auth.mfa_factors f where f.user_id = auth.uid();
+
+  perform public.append_audit_log(
+    'recovery_code_used',
+    format('User %s signed in with a recovery code; their authenticator was removed', auth.uid())
+  );
+  return true;
+end;
+$$;
+
+revoke all on function public.set_club_settings(boolean) from public;
+revoke all on function public.replace_recovery_codes(text[]) from public;
+revoke all on function public.redeem_recovery_code(text) from public;
+grant execute on function public.set_club_settings(boolean) to authenticated;
+grant execute on function public.replace_recovery_codes(text[]) to authenticated;
+grant execute on function public.redeem_recovery_code(text) to authenticated;
+
+-- Election status changes made by members, rather than by the scheduled
+-- lifecycle function, need a second factor when the club requires one.
+-- The lifecycle function is security definer and runs as its owner, so
+-- current_user tells the two apart; this one must not be.
+create or replace function public.check_status_change_two_factor()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status
+    and current_user = 'authenticated'
+    and not public.meets_admin_two_factor() then
+    raise exception 'Two-factor authentication is required to change an election''s status' using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_status_change_two_factor on public.elections;
+create trigger check_status_change_two_factor
+  before update of status on public.elections
+  for each row execute function public.check_status_change_two_factor();
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'club_settings'
+    ) then
+    alter publication supabase_realtime add table public.club_settings;
+  end if;
+end;
+$$;
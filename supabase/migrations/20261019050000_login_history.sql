@@ -0,0 +1,193 @@
+-- Login history and active sessions.
+--
+-- The app records each sign-in, sign-out, failed sign-in and token refresh
+-- with the browser's user agent, so members can see where their account
+-- was used and admins can spot attacks on the club. Members read their own
+-- events; admins who manage members read everyone's. Events are written
+-- only through record_login_event, which takes the member and session from
+-- the caller's JWT rather than trusting the browser.
+--
+-- Sessions are Supabase Auth's own. Members can list theirs and end any but
+-- the one they are using; admins can do the same for every member. Ending a
+-- session revokes its refresh token, so it is signed out the next time its
+-- access token expires.
+
+create table if not exists public.login_events (
+  id uuid primary key default gen_random_uuid(),
+  -- Null for failed sign-ins with an email that has no account
+  user_id uuid references auth.users (id) on delete cascade,
+  email text,
+  event text not null,
+  session_id uuid,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  constraint login_events_event_check
+    check (event in ('sign_in', 'sign_out', 'sign_in_failed', 'token_refreshed'))
+);
+
+create index if not exists login_events_user_id_created_at_idx on public.login_events (user_id, created_at desc);
+create index if not exists login_events_created_at_idx on public.login_events (created_at desc);
+
+alter table public.login_events enable row level security;
+
+drop policy if exists "Members can read their login events" on public.login_events;
+create policy "Members can read their login events"
+  on public.login_events
+  for select
+  to authenticated
+  using (user_id = auth.uid() or public.can('manage_members'));
+
+-- Failed sign-ins have no session, so they are recorded for the email that
+-- was tried. Everything else is recorded for the caller's own session; the
+-- client reports a sign-in whenever it restores a session, so each session
+-- counts as signed in once.
+create or replace function public.record_login_event(
+  event text,
+  user_agent text default null,
+  email text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_session_id uuid;
+  v_email text;
+begin
+  if record_login_event.event not in ('sign_in', 'sign_out', 'sign_in_failed', 'token_refreshed') then
+    raise exception 'Unknown login event %', record_login_event.event using errcode = 'check_violation';
+  end if;
+
+  if record_login_event.event = 'sign_in_failed' then
+    v_email := lower(trim(record_login_event.email));
+    if coalesce(v_email, '') = '' then
+      raise exception 'A failed sign-in needs the email that was tried' using errcode = 'check_violation';
+    end if;
+    -- Anyone can report a failed sign-in, so at most ten a minute are
+    -- recorded for one email
+    if exists (
+      select 1 from public.login_events e
+      where e.email = v_email and e.event = 'sign_in_failed'
+        and e.created_at > now() - interval '1 minute'
+      having count(*) >= 10
+    ) then
+      return;
+    end if;
+
+    insert into public.login_events (user_id, email, event, user_agent)
+    select u.id, v_email, 'sign_in_failed', left(record_login_event.user_agent, 512)
+    from (select 1) as one
+    left join auth.users u on lower(u.email) = v_email;
+    return;
+  end if;
+
+  if auth.uid() is null then
+    raise exception 'Sign in to record a login event' using errcode = 'insufficient_privilege';
+  end if;
+
+  v_session_id := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+  if record_login_event.event = 'sign_in' and exists (
+    select 1 from public.login_events e
+    where e.session_id = v_session_id and e.event = 'sign_in'
+  ) then
+    return;
+  end if;
+
+  insert into public.login_events (user_id, email, event, session_id, user_agent)
+  values (auth.uid(), auth.jwt() ->> 'email', record_login_event.event, v_session_id,
+    left(record_login_event.user_agent, 512));
+end;
+$$;
+
+revoke all on function public.record_login_event(text, text, text) from public;
+grant execute on function public.record_login_event(text, text, text) to anon, authenticated;
+
+-- A member's sessions, or every member's when member_id is null. Only
+-- admins who manage members can list sessions other than their own.
+create or replace function public.list_sessions(
+  member_id uuid default null
+)
+returns table (
+  id uuid,
+  user_id uuid,
+  email text,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  user_agent text,
+  aal text,
+  is_current boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public, auth
+as $$
+begin
+  if (list_sessions.member_id is null or list_sessions.member_id <> auth.uid())
+    and not public.can('manage_members') then
+    raise exception 'Only admins can see other members'' sessions' using errcode = 'insufficient_privilege';
+  end if;
+
+  return query
+  select s.id,
+    s.user_id,
+    u.email::text,
+    s.created_at,
+    coalesce(s.refreshed_at at time zone 'utc', s.updated_at, s.created_at),
+    s.user_agent,
+    s.aal::text,
+    s.id = nullif(auth.jwt() ->> 'session_id', '')::uuid
+  from auth.sessions s
+  join auth.users u on u.id = s.user_id
+  where (list_sessions.member_id is null or s.user_id = list_sessions.member_id)
+    and (s.not_after is null or s.not_after > now())
+  order by coalesce(s.refreshed_at at time zone 'utc', s.updated_at, s.created_at) desc;
+end;
+$$;
+
+-- Ends a session other than the caller's current one
+create or replace function public.revoke_session(
+  session_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_user_id uuid;
+  v_email text;
+begin
+  select s.user_id, u.email into v_user_id, v_email
+  from auth.sessions s
+  join auth.users u on u.id = s.user_id
+  where s.id = revoke_session.session_id;
+
+  if not found then
+    raise exception 'Session not found' using errcode = 'no_data_found';
+  end if;
+  if revoke_session.session_id = nullif(auth.jwt() ->> 'session_id', '')::uuid then
+    raise exception 'Log out to end the session you are using' using errcode = 'check_violation';
+  end if;
+  if v_user_id is distinct from auth.uid() and not public.can('manage_members') then
+    raise exception 'Only admins can end other members'' sessions' using errcode = 'insufficient_privilege';
+  end if;
+
+  -- Takes the session's refresh tokens with it
+  delete from auth.sessions s where s.id = revoke_session.session_id;
+
+  perform public.append_audit_log(
+    'session_revoked',
+    case when v_user_id = auth.uid()
+      then format('User %s ended one of their other sessions', auth.uid())
+      else format('Admin %s ended a session of %s', auth.uid(), coalesce(v_email, v_user_id::text))
+    end
+  );
+end;
+$$;
+
+revoke all on function public.list_sessions(uuid) from public;
+revoke all on function public.revoke_session(uuid) from public;
+grant execute on function public.list_sessions(uuid) to authenticated;
+grant execute on function public.revoke_session(uuid) to authenticated;
@@ -0,0 +1,10 @@
+-- Ballots no longer record when they were cast.
+--
+-- cast_vote() stamped the ballot and the voter record with the same now(),
+-- and election staff can read both, so anyone holding the election's
+-- private key could match a decrypted ballot to the member who cast it.
+-- Voter records keep their timestamp for turnout; ballots keep only what
+-- the tally and the ballot board need.
+
+alter table public.votes
+  drop column if exists timestamp;
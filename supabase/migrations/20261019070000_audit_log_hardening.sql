@@ -0,0 +1,518 @@
+-- Audit entries for security-sensitive actions are written by the database.
+--
+-- append_audit_log() was callable by anyone, anonymous visitors included,
+-- with any action and any details, so the log could be padded with entries
+-- nobody made. It is now only called from the functions in this schema,
+-- and rejects actions outside the AuditAction list in src/types.
+--
+-- Casting a vote, changing an election's status or registration,
+-- publishing results, reviewing registrations and issuing voter codes now
+-- go through functions that do the work and write its entry in the same
+-- transaction. What the app still records itself, it records through
+-- log_audit_event(), which accepts only those actions and only from
+-- members who may take them.
+--
+-- The client's address is read from headers the platform's proxies set:
+-- Cloudflare's cf-connecting-ip, else the last x-forwarded-for hop. The
+-- first x-forwarded-for hop is whatever the client sent.
+
+create or replace function public.request_ip()
+returns text
+language plpgsql
+stable
+as $$
+declare
+  v_headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_hops text[];
+begin
+  if v_headers ->> 'cf-connecting-ip' is not null then
+    return v_headers ->> 'cf-connecting-ip';
+  end if;
+  v_hops := regexp_split_to_array(v_headers ->> 'x-forwarded-for', '\s*,\s*');
+  return nullif(trim(v_hops[array_length(v_hops, 1)]), '');
+end;
+$$;
+
+revoke all on function public.request_ip() from public;
+
+create or replace function public.append_audit_log(
+  action text,
+  details text,
+  election_id uuid default null
+)
+returns public.audit_logs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry public.audit_logs%rowtype;
+begin
+  -- Keep in step with AuditAction in src/types
+  if append_audit_log.action not in (
+    'login', 'logout', 'vote_cast',
+    'election_created', 'election_updated', 'election_started', 'election_closed',
+    'election_registration_updated', 'election_tallied', 'candidate_name_updated',
+    'nomination_submitted', 'nomination_seconded', 'nomination_declined', 'nomination_accepted', 'nomination_rejected',
+    'user_registered', 'member_invited', 'member_role_changed', 'member_deactivated', 'member_reactivated',
+    'two_factor_enabled', 'two_factor_disabled', 'recovery_codes_regenerated', 'recovery_code_used',
+    'club_settings_changed', 'session_revoked', 'election_role_assigned', 'election_role_removed',
+    'voter_registration_approved', 'voter_registration_rejected',
+    'voter_codes_generated', 'voter_codes_emailed', 'voter_code_revoked', 'voter_code_expiry_set', 'voter_code_reissued'
+  ) then
+    raise exception 'Unknown audit action %', append_audit_log.action using errcode = 'check_violation';
+  end if;
+
+  -- Serialize appends so every entry links to the one before it
+  perform pg_advisory_xact_lock(hashtext('public.audit_logs'));
+
+  select a.hash into v_entry.prev_hash
+  from public.audit_logs a
+  order by a.seq desc
+  limit 1;
+
+  v_entry.prev_hash := coalesce(v_entry.prev_hash, repeat('0', 64));
+  v_entry.id := gen_random_uuid();
+  v_entry.action := append_audit_log.action;
+  v_entry.user_id := auth.uid();
+  v_entry.election_id := append_audit_log.election_id;
+  v_entry.details := append_audit_log.details;
+  v_entry.ip_address := public.request_ip();
+  v_entry.created_at := date_trunc('milliseconds', now());
+  v_entry.hash := encode(sha256(convert_to(public.audit_log_payload(
+    v_entry.prev_hash,
+    v_entry.id,
+    v_entry.action,
+    v_entry.user_id,
+    v_entry.election_id,
+    v_entry.details,
+    v_entry.created_at
+  ), 'UTF8')), 'hex');
+
+  insert into public.audit_logs (id, action, user_id, election_id, details, ip_address, created_at, prev_hash, hash)
+  values (
+    v_entry.id,
+    v_entry.action,
+    v_entry.user_id,
+    v_entry.election_id,
+    v_entry.details,
+    v_entry.ip_address,
+    v_entry.created_at,
+    v_entry.prev_hash,
+    v_entry.hash
+  )
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+revoke all on function public.append_audit_log(text, text, uuid) from public, anon, authenticated;
+
+-- The entries the app still writes after doing the work itself
+create or replace function public.log_audit_event(
+  action text,
+  details text,
+  election_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed boolean;
+begin
+  v_allowed := case log_audit_event.action
+    when 'election_created' then public.can('create_election')
+    when 'election_updated' then public.can('edit_election', log_audit_event.election_id)
+    when 'candidate_name_updated' then public.can('edit_election', log_audit_event.election_id)
+    when 'voter_codes_emailed' then public.can('manage_voters', log_audit_event.election_id)
+    when 'user_registered' then exists (
+      select 1 from public.voter_registrations r
+      where r.election_id = log_audit_event.election_id and lower(r.email) = lower(auth.email())
+    )
+    else false
+  end;
+
+  if not coalesce(v_allowed, false) then
+    raise exception 'You cannot record % entries', log_audit_event.action using errcode = 'insufficient_privilege';
+  end if;
+
+  perform public.append_audit_log(log_audit_event.action, log_audit_event.details, log_audit_event.election_id);
+end;
+$$;
+
+create or replace function public.set_election_status(
+  election_id uuid,
+  status text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+begin
+  if not public.can('change_election_status', set_election_status.election_id) then
+    raise exception 'Only admins and the election''s officers can change its status' using errcode = 'insufficient_privilege';
+  end if;
+  if not public.meets_admin_two_factor() then
+    raise exception 'Two-factor authentication is required to change an election''s status' using errcode = 'insufficient_privilege';
+  end if;
+  if set_election_status.status not in ('upcoming', 'active', 'closed') then
+    raise exception 'Unknown election status %', set_election_status.status using errcode = 'check_violation';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = set_election_status.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.status = set_election_status.status then
+    return v_election.id;
+  end if;
+
+  update public.elections e
+  set status = set_election_status.status
+  where e.id = v_election.id;
+
+  perform public.append_audit_log(
+    case set_election_status.status
+      when 'active' then 'election_started'
+      when 'closed' then 'election_closed'
+      else 'election_updated'
+    end,
+    format('Election %s status changed from %s to %s by %s',
+      v_election.id, v_election.status, set_election_status.status, auth.uid()),
+    v_election.id
+  );
+  return v_election.id;
+end;
+$$;
+
+create or replace function public.set_registration_status(
+  election_id uuid,
+  registration_status text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+begin
+  if not public.can('change_election_status', set_registration_status.election_id) then
+    raise exception 'Only admins and the election''s officers can open or close its registration' using errcode = 'insufficient_privilege';
+  end if;
+  if set_registration_status.registration_status not in ('open', 'closed') then
+    raise exception 'Unknown registration status %', set_registration_status.registration_status using errcode = 'check_violation';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = set_registration_status.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.registration_status = set_registration_status.registration_status then
+    return v_election.id;
+  end if;
+
+  update public.elections e
+  set registration_status = set_registration_status.registration_status
+  where e.id = v_election.id;
+
+  perform public.append_audit_log(
+    'election_registration_updated',
+    format('Election %s registration %s by %s',
+      v_election.id, set_registration_status.registration_status, auth.uid()),
+    v_election.id
+  );
+  return v_election.id;
+end;
+$$;
+
+-- results is the ElectionTally the officer's browser decrypted
+create or replace function public.publish_election_results(
+  election_id uuid,
+  results jsonb
+)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+  v_published_at timestamptz := now();
+begin
+  if not public.can('tally_election', publish_election_results.election_id) then
+    raise exception 'Only admins and the election''s officers can tally it' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = publish_election_results.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.status <> 'closed' then
+    raise exception 'Results can only be published once the election has closed' using errcode = 'check_violation';
+  end if;
+
+  update public.elections e
+  set results = publish_election_results.results,
+      results_published_at = v_published_at
+  where e.id = v_election.id;
+
+  perform public.append_audit_log(
+    'election_tallied',
+    format('Admin %s decrypted %s ballots and published results for election "%s"',
+      auth.uid(), coalesce(publish_election_results.results ->> 'totalBallots', '0'), v_election.title),
+    v_election.id
+  );
+  return v_published_at;
+end;
+$$;
+
+-- Approving a registration issues the member a voter code, which the app
+-- generates and passes in as voter_code
+create or replace function public.review_voter_registration(
+  registration_id uuid,
+  status text,
+  voter_code text default null
+)
+returns public.voter_registrations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_registration public.voter_registrations%rowtype;
+begin
+  select * into v_registration
+  from public.voter_registrations r
+  where r.id = review_voter_registration.registration_id
+  for update;
+
+  if not found then
+    raise exception 'Registration not found' using errcode = 'no_data_found';
+  end if;
+  if not public.can('manage_voters', v_registration.election_id) then
+    raise exception 'Only admins and the election''s officers can review its registrations' using errcode = 'insufficient_privilege';
+  end if;
+  if review_voter_registration.status not in ('approved', 'rejected') then
+    raise exception 'Unknown registration status %', review_voter_registration.status using errcode = 'check_violation';
+  end if;
+  if v_registration.status <> 'pending' then
+    raise exception 'This registration has already been reviewed' using errcode = 'check_violation';
+  end if;
+  if review_voter_registration.status = 'approved' and review_voter_registration.voter_code is null then
+    raise exception 'Approving a registration needs a voter code' using errcode = 'check_violation';
+  end if;
+
+  if review_voter_registration.status = 'approved' then
+    insert into public.voter_codes (code, election_id, email, name, created_by)
+    values (review_voter_registration.voter_code, v_registration.election_id, v_registration.email, v_registration.name, auth.uid());
+  end if;
+
+  update public.voter_registrations r
+  set status = review_voter_registration.status,
+      reviewed_at = now(),
+      reviewed_by = auth.uid(),
+      voter_code_id = case when review_voter_registration.status = 'approved' then review_voter_registration.voter_code end
+  where r.id = v_registration.id
+  returning * into v_registration;
+
+  perform public.append_audit_log(
+    case when review_voter_registration.status = 'approved'
+      then 'voter_registration_approved' else 'voter_registration_rejected' end,
+    format('Admin %s %s registration for %s (%s) for election %s', auth.uid(), review_voter_registration.status,
+      v_registration.name, v_registration.email, v_registration.election_id),
+    v_registration.election_id
+  );
+  return v_registration;
+end;
+$$;
+
+-- codes is a list of {code, email, name}; email and name are optional
+create or replace function public.issue_voter_codes(
+  election_id uuid,
+  codes jsonb
+)
+returns setof public.voter_codes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_title text;
+  v_count integer;
+  v_bound integer;
+begin
+  if not public.can('manage_voters', issue_voter_codes.election_id) then
+    raise exception 'Only admins and the election''s officers can generate its voter codes' using errcode = 'insufficient_privilege';
+  end if;
+
+  select e.title into v_title
+  from public.elections e
+  where e.id = issue_voter_codes.election_id;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+
+  select count(*), count(x.email) into v_count, v_bound
+  from jsonb_to_recordset(issue_voter_codes.codes) as x(code text, email text, name text);
+
+  return query
+  insert into public.voter_codes (code, election_id, email, name, created_by)
+  select x.code, issue_voter_codes.election_id, nullif(trim(x.email), ''), nullif(trim(x.name), ''), auth.uid()
+  from jsonb_to_recordset(issue_voter_codes.codes) as x(code text, email text, name text)
+  returning *;
+
+  perform public.append_audit_log(
+    'voter_codes_generated',
+    format('Admin %s generated %s voter codes%s for election "%s"', auth.uid(), v_count,
+      case when v_bound > 0 then ' bound to member emails' else '' end, v_title),
+    issue_voter_codes.election_id
+  );
+end;
+$$;
+
+create or replace function public.cast_vote(
+  election_id uuid,
+  encrypted_ballot text,
+  voter_code text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_code public.voter_codes%rowtype;
+  v_vote_id uuid;
+  v_ballot_hash text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'reason', 'not_authenticated');
+  end if;
+
+  -- Admins and the election's officers cannot vote in it
+  if not public.can('vote', cast_vote.election_id) then
+    return jsonb_build_object('success', false, 'reason', 'staff_cannot_vote');
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = cast_vote.election_id
+  for share;
+
+  if not found then
+    return jsonb_build_object('success', false, 'reason', 'election_not_found');
+  end if;
+
+  if v_election.status <> 'active' then
+    return jsonb_build_object('success', false, 'reason', 'election_not_active');
+  end if;
+
+  if v_election.public_key is null then
+    return jsonb_build_object('success', false, 'reason', 'election_not_encrypted');
+  end if;
+
+  if coalesce(length(cast_vote.encrypted_ballot), 0) = 0 then
+    return jsonb_build_object('success', false, 'reason', 'invalid_ballot');
+  end if;
+
+  if not exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = cast_vote.election_id
+      and r.status = 'approved'
+      and lower(r.email) = lower(v_email)
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'not_approved');
+  end if;
+
+  -- Lock the code row so concurrent casts with the same code serialize here
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = cast_vote.voter_code and vc.election_id = cast_vote.election_id
+  for update;
+
+  if not found or (v_code.email is not null and lower(v_code.email) <> lower(v_email)) then
+    return jsonb_build_object('success', false, 'reason', 'invalid_code');
+  end if;
+
+  if v_code.is_used then
+    return jsonb_build_object('success', false, 'reason', 'code_already_used');
+  end if;
+
+  if v_code.revoked_at is not null then
+    return jsonb_build_object('success', false, 'reason', 'code_revoked');
+  end if;
+
+  if v_code.expires_at is not null and v_code.expires_at <= now() then
+    return jsonb_build_object('success', false, 'reason', 'code_expired');
+  end if;
+
+  if exists (
+    select 1 from public.voter_records vr
+    where vr.voter_id = v_user_id and vr.election_id = cast_vote.election_id
+  ) then
+    return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end if;
+
+  v_ballot_hash := encode(sha256(convert_to(cast_vote.encrypted_ballot, 'UTF8')), 'hex');
+
+  begin
+    insert into public.votes (election_id, encrypted_ballot, ballot_hash)
+    values (cast_vote.election_id, cast_vote.encrypted_ballot, v_ballot_hash)
+    returning id into v_vote_id;
+
+    insert into public.voter_records (voter_id, election_id, has_voted, timestamp)
+    values (v_user_id, cast_vote.election_id, true, now());
+
+    update public.voter_codes vc
+    set is_used = true, used_at = now()
+    where vc.code = cast_vote.voter_code;
+  exception
+    when unique_violation then
+      return jsonb_build_object('success', false, 'reason', 'already_voted');
+  end;
+
+  perform public.append_audit_log(
+    'vote_cast',
+    format('Vote cast in election "%s" by user %s', v_election.title, v_user_id),
+    v_election.id
+  );
+
+  return jsonb_build_object('success', true, 'vote_id', v_vote_id, 'ballot_hash', v_ballot_hash);
+end;
+$$;
+
+revoke all on function public.log_audit_event(text, text, uuid) from public;
+revoke all on function public.set_election_status(uuid, text) from public;
+revoke all on function public.set_registration_status(uuid, text) from public;
+revoke all on function public.publish_election_results(uuid, jsonb) from public;
+revoke all on function public.review_voter_registration(uuid, text, text) from public;
+revoke all on function public.issue_voter_codes(uuid, jsonb) from public;
+grant execute on function public.log_audit_event(text, text, uuid) to authenticated;
+grant execute on function public.set_election_status(uuid, text) to authenticated;
+grant execute on function public.set_registration_status(uuid, text) to authenticated;
+grant execute on function public.publish_election_results(uuid, jsonb) to authenticated;
+grant execute on function public.review_voter_registration(uuid, text, text) to authenticated;
+grant execute on function public.issue_voter_codes(uuid, jsonb) to authenticated;
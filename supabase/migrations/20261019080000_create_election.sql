@@ -0,0 +1,93 @@
+-- Creating an election in one transaction.
+--
+-- The app used to insert the election and then each contest and its
+-- candidates separately, so a failure part way left an election with half
+-- a ballot. create_election() inserts the election and fills in its ballot
+-- with update_election_ballot(), and either all of it is saved or none.
+
+-- election holds the elections columns an admin fills in, plus the
+-- generated election_code and public_key. ballot is as for
+-- update_election_ballot().
+create or replace function public.create_election(
+  election jsonb,
+  ballot jsonb
+)
+returns public.elections
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+begin
+  if not public.can('create_election') then
+    raise exception 'Only admins can create elections' using errcode = 'insufficient_privilege';
+  end if;
+
+  -- The ballot can only be filled in while the election is upcoming
+  insert into public.elections (
+    title, description, start_date, end_date, created_by, status, registration_status,
+    registration_lead_minutes, nomination_opens_at, nomination_closes_at, election_code, public_key
+  )
+  values (
+    create_election.election ->> 'title',
+    create_election.election ->> 'description',
+    (create_election.election ->> 'start_date')::timestamptz,
+    (create_election.election ->> 'end_date')::timestamptz,
+    auth.uid(),
+    'upcoming',
+    'open',
+    coalesce((create_election.election ->> 'registration_lead_minutes')::integer, 0),
+    (create_election.election ->> 'nomination_opens_at')::timestamptz,
+    (create_election.election ->> 'nomination_closes_at')::timestamptz,
+    create_election.election ->> 'election_code',
+    create_election.election ->> 'public_key'
+  )
+  returning * into v_election;
+
+  perform public.update_election_ballot(v_election.id, create_election.ballot);
+
+  perform public.append_audit_log(
+    'election_created',
+    format('Election "%s" created by %s with code %s', v_election.title, auth.uid(), v_election.election_code),
+    v_election.id
+  );
+  return v_election;
+end;
+$$;
+
+revoke all on function public.create_election(jsonb, jsonb) from public;
+grant execute on function public.create_election(jsonb, jsonb) to authenticated;
+
+-- Creation is logged by create_election() now
+create or replace function public.log_audit_event(
+  action text,
+  details text,
+  election_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed boolean;
+begin
+  v_allowed := case log_audit_event.action
+    when 'election_updated' then public.can('edit_election', log_audit_event.election_id)
+    when 'candidate_name_updated' then public.can('edit_election', log_audit_event.election_id)
+    when 'voter_codes_emailed' then public.can('manage_voters', log_audit_event.election_id)
+    when 'user_registered' then exists (
+      select 1 from public.voter_registrations r
+      where r.election_id = log_audit_event.election_id and lower(r.email) = lower(auth.email())
+    )
+    else false
+  end;
+
+  if not coalesce(v_allowed, false) then
+    raise exception 'You cannot record % entries', log_audit_event.action using errcode = 'insufficient_privilege';
+  end if;
+
+  perform public.append_audit_log(log_audit_event.action, log_audit_event.details, log_audit_event.election_id);
+end;
+$$;
@@ -0,0 +1,70 @@
+-- Reissuing a registered member's voter code.
+--
+-- reissue_voter_code() revoked the old code and minted a new one, but the
+-- member's registration still pointed at the revoked code, and the app
+-- votes with the registration's code unless the voter enters one. The
+-- registration now moves to the new code in the same transaction.
+
+create or replace function public.reissue_voter_code(
+  code text,
+  new_code text,
+  reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code public.voter_codes%rowtype;
+begin
+  select * into v_code
+  from public.voter_codes vc
+  where vc.code = reissue_voter_code.code
+  for update;
+
+  if not found then
+    raise exception 'Voter code not found' using errcode = 'no_data_found';
+  end if;
+  if not public.can('manage_voters', v_code.election_id) then
+    raise exception 'Only admins and the election''s officers can reissue voter codes' using errcode = 'insufficient_privilege';
+  end if;
+  if v_code.is_used then
+    raise exception 'This code has already been used to vote' using errcode = 'check_violation';
+  end if;
+  if exists (select 1 from public.voter_codes vc where vc.reissued_from = v_code.code) then
+    raise exception 'This code has already been reissued' using errcode = 'check_violation';
+  end if;
+
+  if v_code.revoked_at is null then
+    update public.voter_codes vc
+    set revoked_at = now(),
+        revoked_by = auth.uid(),
+        revoke_reason = coalesce(nullif(trim(reissue_voter_code.reason), ''), 'Reissued')
+    where vc.code = v_code.code;
+  end if;
+
+  insert into public.voter_codes (code, election_id, email, name, expires_at, reissued_from, created_by)
+  values (
+    reissue_voter_code.new_code,
+    v_code.election_id,
+    v_code.email,
+    v_code.name,
+    case when v_code.expires_at > now() then v_code.expires_at end,
+    v_code.code,
+    auth.uid()
+  );
+
+  -- The member's registration now holds the new code
+  update public.voter_registrations r
+  set voter_code_id = reissue_voter_code.new_code
+  where r.election_id = v_code.election_id and r.voter_code_id = v_code.code;
+
+  perform public.append_audit_log(
+    'voter_code_reissued',
+    format('Admin %s reissued voter code %s as %s%s', auth.uid(), v_code.code, reissue_voter_code.new_code,
+      case when v_code.email is not null then format(' for %s', v_code.email) else '' end),
+    v_code.election_id
+  );
+end;
+$$;
@@ -0,0 +1,129 @@
+-- Voter codes and registrations are only written through functions.
+--
+-- Election staff could insert, update and delete voter codes and
+-- registrations directly, so a code could be marked unused again or a
+-- registration approved without the audit log hearing of it. Staff now only
+-- read these tables. Every change goes through a security definer function
+-- that checks it and logs it: issue_voter_codes(), revoke_voter_code(),
+-- set_voter_code_expiry(), reissue_voter_code(), review_voter_registration(),
+-- cast_vote() and, new here, register_for_election() for members.
+
+-- Drop every policy that lets anyone write to the two tables, whatever it
+-- was named when it was created
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select p.policyname, p.tablename
+    from pg_policies p
+    where p.schemaname = 'public'
+      and p.tablename in ('voter_codes', 'voter_registrations')
+      and p.cmd <> 'SELECT'
+  loop
+    execute format('drop policy %I on public.%I', v_policy.policyname, v_policy.tablename);
+  end loop;
+end;
+$$;
+
+drop policy if exists "Election staff can read voter codes" on public.voter_codes;
+create policy "Election staff can read voter codes"
+  on public.voter_codes
+  for select
+  to authenticated
+  using (public.can('manage_voters', election_id));
+
+drop policy if exists "Election staff can read voter registrations" on public.voter_registrations;
+create policy "Election staff can read voter registrations"
+  on public.voter_registrations
+  for select
+  to authenticated
+  using (public.can('manage_voters', election_id));
+
+-- Register the current member for an election, under their own email.
+-- Registration must be open and the election not yet started.
+create or replace function public.register_for_election(
+  election_id uuid,
+  name text
+)
+returns public.voter_registrations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_registration public.voter_registrations%rowtype;
+begin
+  if auth.uid() is null or v_email is null then
+    raise exception 'Sign in to register for an election' using errcode = 'insufficient_privilege';
+  end if;
+  if coalesce(trim(register_for_election.name), '') = '' then
+    raise exception 'A name is needed to register' using errcode = 'check_violation';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = register_for_election.election_id
+  for share;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.status <> 'upcoming'
+    or v_election.registration_status <> 'open'
+    or now() >= v_election.start_date - make_interval(mins => v_election.registration_lead_minutes) then
+    raise exception 'Registration for this election is closed' using errcode = 'check_violation';
+  end if;
+  if exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = v_election.id and lower(r.email) = lower(v_email)
+  ) then
+    raise exception 'You have already registered for this election' using errcode = 'unique_violation';
+  end if;
+
+  insert into public.voter_registrations (election_id, name, email, status)
+  values (v_election.id, trim(register_for_election.name), v_email, 'pending')
+  returning * into v_registration;
+
+  perform public.append_audit_log(
+    'user_registered',
+    format('User %s (%s) registered for election "%s"', v_registration.name, v_email, v_election.title),
+    v_election.id
+  );
+  return v_registration;
+end;
+$$;
+
+revoke all on function public.register_for_election(uuid, text) from public;
+grant execute on function public.register_for_election(uuid, text) to authenticated;
+
+-- Registration is logged by register_for_election() now
+create or replace function public.log_audit_event(
+  action text,
+  details text,
+  election_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed boolean;
+begin
+  v_allowed := case log_audit_event.action
+    when 'election_updated' then public.can('edit_election', log_audit_event.election_id)
+    when 'candidate_name_updated' then public.can('edit_election', log_audit_event.election_id)
+    when 'voter_codes_emailed' then public.can('manage_voters', log_audit_event.election_id)
+    else false
+  end;
+
+  if not coalesce(v_allowed, false) then
+    raise exception 'You cannot record % entries', log_audit_event.action using errcode = 'insufficient_privilege';
+  end if;
+
+  perform public.append_audit_log(log_audit_event.action, log_audit_event.details, log_audit_event.election_id);
+end;
+$$;
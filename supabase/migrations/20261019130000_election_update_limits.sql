@@ -0,0 +1,87 @@
+-- Limits on changing elections, and candidate photos scoped to elections.
+--
+-- Election staff could update any column of their elections directly,
+-- including the status, the results and the public key, and a closed
+-- election could be reopened. Members may now only write the columns the
+-- edit form saves; the status, registration status and results are changed
+-- by set_election_status(), set_registration_status() and
+-- publish_election_results(), and elections are created by
+-- create_election(). An election's status only moves forward, for every
+-- writer: upcoming, then active, then closed.
+--
+-- Candidate photo uploads and deletes were allowed for anyone who could
+-- edit at least one election. Photos of an existing election's candidates
+-- are now stored under the election's id and only its editors may add or
+-- remove them. Photos outside an election's folder, uploaded while an
+-- election is being created, are left to admins, who alone create
+-- elections.
+
+revoke update on public.elections from anon, authenticated;
+grant update (
+  title, description, start_date, end_date, registration_lead_minutes,
+  nomination_opens_at, nomination_closes_at
+) on public.elections to authenticated;
+
+drop policy if exists "Admins can update elections" on public.elections;
+create policy "Admins can update elections"
+  on public.elections
+  for update
+  to authenticated
+  using (public.can('edit_election', id))
+  with check (public.can('edit_election', id));
+
+drop policy if exists "Admins can create elections" on public.elections;
+
+create or replace function public.enforce_election_status_order()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+    and (old.status = 'closed' or (old.status = 'active' and new.status = 'upcoming')) then
+    raise exception 'An election cannot go back from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists elections_enforce_status_order on public.elections;
+create trigger elections_enforce_status_order
+  before update of status on public.elections
+  for each row execute function public.enforce_election_status_order();
+
+-- Whether the current user may add or remove the candidate photo stored at
+-- object_name: editors of the election whose id is the first folder of the
+-- path, or admins
+create or replace function public.can_edit_candidate_photo(object_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can('create_election')
+    or coalesce((
+      select public.can('edit_election', folder.election_id::uuid)
+      from (select (storage.foldername(object_name))[1] as election_id) folder
+      where folder.election_id ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    ), false);
+$$;
+
+revoke all on function public.can_edit_candidate_photo(text) from public;
+grant execute on function public.can_edit_candidate_photo(text) to authenticated;
+
+drop policy if exists "Admins can upload candidate photos" on storage.objects;
+create policy "Admins can upload candidate photos"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (bucket_id = 'candidate-photos' and public.can_edit_candidate_photo(name));
+
+drop policy if exists "Admins can delete candidate photos" on storage.objects;
+create policy "Admins can delete candidate photos"
+  on storage.objects
+  for delete
+  to authenticated
+  using (bucket_id = 'candidate-photos' and public.can_edit_candidate_photo(name));
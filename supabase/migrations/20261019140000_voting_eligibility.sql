@@ -0,0 +1,57 @@
+-- Voting eligibility apart from staff roles, and fewer super-admins.
+--
+-- can('vote') was false for every admin, so admins, who are club members
+-- too, could not vote in any election. Whether a member may vote no longer
+-- depends on their club role: every active member may vote except in an
+-- election they are an officer of. src/lib/permissions.ts follows.
+--
+-- The election roles migration made every existing admin a super-admin,
+-- which gave all of them the power to grant and revoke the admin roles.
+-- They go back to being admins, apart from the longest-standing one, who
+-- stays a super-admin so someone can still manage the admin roles.
+
+create or replace function public.can(
+  action text,
+  election_id uuid default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with me as (
+    select p.role
+    from public.profiles p
+    where p.id = auth.uid() and p.deactivated_at is null
+  ),
+  assigned as (
+    select r.role
+    from public.election_roles r
+    where r.user_id = auth.uid()
+      and (can.election_id is null or r.election_id = can.election_id)
+  )
+  select case
+    when not exists (select 1 from me) then false
+    when can.action = 'vote' then can.election_id is null or not exists (select 1 from assigned where assigned.role = 'officer')
+    when can.action = 'manage_admins' then exists (select 1 from me where me.role = 'super_admin')
+    when exists (select 1 from me where me.role in ('admin', 'super_admin')) then true
+    when can.action in (
+      'view_admin_dashboard', 'edit_election', 'change_election_status', 'manage_voters',
+      'review_nominations', 'tally_election', 'view_turnout'
+    ) then exists (select 1 from assigned where assigned.role = 'officer')
+      or (can.action = 'view_turnout' and exists (select 1 from assigned where assigned.role = 'observer'))
+    else false
+  end;
+$$;
+
+update public.profiles p
+set role = 'admin', updated_at = now()
+where p.role = 'super_admin'
+  and p.id <> (
+    select first.id
+    from public.profiles first
+    where first.role = 'super_admin' and first.deactivated_at is null
+    order by first.created_at nulls last, first.id
+    limit 1
+  );
@@ -0,0 +1,134 @@
+-- The club's two-factor rule for every staff action, and recovery without
+-- touching Auth's tables.
+--
+-- With require_admin_2fa on, only the admin dashboard and election status
+-- changes asked for a second factor; a staff session at aal1 could still
+-- manage voters, tally or change members through the other functions and
+-- policies. can() now refuses every staff action to sessions that do not
+-- meet the rule. Voting is not a staff action and is unaffected.
+--
+-- Redeeming a recovery code deleted the member's rows from
+-- auth.mfa_factors, and a trigger on that table cleared their recovery
+-- codes. Auth's tables belong to Supabase Auth: hosted projects do not let
+-- migrations or functions write to them or add triggers to them, and
+-- deleting factors behind Auth's back leaves its sessions unaware.
+-- redeem_recovery_code() now only spends the code; the
+-- redeem-recovery-code edge function then removes the factors through the
+-- Auth admin API. clear_recovery_codes() is called once a member's factors
+-- are gone, by that function or by the app after the member turns two-factor
+-- authentication off.
+
+create or replace function public.can(
+  action text,
+  election_id uuid default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with me as (
+    select p.role
+    from public.profiles p
+    where p.id = auth.uid() and p.deactivated_at is null
+  ),
+  assigned as (
+    select r.role
+    from public.election_roles r
+    where r.user_id = auth.uid()
+      and (can.election_id is null or r.election_id = can.election_id)
+  )
+  select case
+    when not exists (select 1 from me) then false
+    when can.action = 'vote' then can.election_id is null or not exists (select 1 from assigned where assigned.role = 'officer')
+    -- Everything else is a staff action
+    when not public.meets_admin_two_factor() then false
+    when can.action = 'manage_admins' then exists (select 1 from me where me.role = 'super_admin')
+    when exists (select 1 from me where me.role in ('admin', 'super_admin')) then true
+    when can.action in (
+      'view_admin_dashboard', 'edit_election', 'change_election_status', 'manage_voters',
+      'review_nominations', 'tally_election', 'view_turnout'
+    ) then exists (select 1 from assigned where assigned.role = 'officer')
+      or (can.action = 'view_turnout' and exists (select 1 from assigned where assigned.role = 'observer'))
+    else false
+  end;
+$$;
+
+-- Spends one of the current user's recovery codes. Returns false when the
+-- code is unknown or already used. The caller removes the member's factors.
+create or replace function public.redeem_recovery_code(
+  code_hash text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to use a recovery code' using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.mfa_recovery_codes c
+  set used_at = now()
+  where c.user_id = auth.uid()
+    and c.code_hash = redeem_recovery_code.code_hash
+    and c.used_at is null
+  returning c.id into v_code_id;
+
+  if v_code_id is null then
+    return false;
+  end if;
+
+  perform public.append_audit_log(
+    'recovery_code_used',
+    format('User %s signed in with a recovery code; their authenticator is being removed', auth.uid())
+  );
+  return true;
+end;
+$$;
+
+-- Local stacks may still have the trigger; checking first avoids needing
+-- to own auth.mfa_factors where it was never created
+do $$
+begin
+  if exists (
+    select 1 from pg_trigger t
+    where t.tgname = 'clear_recovery_codes' and t.tgrelid = 'auth.mfa_factors'::regclass
+  ) then
+    drop trigger clear_recovery_codes on auth.mfa_factors;
+  end if;
+end;
+$$;
+
+drop function if exists public.clear_recovery_codes();
+
+-- Removes the current user's recovery codes once they have no authenticator
+-- left. The codes only ever unlock the member's own account, so dropping
+-- them early can only inconvenience the member who asked.
+create or replace function public.clear_recovery_codes()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to manage recovery codes' using errcode = 'insufficient_privilege';
+  end if;
+
+  delete from public.mfa_recovery_codes c where c.user_id = auth.uid();
+  if found then
+    perform public.append_audit_log(
+      'two_factor_disabled',
+      format('Two-factor authentication was turned off for user %s', auth.uid())
+    );
+  end if;
+end;
+$$;
+
+revoke all on function public.clear_recovery_codes() from public;
+grant execute on function public.clear_recovery_codes() to authenticated;
@@ -0,0 +1,88 @@
+-- Login events record where the request came from, not what the browser
+-- says about itself.
+--
+-- record_login_event() took the user agent as an argument and let anyone,
+-- anonymous visitors included, record failed sign-ins for any email, at
+-- most ten a minute per email. One visitor could fill every member's
+-- history with failures from made-up devices. The user agent is now read
+-- from the request's own User-Agent header and the client's address is
+-- stored with each event. Failed sign-ins are also limited to twenty a
+-- minute from one address, so one visitor cannot spread failures over
+-- many emails.
+
+alter table public.login_events add column if not exists ip_address text;
+
+create index if not exists login_events_ip_address_created_at_idx
+  on public.login_events (ip_address, created_at desc)
+  where event = 'sign_in_failed';
+
+drop function if exists public.record_login_event(text, text, text);
+
+create or replace function public.record_login_event(
+  event text,
+  email text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_session_id uuid;
+  v_email text;
+  v_ip text := public.request_ip();
+  v_user_agent text := left(nullif(current_setting('request.headers', true), '')::json ->> 'user-agent', 512);
+begin
+  if record_login_event.event not in ('sign_in', 'sign_out', 'sign_in_failed', 'token_refreshed') then
+    raise exception 'Unknown login event %', record_login_event.event using errcode = 'check_violation';
+  end if;
+
+  if record_login_event.event = 'sign_in_failed' then
+    v_email := lower(trim(record_login_event.email));
+    if coalesce(v_email, '') = '' then
+      raise exception 'A failed sign-in needs the email that was tried' using errcode = 'check_violation';
+    end if;
+    -- Anyone can report a failed sign-in, so at most ten a minute are
+    -- recorded for one email and twenty a minute from one address.
+    -- Requests with no known address share one allowance.
+    if exists (
+      select 1 from public.login_events e
+      where e.email = v_email and e.event = 'sign_in_failed'
+        and e.created_at > now() - interval '1 minute'
+      having count(*) >= 10
+    ) or exists (
+      select 1 from public.login_events e
+      where e.ip_address = coalesce(v_ip, '') and e.event = 'sign_in_failed'
+        and e.created_at > now() - interval '1 minute'
+      having count(*) >= 20
+    ) then
+      return;
+    end if;
+
+    insert into public.login_events (user_id, email, event, user_agent, ip_address)
+    select u.id, v_email, 'sign_in_failed', v_user_agent, coalesce(v_ip, '')
+    from (select 1) as one
+    left join auth.users u on lower(u.email) = v_email;
+    return;
+  end if;
+
+  if auth.uid() is null then
+    raise exception 'Sign in to record a login event' using errcode = 'insufficient_privilege';
+  end if;
+
+  v_session_id := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+  if record_login_event.event = 'sign_in' and exists (
+    select 1 from public.login_events e
+    where e.session_id = v_session_id and e.event = 'sign_in'
+  ) then
+    return;
+  end if;
+
+  insert into public.login_events (user_id, email, event, session_id, user_agent, ip_address)
+  values (auth.uid(), auth.jwt() ->> 'email', record_login_event.event, v_session_id,
+    v_user_agent, v_ip);
+end;
+$$;
+
+revoke all on function public.record_login_event(text, text) from public;
+grant execute on function public.record_login_event(text, text) to anon, authenticated;
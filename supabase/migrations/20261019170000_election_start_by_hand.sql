@@ -0,0 +1,63 @@
+-- Elections cannot be started by hand before their start date.
+--
+-- set_election_status() let staff make an election active at any time, but
+-- cast_vote() refuses ballots before the start date, and the start date is
+-- locked once the election leaves upcoming. An election started early took
+-- no ballots until its start date and could not be corrected. It now stays
+-- upcoming until the start date; advance_election_lifecycle() still starts
+-- it then.
+
+create or replace function public.set_election_status(
+  election_id uuid,
+  status text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+begin
+  if not public.can('change_election_status', set_election_status.election_id) then
+    raise exception 'Only admins and the election''s officers can change its status' using errcode = 'insufficient_privilege';
+  end if;
+  if not public.meets_admin_two_factor() then
+    raise exception 'Two-factor authentication is required to change an election''s status' using errcode = 'insufficient_privilege';
+  end if;
+  if set_election_status.status not in ('upcoming', 'active', 'closed') then
+    raise exception 'Unknown election status %', set_election_status.status using errcode = 'check_violation';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = set_election_status.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.status = set_election_status.status then
+    return v_election.id;
+  end if;
+  if set_election_status.status = 'active' and v_election.start_date > now() then
+    raise exception 'The election cannot start before %', v_election.start_date using errcode = 'check_violation';
+  end if;
+
+  update public.elections e
+  set status = set_election_status.status
+  where e.id = v_election.id;
+
+  perform public.append_audit_log(
+    case set_election_status.status
+      when 'active' then 'election_started'
+      when 'closed' then 'election_closed'
+      else 'election_updated'
+    end,
+    format('Election %s status changed from %s to %s by %s',
+      v_election.id, v_election.status, set_election_status.status, auth.uid()),
+    v_election.id
+  );
+  return v_election.id;
+end;
+$$;
@@ -0,0 +1,285 @@
+-- Members who have turned on two-factor authentication are only signed in
+-- once they have used their authenticator app.
+--
+-- The app hid a session that had not yet passed the second step, but the
+-- database did not: a password alone opened every table and function the
+-- member could use, and for staff every staff action whenever the club's
+-- require_admin_2fa rule was off. A session now counts only once it is at
+-- aal2 if the member has a verified factor. can() and is_admin() refuse
+-- other sessions, the functions members call for themselves check it, and
+-- a restrictive policy on every table holding member or election data
+-- applies it to reads and writes. Elections, their contests and
+-- candidates and the club's settings are left out: the app reads them
+-- before the second step, and changing them already goes through can().
+--
+-- Recovery codes are redeemed at aal1, so redeem_recovery_code() and
+-- clear_recovery_codes() do not check; once the factors are removed the
+-- session meets the rule again.
+
+-- Whether the current session has passed the member's own second step:
+-- aal2, or no verified factor to pass
+create or replace function public.session_meets_two_factor()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    or not exists (
+      select 1 from auth.mfa_factors f
+      where f.user_id = auth.uid() and f.status = 'verified'
+    );
+$$;
+
+revoke all on function public.session_meets_two_factor() from public;
+grant execute on function public.session_meets_two_factor() to authenticated;
+
+create or replace function public.can(
+  action text,
+  election_id uuid default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with me as (
+    select p.role
+    from public.profiles p
+    where p.id = auth.uid() and p.deactivated_at is null
+  ),
+  assigned as (
+    select r.role
+    from public.election_roles r
+    where r.user_id = auth.uid()
+      and (can.election_id is null or r.election_id = can.election_id)
+  )
+  select case
+    when not exists (select 1 from me) then false
+    when not public.session_meets_two_factor() then false
+    when can.action = 'vote' then can.election_id is null or not exists (select 1 from assigned where assigned.role = 'officer')
+    -- Everything else is a staff action
+    when not public.meets_admin_two_factor() then false
+    when can.action = 'manage_admins' then exists (select 1 from me where me.role = 'super_admin')
+    when exists (select 1 from me where me.role in ('admin', 'super_admin')) then true
+    when can.action in (
+      'view_admin_dashboard', 'edit_election', 'change_election_status', 'manage_voters',
+      'review_nominations', 'tally_election', 'view_turnout'
+    ) then exists (select 1 from assigned where assigned.role = 'officer')
+      or (can.action = 'view_turnout' and exists (select 1 from assigned where assigned.role = 'observer'))
+    else false
+  end;
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.session_meets_two_factor()
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.role in ('admin', 'super_admin'));
+$$;
+
+do $$
+declare
+  v_table text;
+begin
+  for v_table in
+    select c.relname
+    from pg_class c
+    join pg_namespace n on n.oid = c.relnamespace
+    where n.nspname = 'public' and c.relkind = 'r' and c.relrowsecurity
+      and c.relname not in ('elections', 'contests', 'candidates', 'club_settings')
+  loop
+    execute format('drop policy if exists "Sessions must pass two-factor authentication" on public.%I', v_table);
+    execute format(
+      'create policy "Sessions must pass two-factor authentication" on public.%I as restrictive for all to authenticated '
+      'using (public.session_meets_two_factor()) with check (public.session_meets_two_factor())',
+      v_table
+    );
+  end loop;
+end;
+$$;
+
+create or replace function public.register_for_election(
+  election_id uuid,
+  name text
+)
+returns public.voter_registrations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := auth.email();
+  v_election public.elections%rowtype;
+  v_registration public.voter_registrations%rowtype;
+begin
+  if auth.uid() is null or v_email is null then
+    raise exception 'Sign in to register for an election' using errcode = 'insufficient_privilege';
+  end if;
+  if not public.session_meets_two_factor() then
+    raise exception 'Verify a code from your authenticator app first' using errcode = 'insufficient_privilege';
+  end if;
+  if coalesce(trim(register_for_election.name), '') = '' then
+    raise exception 'A name is needed to register' using errcode = 'check_violation';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = register_for_election.election_id
+  for share;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.status <> 'upcoming'
+    or v_election.registration_status <> 'open'
+    or now() >= v_election.start_date - make_interval(mins => v_election.registration_lead_minutes) then
+    raise exception 'Registration for this election is closed' using errcode = 'check_violation';
+  end if;
+  if exists (
+    select 1 from public.voter_registrations r
+    where r.election_id = v_election.id and lower(r.email) = lower(v_email)
+  ) then
+    raise exception 'You have already registered for this election' using errcode = 'unique_violation';
+  end if;
+
+  insert into public.voter_registrations (election_id, name, email, status)
+  values (v_election.id, trim(register_for_election.name), v_email, 'pending')
+  returning * into v_registration;
+
+  perform public.append_audit_log(
+    'user_registered',
+    format('User %s (%s) registered for election "%s"', v_registration.name, v_email, v_election.title),
+    v_election.id
+  );
+  return v_registration;
+end;
+$$;
+
+create or replace function public.submit_nomination(
+  contest_id uuid,
+  nominee_name text,
+  statement text,
+  seconder_email text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_contest public.contests%rowtype;
+  v_election public.elections%rowtype;
+  v_seconder_id uuid;
+  v_nomination_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to submit a nomination' using errcode = 'insufficient_privilege';
+  end if;
+  if not public.session_meets_two_factor() then
+    raise exception 'Verify a code from your authenticator app first' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_contest from public.contests c where c.id = submit_nomination.contest_id;
+  if not found then
+    raise exception 'Contest not found' using errcode = 'no_data_found';
+  end if;
+  if v_contest.voting_method = 'proposition' then
+    raise exception 'Propositions do not take nominations' using errcode = 'check_violation';
+  end if;
+
+  select * into v_election from public.elections e where e.id = v_contest.election_id;
+  if v_election.status <> 'upcoming'
+    or v_election.nomination_opens_at is null
+    or now() < v_election.nomination_opens_at
+    or now() >= v_election.nomination_closes_at then
+    raise exception 'Nominations for this election are not open' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(trim(submit_nomination.nominee_name), '') = '' or coalesce(trim(submit_nomination.statement), '') = '' then
+    raise exception 'A nomination needs your name and a statement' using errcode = 'check_violation';
+  end if;
+
+  select u.id into v_seconder_id
+  from auth.users u
+  where lower(u.email) = lower(trim(submit_nomination.seconder_email));
+
+  if v_seconder_id is null then
+    raise exception 'No member is registered with the seconder''s email address' using errcode = 'no_data_found';
+  end if;
+  if v_seconder_id = v_user_id then
+    raise exception 'You cannot second your own nomination' using errcode = 'check_violation';
+  end if;
+
+  insert into public.nominations (
+    election_id, contest_id, nominee_id, nominee_name, statement, seconder_email, seconder_id
+  )
+  values (
+    v_election.id,
+    v_contest.id,
+    v_user_id,
+    trim(submit_nomination.nominee_name),
+    trim(submit_nomination.statement),
+    lower(trim(submit_nomination.seconder_email)),
+    v_seconder_id
+  )
+  returning id into v_nomination_id;
+
+  perform public.append_audit_log(
+    'nomination_submitted',
+    format('Nomination %s submitted by %s for contest %s', v_nomination_id, v_user_id, v_contest.id),
+    v_election.id
+  );
+
+  return v_nomination_id;
+end;
+$$;
+
+create or replace function public.second_nomination(
+  nomination_id uuid,
+  second boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_nomination public.nominations%rowtype;
+begin
+  if not public.session_meets_two_factor() then
+    raise exception 'Verify a code from your authenticator app first' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_nomination
+  from public.nominations n
+  where n.id = second_nomination.nomination_id
+  for update;
+
+  if not found or v_nomination.seconder_id <> auth.uid() then
+    raise exception 'Nomination not found' using errcode = 'no_data_found';
+  end if;
+  if v_nomination.status <> 'awaiting_seconder' then
+    raise exception 'This nomination is no longer waiting for a seconder' using errcode = 'check_violation';
+  end if;
+
+  update public.nominations
+  set status = case when second_nomination.second then 'pending' else 'declined' end,
+      seconded_at = case when second_nomination.second then now() end
+  where id = v_nomination.id;
+
+  perform public.append_audit_log(
+    case when second_nomination.second then 'nomination_seconded' else 'nomination_declined' end,
+    format('Nomination %s %s by %s', v_nomination.id,
+      case when second_nomination.second then 'seconded' else 'declined' end, auth.uid()),
+    v_nomination.election_id
+  );
+end;
+$$;
@@ -0,0 +1,11 @@
+-- Members' sessions are listed and ended by the manage-sessions edge
+-- function instead of the database.
+--
+-- list_sessions() read auth.sessions and revoke_session() deleted from it.
+-- Auth's tables belong to Supabase Auth, and deleting sessions behind its
+-- back is what redeem_recovery_code() stopped doing for factors. The edge
+-- function works sessions out from login_events and ends them through the
+-- Auth admin API.
+
+drop function if exists public.list_sessions(uuid);
+drop function if exists public.revoke_session(uuid);
@@ -0,0 +1,53 @@
+-- Voters check a code through check_voter_code() instead of reading
+-- voter_codes.
+--
+-- The election access form read the voter's code from voter_codes, but
+-- only election staff may read that table, so every voter's code came back
+-- as invalid, or was found through an older policy that let anyone read
+-- every code. Those policies are dropped, and check_voter_code() tells the
+-- voter only what state their code is in.
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select p.policyname
+    from pg_policies p
+    where p.schemaname = 'public'
+      and p.tablename = 'voter_codes'
+      and p.cmd = 'SELECT'
+      and p.permissive = 'PERMISSIVE'
+      and p.policyname <> 'Election staff can read voter codes'
+  loop
+    execute format('drop policy %I on public.voter_codes', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+-- 'valid', 'used', 'revoked', 'expired', or 'invalid' for a code the
+-- election does not have
+create or replace function public.check_voter_code(
+  code text,
+  election_id uuid
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case
+      when c.is_used then 'used'
+      when c.revoked_at is not null then 'revoked'
+      when c.expires_at is not null and c.expires_at <= now() then 'expired'
+      else 'valid'
+    end
+    from public.voter_codes c
+    where c.code = check_voter_code.code and c.election_id = check_voter_code.election_id
+  ), 'invalid');
+$$;
+
+revoke all on function public.check_voter_code(text, uuid) from public;
+grant execute on function public.check_voter_code(text, uuid) to authenticated;
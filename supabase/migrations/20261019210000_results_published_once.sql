@@ -0,0 +1,63 @@
+-- Results are published once, and only for the ballots the server holds.
+--
+-- publish_election_results() overwrote an election's results on every
+-- call, so a later call from any officer could replace published results
+-- with any JSON, and the audit entry took its ballot count from that JSON.
+-- Published results can no longer be replaced, and the results must count
+-- exactly the election's ballots.
+
+create or replace function public.publish_election_results(
+  election_id uuid,
+  results jsonb
+)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+  v_published_at timestamptz := now();
+  v_ballot_count integer;
+begin
+  if not public.can('tally_election', publish_election_results.election_id) then
+    raise exception 'Only admins and the election''s officers can tally it' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_election
+  from public.elections e
+  where e.id = publish_election_results.election_id
+  for update;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+  if v_election.status <> 'closed' then
+    raise exception 'Results can only be published once the election has closed' using errcode = 'check_violation';
+  end if;
+  if v_election.results_published_at is not null then
+    raise exception 'Results for this election were already published at %', v_election.results_published_at
+      using errcode = 'check_violation';
+  end if;
+
+  select count(*) into v_ballot_count from public.votes v where v.election_id = v_election.id;
+  if publish_election_results.results ->> 'totalBallots' is distinct from v_ballot_count::text then
+    raise exception 'The results count % ballots, but the election has %',
+      coalesce(publish_election_results.results ->> 'totalBallots', 'no'), v_ballot_count
+      using errcode = 'check_violation';
+  end if;
+
+  update public.elections e
+  set results = publish_election_results.results,
+      results_published_at = v_published_at
+  where e.id = v_election.id;
+
+  perform public.append_audit_log(
+    'election_tallied',
+    format('Admin %s decrypted %s ballots and published results for election "%s"',
+      auth.uid(), v_ballot_count, v_election.title),
+    v_election.id
+  );
+  return v_published_at;
+end;
+$$;
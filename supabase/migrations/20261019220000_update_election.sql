@@ -0,0 +1,56 @@
+-- Editing an upcoming election in one transaction.
+--
+-- The app updated the election's row and then replaced its ballot with a
+-- second request, so a failure in between saved the new title and dates
+-- with the old ballot. update_election() does both, like create_election(),
+-- and either all of the edit is saved or none.
+
+-- election holds the elections columns an editor may change: title,
+-- description, start_date, end_date, registration_lead_minutes,
+-- nomination_opens_at and nomination_closes_at. ballot is as for
+-- update_election_ballot(), which refuses it once the election has started.
+create or replace function public.update_election(
+  election_id uuid,
+  election jsonb,
+  ballot jsonb
+)
+returns public.elections
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_election public.elections%rowtype;
+begin
+  if not public.can('edit_election', update_election.election_id) then
+    raise exception 'Only admins and the election''s officers can edit it' using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.elections e
+  set title = update_election.election ->> 'title',
+      description = update_election.election ->> 'description',
+      start_date = (update_election.election ->> 'start_date')::timestamptz,
+      end_date = (update_election.election ->> 'end_date')::timestamptz,
+      registration_lead_minutes = coalesce((update_election.election ->> 'registration_lead_minutes')::integer, 0),
+      nomination_opens_at = (update_election.election ->> 'nomination_opens_at')::timestamptz,
+      nomination_closes_at = (update_election.election ->> 'nomination_closes_at')::timestamptz
+  where e.id = update_election.election_id
+  returning * into v_election;
+
+  if not found then
+    raise exception 'Election not found' using errcode = 'no_data_found';
+  end if;
+
+  perform public.update_election_ballot(v_election.id, update_election.ballot);
+
+  perform public.append_audit_log(
+    'election_updated',
+    format('Election %s edited by %s', v_election.id, auth.uid()),
+    v_election.id
+  );
+  return v_election;
+end;
+$$;
+
+revoke all on function public.update_election(uuid, jsonb, jsonb) from public;
+grant execute on function public.update_election(uuid, jsonb, jsonb) to authenticated;
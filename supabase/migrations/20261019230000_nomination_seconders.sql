@@ -0,0 +1,151 @@
+-- Submitting a nomination no longer tells the nominee whether their
+-- seconder's email address has an account.
+--
+-- submit_nomination() looked the seconder up in auth.users and refused
+-- addresses with no account, so any member could find out which addresses
+-- belonged to members. It now records the nomination for the address
+-- without looking it up. The seconder is whoever signs in with that
+-- address and answers, and seconder_id is filled in then. A member may
+-- submit at most five nominations an hour.
+
+alter table public.nominations alter column seconder_id drop not null;
+
+drop policy if exists "Members can read their nominations" on public.nominations;
+create policy "Members can read their nominations"
+  on public.nominations
+  for select
+  to authenticated
+  using (
+    nominee_id = auth.uid()
+    or seconder_id = auth.uid()
+    or lower(seconder_email) = lower(auth.email())
+    or public.can('review_nominations', election_id)
+  );
+
+create or replace function public.submit_nomination(
+  contest_id uuid,
+  nominee_name text,
+  statement text,
+  seconder_email text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_seconder_email text := lower(trim(submit_nomination.seconder_email));
+  v_contest public.contests%rowtype;
+  v_election public.elections%rowtype;
+  v_nomination_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to submit a nomination' using errcode = 'insufficient_privilege';
+  end if;
+  if not public.session_meets_two_factor() then
+    raise exception 'Verify a code from your authenticator app first' using errcode = 'insufficient_privilege';
+  end if;
+  if exists (
+    select 1 from public.nominations n
+    where n.nominee_id = v_user_id and n.submitted_at > now() - interval '1 hour'
+    having count(*) >= 5
+  ) then
+    raise exception 'You have submitted too many nominations in the last hour; try again later' using errcode = 'check_violation';
+  end if;
+
+  select * into v_contest from public.contests c where c.id = submit_nomination.contest_id;
+  if not found then
+    raise exception 'Contest not found' using errcode = 'no_data_found';
+  end if;
+  if v_contest.voting_method = 'proposition' then
+    raise exception 'Propositions do not take nominations' using errcode = 'check_violation';
+  end if;
+
+  select * into v_election from public.elections e where e.id = v_contest.election_id;
+  if v_election.status <> 'upcoming'
+    or v_election.nomination_opens_at is null
+    or now() < v_election.nomination_opens_at
+    or now() >= v_election.nomination_closes_at then
+    raise exception 'Nominations for this election are not open' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(trim(submit_nomination.nominee_name), '') = '' or coalesce(trim(submit_nomination.statement), '') = '' then
+    raise exception 'A nomination needs your name and a statement' using errcode = 'check_violation';
+  end if;
+
+  if coalesce(v_seconder_email, '') !~ '^[^@\s]+@[^@\s]+$' then
+    raise exception 'A nomination needs your seconder''s email address' using errcode = 'check_violation';
+  end if;
+  if v_seconder_email = lower(auth.email()) then
+    raise exception 'You cannot second your own nomination' using errcode = 'check_violation';
+  end if;
+
+  insert into public.nominations (
+    election_id, contest_id, nominee_id, nominee_name, statement, seconder_email, seconder_id
+  )
+  values (
+    v_election.id,
+    v_contest.id,
+    v_user_id,
+    trim(submit_nomination.nominee_name),
+    trim(submit_nomination.statement),
+    v_seconder_email,
+    null
+  )
+  returning id into v_nomination_id;
+
+  perform public.append_audit_log(
+    'nomination_submitted',
+    format('Nomination %s submitted by %s for contest %s', v_nomination_id, v_user_id, v_contest.id),
+    v_election.id
+  );
+
+  return v_nomination_id;
+end;
+$$;
+
+-- The seconder confirms (second = true) or declines the nomination. They
+-- are the member signed in with the address the nominee gave.
+create or replace function public.second_nomination(
+  nomination_id uuid,
+  second boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_nomination public.nominations%rowtype;
+begin
+  if not public.session_meets_two_factor() then
+    raise exception 'Verify a code from your authenticator app first' using errcode = 'insufficient_privilege';
+  end if;
+
+  select * into v_nomination
+  from public.nominations n
+  where n.id = second_nomination.nomination_id
+  for update;
+
+  if not found or v_nomination.seconder_email is distinct from lower(auth.email()) then
+    raise exception 'Nomination not found' using errcode = 'no_data_found';
+  end if;
+  if v_nomination.status <> 'awaiting_seconder' then
+    raise exception 'This nomination is no longer waiting for a seconder' using errcode = 'check_violation';
+  end if;
+
+  update public.nominations
+  set status = case when second_nomination.second then 'pending' else 'declined' end,
+      seconder_id = auth.uid(),
+      seconded_at = case when second_nomination.second then now() end
+  where id = v_nomination.id;
+
+  perform public.append_audit_log(
+    case when second_nomination.second then 'nomination_seconded' else 'nomination_declined' end,
+    format('Nomination %s %s by %s', v_nomination.id,
+      case when second_nomination.second then 'seconded' else 'declined' end, auth.uid()),
+    v_nomination.election_id
+  );
+end;
+$$;
@@ -1,22 +1,209 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import type { IncomingMessage } from "http";
+import { randomUUID } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
-// https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const LOOPBACK_ADDRESS = /^(127\.|::1$|::ffff:127\.)/;
+
+// The dev stand-ins below have no authentication, so they only answer this
+// machine, and the server only listens on localhost while one is enabled
+const fromThisMachine = (req: IncomingMessage): boolean => LOOPBACK_ADDRESS.test(req.socket.remoteAddress ?? "");
+
+// A request body of at most maxBytes. Resolves to null as soon as the body
+// turns out to be larger, without reading the rest of it.
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      resolve(null);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.removeAllListeners("data");
+        req.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+// Development stand-in for the candidate-photos storage bucket. Uploads are
+// written to .dev-storage/candidate-photos and served back from
+// /dev-storage/candidate-photos/<file>. Installed when
+// VITE_CANDIDATE_PHOTO_STORAGE=local.
+const localPhotoStorage = (): Plugin => ({
+  name: "local-photo-storage",
+  apply: "serve",
+  configureServer(server) {
+    const route = "/dev-storage/candidate-photos";
+    const directory = path.resolve(__dirname, ".dev-storage/candidate-photos");
+    const maxBytes = 2 * 1024 * 1024;
+
+    server.middlewares.use(route, async (req, res, next) => {
+      if (!fromThisMachine(req)) {
+        res.statusCode = 403;
+        res.end("Local photo storage only answers this machine");
+        return;
+      }
+
+      const name = decodeURIComponent((req.url ?? "/").split("?")[0].replace(/^\//, ""));
+
+      if (req.method === "POST" && name === "") {
+        const extension = PHOTO_EXTENSIONS[req.headers["content-type"] ?? ""];
+        if (!extension) {
+          res.statusCode = 415;
+          res.end("Unsupported image type");
+          return;
+        }
+
+        const body = await readBody(req, maxBytes).catch(() => null);
+        if (!body) {
+          res.statusCode = 413;
+          res.setHeader("Connection", "close");
+          res.end("Photo too large", () => req.destroy());
+          return;
+        }
+        const file = `${randomUUID()}.${extension}`;
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(path.join(directory, file), body);
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ url: `${route}/${file}` }));
+        return;
+      }
+
+      // Only plain file names, so requests cannot reach outside the directory
+      if (!/^[\w-]+\.(jpg|png|webp|gif)$/.test(name)) return next();
+      const file = path.join(directory, name);
+
+      if (req.method === "DELETE") {
+        fs.rm(file, { force: true }, () => {
+          res.statusCode = 204;
+          res.end();
+        });
+        return;
+      }
+
+      if (req.method === "GET" && fs.existsSync(file)) {
+        const type = Object.keys(PHOTO_EXTENSIONS).find(key => PHOTO_EXTENSIONS[key] === path.extname(name).slice(1));
+        res.setHeader("Content-Type", type ?? "application/octet-stream");
+        fs.createReadStream(file).pipe(res);
+        return;
+      }
+
+      next();
+    });
   },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
-    },
+});
+
+// Development and test stand-in for the SMTP mail provider. Each message
+// POSTed to /dev-outbox is written to .dev-storage/outbox as a JSON file;
+// GET /dev-outbox lists them, oldest first, and DELETE /dev-outbox empties
+// the outbox. Installed when VITE_EMAIL_PROVIDER=outbox.
+const localOutbox = (): Plugin => ({
+  name: "local-outbox",
+  apply: "serve",
+  configureServer(server) {
+    const directory = path.resolve(__dirname, ".dev-storage/outbox");
+    const maxBytes = 1024 * 1024;
+
+    server.middlewares.use("/dev-outbox", async (req, res, next) => {
+      if ((req.url ?? "/").split("?")[0] !== "/") return next();
+
+      if (!fromThisMachine(req)) {
+        res.statusCode = 403;
+        res.end("The local outbox only answers this machine");
+        return;
+      }
+
+      if (req.method === "POST") {
+        const body = await readBody(req, maxBytes).catch(() => null);
+        if (!body) {
+          res.statusCode = 413;
+          res.setHeader("Connection", "close");
+          res.end("Message too large", () => req.destroy());
+          return;
+        }
+        let message: Record<string, unknown>;
+        try {
+          message = JSON.parse(body.toString("utf8"));
+        } catch {
+          message = {};
+        }
+        if (typeof message.to !== "string" || typeof message.subject !== "string" || typeof message.text !== "string") {
+          res.statusCode = 400;
+          res.end("A message needs to, subject and text");
+          return;
+        }
+        const sentAt = new Date().toISOString();
+        const id = randomUUID();
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(
+          path.join(directory, `${sentAt.replace(/[:.]/g, "-")}-${id}.json`),
+          JSON.stringify({ id, sentAt, to: message.to, subject: message.subject, text: message.text, html: message.html }, null, 2),
+        );
+        res.statusCode = 202;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ id }));
+        return;
+      }
+
+      if (req.method === "GET") {
+        const files = fs.existsSync(directory) ? fs.readdirSync(directory).filter(file => file.endsWith(".json")).sort() : [];
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(files.map(file => JSON.parse(fs.readFileSync(path.join(directory, file), "utf8")))));
+        return;
+      }
+
+      if (req.method === "DELETE") {
+        fs.rmSync(directory, { recursive: true, force: true });
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+
+      next();
+    });
   },
-}));
+});
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
+  const photoStorage = env.VITE_CANDIDATE_PHOTO_STORAGE === "local";
+  const outbox = env.VITE_EMAIL_PROVIDER === "outbox";
+
+  return {
+    server: {
+      host: photoStorage || outbox ? "localhost" : "::",
+      port: 8080,
+    },
+    plugins: [
+      react(),
+      photoStorage && localPhotoStorage(),
+      outbox && localOutbox(),
+      mode === 'development' &&
+      componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+  };
+});